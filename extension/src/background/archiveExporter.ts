@@ -0,0 +1,334 @@
+// Archive Exporter for Canvas Scraper
+// Exports every local store (snapshots, structured items, extracted text, files) as a single zip download
+
+import { storageManager } from './storageManager';
+import type { HtmlSnapshot, StructuredData, ExtractedText, BlobData } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import type { StudentIndex } from './courseDiscovery';
+import { offscreenClient } from './offscreenClient';
+import { ZipWriter } from './zipWriter';
+
+export const ARCHIVE_FORMAT = 'canvas-scraper-archive';
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+export type ArchiveExportPhase = 'preparing' | 'snapshots' | 'files' | 'structured' | 'extractedText' | 'finalizing' | 'complete' | 'failed';
+
+export interface ArchiveExportProgress {
+  archiveId: string;
+  phase: ArchiveExportPhase;
+  processed: number; // Records handled in the current phase
+  total: number;
+  bytesWritten: number;
+  startedAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+export interface ArchiveExportResult {
+  success: boolean;
+  archiveId: string;
+  fileName: string;
+  entries: number;
+  bytes: number;
+  downloadId?: number;
+  error?: string;
+}
+
+// Snapshot and blob records are listed without their payload, which lives at `path`
+export type ArchivedSnapshot = Omit<HtmlSnapshot, 'html'> & { path: string };
+export type ArchivedBlob = Omit<BlobData, 'data'> & { path: string };
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  extensionVersion: string;
+  schemaVersion: number | null;
+  canvasHost: string | null;
+  courses: Array<{ id: string; name: string; folder: string }>;
+  stores: Record<'htmlSnapshots' | 'structured' | 'extractedText' | 'blobs', { count: number; path: string }>;
+  studentIndexPath: string;
+  storageSchemaPath: string;
+}
+
+export interface ArchiveExporterConfig {
+  enableLogging: boolean;
+  folder: string; // Subfolder of the downloads directory
+  chunkSize: number; // Bytes sent to the offscreen document per message
+  progressInterval: number; // Minimum ms between progress broadcasts
+}
+
+const STORE_PATHS = {
+  htmlSnapshots: 'data/htmlSnapshots.json',
+  structured: 'data/structured.json',
+  extractedText: 'data/extractedText.json',
+  blobs: 'data/blobs.json'
+};
+
+// Formats that are already compressed gain nothing from deflate
+export const STORED_MIME_PATTERN = /^(image|video|audio)\/|zip|compressed|x-7z|x-rar|gzip/;
+
+export class ArchiveExporter {
+  private config: ArchiveExporterConfig;
+  private progress: ArchiveExportProgress | null = null;
+  private lastBroadcast = 0;
+  private running = false;
+
+  constructor(config?: Partial<ArchiveExporterConfig>) {
+    this.config = {
+      enableLogging: true,
+      folder: 'canvas-scraper',
+      chunkSize: 4 * 1024 * 1024,
+      progressInterval: 500,
+      ...config
+    };
+  }
+
+  getProgress(): ArchiveExportProgress | null {
+    return this.progress;
+  }
+
+  // Build the archive in the offscreen document and hand it to chrome.downloads
+  async exportArchive(): Promise<ArchiveExportResult> {
+    const startedAt = Date.now();
+    const archiveId = `archive_${startedAt}`;
+    const fileName = `${this.config.folder}/canvas-archive-${this.formatStamp(startedAt)}.zip`;
+
+    if (this.running) {
+      return { success: false, archiveId, fileName, entries: 0, bytes: 0, error: 'An archive export is already running' };
+    }
+    if (!storageManager.isReady()) {
+      return { success: false, archiveId, fileName, entries: 0, bytes: 0, error: 'Storage not ready' };
+    }
+
+    this.running = true;
+    this.progress = { archiveId, phase: 'preparing', processed: 0, total: 0, bytesWritten: 0, startedAt, updatedAt: startedAt };
+    this.broadcast(true);
+
+    try {
+      const begun = await offscreenClient.beginArchive(archiveId);
+      if (!begun.success) throw new Error(begun.error || 'Could not start archive');
+
+      const zip = new ZipWriter(async chunk => {
+        const appended = await offscreenClient.appendArchive(archiveId, chunk);
+        if (!appended.success) throw new Error(appended.error || 'Could not write archive chunk');
+      }, this.config.chunkSize);
+
+      const studentIndex = await studentIndexManager.exportIndex();
+      const schema = (await chrome.storage.local.get(['canvasStorageSchema'])).canvasStorageSchema || null;
+      const folders = this.courseFolders(studentIndex);
+
+      const counts = {
+        htmlSnapshots: await this.writeSnapshots(zip, folders),
+        blobs: await this.writeBlobs(zip, folders),
+        structured: await this.writeStore<StructuredData>(zip, 'structured'),
+        extractedText: await this.writeStore<ExtractedText>(zip, 'extractedText')
+      };
+
+      this.setPhase('finalizing', 0);
+      await zip.addEntry('data/studentIndex.json', JSON.stringify(studentIndex, null, 2));
+      await zip.addEntry('data/storageSchema.json', JSON.stringify(schema, null, 2));
+
+      const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        formatVersion: ARCHIVE_FORMAT_VERSION,
+        exportedAt: new Date(startedAt).toISOString(),
+        extensionVersion: chrome.runtime.getManifest().version,
+        schemaVersion: schema?.version ?? null,
+        canvasHost: studentIndex?.canvasHost || null,
+        courses: Array.from(folders.entries()).map(([id, folder]) => ({ id, name: studentIndex?.courses[id]?.name || id, folder })),
+        stores: {
+          htmlSnapshots: { count: counts.htmlSnapshots, path: STORE_PATHS.htmlSnapshots },
+          structured: { count: counts.structured, path: STORE_PATHS.structured },
+          extractedText: { count: counts.extractedText, path: STORE_PATHS.extractedText },
+          blobs: { count: counts.blobs, path: STORE_PATHS.blobs }
+        },
+        studentIndexPath: 'data/studentIndex.json',
+        storageSchemaPath: 'data/storageSchema.json'
+      };
+      await zip.addEntry('manifest.json', JSON.stringify(manifest, null, 2));
+
+      const { entries, bytes } = await zip.finish();
+      const finished = await offscreenClient.finishArchive(archiveId, 'application/zip');
+      if (!finished.success || !finished.url) throw new Error(finished.error || 'Could not finish archive');
+
+      const downloadId = await chrome.downloads.download({ url: finished.url, filename: fileName, saveAs: false });
+      this.releaseAfterDownload(downloadId, archiveId);
+
+      this.setPhase('complete', 0);
+      this.log(`[ArchiveExporter] Exported ${entries} entries (${bytes} bytes) to ${fileName} in ${Date.now() - startedAt}ms`);
+      return { success: true, archiveId, fileName, entries, bytes, downloadId };
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.progress = { ...this.progress!, phase: 'failed', error: message, updatedAt: Date.now() };
+      this.broadcast(true);
+      await offscreenClient.releaseArchive(archiveId);
+      this.log(`[ArchiveExporter] Export failed: ${message}`);
+      return { success: false, archiveId, fileName, entries: 0, bytes: 0, error: message };
+
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // HTML snapshots as files under courses/<course>/snapshots/<section>/
+  private async writeSnapshots(zip: ZipWriter, folders: Map<string, string>): Promise<number> {
+    const listed: ArchivedSnapshot[] = [];
+    const usedPaths = new Set<string>();
+    this.setPhase('snapshots', await storageManager.countRecords('htmlSnapshots'));
+
+    for await (const snapshot of storageManager.iterateRecords<HtmlSnapshot>('htmlSnapshots')) {
+      const match = snapshot.url.match(/\/courses\/(\d+)(?:\/([^/?#]+))?/);
+      const base = match
+        ? `courses/${folders.get(match[1]) || match[1]}/snapshots/${this.safeSegment(match[2] || 'home')}`
+        : 'other/snapshots';
+      const path = this.uniquePath(`${base}/${this.safeSegment(snapshot.id)}.html`, usedPaths);
+
+      await zip.addEntry(path, snapshot.html, { modifiedAt: snapshot.timestamp });
+
+      const { html: _html, ...metadata } = snapshot;
+      listed.push({ ...metadata, path });
+      this.advance(zip);
+    }
+
+    await zip.addEntry(STORE_PATHS.htmlSnapshots, JSON.stringify(listed, null, 2));
+    return listed.length;
+  }
+
+  // Downloaded files under courses/<course>/files/, named as they were on Canvas
+  private async writeBlobs(zip: ZipWriter, folders: Map<string, string>): Promise<number> {
+    const listed: ArchivedBlob[] = [];
+    const usedPaths = new Set<string>();
+    this.setPhase('files', await storageManager.countRecords('blobs'));
+
+    for await (const blob of storageManager.iterateRecords<BlobData>('blobs')) {
+      // FilesPipeline keys blobs "blob_<courseId>_<fileId>" next to a "file_<courseId>_<fileId>" record
+      const courseId = blob.id.match(/^blob_([^_]+)_/)?.[1];
+      const file = courseId ? await storageManager.getStructuredData(`file_${courseId}_${blob.sourceId}`) : null;
+      const name = this.safeSegment(file?.data?.fileName || blob.sourceId);
+      const base = courseId ? `courses/${folders.get(courseId) || courseId}/files` : 'other/files';
+      const path = this.uniquePath(`${base}/${name}`, usedPaths);
+
+      await zip.addEntry(path, new Uint8Array(blob.data), {
+        compress: !STORED_MIME_PATTERN.test(blob.mimeType),
+        modifiedAt: blob.timestamp
+      });
+
+      const { data: _data, ...metadata } = blob;
+      listed.push({ ...metadata, path });
+      this.advance(zip);
+    }
+
+    await zip.addEntry(STORE_PATHS.blobs, JSON.stringify(listed, null, 2));
+    return listed.length;
+  }
+
+  // A whole store as one JSON array, streamed record by record
+  private async writeStore<T>(zip: ZipWriter, store: 'structured' | 'extractedText'): Promise<number> {
+    let count = 0;
+    this.setPhase(store, await storageManager.countRecords(store));
+
+    await zip.addEntry(STORE_PATHS[store], this.jsonArray(storageManager.iterateRecords<T>(store), () => {
+      count++;
+      this.advance(zip);
+    }));
+
+    return count;
+  }
+
+  private async *jsonArray<T>(records: AsyncIterable<T>, onRecord: () => void): AsyncGenerator<string> {
+    let first = true;
+    yield '[\n';
+
+    for await (const record of records) {
+      yield `${first ? '' : ',\n'}${JSON.stringify(record)}`;
+      first = false;
+      onRecord();
+    }
+
+    yield '\n]\n';
+  }
+
+  // "<courseId>-<course-name>" folders for every known course
+  private courseFolders(studentIndex: StudentIndex | null): Map<string, string> {
+    const folders = new Map<string, string>();
+
+    for (const course of Object.values(studentIndex?.courses || {})) {
+      const slug = course.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+      folders.set(course.id, slug ? `${course.id}-${slug}` : course.id);
+    }
+
+    return folders;
+  }
+
+  // Keep chrome.downloads from holding the blob URL (and the offscreen copy) longer than needed
+  private releaseAfterDownload(downloadId: number, archiveId: string): void {
+    const listener = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id !== downloadId || !delta.state || delta.state.current === 'in_progress') return;
+
+      chrome.downloads.onChanged.removeListener(listener);
+      offscreenClient.releaseArchive(archiveId);
+    };
+
+    chrome.downloads.onChanged.addListener(listener);
+  }
+
+  private setPhase(phase: ArchiveExportPhase, total: number): void {
+    if (!this.progress) return;
+
+    this.progress = { ...this.progress, phase, processed: 0, total, updatedAt: Date.now() };
+    this.broadcast(true);
+  }
+
+  private advance(zip: ZipWriter): void {
+    if (!this.progress) return;
+
+    this.progress.processed++;
+    this.progress.bytesWritten = zip.bytesWritten;
+    this.progress.updatedAt = Date.now();
+    this.broadcast(false);
+  }
+
+  // Extension pages listen for ARCHIVE_EXPORT_PROGRESS; nobody listening is fine
+  private broadcast(force: boolean): void {
+    const now = Date.now();
+    if (!this.progress || (!force && now - this.lastBroadcast < this.config.progressInterval)) return;
+
+    this.lastBroadcast = now;
+    chrome.runtime.sendMessage({ type: 'ARCHIVE_EXPORT_PROGRESS', progress: this.progress }).catch(() => undefined);
+  }
+
+  private uniquePath(path: string, used: Set<string>): string {
+    let candidate = path;
+    const dot = path.lastIndexOf('.');
+    const hasExtension = dot > path.lastIndexOf('/');
+
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = hasExtension ? `${path.slice(0, dot)} (${n})${path.slice(dot)}` : `${path} (${n})`;
+    }
+
+    used.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  private safeSegment(name: string): string {
+    const cleaned = name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/^\.+/, '_').trim().slice(0, 120);
+    return cleaned || 'untitled';
+  }
+
+  private formatStamp(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const archiveExporter = new ArchiveExporter();
@@ -0,0 +1,334 @@
+// Archive Importer for Canvas Scraper
+// Restores exported archives into local storage, merging with existing data instead of overwriting it
+
+import { storageManager, CURRENT_SCHEMA_VERSION } from './storageManager';
+import type { HtmlSnapshot, StructuredData, ExtractedText, BlobData, StorageSchema } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import type { StudentIndex } from './courseDiscovery';
+import { hostContext, HostContext } from './hostContext';
+import { ContentUtils } from './contentUtils';
+import { discussionParser } from './discussionParser';
+import { ARCHIVE_FORMAT, ARCHIVE_FORMAT_VERSION } from './archiveExporter';
+import type { ArchiveManifest } from './archiveExporter';
+
+export type ImportableStore = 'structured' | 'extractedText' | 'htmlSnapshots' | 'blobs';
+
+export interface ArchiveImportStoreStats {
+  inserted: number;
+  updated: number; // Local record replaced by, or merged with, the archive copy
+  unchanged: number; // Same content already stored
+  kept: number; // Local copy was newer and stayed
+  invalid: number;
+}
+
+export interface ArchiveImportSummary {
+  importId: string;
+  exportedAt: string;
+  formatVersion: number;
+  migratedFromSchema: number | null;
+  stores: Record<ImportableStore, ArchiveImportStoreStats>;
+  courses: { added: number; updated: number };
+  tookMs: number;
+}
+
+export interface ArchiveImportResult {
+  success: boolean;
+  importId?: string;
+  stats?: ArchiveImportStoreStats;
+  summary?: ArchiveImportSummary;
+  error?: string;
+}
+
+// Blobs travel over runtime messaging as base64; files too large for one message are staged in parts first
+export type IncomingBlob = Omit<BlobData, 'data'> & { data: string; staged?: boolean };
+
+interface ImportSession {
+  id: string;
+  manifest: ArchiveManifest;
+  schemaVersion: number;
+  stores: Record<ImportableStore, ArchiveImportStoreStats>;
+  stagedBlobs: Map<string, Uint8Array[]>; // Blob ID -> parts received ahead of its record
+  startedAt: number;
+}
+
+type MergeOutcome = Exclude<keyof ArchiveImportStoreStats, 'invalid'>;
+
+export interface ArchiveImporterConfig {
+  enableLogging: boolean;
+}
+
+export class ArchiveImporter {
+  private config: ArchiveImporterConfig;
+  private sessions = new Map<string, ImportSession>();
+
+  constructor(config?: Partial<ArchiveImporterConfig>) {
+    this.config = {
+      enableLogging: true,
+      ...config
+    };
+  }
+
+  // Validate the archive manifest and open an import session
+  async begin(manifest: unknown): Promise<ArchiveImportResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, error: 'Storage not ready' };
+    }
+
+    const error = this.validateManifest(manifest);
+    if (error) {
+      return { success: false, error };
+    }
+
+    const valid = manifest as ArchiveManifest;
+    const id = `import_${Date.now()}`;
+    const emptyStats = (): ArchiveImportStoreStats => ({ inserted: 0, updated: 0, unchanged: 0, kept: 0, invalid: 0 });
+
+    this.sessions.set(id, {
+      id,
+      manifest: valid,
+      // Archives without a recorded schema predate versioning, so every migration applies
+      schemaVersion: typeof valid.schemaVersion === 'number' ? valid.schemaVersion : 1,
+      stores: { structured: emptyStats(), extractedText: emptyStats(), htmlSnapshots: emptyStats(), blobs: emptyStats() },
+      stagedBlobs: new Map(),
+      startedAt: Date.now()
+    });
+
+    this.log(`[ArchiveImporter] Import ${id} started (archive from ${valid.exportedAt}, schema v${valid.schemaVersion ?? '?'})`);
+    return { success: true, importId: id };
+  }
+
+  // Merge one batch of records for a store
+  async importRecords(importId: string, store: ImportableStore, records: unknown[]): Promise<ArchiveImportResult> {
+    const session = this.sessions.get(importId);
+    if (!session) return { success: false, error: `Unknown import ${importId}` };
+    if (!session.stores[store]) return { success: false, error: `Unknown store ${store}` };
+
+    const stats = session.stores[store];
+
+    for (const record of records) {
+      try {
+        const outcome = await this.mergeRecord(session, store, record);
+        stats[outcome ?? 'invalid']++;
+      } catch (error) {
+        stats.invalid++;
+        this.log(`[ArchiveImporter] Failed to import ${store} record: ${error}`);
+      }
+    }
+
+    return { success: true, importId, stats };
+  }
+
+  // Hold one part of a file that is too large for a single message until its record arrives
+  stageBlobPart(importId: string, blobId: string, data: string): ArchiveImportResult {
+    const session = this.sessions.get(importId);
+    if (!session) return { success: false, error: `Unknown import ${importId}` };
+    if (typeof blobId !== 'string' || typeof data !== 'string') return { success: false, error: 'Invalid file part' };
+
+    const parts = session.stagedBlobs.get(blobId) || [];
+    parts.push(new Uint8Array(ContentUtils.base64ToArrayBuffer(data)));
+    session.stagedBlobs.set(blobId, parts);
+    return { success: true, importId };
+  }
+
+  // Merge the indexes, migrate older data and close the session
+  async finish(importId: string, studentIndex: StudentIndex | null, storageSchema: StorageSchema | null): Promise<ArchiveImportResult> {
+    const session = this.sessions.get(importId);
+    if (!session) return { success: false, error: `Unknown import ${importId}` };
+
+    try {
+      const courses = studentIndex?.courses
+        ? await studentIndexManager.mergeIndex(studentIndex)
+        : { added: 0, updated: 0 };
+
+      if (storageSchema?.courseIndex) {
+        await storageManager.mergeCourseIndex(storageSchema.courseIndex);
+      }
+
+      const migrated = session.schemaVersion < CURRENT_SCHEMA_VERSION;
+      await storageManager.migrateImportedData(session.schemaVersion);
+
+      const summary: ArchiveImportSummary = {
+        importId,
+        exportedAt: session.manifest.exportedAt,
+        formatVersion: session.manifest.formatVersion,
+        migratedFromSchema: migrated ? session.schemaVersion : null,
+        stores: session.stores,
+        courses,
+        tookMs: Date.now() - session.startedAt
+      };
+
+      this.log(`[ArchiveImporter] Import ${importId} finished: ${JSON.stringify(summary.stores)}`);
+      return { success: true, importId, summary };
+
+    } catch (error) {
+      return { success: false, importId, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      this.sessions.delete(importId);
+    }
+  }
+
+  abort(importId: string): ArchiveImportResult {
+    this.sessions.delete(importId);
+    return { success: true, importId };
+  }
+
+  private validateManifest(manifest: unknown): string | null {
+    const candidate = manifest as Partial<ArchiveManifest> | null;
+
+    if (!candidate || typeof candidate !== 'object' || candidate.format !== ARCHIVE_FORMAT) {
+      return 'Not a Canvas Scraper archive';
+    }
+    if (typeof candidate.formatVersion !== 'number' || candidate.formatVersion < 1) {
+      return 'Archive manifest has no format version';
+    }
+    if (candidate.formatVersion > ARCHIVE_FORMAT_VERSION) {
+      return `Archive format v${candidate.formatVersion} is newer than this extension supports (v${ARCHIVE_FORMAT_VERSION})`;
+    }
+    if (typeof candidate.schemaVersion === 'number' && candidate.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      return `Archive schema v${candidate.schemaVersion} is newer than this extension supports (v${CURRENT_SCHEMA_VERSION})`;
+    }
+
+    // Data from another Canvas instance would mix unrelated course IDs
+    if (candidate.canvasHost && hostContext.hasAuthenticatedHost()
+      && HostContext.normalizeHost(candidate.canvasHost) !== hostContext.getHost()) {
+      return `Archive is from ${candidate.canvasHost}, but this installation uses ${hostContext.getHost()}`;
+    }
+
+    return null;
+  }
+
+  private async mergeRecord(session: ImportSession, store: ImportableStore, record: unknown): Promise<MergeOutcome | null> {
+    switch (store) {
+      case 'structured':
+        return this.mergeStructured(record as StructuredData);
+      case 'extractedText':
+        return this.mergeExtractedText(record as ExtractedText);
+      case 'htmlSnapshots':
+        return this.mergeSnapshot(record as HtmlSnapshot);
+      case 'blobs':
+        return this.mergeBlob(session, record as IncomingBlob);
+    }
+  }
+
+  // Structured records match on their item-derived ID; the newer copy wins, keeping first-seen times and discussion replies from both
+  private async mergeStructured(incoming: StructuredData): Promise<MergeOutcome | null> {
+    if (!this.hasStrings(incoming, ['id', 'courseId', 'collection', 'itemId'])) return null;
+
+    const existing = await storageManager.getStructuredData(incoming.id);
+    if (!existing) {
+      await storageManager.saveStructuredData(incoming);
+      return 'inserted';
+    }
+
+    if (await this.hashOf(existing.data) === await this.hashOf(incoming.data)) return 'unchanged';
+
+    const incomingNewer = incoming.timestamp > existing.timestamp;
+    const [older, newer] = incomingNewer ? [existing, incoming] : [incoming, existing];
+    const merged: StructuredData = { ...newer, data: this.mergeItemData(older.data, newer.data) };
+
+    if (!incomingNewer && await this.hashOf(merged.data) === await this.hashOf(existing.data)) return 'kept';
+
+    await storageManager.saveStructuredData(merged);
+    return 'updated';
+  }
+
+  private mergeItemData(older: any, newer: any): any {
+    if (!older || !newer || typeof older !== 'object' || typeof newer !== 'object') return newer;
+
+    const merged = { ...newer };
+    if (typeof older.discoveredAt === 'number' && typeof newer.discoveredAt === 'number') {
+      merged.discoveredAt = Math.min(older.discoveredAt, newer.discoveredAt);
+    }
+
+    // Replies seen on only one machine are kept by merging the reply trees
+    const olderThread = older.metadata?.thread;
+    const newerThread = newer.metadata?.thread;
+    if (olderThread && newerThread) {
+      const { thread } = discussionParser.merge(olderThread, newerThread);
+      merged.metadata = { ...newer.metadata, thread, replies: thread.replyCount, lastReplyAt: thread.lastReplyAt };
+    }
+
+    return merged;
+  }
+
+  private async mergeExtractedText(incoming: ExtractedText): Promise<MergeOutcome | null> {
+    if (!this.hasStrings(incoming, ['id', 'sourceId', 'text'])) return null;
+
+    const hash = incoming.hash || await ContentUtils.hashContent(incoming.text);
+    const existing = await storageManager.getExtractedText(incoming.id);
+
+    return this.mergeByHash(existing, { ...incoming, hash }, record => storageManager.saveExtractedText(record));
+  }
+
+  private async mergeSnapshot(incoming: HtmlSnapshot): Promise<MergeOutcome | null> {
+    if (!this.hasStrings(incoming, ['id', 'url', 'html'])) return null;
+
+    const hash = incoming.hash || await ContentUtils.hashContent(incoming.html);
+    const existing = await storageManager.getHtmlSnapshot(incoming.id);
+
+    return this.mergeByHash(existing, { ...incoming, hash }, record => storageManager.saveHtmlSnapshot(record));
+  }
+
+  private async mergeBlob(session: ImportSession, incoming: IncomingBlob): Promise<MergeOutcome | null> {
+    if (!this.hasStrings(incoming, ['id', 'sourceId', 'data'])) return null;
+
+    const data = incoming.staged ? this.takeStagedBlob(session, incoming.id) : ContentUtils.base64ToArrayBuffer(incoming.data);
+    if (!data) return null;
+
+    const { staged: _staged, ...blob } = incoming;
+    const hash = incoming.hash || await ContentUtils.hashContent(data);
+    const existing = await storageManager.getBlob(incoming.id);
+
+    return this.mergeByHash(existing, { ...blob, data, hash, size: data.byteLength }, record => storageManager.saveBlob(record));
+  }
+
+  private takeStagedBlob(session: ImportSession, blobId: string): ArrayBuffer | null {
+    const parts = session.stagedBlobs.get(blobId);
+    if (!parts) return null;
+    session.stagedBlobs.delete(blobId);
+
+    const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+      data.set(part, position);
+      position += part.length;
+    }
+    return data.buffer;
+  }
+
+  // Same ID and content hash means nothing to do; otherwise the newer record wins
+  private async mergeByHash<T extends { hash: string; timestamp: number }>(
+    existing: T | null,
+    incoming: T,
+    save: (record: T) => Promise<void>
+  ): Promise<MergeOutcome> {
+    if (!existing) {
+      await save(incoming);
+      return 'inserted';
+    }
+
+    if (existing.hash && existing.hash === incoming.hash) return 'unchanged';
+    if (existing.timestamp >= incoming.timestamp) return 'kept';
+
+    await save(incoming);
+    return 'updated';
+  }
+
+  private async hashOf(data: unknown): Promise<string> {
+    return ContentUtils.hashContent(JSON.stringify(data ?? null));
+  }
+
+  private hasStrings(record: unknown, fields: string[]): boolean {
+    return !!record && typeof record === 'object'
+      && fields.every(field => typeof (record as Record<string, unknown>)[field] === 'string');
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const archiveImporter = new ArchiveImporter();
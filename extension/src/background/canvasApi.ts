@@ -0,0 +1,709 @@
+// Canvas API for Canvas Scraper
+// Optional /api/v1 data source using the session cookies: follows Link header pagination and maps responses
+// onto the Course, SectionItem and DetailItem types the HTML crawlers produce. Every method returns null when
+// the API is off or unavailable for that endpoint, and the caller falls back to scraping HTML.
+
+import { rateLimiter } from './rateLimiter';
+import { hostContext } from './hostContext';
+import { CanvasIds } from './canvasIds';
+import { ContentUtils } from './contentUtils';
+import { moduleResolver } from './moduleResolver';
+import type { Course } from './courseDiscovery';
+import type { SectionItem } from './sectionCrawler';
+import type { DetailItem } from './detailCrawler';
+import type { CourseModule, ModuleItem, ModuleRequirement } from './moduleResolver';
+import type { GradeRecord, GradeStatus, GradeSummary } from './gradesParser';
+import type { Rubric } from './rubricParser';
+
+export interface CanvasApiConfig {
+  enabled: boolean;
+  enableLogging: boolean;
+  perPage: number;
+  maxPages: number; // Per list, like SectionCrawler.maxPages
+  requestTimeout: number;
+  blockedTtlMs: number; // How long an endpoint the institution refused stays on HTML scraping
+}
+
+// Items of one section list, shaped like the HTML crawl's result
+export interface ApiSectionResult {
+  items: SectionItem[];
+  pagesVisited: number;
+  truncated: boolean;
+}
+
+// The API refused the request outright (blocked, or answered with a login page); fall back to HTML
+class ApiUnavailableError extends Error {
+  constructor(message: string, public denied: boolean) {
+    super(message);
+    this.name = 'ApiUnavailableError';
+  }
+}
+
+interface ApiPage<T> {
+  data: T;
+  next: string | null;
+}
+
+interface ApiList<T> {
+  records: T[];
+  pages: number;
+  truncated: boolean;
+}
+
+// Sections with a list endpoint; people and syllabus are always scraped
+const SECTION_PATHS: Record<string, string> = {
+  announcements: 'discussion_topics?only_announcements=true',
+  assignments: 'assignments?include[]=submission&order_by=due_at',
+  discussions: 'discussion_topics',
+  pages: 'pages',
+  files: 'files',
+  quizzes: 'quizzes'
+};
+
+// Module item types as Canvas names them in the modules page markup
+const MODULE_CONTENT_TYPES: Record<string, string> = {
+  Assignment: 'assignment',
+  Page: 'wiki_page',
+  Discussion: 'discussion_topic',
+  File: 'attachment',
+  Quiz: 'quiz',
+  SubHeader: 'context_module_sub_header',
+  ExternalUrl: 'external_url',
+  ExternalTool: 'context_external_tool'
+};
+
+const FILE_LINK_PATTERN = /href=["']([^"']*\/files\/\d+[^"']*)["']/gi;
+const LINK_PATTERN = /href=["']([^"'#][^"']*)["']/gi;
+
+export class CanvasApi {
+  private config: CanvasApiConfig;
+  private blocked = new Map<string, number>(); // "<origin> <endpoint>" -> time the API refused it
+
+  constructor(config?: Partial<CanvasApiConfig>) {
+    this.config = {
+      enabled: false,
+      enableLogging: true,
+      perPage: 100,
+      maxPages: 20,
+      requestTimeout: 30000,
+      blockedTtlMs: 6 * 60 * 60 * 1000,
+      ...config
+    };
+  }
+
+  updateConfig(newConfig: Partial<CanvasApiConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  // Endpoints currently falling back to HTML, e.g. for the options page
+  getBlockedEndpoints(): string[] {
+    const now = Date.now();
+    return Array.from(this.blocked.entries())
+      .filter(([, blockedAt]) => now - blockedAt < this.config.blockedTtlMs)
+      .map(([key]) => key);
+  }
+
+  // All of the user's courses, current and concluded
+  async getCourses(origin: string): Promise<Course[] | null> {
+    return this.attempt(origin, 'courses', false, async () => {
+      const { records } = await this.getAll<any>(
+        `${origin}/api/v1/courses?include[]=term&include[]=favorites&include[]=concluded&state[]=available&state[]=completed`
+      );
+      const now = Date.now();
+
+      return records
+        .filter(course => course?.id && course.name && !course.access_restricted_by_date)
+        .map(course => ({
+          id: String(course.id),
+          name: course.name,
+          code: course.course_code || course.name,
+          url: `${origin}/courses/${course.id}`,
+          term: course.term?.name,
+          status: course.concluded || course.workflow_state === 'completed'
+            ? 'completed' as const
+            : course.workflow_state === 'unpublished' ? 'unpublished' as const : 'active' as const,
+          role: course.enrollments?.[0]?.type,
+          favorite: course.is_favorite,
+          discoveredAt: now,
+          updatedAt: now
+        }));
+    });
+  }
+
+  // One section's items, or null when the section has no API equivalent or the API is unavailable
+  async getSectionItems(course: Course, section: string): Promise<ApiSectionResult | null> {
+    if (!SECTION_PATHS[section] && section !== 'modules' && section !== 'grades') return null;
+
+    const origin = hostContext.getOrigin(course.url);
+    return this.attempt(origin, section, false, async () => {
+      if (section === 'modules') return this.getModuleItems(course, origin);
+      if (section === 'grades') return this.getGradeItems(course, origin);
+
+      const list = await this.getAll<any>(`${origin}/api/v1/courses/${course.id}/${SECTION_PATHS[section]}`);
+      const now = Date.now();
+      const items = list.records
+        .map(record => this.toSectionItem(record, section, course, origin, now))
+        .filter((item): item is SectionItem => item !== null);
+
+      return { items, pagesVisited: list.pages, truncated: list.truncated };
+    });
+  }
+
+  // Full content of one item; discussions stay on HTML because the thread is parsed from the rendered page
+  async getDetail(itemUrl: string, itemType: string, courseId: string): Promise<DetailItem | null> {
+    const paths: Record<string, string> = {
+      announcement: 'discussion_topics',
+      assignment: 'assignments',
+      page: 'pages',
+      quiz: 'quizzes',
+      file: 'files'
+    };
+    const resourceId = CanvasIds.extractResourceId(itemUrl, itemType);
+    if (!paths[itemType] || !resourceId) return null;
+
+    const origin = hostContext.getOrigin(itemUrl);
+    const query = itemType === 'assignment' ? '?include[]=submission' : '';
+    return this.attempt(origin, `${itemType}-detail`, true, async () => {
+      const { data } = await this.request<any>(
+        `${origin}/api/v1/courses/${courseId}/${paths[itemType]}/${encodeURIComponent(resourceId)}${query}`
+      );
+      return this.toDetailItem(data, itemType, itemUrl, courseId, origin);
+    });
+  }
+
+  // Run one endpoint's load, remembering endpoints the institution blocks so they go straight to HTML.
+  // Per-item requests can be denied for a single locked item, so only a non-API response blocks those.
+  private async attempt<T>(origin: string, endpoint: string, perItem: boolean, load: () => Promise<T>): Promise<T | null> {
+    if (!this.config.enabled) return null;
+
+    const key = `${origin} ${endpoint}`;
+    const blockedAt = this.blocked.get(key);
+    if (blockedAt && Date.now() - blockedAt < this.config.blockedTtlMs) return null;
+
+    try {
+      return await load();
+    } catch (error) {
+      if (error instanceof ApiUnavailableError && !(perItem && error.denied)) {
+        this.blocked.set(key, Date.now());
+        this.log(`[CanvasApi] ${endpoint} unavailable on ${origin} (${error.message}), using HTML`);
+      } else {
+        this.log(`[CanvasApi] ${endpoint} request failed on ${origin}, using HTML: ${error}`);
+      }
+      return null;
+    }
+  }
+
+  // Fetch a list endpoint page by page, following rel="next" in the Link header
+  private async getAll<T>(url: string): Promise<ApiList<T>> {
+    const records: T[] = [];
+    const visited = new Set<string>();
+    let pageUrl: string | null = this.withPerPage(url);
+    let pages = 0;
+
+    while (pageUrl && pages < this.config.maxPages) {
+      visited.add(pageUrl);
+      const page: ApiPage<T[]> = await this.request<T[]>(pageUrl);
+      if (Array.isArray(page.data)) {
+        records.push(...page.data);
+      }
+      pages++;
+      pageUrl = page.next && !visited.has(page.next) ? page.next : null;
+    }
+
+    if (pageUrl) {
+      this.log(`[CanvasApi] Stopped after ${pages} pages of ${url}`);
+    }
+    return { records, pages, truncated: pageUrl !== null };
+  }
+
+  private async request<T>(url: string): Promise<ApiPage<T>> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.requestTimeout);
+
+    try {
+      const response = await rateLimiter.fetch(url, {
+        credentials: 'include',
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        throw new ApiUnavailableError(`HTTP ${response.status}`, true);
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      // A redirect to the login page or an HTML error page means the API is not open to this session
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('json')) {
+        throw new ApiUnavailableError(`unexpected ${contentType || 'response'} from ${response.url || url}`, false);
+      }
+
+      // Canvas prefixes JSON responses with "while(1);" to block JSON hijacking
+      const text = await response.text();
+      return {
+        data: JSON.parse(text.replace(/^while\(1\);/, '')),
+        next: this.findNextLink(response.headers.get('Link'), url)
+      };
+
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Link: <https://…?page=2&per_page=100>; rel="next", <…>; rel="last"
+  private findNextLink(linkHeader: string | null, pageUrl: string): string | null {
+    if (!linkHeader) return null;
+
+    for (const match of linkHeader.matchAll(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/gi)) {
+      if (match[2].split(/\s+/).includes('next')) {
+        return hostContext.resolveUrl(match[1], pageUrl);
+      }
+    }
+    return null;
+  }
+
+  private withPerPage(url: string): string {
+    return `${url}${url.includes('?') ? '&' : '?'}per_page=${this.config.perPage}`;
+  }
+
+  private toSectionItem(record: any, section: string, course: Course, origin: string, now: number): SectionItem | null {
+    const courseUrl = `${origin}/courses/${course.id}`;
+    let type: string;
+    let url: string;
+    let title: string;
+    let metadata: Record<string, any>;
+
+    switch (section) {
+      case 'announcements':
+      case 'discussions':
+        type = section === 'announcements' ? 'announcement' : 'discussion';
+        url = record.html_url || `${courseUrl}/discussion_topics/${record.id}`;
+        title = record.title;
+        metadata = {
+          author: record.author?.display_name || record.user_name || null,
+          postedAt: record.posted_at || null,
+          replyCount: record.discussion_subentry_count ?? 0,
+          lastReplyAt: record.last_reply_at || null,
+          dueAt: record.assignment?.due_at || null
+        };
+        break;
+
+      case 'assignments':
+        type = 'assignment';
+        url = record.html_url || `${courseUrl}/assignments/${record.id}`;
+        title = record.name;
+        metadata = {
+          dueAt: record.due_at || null,
+          pointsPossible: record.points_possible ?? null,
+          submissionTypes: record.submission_types || [],
+          submission: record.submission ? this.toSubmission(record.submission) : null
+        };
+        break;
+
+      case 'pages':
+        type = 'page';
+        url = record.html_url || `${courseUrl}/pages/${record.url}`;
+        title = record.title;
+        metadata = { pageUpdatedAt: record.updated_at || null, frontPage: !!record.front_page };
+        break;
+
+      case 'files':
+        type = 'file';
+        url = `${courseUrl}/files/${record.id}`;
+        title = record.display_name || record.filename;
+        metadata = {
+          fileName: record.filename,
+          size: record.size ?? null,
+          contentType: record['content-type'] || null,
+          downloadUrl: record.url || null,
+          fileUpdatedAt: record.updated_at || null
+        };
+        break;
+
+      case 'quizzes':
+        type = 'quiz';
+        url = record.html_url || `${courseUrl}/quizzes/${record.id}`;
+        title = record.title;
+        metadata = {
+          dueAt: record.due_at || null,
+          pointsPossible: record.points_possible ?? null,
+          questionCount: record.question_count ?? null,
+          timeLimit: record.time_limit ?? null,
+          allowedAttempts: record.allowed_attempts ?? null
+        };
+        break;
+
+      default:
+        return null;
+    }
+
+    const id = CanvasIds.itemId(url, type);
+    if (!id) return null;
+
+    return {
+      id,
+      title: title || `${type} ${record.id}`,
+      url,
+      type,
+      courseId: course.id,
+      section,
+      host: origin,
+      metadata,
+      discoveredAt: now,
+      updatedAt: now
+    };
+  }
+
+  // Modules with their items, shaped like ModuleParser.parse output so resolution and storage are shared
+  private async getModuleItems(course: Course, origin: string): Promise<ApiSectionResult> {
+    const base = `${origin}/api/v1/courses/${course.id}/modules`;
+    const list = await this.getAll<any>(`${base}?include[]=items&include[]=content_details`);
+    const names = new Map<string, string>(list.records.map(record => [String(record.id), record.name]));
+    const modules: CourseModule[] = [];
+    let pagesVisited = list.pages;
+    let truncated = list.truncated;
+
+    for (const record of list.records) {
+      const module: CourseModule = {
+        id: String(record.id),
+        name: record.name || `Module ${modules.length + 1}`,
+        position: record.position ?? modules.length + 1,
+        unlockAt: record.unlock_at || null,
+        locked: record.state === 'locked',
+        requireAll: record.requirement_count !== 1,
+        sequential: !!record.require_sequential_progress,
+        prerequisites: (record.prerequisite_module_ids || []).map((id: number) => ({
+          moduleId: String(id),
+          name: names.get(String(id)) || ''
+        })),
+        items: []
+      };
+
+      // Canvas leaves items out of the module list when a module has too many
+      let itemRecords: any[] = record.items;
+      if (!Array.isArray(itemRecords)) {
+        const items = await this.getAll<any>(`${base}/${record.id}/items?include[]=content_details`);
+        itemRecords = items.records;
+        pagesVisited += items.pages;
+        truncated = truncated || items.truncated;
+      }
+
+      module.items = itemRecords.map(item => this.toModuleItem(item, module, course, origin));
+      modules.push(module);
+    }
+
+    const now = Date.now();
+    const items: SectionItem[] = [{
+      id: CanvasIds.moduleStructureId(course.id),
+      title: 'Course Modules',
+      url: `${origin}/courses/${course.id}/modules`,
+      type: 'module_structure',
+      courseId: course.id,
+      section: 'modules',
+      host: origin,
+      metadata: { modules },
+      discoveredAt: now,
+      updatedAt: now
+    }];
+
+    for (const module of modules) {
+      for (const moduleItem of module.items) {
+        if (!moduleItem.url) continue;
+
+        items.push({
+          id: CanvasIds.itemId(moduleItem.url, 'module') || `module_${moduleItem.id}`,
+          title: moduleItem.title,
+          url: moduleItem.url,
+          type: 'module',
+          courseId: course.id,
+          section: 'modules',
+          host: origin,
+          metadata: moduleItem,
+          discoveredAt: now,
+          updatedAt: now
+        });
+      }
+    }
+
+    return { items, pagesVisited, truncated };
+  }
+
+  private toModuleItem(record: any, module: CourseModule, course: Course, origin: string): ModuleItem {
+    const courseUrl = `${origin}/courses/${course.id}`;
+    const requirement = record.completion_requirement;
+
+    // The API names the target directly, so no redirect has to be followed to resolve it
+    const targets: Record<string, string | null> = {
+      Assignment: `${courseUrl}/assignments/${record.content_id}`,
+      Quiz: `${courseUrl}/quizzes/${record.content_id}`,
+      Discussion: `${courseUrl}/discussion_topics/${record.content_id}`,
+      File: `${courseUrl}/files/${record.content_id}`,
+      Page: record.page_url ? `${courseUrl}/pages/${record.page_url}` : null,
+      ExternalUrl: record.external_url || null
+    };
+    const target = targets[record.type];
+
+    return {
+      id: String(record.id),
+      moduleId: module.id,
+      moduleName: module.name,
+      title: record.title || `Item ${record.id}`,
+      position: record.position ?? module.items.length + 1,
+      indent: record.indent ?? 0,
+      contentType: MODULE_CONTENT_TYPES[record.type] || String(record.type || 'unknown').toLowerCase(),
+      url: record.type === 'SubHeader' ? null : record.html_url || `${courseUrl}/modules/items/${record.id}`,
+      requirement: requirement ? {
+        type: requirement.type as ModuleRequirement['type'],
+        minScore: requirement.min_score ?? null,
+        fulfilled: !!requirement.completed
+      } : null,
+      locked: !!record.content_details?.locked_for_user,
+      resource: target ? moduleResolver.toResource(course.id, target) : null
+    };
+  }
+
+  // Per-assignment grades from the student's submissions, plus the course total from the enrollment
+  private async getGradeItems(course: Course, origin: string): Promise<ApiSectionResult> {
+    const base = `${origin}/api/v1/courses/${course.id}`;
+    const submissions = await this.getAll<any>(
+      `${base}/students/submissions?student_ids[]=self&include[]=assignment&include[]=submission_comments&include[]=rubric_assessment`
+    );
+    const groups = await this.getAll<any>(`${base}/assignment_groups`);
+    const enrollments = await this.getAll<any>(`${base}/enrollments?user_id=self&type[]=StudentEnrollment`);
+    const { data: courseRecord } = await this.request<any>(base);
+
+    const groupNames = new Map<string, string>(groups.records.map(group => [String(group.id), group.name]));
+    const now = Date.now();
+
+    const items: SectionItem[] = submissions.records
+      .filter(submission => submission.assignment)
+      .map(submission => {
+        const record = this.toGradeRecord(submission, groupNames, course, origin);
+        return {
+          id: `grade_${record.assignmentId}`,
+          title: record.name,
+          url: record.url,
+          type: 'grade',
+          courseId: course.id,
+          section: 'grades',
+          host: origin,
+          metadata: record,
+          discoveredAt: now,
+          updatedAt: now
+        };
+      });
+
+    const weighted = !!courseRecord?.apply_assignment_group_weights;
+    const grades = enrollments.records[0]?.grades;
+    const summary: GradeSummary = {
+      displayGrade: grades?.current_grade ?? (grades?.current_score != null ? `${grades.current_score}%` : null),
+      percent: grades?.current_score ?? null,
+      letterGrade: grades?.current_grade ?? null,
+      basis: 'current',
+      weighted,
+      groups: groups.records.map(group => ({
+        id: String(group.id),
+        name: group.name,
+        weight: weighted ? group.group_weight ?? null : null,
+        score: null
+      }))
+    };
+
+    items.push({
+      id: CanvasIds.gradeSummaryId(course.id),
+      title: 'Course Grade',
+      url: `${base.replace('/api/v1', '')}/grades`,
+      type: 'grade_summary',
+      courseId: course.id,
+      section: 'grades',
+      host: origin,
+      metadata: summary,
+      discoveredAt: now,
+      updatedAt: now
+    });
+
+    return {
+      items,
+      pagesVisited: submissions.pages + groups.pages + enrollments.pages + 1,
+      truncated: submissions.truncated || groups.truncated
+    };
+  }
+
+  private toGradeRecord(submission: any, groupNames: Map<string, string>, course: Course, origin: string): GradeRecord {
+    const assignment = submission.assignment;
+    const groupId = assignment.assignment_group_id != null ? String(assignment.assignment_group_id) : null;
+    const status: GradeStatus[] = [];
+    if (submission.late) status.push('late');
+    if (submission.missing) status.push('missing');
+    if (submission.excused) status.push('excused');
+    const commentCount = submission.submission_comments?.length || 0;
+
+    return {
+      assignmentId: String(assignment.id),
+      name: assignment.name,
+      url: assignment.html_url || `${origin}/courses/${course.id}/assignments/${assignment.id}`,
+      assignmentGroup: groupId ? groupNames.get(groupId) || null : null,
+      assignmentGroupId: groupId,
+      dueAt: assignment.due_at || null,
+      score: submission.score ?? null,
+      pointsPossible: assignment.points_possible ?? null,
+      displayGrade: submission.excused ? 'EX' : submission.grade ?? null,
+      status,
+      hasComments: commentCount > 0,
+      commentCount,
+      rubric: this.toRubric(assignment, submission.rubric_assessment)
+    };
+  }
+
+  private toSubmission(submission: any): Record<string, any> {
+    return {
+      state: submission.workflow_state || null,
+      submittedAt: submission.submitted_at || null,
+      score: submission.score ?? null,
+      grade: submission.grade ?? null,
+      late: !!submission.late,
+      missing: !!submission.missing,
+      excused: !!submission.excused
+    };
+  }
+
+  // Rubric criteria from the assignment, with the student's assessment when one was included
+  private toRubric(assignment: any, assessment?: Record<string, any> | null): Rubric | null {
+    if (!Array.isArray(assignment?.rubric) || assignment.rubric.length === 0) return null;
+
+    const criteria = assignment.rubric.map((criterion: any) => {
+      const assessed = assessment?.[criterion.id];
+      const rating = assessed?.rating_id ? criterion.ratings?.find((entry: any) => entry.id === assessed.rating_id) : null;
+      return {
+        id: String(criterion.id),
+        description: criterion.description || '',
+        longDescription: criterion.long_description || null,
+        pointsPossible: criterion.points ?? null,
+        ratings: (criterion.ratings || []).map((entry: any) => ({
+          id: entry.id ?? null,
+          description: entry.description || '',
+          longDescription: entry.long_description || null,
+          points: entry.points ?? null,
+          minPoints: null
+        })),
+        assessment: assessed ? {
+          ratingId: assessed.rating_id ?? null,
+          ratingDescription: rating?.description ?? null,
+          points: assessed.points ?? null,
+          comments: assessed.comments || null
+        } : null
+      };
+    });
+
+    const assessed = criteria.some((criterion: Rubric['criteria'][number]) => criterion.assessment?.points != null);
+    return {
+      title: assignment.rubric_settings?.title ?? null,
+      pointsPossible: assignment.rubric_settings?.points_possible ?? null,
+      criteria,
+      assessed,
+      score: assessed
+        ? criteria.reduce((sum: number, criterion: Rubric['criteria'][number]) => sum + (criterion.assessment?.points ?? 0), 0)
+        : null
+    };
+  }
+
+  private toDetailItem(record: any, itemType: string, itemUrl: string, courseId: string, origin: string): DetailItem {
+    const now = Date.now();
+    const html: string = record.description ?? record.message ?? record.body ?? '';
+    const item: DetailItem = {
+      id: CanvasIds.itemId(itemUrl, itemType) || `${itemType}_${record.id}`,
+      type: itemType,
+      courseId,
+      host: origin,
+      title: record.name || record.title || record.display_name || `${itemType} ${record.id}`,
+      content: html ? ContentUtils.extractTextFromHtml(html) : undefined,
+      htmlContent: html || undefined,
+      extractedAt: now,
+      updatedAt: now,
+      metadata: { source: 'api' }
+    };
+
+    switch (itemType) {
+      case 'assignment':
+        item.metadata = {
+          ...item.metadata,
+          dueDate: record.due_at || null,
+          points: record.points_possible ?? null,
+          submissionTypes: (record.submission_types || []).join(', '),
+          availability: { unlockAt: record.unlock_at || null, lockAt: record.lock_at || null },
+          submission: record.submission ? this.toSubmission(record.submission) : null,
+          rubric: this.toRubric(record, record.submission?.rubric_assessment)
+        };
+        break;
+
+      case 'announcement':
+        item.metadata = {
+          ...item.metadata,
+          author: record.author?.display_name || record.user_name || null,
+          postedAt: record.posted_at || null,
+          replyCount: record.discussion_subentry_count ?? 0
+        };
+        break;
+
+      case 'quiz':
+        item.metadata = {
+          ...item.metadata,
+          timeLimit: record.time_limit ?? null,
+          attempts: record.allowed_attempts ?? null,
+          dueDate: record.due_at || null,
+          availability: { unlockAt: record.unlock_at || null, lockAt: record.lock_at || null },
+          questionCount: record.question_count ?? 0
+        };
+        break;
+
+      case 'file':
+        item.metadata = {
+          ...item.metadata,
+          fileName: record.filename,
+          fileSize: record.size ?? null,
+          fileType: record['content-type'] || null,
+          downloadLink: record.url || null,
+          previewLink: record.preview_url || null
+        };
+        break;
+
+      case 'page':
+        item.metadata = { ...item.metadata, pageUpdatedAt: record.updated_at || null };
+        break;
+    }
+
+    // Files linked from the body and attached to the topic; downloads are handled by the files pipeline
+    const attachments = new Set<string>();
+    for (const match of html.matchAll(FILE_LINK_PATTERN)) {
+      attachments.add(hostContext.resolveUrl(match[1].replace(/&amp;/g, '&'), itemUrl));
+    }
+    for (const attachment of record.attachments || []) {
+      if (attachment?.id) attachments.add(`${origin}/courses/${courseId}/files/${attachment.id}`);
+    }
+    if (attachments.size > 0) {
+      item.attachments = Array.from(attachments);
+    }
+
+    const links = Array.from(html.matchAll(LINK_PATTERN), match => hostContext.resolveUrl(match[1].replace(/&amp;/g, '&'), itemUrl));
+    if (links.length > 0) {
+      item.links = Array.from(new Set(links));
+    }
+
+    return item;
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const canvasApi = new CanvasApi();
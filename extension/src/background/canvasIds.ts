@@ -0,0 +1,80 @@
+// Canvas IDs for Canvas Scraper
+// Derives stable item IDs from the Canvas resource IDs embedded in URLs
+
+// URL patterns per item type, in order of preference
+const RESOURCE_PATTERNS: Record<string, RegExp[]> = {
+  announcement: [/\/announcements\/(\d+)/, /\/discussion_topics\/(\d+)/],
+  assignment: [/\/assignments\/(\d+)/],
+  discussion: [/\/discussion_topics\/(\d+)/, /\/discussions\/(\d+)/],
+  page: [/\/pages\/([^/?#]+)/, /\/wiki\/([^/?#]+)/],
+  file: [/\/files\/(\d+)/],
+  quiz: [/\/quizzes\/(\d+)/],
+  module: [/\/modules\/items\/(\d+)/, /\/modules\/(\d+)/, /#module_(\d+)/],
+  grade: [/\/assignments\/(\d+)/, /\/grades\/(\d+)/],
+  person: [/\/users\/(\d+)/]
+};
+
+// Legacy position-based IDs produced before schema v2 (e.g. "assignment_3")
+const LEGACY_ID_PATTERN = /^(announcement|assignment|discussion|page|file|quiz|module|grade|person|syllabus)_(\d+)$/;
+
+export class CanvasIds {
+  // Extract the Canvas resource ID for an item type from a URL
+  static extractResourceId(url: string, type: string): string | null {
+    const patterns = RESOURCE_PATTERNS[type];
+    if (!patterns) return null;
+
+    for (const pattern of patterns) {
+      const match = url.match(pattern);
+      if (match) {
+        return type === 'page' ? CanvasIds.normalizeSlug(match[1]) : match[1];
+      }
+    }
+
+    return null;
+  }
+
+  // Build the stable item ID for a URL, or null if it does not point at a Canvas resource
+  static itemId(url: string, type: string): string | null {
+    const resourceId = CanvasIds.extractResourceId(url, type);
+    return resourceId ? `${type}_${resourceId}` : null;
+  }
+
+  // The syllabus has no resource ID of its own, so key it by course
+  static syllabusId(courseId: string): string {
+    return `syllabus_${courseId}`;
+  }
+
+  // The overall course grade is likewise one record per course
+  static gradeSummaryId(courseId: string): string {
+    return `gradesummary_${courseId}`;
+  }
+
+  // The module structure (modules, order, requirements) is stored as one record per course
+  static moduleStructureId(courseId: string): string {
+    return `modulestructure_${courseId}`;
+  }
+
+  // Build the IndexedDB record key for an item in a course collection
+  static recordId(courseId: string, collection: string, itemId: string): string {
+    return `${courseId}_${collection}_${itemId}`;
+  }
+
+  // Check whether an ID could have come from the old index-based scheme
+  static isLegacyId(itemId: string): boolean {
+    return LEGACY_ID_PATTERN.test(itemId);
+  }
+
+  // Get the item type encoded in an ID prefix
+  static typeFromId(itemId: string): string | null {
+    const match = itemId.match(/^([a-z]+)_/);
+    return match ? match[1] : null;
+  }
+
+  private static normalizeSlug(slug: string): string {
+    try {
+      return decodeURIComponent(slug).toLowerCase();
+    } catch {
+      return slug.toLowerCase();
+    }
+  }
+}
@@ -0,0 +1,328 @@
+// Change Notifier for Canvas Scraper
+// Compares course content after each crawl with what was seen before and raises desktop notifications for changes
+
+import { storageManager } from './storageManager';
+import type { StructuredData } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import { deadlineCalendar } from './deadlineCalendar';
+import type { DeadlineEvent } from './deadlineCalendar';
+import type { GradeRecord } from './gradesParser';
+import type { NotificationSettings, NotificationType } from './configManager';
+import { hostContext } from './hostContext';
+
+export interface ContentChange {
+  type: NotificationType;
+  courseId: string;
+  courseName: string;
+  itemId: string;
+  title: string;
+  message: string;
+  url: string;
+  detectedAt: number;
+}
+
+export interface ChangeCheckResult {
+  success: boolean;
+  changes: ContentChange[];
+  notified: number;
+  error?: string;
+}
+
+// What was last seen for one course; changes are differences against this
+interface CourseSnapshot {
+  announcements: string[];
+  grades: Record<string, string | null>; // Assignment ID -> grade as shown
+  comments: Record<string, number>; // Assignment ID -> comment count (at least 1 when Canvas only shows the toggle)
+  dueDates: Record<string, string>; // Item ID -> ISO due date
+}
+
+// Recent changes are kept for the daily digest
+interface ChangeLog {
+  changes: ContentChange[];
+}
+
+interface NotifierState {
+  courses: Record<string, CourseSnapshot>;
+  checkedAt: number;
+}
+
+export interface ChangeNotifierConfig {
+  enableLogging: boolean;
+  settings: NotificationSettings;
+  maxPerType: number; // Beyond this, changes of one type are shown as a single list notification
+  iconUrl: string;
+  logRetentionDays: number;
+}
+
+const STATE_KEY = 'changeNotifierState';
+const LOG_KEY = 'changeNotifierLog';
+
+// Notification IDs carry the URL to open, so clicks still work after the service worker restarts
+const NOTIFICATION_PREFIX = 'canvas-change|';
+
+const TYPE_TITLES: Record<NotificationType, [string, string]> = {
+  announcements: ['New announcement', 'new announcements'],
+  grades: ['Grade update', 'grade updates'],
+  comments: ['New submission comment', 'new submission comments'],
+  dueDates: ['Due date changed', 'due date changes']
+};
+
+export class ChangeNotifier {
+  private config: ChangeNotifierConfig;
+
+  constructor(config?: Partial<ChangeNotifierConfig>) {
+    this.config = {
+      enableLogging: true,
+      settings: {
+        enabled: true,
+        types: { announcements: true, grades: true, comments: true, dueDates: true },
+        mutedCourses: []
+      },
+      maxPerType: 3,
+      iconUrl: 'icons/icon48.png',
+      logRetentionDays: 30,
+      ...config
+    };
+  }
+
+  updateConfig(newConfig: Partial<ChangeNotifierConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // Diff stored content against the last check, notify, and remember what was seen.
+  // Courses seen for the first time only set a baseline, so the first crawl does not flood the desktop.
+  async checkForChanges(deadlines?: DeadlineEvent[]): Promise<ChangeCheckResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, changes: [], notified: 0, error: 'Storage not ready' };
+    }
+
+    try {
+      const state = await this.loadState();
+      const studentIndex = await studentIndexManager.loadStudentIndex();
+      const events = deadlines || (await deadlineCalendar.getCachedEvents()).events;
+      const changes: ContentChange[] = [];
+
+      for (const course of Object.values(studentIndex.courses)) {
+        const records = await storageManager.getStructuredDataByCourse(course.id);
+        const current = this.snapshotCourse(records, events.filter(event => event.courseId === course.id));
+        const previous = state.courses[course.id];
+
+        if (previous) {
+          changes.push(...this.diffCourse(previous, current, records, events, course.id, course.name));
+        }
+        state.courses[course.id] = this.mergeSnapshots(previous, current);
+      }
+
+      state.checkedAt = Date.now();
+      await storageManager.saveValue(STATE_KEY, state);
+      await this.appendToLog(changes);
+
+      const notified = await this.notify(changes);
+      this.log(`[ChangeNotifier] Found ${changes.length} changes, showed ${notified} notifications`);
+      return { success: true, changes, notified };
+
+    } catch (error) {
+      return { success: false, changes: [], notified: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Changes found after `since`, whether or not they were shown, oldest first
+  async getRecentChanges(since: number): Promise<ContentChange[]> {
+    const log = await storageManager.getValue<ChangeLog>(LOG_KEY) || { changes: [] };
+    return log.changes.filter(entry => entry.detectedAt > since);
+  }
+
+  // Open the Canvas item behind a clicked notification; returns false for notifications this class did not create
+  async handleClick(notificationId: string): Promise<boolean> {
+    if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return false;
+
+    const url = notificationId.slice(notificationId.indexOf('|', NOTIFICATION_PREFIX.length) + 1);
+    if (url) {
+      await chrome.tabs.create({ url });
+    }
+    await chrome.notifications.clear(notificationId);
+    return true;
+  }
+
+  private snapshotCourse(records: StructuredData[], events: DeadlineEvent[]): CourseSnapshot {
+    const snapshot: CourseSnapshot = { announcements: [], grades: {}, comments: {}, dueDates: {} };
+
+    for (const record of records) {
+      if (record.collection === 'announcements' && record.data?.url) {
+        snapshot.announcements.push(record.itemId);
+      }
+
+      const grade: GradeRecord | undefined = record.collection === 'grades' && record.data?.type === 'grade' ? record.data.metadata : undefined;
+      if (grade) {
+        snapshot.grades[grade.assignmentId] = this.gradeText(grade);
+        snapshot.comments[grade.assignmentId] = grade.commentCount || (grade.hasComments ? 1 : 0);
+      }
+    }
+
+    for (const event of events) {
+      if (event.kind === 'due') {
+        snapshot.dueDates[event.itemId] = event.date;
+      }
+    }
+
+    return snapshot;
+  }
+
+  private diffCourse(
+    previous: CourseSnapshot,
+    current: CourseSnapshot,
+    records: StructuredData[],
+    events: DeadlineEvent[],
+    courseId: string,
+    courseName: string
+  ): ContentChange[] {
+    const changes: ContentChange[] = [];
+    const detectedAt = Date.now();
+    // Items may carry relative links; notifications and the change log need absolute ones
+    const change = (type: NotificationType, itemId: string, title: string, message: string, url: string) =>
+      changes.push({ type, courseId, courseName, itemId, title, message, url: url && hostContext.resolveUrl(url), detectedAt });
+
+    const seenAnnouncements = new Set(previous.announcements);
+    for (const itemId of current.announcements) {
+      if (seenAnnouncements.has(itemId)) continue;
+      const record = records.find(r => r.collection === 'announcements' && r.itemId === itemId);
+      change('announcements', itemId, record?.data?.title || 'Announcement', courseName, record?.data?.url);
+    }
+
+    const grades = new Map<string, GradeRecord>(records
+      .filter(record => record.collection === 'grades' && record.data?.type === 'grade')
+      .map(record => [record.data.metadata.assignmentId, record.data.metadata]));
+
+    for (const [assignmentId, grade] of Object.entries(current.grades)) {
+      const before = previous.grades[assignmentId];
+      const record = grades.get(assignmentId);
+      if (!record || !grade || grade === before) continue;
+
+      const message = before ? `${courseName}: ${before} → ${grade}` : `${courseName}: ${grade}`;
+      change('grades', assignmentId, record.name, message, record.url);
+    }
+
+    for (const [assignmentId, count] of Object.entries(current.comments)) {
+      const added = count - (previous.comments[assignmentId] || 0);
+      const record = grades.get(assignmentId);
+      if (!record || added <= 0) continue;
+
+      const message = added > 1 ? `${courseName}: ${added} new comments` : `${courseName}: new comment on your submission`;
+      change('comments', assignmentId, record.name, message, record.url);
+    }
+
+    for (const [itemId, date] of Object.entries(current.dueDates)) {
+      const before = previous.dueDates[itemId];
+      // Items without an earlier due date are new, not changed
+      if (!before || before === date) continue;
+
+      const event = events.find(e => e.courseId === courseId && e.itemId === itemId && e.kind === 'due');
+      const url = event?.url || records.find(r => r.itemId === itemId && r.data?.url)?.data.url;
+      if (!event || !url) continue;
+
+      change('dueDates', itemId, event.title, `${courseName}: now due ${this.formatDate(date, event.allDay)} (was ${this.formatDate(before, event.allDay)})`, url);
+    }
+
+    return changes.filter(entry => !!entry.url);
+  }
+
+  // Keep what was seen before for items missing from this crawl, so a partial crawl does not re-announce them later
+  private mergeSnapshots(previous: CourseSnapshot | undefined, current: CourseSnapshot): CourseSnapshot {
+    if (!previous) return current;
+
+    return {
+      announcements: Array.from(new Set([...previous.announcements, ...current.announcements])),
+      grades: { ...previous.grades, ...current.grades },
+      comments: { ...previous.comments, ...current.comments },
+      dueDates: { ...previous.dueDates, ...current.dueDates }
+    };
+  }
+
+  private async notify(changes: ContentChange[]): Promise<number> {
+    const settings = this.config.settings;
+    if (!settings.enabled) return 0;
+
+    const allowed = changes.filter(entry => settings.types[entry.type] !== false && !settings.mutedCourses.includes(entry.courseId));
+    let shown = 0;
+
+    for (const type of Object.keys(TYPE_TITLES) as NotificationType[]) {
+      const ofType = allowed.filter(entry => entry.type === type);
+      if (ofType.length === 0) continue;
+
+      if (ofType.length <= this.config.maxPerType) {
+        for (const entry of ofType) {
+          await this.show(`${entry.type}:${entry.courseId}:${entry.itemId}`, entry.url, {
+            type: 'basic',
+            iconUrl: this.config.iconUrl,
+            title: `${TYPE_TITLES[type][0]}: ${entry.title}`,
+            message: entry.message
+          });
+          shown++;
+        }
+      } else {
+        // Many changes at once: one list, opening the course when they all belong to it
+        const courses = new Set(ofType.map(entry => entry.courseId));
+        const url = courses.size === 1 ? this.courseUrl(ofType[0].url, ofType[0].courseId) : hostContext.getOrigin(ofType[0].url);
+        await this.show(`${type}:${Date.now()}`, url, {
+          type: 'list',
+          iconUrl: this.config.iconUrl,
+          title: `${ofType.length} ${TYPE_TITLES[type][1]}`,
+          message: courses.size === 1 ? ofType[0].courseName : `${courses.size} courses`,
+          items: ofType.slice(0, 10).map(entry => ({ title: entry.title, message: entry.message }))
+        });
+        shown++;
+      }
+    }
+
+    return shown;
+  }
+
+  private async show(key: string, url: string, options: chrome.notifications.NotificationOptions<true>): Promise<void> {
+    try {
+      await chrome.notifications.create(`${NOTIFICATION_PREFIX}${key}|${url}`, options);
+    } catch (error) {
+      this.log(`[ChangeNotifier] Could not show notification: ${error}`);
+    }
+  }
+
+  private courseUrl(itemUrl: string, courseId: string): string {
+    const index = itemUrl.indexOf(`/courses/${courseId}`);
+    return index >= 0 ? itemUrl.slice(0, index + `/courses/${courseId}`.length) : itemUrl;
+  }
+
+  private gradeText(grade: GradeRecord): string | null {
+    const shown = grade.displayGrade && grade.displayGrade !== '-' ? grade.displayGrade : null;
+    if (shown && grade.pointsPossible !== null && /^[\d.]+$/.test(shown)) {
+      return `${shown}/${grade.pointsPossible}`;
+    }
+    return shown ?? (grade.score !== null ? String(grade.score) : null);
+  }
+
+  private formatDate(iso: string, allDay: boolean): string {
+    const date = new Date(iso);
+    return allDay ? date.toLocaleDateString() : date.toLocaleString();
+  }
+
+  private async appendToLog(changes: ContentChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    const log = await storageManager.getValue<ChangeLog>(LOG_KEY) || { changes: [] };
+    const cutoff = Date.now() - this.config.logRetentionDays * 24 * 60 * 60 * 1000;
+
+    log.changes = [...log.changes.filter(entry => entry.detectedAt > cutoff), ...changes];
+    await storageManager.saveValue(LOG_KEY, log);
+  }
+
+  private async loadState(): Promise<NotifierState> {
+    return await storageManager.getValue<NotifierState>(STATE_KEY) || { courses: {}, checkedAt: 0 };
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const changeNotifier = new ChangeNotifier();
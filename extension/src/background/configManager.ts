@@ -1,13 +1,42 @@
 // Configuration Manager for Canvas Scraper
 // Handles user settings, Canvas hosts, and configuration persistence
 
+export type NotificationType = 'announcements' | 'grades' | 'comments' | 'dueDates';
+
+export interface NotificationSettings {
+  enabled: boolean;
+  types: Record<NotificationType, boolean>;
+  mutedCourses: string[]; // Course IDs that never raise notifications
+}
+
+export interface DigestSettings {
+  enabled: boolean;
+  hour: number; // Local hour of day (0-23) the digest is built
+}
+
+export interface RetentionSettings {
+  snapshotsPerUrl: number; // HTML snapshots kept per URL, newest first; 0 keeps all
+  dropCompletedTermBlobs: boolean; // Delete downloaded files of completed courses (their text and metadata stay)
+  maxTotalMB: number; // Evict least recently used snapshots and files above this; 0 has no limit
+}
+
 export interface CanvasConfig {
   hosts: string[];
   settings: {
     syncFrequency: 'startup-only' | 'hourly' | 'daily' | 'manual';
     maxConcurrentFetches: number;
     maxConcurrentGhostTabs: number;
+    useCanvasApi: boolean; // Read courses and sections from /api/v1 where the institution allows it, scraping HTML otherwise
     fileExtraction: 'metadata-only' | 'text-extraction' | 'on-demand';
+    enableOcr: boolean;
+    ocrLanguage: string; // Tesseract language code(s), e.g. 'eng' or 'eng+spa'
+    ocrTimeBudgetSeconds: number;
+    revisionHistoryLimit: number; // Revisions kept per item; 0 turns history off
+    notifications: NotificationSettings;
+    digest: DigestSettings;
+    autoExportCalendar: boolean; // Download deadlines.ics after every crawl
+    autoLockMinutes: number; // Idle minutes before encrypted storage locks again; 0 never locks
+    retention: RetentionSettings;
   };
 }
 
@@ -17,7 +46,28 @@ const DEFAULT_CONFIG: CanvasConfig = {
     syncFrequency: 'startup-only',
     maxConcurrentFetches: 6,
     maxConcurrentGhostTabs: 2,
-    fileExtraction: 'metadata-only'
+    useCanvasApi: false,
+    fileExtraction: 'metadata-only',
+    enableOcr: false,
+    ocrLanguage: 'eng',
+    ocrTimeBudgetSeconds: 60,
+    revisionHistoryLimit: 10,
+    notifications: {
+      enabled: true,
+      types: { announcements: true, grades: true, comments: true, dueDates: true },
+      mutedCourses: []
+    },
+    digest: {
+      enabled: true,
+      hour: 7
+    },
+    autoExportCalendar: false,
+    autoLockMinutes: 15,
+    retention: {
+      snapshotsPerUrl: 10,
+      dropCompletedTermBlobs: false,
+      maxTotalMB: 0
+    }
   }
 };
 
@@ -33,7 +83,12 @@ export class ConfigManager {
     try {
       const result = await chrome.storage.sync.get(['canvasOptions']);
       if (result.canvasOptions) {
-        this.config = { ...DEFAULT_CONFIG, ...result.canvasOptions };
+        // Merge settings separately so options saved by older versions pick up new defaults
+        this.config = {
+          ...DEFAULT_CONFIG,
+          ...result.canvasOptions,
+          settings: { ...DEFAULT_CONFIG.settings, ...result.canvasOptions.settings }
+        };
       }
       this.isLoaded = true;
       console.log('[ConfigManager] Configuration loaded:', this.config);
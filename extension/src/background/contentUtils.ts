@@ -120,6 +120,31 @@ export class ContentUtils {
     return Date.now() - timestamp > maxAgeMs;
   }
 
+  /**
+   * Encode binary data as base64 so it can cross chrome.runtime messaging
+   */
+  static arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+    const bytes = new Uint8Array(buffer);
+    const chunkSize = 0x8000;
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+  }
+
+  /**
+   * Decode base64 produced by arrayBufferToBase64
+   */
+  static base64ToArrayBuffer(base64: string): ArrayBuffer {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
   // Private utility methods
 
   private static arrayBufferToHex(buffer: ArrayBuffer): string {
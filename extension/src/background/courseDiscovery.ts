@@ -1,6 +1,8 @@
 // Course Discovery Parser
 // Extracts course information from Canvas dashboard and course list pages
 
+import { hostContext, HostContext } from './hostContext';
+
 export interface Course {
   id: string;
   name: string;
@@ -28,15 +30,17 @@ export interface StudentIndex {
 }
 
 export class CourseDiscovery {
-  private canvasHost: string;
+  private canvasHost: string | null;
+  private pageUrl: string | null = null;
   
-  constructor(canvasHost = 'https://canvas.instructure.com') {
-    this.canvasHost = canvasHost;
+  constructor(canvasHost?: string) {
+    this.canvasHost = canvasHost ? HostContext.normalizeHost(canvasHost) : null;
   }
 
   // Parse dashboard HTML to extract course information
-  parseDashboard(html: string): Course[] {
+  parseDashboard(html: string, pageUrl?: string): Course[] {
     const courses: Course[] = [];
+    this.pageUrl = pageUrl || null;
     
     try {
       console.log(`[CourseDiscovery] Parsing dashboard HTML (${html.length} bytes)`);
@@ -99,8 +103,9 @@ export class CourseDiscovery {
   }
 
   // Parse course list page HTML
-  parseCourseList(html: string): Course[] {
+  parseCourseList(html: string, pageUrl?: string): Course[] {
     const courses: Course[] = [];
+    this.pageUrl = pageUrl || null;
     
     try {
       // Parse course table rows
@@ -234,7 +239,7 @@ export class CourseDiscovery {
         if (i === 2) { // data-course-id pattern
           id = match[1];
           linkText = match[2];
-          url = `${this.canvasHost}/courses/${id}`;
+          url = `${this.getHost()}/courses/${id}`;
         } else if (i === 3) { // href pattern only
           url = this.resolveUrl(match[1]);
           id = match[2];
@@ -323,7 +328,7 @@ export class CourseDiscovery {
                   id: match[4], // course ID from href
                   name: match[1], // originalName
                   code: match[2], // courseCode
-                  url: `https://canvas.instructure.com/courses/${match[4]}`,
+                  url: `${this.getHost()}/courses/${match[4]}`,
                   status: 'active',
                   discoveredAt: Date.now(),
                   updatedAt: Date.now()
@@ -370,7 +375,7 @@ export class CourseDiscovery {
         id: String(card.id),
         name: card.originalName,
         code: card.shortName,
-        url: `${this.canvasHost}/courses/${card.id}`,
+        url: `${this.getHost()}/courses/${card.id}`,
         term: card.term?.name,
         status: card.published === false ? 'unpublished' : 'active',
         color: card.color,
@@ -391,7 +396,7 @@ export class CourseDiscovery {
         id: String(courseData.id),
         name: courseData.name,
         code: courseData.course_code || this.extractCodeFromName(courseData.name),
-        url: `${this.canvasHost}/courses/${courseData.id}`,
+        url: `${this.getHost()}/courses/${courseData.id}`,
         term: courseData.term?.name,
         status: courseData.workflow_state === 'completed' ? 'completed' : 'active',
         role: courseData.enrollments?.[0]?.type,
@@ -461,10 +466,14 @@ export class CourseDiscovery {
       .trim();
   }
 
+  // Host of the page being parsed, else the explicit host, else the shared host context
+  private getHost(): string {
+    if (this.pageUrl) return hostContext.getOrigin(this.pageUrl);
+    return this.canvasHost || hostContext.getHost();
+  }
+
   private resolveUrl(url: string): string {
-    if (url.startsWith('http')) return url;
-    if (url.startsWith('/')) return this.canvasHost + url;
-    return this.canvasHost + '/' + url;
+    return hostContext.resolveUrl(url, this.pageUrl || this.getHost());
   }
 
   private isNavigationLink(text: string): boolean {
@@ -0,0 +1,360 @@
+// Daily Digest for Canvas Scraper
+// Summarizes what changed across all courses once a day and keeps a local history of past digests
+
+import { storageManager } from './storageManager';
+import type { StructuredData } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import { incrementalSync } from './incrementalSync';
+import { changeNotifier } from './changeNotifier';
+import { deadlineCalendar } from './deadlineCalendar';
+import type { DigestSettings } from './configManager';
+
+export interface DigestItem {
+  title: string;
+  type: string;
+  url: string | null;
+  detail?: string;
+}
+
+export interface DigestCourse {
+  courseId: string;
+  courseName: string;
+  courseUrl: string;
+  newItems: DigestItem[];
+  updatedItems: DigestItem[]; // Pages that changed, and moved due dates
+  grades: DigestItem[];
+  files: DigestItem[];
+}
+
+export interface DigestDeadline {
+  courseId: string;
+  courseName: string;
+  title: string;
+  type: string;
+  date: string; // ISO timestamp
+  allDay: boolean;
+  url: string | null;
+}
+
+export interface DigestTotals {
+  newItems: number;
+  updatedItems: number;
+  grades: number;
+  files: number;
+  deadlines: number;
+}
+
+export interface Digest {
+  id: string;
+  generatedAt: number;
+  periodStart: number;
+  periodEnd: number;
+  courses: DigestCourse[]; // Only courses with something to report
+  deadlines: DigestDeadline[]; // Due in the week after the digest, soonest first
+  totals: DigestTotals;
+}
+
+export type DigestSummary = Pick<Digest, 'id' | 'generatedAt' | 'periodStart' | 'periodEnd' | 'totals'>;
+
+export interface DigestResult {
+  success: boolean;
+  digest?: Digest;
+  error?: string;
+}
+
+export interface DigestListResult {
+  success: boolean;
+  digests: DigestSummary[]; // Newest first
+  error?: string;
+}
+
+export interface DailyDigestConfig {
+  enableLogging: boolean;
+  settings: DigestSettings;
+  historyLimit: number;
+  deadlineDays: number;
+  iconUrl: string;
+}
+
+export const DIGEST_ALARM = 'daily-digest';
+
+const HISTORY_KEY = 'digestHistory';
+const NOTIFICATION_PREFIX = 'canvas-digest|';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sections whose newly discovered items count as new content
+const CONTENT_SECTIONS = ['announcements', 'assignments', 'discussions', 'pages', 'quizzes', 'modules'];
+
+const COURSE_URL_PATTERN = /\/courses\/(\d+)/;
+
+export class DailyDigest {
+  private config: DailyDigestConfig;
+
+  constructor(config?: Partial<DailyDigestConfig>) {
+    this.config = {
+      enableLogging: true,
+      settings: { enabled: true, hour: 7 },
+      historyLimit: 30,
+      deadlineDays: 7,
+      iconUrl: 'icons/icon48.png',
+      ...config
+    };
+  }
+
+  updateConfig(newConfig: Partial<DailyDigestConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // Create the daily alarm, or keep the existing one when it already fires at the configured hour
+  async scheduleAlarm(): Promise<void> {
+    const { enabled, hour } = this.config.settings;
+    const existing = await chrome.alarms.get(DIGEST_ALARM);
+
+    if (!enabled) {
+      if (existing) await chrome.alarms.clear(DIGEST_ALARM);
+      return;
+    }
+    if (existing && new Date(existing.scheduledTime).getHours() === hour && existing.periodInMinutes === 1440) {
+      return;
+    }
+
+    const next = new Date();
+    next.setHours(hour, 0, 0, 0);
+    if (next.getTime() <= Date.now()) {
+      next.setDate(next.getDate() + 1);
+    }
+
+    await chrome.alarms.create(DIGEST_ALARM, { when: next.getTime(), periodInMinutes: 1440 });
+    this.log(`[DailyDigest] Next digest at ${next.toLocaleString()}`);
+  }
+
+  // Build a digest covering everything since the previous one, store it and announce it
+  async generate(): Promise<DigestResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, error: 'Storage not ready' };
+    }
+
+    try {
+      const history = await this.loadHistory();
+      const periodEnd = Date.now();
+      const periodStart = history[0]?.periodEnd || periodEnd - DAY_MS;
+
+      const digest = await this.build(periodStart, periodEnd);
+      await storageManager.saveValue(HISTORY_KEY, [digest, ...history].slice(0, this.config.historyLimit));
+
+      await this.announce(digest);
+      this.log(`[DailyDigest] Generated ${digest.id} for ${digest.courses.length} courses`);
+      return { success: true, digest };
+
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async listDigests(): Promise<DigestListResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, digests: [], error: 'Storage not ready' };
+    }
+
+    try {
+      const history = await this.loadHistory();
+      return {
+        success: true,
+        digests: history.map(({ id, generatedAt, periodStart, periodEnd, totals }) => ({ id, generatedAt, periodStart, periodEnd, totals }))
+      };
+    } catch (error) {
+      return { success: false, digests: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async getDigest(id?: string): Promise<DigestResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, error: 'Storage not ready' };
+    }
+
+    try {
+      const history = await this.loadHistory();
+      const digest = id ? history.find(entry => entry.id === id) : history[0];
+      return digest ? { success: true, digest } : { success: false, error: 'Digest not found' };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Open the digest page for a clicked digest notification; returns false for other notifications
+  async handleClick(notificationId: string): Promise<boolean> {
+    if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return false;
+
+    const id = notificationId.slice(NOTIFICATION_PREFIX.length);
+    await chrome.tabs.create({ url: chrome.runtime.getURL(`digest/digest.html#${encodeURIComponent(id)}`) });
+    await chrome.notifications.clear(notificationId);
+    return true;
+  }
+
+  private async build(periodStart: number, periodEnd: number): Promise<Digest> {
+    const studentIndex = await studentIndexManager.loadStudentIndex();
+    const courses = new Map<string, DigestCourse>();
+    const itemsByUrl = new Map<string, { courseId: string; item: DigestItem }>();
+
+    for (const course of Object.values(studentIndex.courses)) {
+      const entry: DigestCourse = {
+        courseId: course.id,
+        courseName: course.name,
+        courseUrl: course.url,
+        newItems: [],
+        updatedItems: [],
+        grades: [],
+        files: []
+      };
+      courses.set(course.id, entry);
+
+      const records = await storageManager.getStructuredDataByCourse(course.id);
+      for (const record of records) {
+        const item = this.toItem(record);
+        if (!item) continue;
+        itemsByUrl.set(this.normalizeUrl(item.url!), { courseId: course.id, item });
+
+        const discoveredAt = record.data.discoveredAt || 0;
+        if (discoveredAt <= periodStart || discoveredAt > periodEnd) continue;
+
+        if (record.collection === 'files') {
+          entry.files.push(item);
+        } else if (CONTENT_SECTIONS.includes(record.collection)) {
+          entry.newItems.push(item);
+        }
+      }
+    }
+
+    // Pages IncrementalSync saw change, unless they are new anyway
+    const changedUrls = new Set<string>();
+    for (const signal of await incrementalSync.getChangeSignals(periodStart)) {
+      if (signal.changeType !== 'modified' || signal.detectedAt > periodEnd) continue;
+      const key = this.normalizeUrl(signal.url);
+      if (changedUrls.has(key)) continue;
+      changedUrls.add(key);
+
+      const known = itemsByUrl.get(key);
+      const courseId = known?.courseId || signal.url.match(COURSE_URL_PATTERN)?.[1];
+      const course = courseId ? courses.get(courseId) : undefined;
+      if (!course || (known && course.newItems.includes(known.item))) continue;
+
+      course.updatedItems.push(known?.item || { title: new URL(signal.url).pathname, type: 'page', url: signal.url });
+    }
+
+    // Grades and moved due dates come from the changes found after each crawl
+    for (const change of await changeNotifier.getRecentChanges(periodStart)) {
+      const course = courses.get(change.courseId);
+      if (!course || change.detectedAt > periodEnd) continue;
+
+      if (change.type === 'grades') {
+        course.grades.push({ title: change.title, type: 'grade', url: change.url, detail: this.stripCourse(change.message, course.courseName) });
+      } else if (change.type === 'dueDates') {
+        course.updatedItems.push({ title: change.title, type: 'due date', url: change.url, detail: this.stripCourse(change.message, course.courseName) });
+      }
+    }
+
+    const deadlines = await this.upcomingDeadlines(periodEnd);
+    const reported = Array.from(courses.values())
+      .filter(course => course.newItems.length || course.updatedItems.length || course.grades.length || course.files.length)
+      .sort((a, b) => a.courseName.localeCompare(b.courseName));
+
+    const count = (key: 'newItems' | 'updatedItems' | 'grades' | 'files') => reported.reduce((sum, course) => sum + course[key].length, 0);
+
+    return {
+      id: `digest_${periodEnd}`,
+      generatedAt: periodEnd,
+      periodStart,
+      periodEnd,
+      courses: reported,
+      deadlines,
+      totals: {
+        newItems: count('newItems'),
+        updatedItems: count('updatedItems'),
+        grades: count('grades'),
+        files: count('files'),
+        deadlines: deadlines.length
+      }
+    };
+  }
+
+  private async upcomingDeadlines(from: number): Promise<DigestDeadline[]> {
+    const until = from + this.config.deadlineDays * DAY_MS;
+    const events = await deadlineCalendar.collectEvents();
+
+    return events
+      .filter(event => event.kind === 'due')
+      .filter(event => {
+        const time = new Date(event.date).getTime();
+        return time >= from && time <= until;
+      })
+      .map(event => ({
+        courseId: event.courseId,
+        courseName: event.courseName,
+        title: event.title,
+        type: event.itemType,
+        date: event.date,
+        allDay: event.allDay,
+        url: event.url
+      }));
+  }
+
+  private async announce(digest: Digest): Promise<void> {
+    const { newItems, updatedItems, grades, files, deadlines } = digest.totals;
+    if (!newItems && !updatedItems && !grades && !files && !deadlines) return;
+
+    const parts = [
+      newItems && `${newItems} new`,
+      updatedItems && `${updatedItems} updated`,
+      grades && `${grades} grades`,
+      files && `${files} files`,
+      deadlines && `${deadlines} due this week`
+    ].filter(Boolean);
+
+    try {
+      await chrome.notifications.create(`${NOTIFICATION_PREFIX}${digest.id}`, {
+        type: 'basic',
+        iconUrl: this.config.iconUrl,
+        title: 'Canvas daily digest',
+        message: parts.join(', ')
+      });
+    } catch (error) {
+      this.log(`[DailyDigest] Could not show notification: ${error}`);
+    }
+  }
+
+  // Section items carry a title and URL; page-level records do not
+  private toItem(record: StructuredData): DigestItem | null {
+    const data = record.data;
+    if (typeof data?.url !== 'string' || !data.title) return null;
+    if (record.collection !== 'files' && !CONTENT_SECTIONS.includes(record.collection)) return null;
+
+    return { title: data.title, type: data.type || record.collection, url: data.url };
+  }
+
+  // Change messages start with the course name, which the digest already groups by
+  private stripCourse(message: string, courseName: string): string {
+    return message.startsWith(`${courseName}: `) ? message.slice(courseName.length + 2) : message;
+  }
+
+  private normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch {
+      return url.toLowerCase();
+    }
+  }
+
+  private async loadHistory(): Promise<Digest[]> {
+    return await storageManager.getValue<Digest[]>(HISTORY_KEY) || [];
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const dailyDigest = new DailyDigest();
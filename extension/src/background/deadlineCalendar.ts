@@ -0,0 +1,376 @@
+// Deadline Calendar for Canvas Scraper
+// Collects dated items across all courses into calendar events and exports them as iCalendar (.ics)
+
+import { storageManager, StructuredData } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import type { Course } from './courseDiscovery';
+import type { GradeRecord } from './gradesParser';
+import type { CourseModule } from './moduleResolver';
+
+export type DeadlineKind = 'start' | 'due' | 'lock' | 'unlock';
+
+export interface DeadlineEvent {
+  id: string;
+  courseId: string;
+  courseName: string;
+  itemId: string;
+  itemType: string;
+  title: string;
+  kind: DeadlineKind;
+  date: string; // ISO timestamp
+  allDay: boolean; // Canvas showed a date without a time
+  url: string | null;
+  source: 'details' | 'grades' | 'modules';
+  raw: string; // Text the date was parsed from
+}
+
+export interface DeadlineCalendarConfig {
+  enableLogging: boolean;
+  fileName: string;
+  autoExport: boolean; // Re-download the .ics after every crawl session; off unless the user opts in
+}
+
+export interface CalendarExportResult {
+  success: boolean;
+  eventCount: number;
+  downloadId?: number;
+  error?: string;
+}
+
+const CACHE_KEY = 'deadlineCalendar';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Sep 5", "September 5, 2024", optionally followed by "at 11:59pm" / "by 11:59pm"; only full month names
+// and their abbreviations count, so words like "maybe 3" or "marching 5" are not dates
+const DATE_PATTERN = /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?(?:,?\s*(?:at|by|@)?\s*(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?)?/gi;
+
+// Labels on Canvas assignment/quiz overviews that end an "Available ..." value
+const OVERVIEW_LABELS = 'Due|Points|Submitting|File Types|Time Limit|Allowed Attempts|Questions';
+
+const SECTION_COLLECTIONS: Record<string, string> = {
+  assignment: 'assignments',
+  quiz: 'quizzes',
+  discussion: 'discussions'
+};
+
+export class DeadlineCalendar {
+  private config: DeadlineCalendarConfig;
+
+  constructor(config?: Partial<DeadlineCalendarConfig>) {
+    this.config = {
+      enableLogging: true,
+      fileName: 'canvas-scraper/deadlines.ics',
+      autoExport: false,
+      ...config
+    };
+  }
+
+  updateConfig(newConfig: Partial<DeadlineCalendarConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // Gather events for every course in the student index, sorted by date
+  async collectEvents(): Promise<DeadlineEvent[]> {
+    if (!storageManager.isReady()) {
+      throw new Error('Storage not ready');
+    }
+
+    const studentIndex = await studentIndexManager.loadStudentIndex();
+    const events = new Map<string, DeadlineEvent>();
+
+    for (const course of Object.values(studentIndex.courses)) {
+      const records = await storageManager.getStructuredDataByCourse(course.id);
+      const urls = this.collectUrls(records);
+
+      // Detail pages are the most precise source, so they go first and win on duplicates
+      for (const record of records.filter(record => record.collection === 'details')) {
+        this.addDetailEvents(events, course, record, urls);
+      }
+      for (const record of records.filter(record => record.collection === 'grades')) {
+        this.addGradeEvents(events, course, record);
+      }
+      for (const record of records.filter(record => record.collection === 'modules' && record.data?.type === 'module_structure')) {
+        this.addModuleEvents(events, course, record);
+      }
+    }
+
+    return Array.from(events.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Rebuild the cached event list and, when enabled, the exported .ics file
+  async regenerate(): Promise<DeadlineEvent[]> {
+    const events = await this.collectEvents();
+    await storageManager.saveValue(CACHE_KEY, { events, generatedAt: Date.now() });
+    this.log(`[DeadlineCalendar] Regenerated ${events.length} events`);
+
+    if (this.config.autoExport) {
+      await this.exportIcs(events);
+    }
+
+    return events;
+  }
+
+  // Events from the last regeneration, without collecting them again
+  async getCachedEvents(): Promise<{ events: DeadlineEvent[]; generatedAt: number | null }> {
+    return await storageManager.getValue<{ events: DeadlineEvent[]; generatedAt: number }>(CACHE_KEY) || { events: [], generatedAt: null };
+  }
+
+  // Write the events to an .ics file in the downloads folder
+  async exportIcs(events?: DeadlineEvent[]): Promise<CalendarExportResult> {
+    try {
+      const calendarEvents = events || await this.collectEvents();
+      const ics = this.buildIcs(calendarEvents);
+
+      // Service workers cannot create blob URLs for downloads, so hand the file over as a data URL
+      const downloadId = await chrome.downloads.download({
+        url: `data:text/calendar;charset=utf-8,${encodeURIComponent(ics)}`,
+        filename: this.config.fileName,
+        conflictAction: 'overwrite',
+        saveAs: false
+      });
+
+      this.log(`[DeadlineCalendar] Exported ${calendarEvents.length} events to ${this.config.fileName}`);
+      return { success: true, eventCount: calendarEvents.length, downloadId };
+
+    } catch (error) {
+      return { success: false, eventCount: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Render events as an RFC 5545 calendar
+  buildIcs(events: DeadlineEvent[]): string {
+    const stamp = this.formatUtc(new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Canvas Scraper//Deadlines//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Canvas Deadlines'
+    ];
+
+    for (const event of events) {
+      const date = new Date(event.date);
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.id}@canvas-scraper`,
+        `DTSTAMP:${stamp}`,
+        ...(event.allDay
+          ? [`DTSTART;VALUE=DATE:${this.formatDate(date)}`]
+          : [`DTSTART:${this.formatUtc(date)}`, `DTEND:${this.formatUtc(date)}`]),
+        `SUMMARY:${this.escapeText(`${this.kindLabel(event.kind)}: ${event.title} (${event.courseName})`)}`,
+        `DESCRIPTION:${this.escapeText(`${event.courseName}\n${this.kindLabel(event.kind)} ${event.raw}`)}`,
+        ...(event.url ? [`URL:${event.url}`] : []),
+        `CATEGORIES:${this.escapeText(event.itemType)}`,
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  // Parse a Canvas date string ("Sep 5 by 11:59pm", ISO, ...); a missing year is taken nearest the reference
+  parseCanvasDate(text: string, reference: number = Date.now()): { date: Date; allDay: boolean } | null {
+    const dates = this.parseAllDates(text, reference);
+    return dates[0] || null;
+  }
+
+  private addDetailEvents(events: Map<string, DeadlineEvent>, course: Course, record: StructuredData, urls: Map<string, string>): void {
+    const item = record.data;
+    if (!item || !SECTION_COLLECTIONS[item.type]) return;
+
+    const metadata = item.metadata || {};
+    const base = { course, itemId: item.id, itemType: item.type, title: item.title, url: urls.get(item.id) || null, source: 'details' as const };
+
+    if (metadata.dueDate) {
+      const due = this.parseCanvasDate(metadata.dueDate, record.timestamp);
+      if (due) this.addEvent(events, { ...base, kind: 'due', ...due, raw: metadata.dueDate });
+    }
+
+    if (metadata.availability) {
+      const availability = this.parseAvailability(metadata.availability, record.timestamp);
+      // Quizzes open at a set time; other items simply unlock
+      if (availability.from) this.addEvent(events, { ...base, kind: item.type === 'quiz' ? 'start' : 'unlock', ...availability.from, raw: metadata.availability });
+      if (availability.until) this.addEvent(events, { ...base, kind: 'lock', ...availability.until, raw: metadata.availability });
+    }
+  }
+
+  private addGradeEvents(events: Map<string, DeadlineEvent>, course: Course, record: StructuredData): void {
+    const grade: GradeRecord | undefined = record.data?.type === 'grade' ? record.data.metadata : undefined;
+    if (!grade?.dueAt || !grade.assignmentId) return;
+
+    const due = this.parseCanvasDate(grade.dueAt, record.timestamp);
+    if (!due) return;
+
+    this.addEvent(events, {
+      course,
+      itemId: `assignment_${grade.assignmentId}`,
+      itemType: 'assignment',
+      title: grade.name,
+      url: grade.url,
+      source: 'grades',
+      kind: 'due',
+      ...due,
+      raw: grade.dueAt
+    });
+  }
+
+  private addModuleEvents(events: Map<string, DeadlineEvent>, course: Course, record: StructuredData): void {
+    const modules: CourseModule[] = record.data?.metadata?.modules || [];
+
+    for (const module of modules) {
+      if (!module.unlockAt) continue;
+
+      const unlock = this.parseCanvasDate(module.unlockAt, record.timestamp);
+      if (!unlock) continue;
+
+      this.addEvent(events, {
+        course,
+        itemId: `module_${module.id}`,
+        itemType: 'module',
+        title: module.name,
+        url: record.data.url || null,
+        source: 'modules',
+        kind: 'unlock',
+        ...unlock,
+        raw: module.unlockAt
+      });
+    }
+  }
+
+  private addEvent(
+    events: Map<string, DeadlineEvent>,
+    event: Omit<DeadlineEvent, 'id' | 'courseId' | 'courseName' | 'date'> & { course: Course; date: Date }
+  ): void {
+    const { course, date, ...rest } = event;
+    const id = `${course.id}_${event.itemId}_${event.kind}`;
+    if (events.has(id)) return;
+
+    events.set(id, { ...rest, id, courseId: course.id, courseName: course.name, date: date.toISOString() });
+  }
+
+  // Section list URLs keyed by item ID, since detail records do not keep their URL
+  private collectUrls(records: StructuredData[]): Map<string, string> {
+    const urls = new Map<string, string>();
+    const collections = new Set(Object.values(SECTION_COLLECTIONS));
+
+    for (const record of records) {
+      if (collections.has(record.collection) && record.data?.url) {
+        urls.set(record.itemId, record.data.url);
+      }
+    }
+
+    return urls;
+  }
+
+  // "Sep 1 at 12am - Sep 10 at 11:59pm", "until Sep 10 at 11:59pm", "after Sep 1 at 12am", or a full overview
+  private parseAvailability(text: string, reference: number): { from?: { date: Date; allDay: boolean }; until?: { date: Date; allDay: boolean } } {
+    const available = text.match(new RegExp(`Available\\s+(.*?)(?=\\s+(?:${OVERVIEW_LABELS})\\b|$)`, 'i'))?.[1];
+    // An overview without an "Available" entry has no window; its other dates are due dates
+    if (!available && new RegExp(`\\b(?:${OVERVIEW_LABELS})\\b`, 'i').test(text)) return {};
+
+    const segment = available || text;
+    const dates = this.parseAllDates(segment, reference);
+
+    if (dates.length >= 2) return { from: dates[0], until: dates[1] };
+    if (dates.length === 1) {
+      return /\buntil\b/i.test(segment) ? { until: dates[0] } : { from: dates[0] };
+    }
+    return {};
+  }
+
+  private parseAllDates(text: string, reference: number): Array<{ date: Date; allDay: boolean }> {
+    const trimmed = text.trim();
+    if (/^\d{4}-\d{2}-\d{2}/.test(trimmed) && !isNaN(Date.parse(trimmed))) {
+      return [{ date: new Date(trimmed), allDay: !trimmed.includes('T') }];
+    }
+
+    const results: Array<{ date: Date; allDay: boolean }> = [];
+    for (const match of trimmed.matchAll(DATE_PATTERN)) {
+      const [, monthName, day, year, hour, minute, meridiem] = match;
+      const month = MONTHS.indexOf(monthName.toLowerCase().slice(0, 3));
+      const allDay = hour === undefined;
+
+      let hours = allDay ? 0 : parseInt(hour, 10) % 12;
+      if (meridiem?.toLowerCase() === 'p') hours += 12;
+
+      const date = new Date(
+        year ? parseInt(year, 10) : this.inferYear(month, parseInt(day, 10), reference),
+        month,
+        parseInt(day, 10),
+        hours,
+        minute ? parseInt(minute, 10) : 0
+      );
+
+      if (!isNaN(date.getTime())) {
+        results.push({ date, allDay });
+      }
+    }
+
+    return results;
+  }
+
+  // Canvas omits the year for dates in the current year; pick the year that lands closest to when we crawled
+  private inferYear(month: number, day: number, reference: number): number {
+    const referenceYear = new Date(reference).getFullYear();
+    const candidates = [referenceYear - 1, referenceYear, referenceYear + 1];
+
+    return candidates.reduce((best, year) =>
+      Math.abs(new Date(year, month, day).getTime() - reference) < Math.abs(new Date(best, month, day).getTime() - reference)
+        ? year
+        : best
+    );
+  }
+
+  private kindLabel(kind: DeadlineKind): string {
+    switch (kind) {
+      case 'due': return 'Due';
+      case 'start': return 'Opens';
+      case 'unlock': return 'Unlocks';
+      case 'lock': return 'Locks';
+    }
+  }
+
+  private formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  }
+
+  private escapeText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+  }
+
+  // RFC 5545 lines are limited to 75 octets; continuation lines start with a space
+  private foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+      if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+        parts.push(current);
+        current = '';
+      }
+      current += char;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const deadlineCalendar = new DeadlineCalendar();
@@ -3,11 +3,19 @@
 
 import { ghostTabManager } from './ghostTabManager';
 import { studentIndexManager } from './studentIndex';
+import { CanvasIds } from './canvasIds';
+import { hostContext } from './hostContext';
+import { storageManager } from './storageManager';
+import { offscreenClient } from './offscreenClient';
+import { discussionParser, DISCUSSION_EXPAND_SELECTOR } from './discussionParser';
+import type { DiscussionThread } from './discussionParser';
+import { canvasApi } from './canvasApi';
 
 export interface DetailItem {
   id: string;
   type: string;
   courseId: string;
+  host: string;
   title: string;
   content?: string;
   htmlContent?: string;
@@ -21,6 +29,7 @@ export interface DetailItem {
 export interface DetailCrawlResult {
   success: boolean;
   item?: DetailItem;
+  unchanged?: boolean; // Stored copy was still current, so nothing was re-crawled
   error?: string;
   timing: {
     start: number;
@@ -35,6 +44,8 @@ export interface DetailCrawlerConfig {
   maxRetries: number;
   useGhostTabs: boolean;
   extractFullHtml: boolean;
+  threadTimeout: number;
+  maxExpandRounds: number;
 }
 
 export class DetailCrawler {
@@ -47,6 +58,8 @@ export class DetailCrawler {
       maxRetries: 3,
       useGhostTabs: true,
       extractFullHtml: true,
+      threadTimeout: 120000,
+      maxExpandRounds: 20,
       ...config
     };
   }
@@ -59,12 +72,17 @@ export class DetailCrawler {
       this.log(`[DetailCrawler] Starting detail crawl for ${itemType}: ${itemUrl}`);
       
       let item: DetailItem;
-      
-      if (this.config.useGhostTabs) {
+      const apiItem = await canvasApi.getDetail(itemUrl, itemType, courseId);
+
+      if (apiItem) {
+        item = apiItem;
+      } else if (this.config.useGhostTabs) {
         item = await this.crawlWithGhostTab(itemUrl, itemType, courseId);
       } else {
         item = await this.crawlWithFetch(itemUrl, itemType, courseId);
       }
+
+      await this.storeDetailItem(item);
       
       const endTime = Date.now();
       const result: DetailCrawlResult = {
@@ -97,20 +115,53 @@ export class DetailCrawler {
     }
   }
 
+  // Re-crawl a discussion only when Canvas reports replies newer than the stored thread
+  async refreshDiscussion(itemUrl: string, courseId: string): Promise<DetailCrawlResult> {
+    const startTime = Date.now();
+    const stored = await this.getStoredDetail(courseId, this.extractItemId(itemUrl, 'discussion'));
+    const thread: DiscussionThread | undefined = stored?.metadata?.thread;
+
+    if (stored && thread) {
+      const summary = await this.fetchTopicSummary(itemUrl, courseId);
+      const storedLast = thread.lastReplyAt ? Date.parse(thread.lastReplyAt) : NaN;
+      const remoteLast = summary?.lastReplyAt ? Date.parse(summary.lastReplyAt) : NaN;
+
+      // The stored count includes replies kept from earlier captures; compare what the last capture actually saw
+      const capturedCount = thread.capturedReplyCount ?? 0;
+      if (summary && summary.replyCount <= capturedCount && (!summary.lastReplyAt || remoteLast <= storedLast)) {
+        this.log(`[DetailCrawler] Discussion ${stored.id} unchanged (${capturedCount} replies), skipping crawl`);
+        const endTime = Date.now();
+        return {
+          success: true,
+          item: stored,
+          unchanged: true,
+          timing: { start: startTime, end: endTime, duration: endTime - startTime }
+        };
+      }
+    }
+
+    return this.crawlItemDetail(itemUrl, 'discussion', courseId);
+  }
+
   // Crawl using ghost tab (for JavaScript-heavy content)
   private async crawlWithGhostTab(itemUrl: string, itemType: string, courseId: string): Promise<DetailItem> {
     const requestId = `detail_${itemType}_${Date.now()}`;
+    const isThread = itemType === 'discussion';
     
     const ghostTabRequest = {
       id: requestId,
       url: itemUrl,
-      timeout: this.config.defaultTimeout,
+      timeout: isThread ? this.config.threadTimeout : this.config.defaultTimeout,
       waitFor: {
         selector: 'body',
         timeout: 10000
       },
       actions: [
         { type: 'wait' as const, value: 3000 },
+        // Threads only render the first page of replies; open every collapsed branch first
+        ...(isThread
+          ? [{ type: 'expandAll' as const, selector: DISCUSSION_EXPAND_SELECTOR, value: this.config.maxExpandRounds }]
+          : []),
         { type: 'scroll' as const, value: 0 }
       ],
       extractors: this.getExtractorsForType(itemType)
@@ -123,7 +174,9 @@ export class DetailCrawler {
         throw new Error(`Ghost tab failed: ${response.error}`);
       }
 
-      return this.parseItemDetails(response.html || '', response.extractedData || {}, itemUrl, itemType, courseId);
+      const item = this.parseItemDetails(response.html || '', response.extractedData || {}, itemUrl, itemType, courseId);
+      await this.parseStructuredContent(item, response.html || '');
+      return item;
 
     } catch (error) {
       this.log(`[DetailCrawler] Ghost tab crawl failed for ${itemType}: ${error}`);
@@ -140,7 +193,9 @@ export class DetailCrawler {
       }
 
       const html = await response.text();
-      return this.parseItemDetails(html, {}, itemUrl, itemType, courseId);
+      const item = this.parseItemDetails(html, {}, response.url || itemUrl, itemType, courseId);
+      await this.parseStructuredContent(item, html);
+      return item;
 
     } catch (error) {
       this.log(`[DetailCrawler] Fetch crawl failed for ${itemType}: ${error}`);
@@ -148,6 +203,106 @@ export class DetailCrawler {
     }
   }
 
+  // Type-specific parsing that needs a real DOM, done in the offscreen document
+  private async parseStructuredContent(item: DetailItem, html: string): Promise<void> {
+    if (item.type === 'discussion') {
+      await this.captureThread(item, html);
+    } else if (item.type === 'assignment') {
+      await this.captureRubric(item, html);
+    }
+  }
+
+  private async captureRubric(item: DetailItem, html: string): Promise<void> {
+    const result = await offscreenClient.parseRubric(html);
+    if (!result.success) {
+      this.log(`[DetailCrawler] Could not parse rubric for ${item.id}: ${result.error}`);
+      return;
+    }
+
+    if (result.rubric) {
+      item.metadata = { ...item.metadata, rubric: result.rubric };
+      this.log(`[DetailCrawler] Captured rubric for ${item.id}: ${result.rubric.criteria.length} criteria${result.rubric.assessed ? ', assessed' : ''}`);
+    }
+  }
+
+  // Parse the reply tree and merge it into the thread captured on earlier crawls
+  private async captureThread(item: DetailItem, html: string): Promise<void> {
+    const result = await offscreenClient.parseDiscussion(html);
+    if (!result.success || !result.thread) {
+      this.log(`[DetailCrawler] Could not parse discussion thread for ${item.id}: ${result.error}`);
+      item.metadata = { ...item.metadata, threadError: result.error };
+      return;
+    }
+
+    const previous = await this.getStoredDetail(item.courseId, item.id);
+    const { thread, newReplyIds } = discussionParser.merge(previous?.metadata?.thread || null, result.thread);
+
+    item.metadata = {
+      ...item.metadata,
+      thread,
+      replies: thread.replyCount,
+      lastReplyAt: thread.lastReplyAt,
+      newReplyIds
+    };
+
+    this.log(`[DetailCrawler] Captured ${thread.replyCount} replies for ${item.id} (${newReplyIds.length} new)`);
+  }
+
+  // Ask the Canvas API for a topic's reply count and latest reply time (cheap compared to a ghost tab)
+  private async fetchTopicSummary(itemUrl: string, courseId: string): Promise<{ replyCount: number; lastReplyAt: string | null } | null> {
+    const topicId = CanvasIds.extractResourceId(itemUrl, 'discussion');
+    if (!topicId) return null;
+
+    try {
+      const apiUrl = `${hostContext.getOrigin(itemUrl)}/api/v1/courses/${courseId}/discussion_topics/${topicId}`;
+      const response = await fetch(apiUrl, { credentials: 'include', headers: { Accept: 'application/json' } });
+      if (!response.ok) return null;
+
+      // Canvas prefixes JSON responses with "while(1);" to block JSON hijacking
+      const topic = JSON.parse((await response.text()).replace(/^while\(1\);/, ''));
+      return {
+        replyCount: topic.discussion_subentry_count ?? 0,
+        lastReplyAt: topic.last_reply_at ?? null
+      };
+    } catch (error) {
+      this.log(`[DetailCrawler] Topic summary unavailable for ${itemUrl}: ${error}`);
+      return null;
+    }
+  }
+
+  private async getStoredDetail(courseId: string, itemId: string): Promise<DetailItem | null> {
+    if (!storageManager.isReady()) return null;
+
+    try {
+      const record = await storageManager.getStructuredData(CanvasIds.recordId(courseId, 'details', itemId));
+      return record?.data || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Persist the detail record next to the section item it expands
+  private async storeDetailItem(item: DetailItem): Promise<void> {
+    if (!storageManager.isReady()) {
+      this.log(`[DetailCrawler] Storage not ready, skipping persistence for ${item.id}`);
+      return;
+    }
+
+    try {
+      await storageManager.saveStructuredData({
+        id: CanvasIds.recordId(item.courseId, 'details', item.id),
+        courseId: item.courseId,
+        collection: 'details',
+        itemId: item.id,
+        data: item,
+        timestamp: item.updatedAt,
+        version: '1.0.0'
+      });
+    } catch (error) {
+      this.log(`[DetailCrawler] Failed to store detail ${item.id}: ${error}`);
+    }
+  }
+
   // Get extractors for a specific item type
   private getExtractorsForType(itemType: string) {
     const extractors: Array<{ name: string; selector: string; attribute?: string; multiple?: boolean }> = [];
@@ -172,6 +327,7 @@ export class DetailCrawler {
           { name: 'instructions', selector: '.instructions, .assignment_instructions, .directions' },
           { name: 'attachments', selector: 'a[href*="/files/"], .attachment, .instructure_file_link', attribute: 'href', multiple: true },
           { name: 'submissionTypes', selector: '.submission_types, .submission-types, [data-testid="submission-type"]' },
+          { name: 'availability', selector: '.student-assignment-overview, .assignment-dates, [data-testid="assignment-availability"]' },
           { name: 'allText', selector: 'h1, h2, h3, .content, .description, div, p, span', multiple: true }
         );
         break;
@@ -183,6 +339,8 @@ export class DetailCrawler {
           { name: 'author', selector: '.author' },
           { name: 'replies', selector: '.discussion_entry, .discussion-entry', multiple: true },
           { name: 'replyCount', selector: '.replies_count, .reply-count' },
+          { name: 'dueDate', selector: '.discussion-tododate, .due_date_display, [data-testid="due-date"], [data-testid="due-date-tray-link"]' },
+          { name: 'availability', selector: '.discussion-availability, [data-testid="non-graded-dates"], [data-testid="availability"]' },
           { name: 'attachments', selector: 'a[href*="/files/"], .attachment', attribute: 'href', multiple: true }
         );
         break;
@@ -205,6 +363,7 @@ export class DetailCrawler {
           { name: 'attempts', selector: '.allowed_attempts, .attempts, .quiz-attempts' },
           { name: 'questions', selector: '.question, .quiz_question, .quiz-item', multiple: true },
           { name: 'dueDate', selector: '.due_date, .due-date, .datetime_field' },
+          { name: 'availability', selector: '.student-assignment-overview, .quiz_details, .quiz-header .summary' },
           { name: 'allText', selector: 'h1, h2, h3, .content, .description, div, p, span', multiple: true }
         );
         break;
@@ -257,6 +416,7 @@ export class DetailCrawler {
       id: itemId,
       type: itemType,
       courseId,
+      host: hostContext.getOrigin(itemUrl),
       title: this.cleanText(title),
       extractedAt: now,
       updatedAt: now,
@@ -295,6 +455,7 @@ export class DetailCrawler {
           dueDate: extractedData.dueDate,
           points: extractedData.points,
           submissionTypes: extractedData.submissionTypes,
+          availability: extractedData.availability,
           instructions: this.cleanText(extractedData.instructions)
         };
         break;
@@ -303,7 +464,9 @@ export class DetailCrawler {
         item.metadata = {
           author: extractedData.author,
           replyCount: extractedData.replyCount,
-          replies: extractedData.replies?.length || 0
+          replies: extractedData.replies?.length || 0,
+          dueDate: extractedData.dueDate,
+          availability: extractedData.availability
         };
         break;
       
@@ -312,6 +475,7 @@ export class DetailCrawler {
           timeLimit: extractedData.timeLimit,
           attempts: extractedData.attempts,
           dueDate: extractedData.dueDate,
+          availability: extractedData.availability,
           questionCount: extractedData.questions?.length || 0,
           instructions: this.cleanText(extractedData.instructions)
         };
@@ -344,11 +508,12 @@ export class DetailCrawler {
         break;
     }
 
-    // Extract attachments
+    // Extract attachments, resolved against the item's own host
     if (extractedData.attachments) {
-      item.attachments = Array.isArray(extractedData.attachments) 
+      const attachments: string[] = Array.isArray(extractedData.attachments) 
         ? extractedData.attachments 
         : [extractedData.attachments];
+      item.attachments = attachments.map(href => hostContext.resolveUrl(href, itemUrl));
     }
 
     return item;
@@ -356,23 +521,10 @@ export class DetailCrawler {
 
   // Extract item ID from URL
   private extractItemId(url: string, itemType: string): string {
-    const patterns = {
-      assignment: /\/assignments\/(\d+)/,
-      discussion: /\/discussion_topics\/(\d+)/,
-      announcement: /\/announcements\/(\d+)/,
-      page: /\/wiki\/([^/?]+)/,
-      quiz: /\/quizzes\/(\d+)/,
-      file: /\/files\/(\d+)/,
-      module: /\/modules\/(\d+)/,
-      person: /\/users\/(\d+)/
-    };
-
-    const pattern = patterns[itemType as keyof typeof patterns];
-    if (pattern) {
-      const match = url.match(pattern);
-      if (match) {
-        return match[1];
-      }
+    // Same scheme as SectionCrawler so details line up with list items
+    const itemId = CanvasIds.itemId(url, itemType);
+    if (itemId) {
+      return itemId;
     }
 
     // Fallback to URL-based ID
@@ -438,8 +590,11 @@ export class DetailCrawler {
       try {
         this.log(`[DetailCrawler] Processing ${item.type} ${results.length + 1}/${items.length}...`);
         
-        const result = await this.crawlItemDetail(item.url, item.type, item.courseId);
+        const result = item.type === 'discussion'
+          ? await this.refreshDiscussion(item.url, item.courseId)
+          : await this.crawlItemDetail(item.url, item.type, item.courseId);
         results.push(result);
+        if (result.unchanged) continue;
         
         // Longer delay to avoid concurrent tab limits and Canvas rate limiting
         this.log(`[DetailCrawler] Waiting 5 seconds before next item...`);
@@ -471,11 +626,7 @@ export class DetailCrawler {
         throw new Error(`Course ${courseId} not found`);
       }
 
-      // Get section items (this would come from Phase 8 results)
-      // For now, we'll use the known items from our tests
-      const testItems = await this.getTestItemsForCourse(course);
-      
-      return await this.crawlMultipleItems(testItems);
+      return await this.crawlMultipleItems(await this.getStoredSectionItems(courseId));
       
     } catch (error) {
       this.log(`[DetailCrawler] Error crawling course details: ${error}`);
@@ -483,26 +634,27 @@ export class DetailCrawler {
     }
   }
 
-  // Get test items for a course (based on our Phase 8 discoveries)
-  private async getTestItemsForCourse(course: any): Promise<Array<{url: string, type: string, courseId: string}>> {
+  // Items the section crawler stored for a course, for the sections that have detail pages
+  private async getStoredSectionItems(courseId: string): Promise<Array<{url: string, type: string, courseId: string}>> {
+    if (!storageManager.isReady()) return [];
+
+    const sections: Record<string, string> = {
+      announcements: 'announcement',
+      assignments: 'assignment',
+      discussions: 'discussion',
+      pages: 'page',
+      quizzes: 'quiz'
+    };
+    const courseIndex = await storageManager.getCourseIndex(courseId);
     const items: Array<{url: string, type: string, courseId: string}> = [];
-    
-    if (course.code === 'Agro 101') {
-      // Based on our Phase 8 discoveries
-      items.push(
-        { url: `${course.url}/assignments/57852760`, type: 'assignment', courseId: course.id },
-        { url: `${course.url}/assignments/57980836`, type: 'assignment', courseId: course.id },
-        { url: `${course.url}/discussion_topics/26492809`, type: 'discussion', courseId: course.id },
-        { url: `${course.url}/quizzes/23030182`, type: 'quiz', courseId: course.id }
-      );
-    } else if (course.code === 'GTFM112') {
-      items.push(
-        { url: `${course.url}/assignments/57980132`, type: 'assignment', courseId: course.id },
-        { url: `${course.url}/assignments/57980175`, type: 'assignment', courseId: course.id },
-        { url: `${course.url}/assignments/57980200`, type: 'assignment', courseId: course.id },
-        { url: `${course.url}/discussion_topics/26492629`, type: 'discussion', courseId: course.id },
-        { url: `${course.url}/quizzes/23085267`, type: 'quiz', courseId: course.id }
-      );
+
+    for (const [section, type] of Object.entries(sections)) {
+      for (const itemId of courseIndex?.collections?.[section]?.itemIds || []) {
+        const record = await storageManager.getStructuredData(CanvasIds.recordId(courseId, section, itemId));
+        if (record?.data?.url && record.data.type === type) {
+          items.push({ url: record.data.url, type, courseId });
+        }
+      }
     }
 
     return items;
@@ -0,0 +1,147 @@
+// Digest Renderer for Canvas Scraper
+// Renders daily digests as HTML (for the digest page and export) and as Markdown
+
+import type { Digest, DigestCourse, DigestDeadline, DigestItem } from './dailyDigest';
+
+// Per-course lists, in display order
+const COURSE_LISTS: Array<[keyof Pick<DigestCourse, 'newItems' | 'updatedItems' | 'grades' | 'files'>, string]> = [
+  ['newItems', 'New'],
+  ['updatedItems', 'Updated'],
+  ['grades', 'Grades'],
+  ['files', 'Files']
+];
+
+const DIGEST_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.5; max-width: 800px; margin: 0 auto; padding: 16px 24px; color: #212529; }
+  h1 { font-size: 22px; color: #2c3e50; }
+  h2 { font-size: 18px; color: #2c3e50; border-bottom: 1px solid #dee2e6; padding-bottom: 4px; }
+  h3 { font-size: 14px; color: #495057; margin-bottom: 4px; }
+  ul { margin-top: 0; }
+  .muted { color: #6c757d; font-size: 12px; }
+`;
+
+export class DigestRenderer {
+  // Standalone HTML document, as exported
+  toHtml(digest: Digest): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${this.escape(this.title(digest))}</title>
+<style>${DIGEST_STYLE}</style>
+</head>
+<body>
+${this.toHtmlBody(digest)}
+</body>
+</html>
+`;
+  }
+
+  // Digest content without the document around it, for the digest page
+  toHtmlBody(digest: Digest): string {
+    const parts = [
+      `<h1>${this.escape(this.title(digest))}</h1>`,
+      `<p class="muted">${this.escape(this.period(digest))}</p>`,
+      `<h2>Due in the next 7 days</h2>`,
+      digest.deadlines.length
+        ? `<ul>${digest.deadlines.map(deadline => `<li>${this.deadlineHtml(deadline)}</li>`).join('')}</ul>`
+        : '<p class="muted">Nothing due.</p>'
+    ];
+
+    if (!digest.courses.length) {
+      parts.push('<h2>Courses</h2>', '<p class="muted">No new content, grades or files since the previous digest.</p>');
+    }
+
+    for (const course of digest.courses) {
+      parts.push(`<h2>${this.link(course.courseName, course.courseUrl)}</h2>`);
+      for (const [key, heading] of COURSE_LISTS) {
+        if (!course[key].length) continue;
+        parts.push(`<h3>${heading}</h3>`, `<ul>${course[key].map(item => `<li>${this.itemHtml(item)}</li>`).join('')}</ul>`);
+      }
+    }
+
+    return parts.join('\n');
+  }
+
+  toMarkdown(digest: Digest): string {
+    const lines = [
+      `# ${this.title(digest)}`,
+      '',
+      `_${this.period(digest)}_`,
+      '',
+      '## Due in the next 7 days',
+      ''
+    ];
+
+    if (digest.deadlines.length) {
+      for (const deadline of digest.deadlines) {
+        lines.push(`- **${this.formatDate(deadline.date, deadline.allDay)}** ${this.markdownLink(deadline.title, deadline.url)} (${deadline.courseName})`);
+      }
+    } else {
+      lines.push('Nothing due.');
+    }
+
+    if (!digest.courses.length) {
+      lines.push('', '## Courses', '', 'No new content, grades or files since the previous digest.');
+    }
+
+    for (const course of digest.courses) {
+      lines.push('', `## ${this.markdownLink(course.courseName, course.courseUrl)}`);
+      for (const [key, heading] of COURSE_LISTS) {
+        if (!course[key].length) continue;
+        lines.push('', `### ${heading}`, '');
+        for (const item of course[key]) {
+          lines.push(`- ${this.markdownLink(item.title, item.url)}${item.detail ? ` — ${item.detail}` : ''} _(${item.type})_`);
+        }
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  title(digest: Digest): string {
+    return `Canvas digest — ${new Date(digest.generatedAt).toLocaleDateString()}`;
+  }
+
+  private period(digest: Digest): string {
+    const { totals } = digest;
+    return `Changes from ${new Date(digest.periodStart).toLocaleString()} to ${new Date(digest.periodEnd).toLocaleString()}: `
+      + `${totals.newItems} new, ${totals.updatedItems} updated, ${totals.grades} grades, ${totals.files} files`;
+  }
+
+  private deadlineHtml(deadline: DigestDeadline): string {
+    return `<b>${this.escape(this.formatDate(deadline.date, deadline.allDay))}</b> ${this.link(deadline.title, deadline.url)} `
+      + `<span class="muted">${this.escape(deadline.courseName)}</span>`;
+  }
+
+  private itemHtml(item: DigestItem): string {
+    const detail = item.detail ? ` — ${this.escape(item.detail)}` : '';
+    return `${this.link(item.title, item.url)}${detail} <span class="muted">${this.escape(item.type)}</span>`;
+  }
+
+  private link(text: string, url: string | null): string {
+    return url ? `<a href="${this.escape(url)}" target="_blank" rel="noopener">${this.escape(text)}</a>` : this.escape(text);
+  }
+
+  private markdownLink(text: string, url: string | null): string {
+    const label = text.replace(/([[\]])/g, '\\$1');
+    return url ? `[${label}](<${url}>)` : label;
+  }
+
+  private formatDate(iso: string, allDay: boolean): string {
+    const date = new Date(iso);
+    return allDay
+      ? date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+      : date.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
+
+export const digestRenderer = new DigestRenderer();
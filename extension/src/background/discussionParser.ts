@@ -0,0 +1,277 @@
+// Discussion Parser for Canvas Scraper
+// Builds a reply tree from a rendered discussion page and merges it with previously captured threads
+// Runs wherever a DOM exists (offscreen document), so it must not depend on service worker singletons
+
+export interface DiscussionReply {
+  id: string;
+  parentId: string | null;
+  author: string | null;
+  authorId: string | null;
+  postedAt: string | null;
+  edited: boolean;
+  editedAt: string | null;
+  deleted: boolean;
+  message: string;
+  messageHtml: string;
+  replies: DiscussionReply[];
+  firstSeenAt: number;
+}
+
+export interface DiscussionTopic {
+  title: string | null;
+  author: string | null;
+  postedAt: string | null;
+  message: string;
+  messageHtml: string;
+}
+
+export interface DiscussionThread {
+  topic: DiscussionTopic;
+  replies: DiscussionReply[];
+  replyCount: number; // Every reply kept, including ones only seen in earlier captures
+  capturedReplyCount?: number; // Replies rendered in the latest capture; missing on threads stored before it was tracked
+  lastReplyAt: string | null;
+  capturedAt: number;
+}
+
+// Legacy (li.entry) and redesigned (React) discussion markup
+const ENTRY_SELECTOR = [
+  'li.entry[id^="entry-"]',
+  '[data-entry-id]',
+  '[id^="discussion_entry_"]',
+  '[data-testid="discussion-root-entry-container"]'
+].join(', ');
+
+const AUTHOR_SELECTOR = '[data-testid="author_name"], .discussion-title .author, .author';
+const TIME_SELECTOR = '[data-testid="created-tooltip"] time, .discussion-pubdate time, time[datetime], [data-testid="created-tooltip"]';
+const EDITED_SELECTOR = '[data-testid="editedByText"], .discussion-fyi';
+const MESSAGE_SELECTOR = '[data-resource-type="discussion_entry.body"], .message.user_content, .userMessage, .message';
+
+// Controls that reveal more of a thread; clicked repeatedly by the ghost tab before capture
+export const DISCUSSION_EXPAND_SELECTOR = [
+  '.showMore',
+  '.discussion-load-more',
+  '[data-testid="expand-button"]',
+  '[data-testid="show-more-replies-button"]',
+  '[data-testid="load-more-button"]',
+  '[data-testid="show-older-replies-button"]'
+].join(', ');
+
+export class DiscussionParser {
+  // Parse the topic and every rendered reply into a tree
+  parse(doc: Document, capturedAt = Date.now()): DiscussionThread {
+    const entries = Array.from(doc.querySelectorAll(ENTRY_SELECTOR));
+    const repliesById = new Map<string, DiscussionReply>();
+    const elementIds = new Map<Element, string>();
+    const derivedCounts = new Map<string, number>();
+
+    entries.forEach(entry => {
+      const authorElement = this.ownElement(entry, AUTHOR_SELECTOR);
+      const author = this.cleanText(authorElement?.textContent);
+      const authorId = authorElement?.getAttribute('data-id') || entry.getAttribute('data-authorid');
+      const postedAt = this.readTime(this.ownElement(entry, TIME_SELECTOR));
+
+      // Replies are merged across captures by ID, so an entry needs one that survives other replies being added or removed
+      const canvasId = this.readEntryId(entry);
+      let id = canvasId;
+      if (!id) {
+        const derived = this.derivedEntryId(authorId || author, postedAt);
+        if (!derived) return;
+
+        // Replies from one author with the same displayed time are told apart by their order
+        const occurrence = (derivedCounts.get(derived) || 0) + 1;
+        derivedCounts.set(derived, occurrence);
+        id = occurrence > 1 ? `${derived}_${occurrence}` : derived;
+      }
+      elementIds.set(entry, id);
+
+      // The redesign nests several matching wrappers per entry; the outermost one wins
+      if (canvasId && repliesById.has(id)) return;
+
+      const parent = this.findParentEntry(entry);
+      const message = this.ownElement(entry, MESSAGE_SELECTOR);
+      const edited = this.ownElement(entry, EDITED_SELECTOR);
+
+      repliesById.set(id, {
+        id,
+        parentId: parent ? elementIds.get(parent) || this.readEntryId(parent) : null,
+        author,
+        authorId,
+        postedAt,
+        edited: !!edited,
+        editedAt: edited ? this.readTime(edited.querySelector('time')) || this.cleanText(edited.textContent) : null,
+        deleted: entry.classList.contains('deleted') || !!this.ownElement(entry, '.deleted, [data-testid="deleted-entry"]'),
+        message: this.cleanText(message?.textContent) || '',
+        messageHtml: message?.innerHTML.trim() || '',
+        replies: [],
+        firstSeenAt: capturedAt
+      });
+    });
+
+    const replies = this.buildTree(Array.from(repliesById.values()));
+
+    return {
+      topic: this.parseTopic(doc),
+      replies,
+      replyCount: repliesById.size,
+      capturedReplyCount: repliesById.size,
+      lastReplyAt: this.latestPostedAt(Array.from(repliesById.values())),
+      capturedAt
+    };
+  }
+
+  // Merge a fresh capture into the stored thread; replies collapsed or paged out this time are kept
+  merge(previous: DiscussionThread | null, current: DiscussionThread): { thread: DiscussionThread; newReplyIds: string[] } {
+    if (!previous) {
+      return { thread: current, newReplyIds: this.flatten(current.replies).map(reply => reply.id) };
+    }
+
+    // Earlier versions keyed ID-less replies by position, which changes as replies come and go
+    const previousById = new Map(this.flatten(previous.replies)
+      .filter(reply => !reply.id.startsWith('position_'))
+      .map(reply => [reply.id, reply]));
+    const merged = new Map<string, DiscussionReply>();
+    const newReplyIds: string[] = [];
+
+    for (const reply of this.flatten(current.replies)) {
+      const known = previousById.get(reply.id);
+      if (known) {
+        reply.firstSeenAt = known.firstSeenAt;
+      } else {
+        newReplyIds.push(reply.id);
+      }
+      merged.set(reply.id, { ...reply, replies: [] });
+    }
+
+    for (const [id, reply] of previousById) {
+      if (!merged.has(id)) {
+        merged.set(id, { ...reply, replies: [] });
+      }
+    }
+
+    const all = Array.from(merged.values());
+
+    return {
+      thread: {
+        topic: current.topic.message ? current.topic : previous.topic,
+        replies: this.buildTree(all),
+        replyCount: all.length,
+        capturedReplyCount: current.capturedReplyCount,
+        lastReplyAt: this.latestPostedAt(all),
+        capturedAt: current.capturedAt
+      },
+      newReplyIds
+    };
+  }
+
+  // Depth-first list of every reply in a tree
+  flatten(replies: DiscussionReply[]): DiscussionReply[] {
+    return replies.flatMap(reply => [reply, ...this.flatten(reply.replies)]);
+  }
+
+  private parseTopic(doc: Document): DiscussionTopic {
+    const topic = doc.querySelector('#discussion_topic, [data-testid="discussion-topic-container"], .discussion_topic') || doc.body;
+    const message = topic?.querySelector('[data-resource-type="discussion_topic.body"], .message.user_content, .userMessage, .message');
+
+    return {
+      title: this.cleanText(doc.querySelector('.discussion-title, [data-testid="discussion-topic-title"], h1')?.textContent),
+      author: this.cleanText(topic?.querySelector(AUTHOR_SELECTOR)?.textContent),
+      postedAt: this.readTime(topic?.querySelector(TIME_SELECTOR) || null),
+      message: this.cleanText(message?.textContent) || '',
+      messageHtml: message?.innerHTML.trim() || ''
+    };
+  }
+
+  // Attach replies to their parents; replies whose parent is unknown become roots
+  private buildTree(replies: DiscussionReply[]): DiscussionReply[] {
+    const byId = new Map(replies.map(reply => [reply.id, reply]));
+    const roots: DiscussionReply[] = [];
+
+    for (const reply of replies) {
+      const parent = reply.parentId ? byId.get(reply.parentId) : undefined;
+      if (parent && parent !== reply) {
+        parent.replies.push(reply);
+      } else {
+        roots.push(reply);
+      }
+    }
+
+    return roots;
+  }
+
+  private readEntryId(entry: Element): string | null {
+    const attribute = entry.getAttribute('data-entry-id');
+    if (attribute) return attribute;
+
+    const match = entry.id.match(/(?:entry-|discussion_entry_)(\d+)/);
+    if (match) return match[1];
+
+    // Redesigned root containers carry the ID on an inner element
+    const inner = entry.querySelector('[data-entry-id], [id^="discussion_entry_"]');
+    return inner ? this.readEntryId(inner) : null;
+  }
+
+  // ID for an entry rendered without its Canvas ID: who posted it and when
+  private derivedEntryId(author: string | null, postedAt: string | null): string | null {
+    if (!author || !postedAt) return null;
+
+    const key = `${author}|${postedAt}`;
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = ((hash << 5) - hash + key.charCodeAt(i)) | 0;
+    }
+    return `derived_${Math.abs(hash).toString(36)}`;
+  }
+
+  // Nearest enclosing entry that is a different reply (not a wrapper of the same one)
+  private findParentEntry(entry: Element): Element | null {
+    let parent = entry.parentElement?.closest(ENTRY_SELECTOR) || null;
+
+    while (parent && this.isSameEntry(parent, entry)) {
+      parent = parent.parentElement?.closest(ENTRY_SELECTOR) || null;
+    }
+
+    return parent;
+  }
+
+  // First match that belongs to this entry rather than to a nested reply
+  private ownElement(entry: Element, selector: string): Element | null {
+    for (const element of Array.from(entry.querySelectorAll(selector))) {
+      const owner = element.closest(ENTRY_SELECTOR);
+      if (owner && this.isSameEntry(owner, entry)) {
+        return element;
+      }
+    }
+
+    return null;
+  }
+
+  // Wrappers of one reply share its Canvas ID; entries without one are only the same as themselves
+  private isSameEntry(a: Element, b: Element): boolean {
+    if (a === b) return true;
+
+    const id = this.readEntryId(a);
+    return id !== null && id === this.readEntryId(b);
+  }
+
+  private readTime(element: Element | null): string | null {
+    if (!element) return null;
+    return element.getAttribute('datetime') || this.cleanText(element.getAttribute('title') || element.textContent);
+  }
+
+  private latestPostedAt(replies: DiscussionReply[]): string | null {
+    const times = replies
+      .map(reply => reply.postedAt)
+      .filter((postedAt): postedAt is string => !!postedAt && !isNaN(Date.parse(postedAt)))
+      .sort((a, b) => Date.parse(b) - Date.parse(a));
+
+    return times[0] || null;
+  }
+
+  private cleanText(text: string | null | undefined): string | null {
+    const cleaned = text?.replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+  }
+}
+
+export const discussionParser = new DiscussionParser();
@@ -3,6 +3,11 @@
 
 import { ghostTabManager } from './ghostTabManager';
 import { storageManager } from './storageManager';
+import { rateLimiter } from './rateLimiter';
+import { hostContext } from './hostContext';
+import { offscreenClient, OcrOptions, OcrResult, PdfExtractionResult } from './offscreenClient';
+import { ContentUtils } from './contentUtils';
+import { CanvasIds } from './canvasIds';
 
 export interface FileItem {
   id: string;
@@ -13,9 +18,11 @@ export interface FileItem {
   downloadUrl: string;
   courseId: string;
   sourceUrl: string;
+  host: string;
   contentHash?: string;
   extractedText?: string;
   ocrText?: string;
+  ocrConfidence?: number;
   downloadedAt?: number;
   processedAt?: number;
   metadata?: Record<string, any>;
@@ -25,6 +32,7 @@ export interface FileProcessResult {
   success: boolean;
   fileItem?: FileItem;
   error?: string;
+  extractionError?: string;
   timing: {
     download: number;
     processing: number;
@@ -38,6 +46,9 @@ export interface FilesPipelineConfig {
   maxFileSize: number; // in bytes
   enablePdfExtraction: boolean;
   enableOcr: boolean;
+  ocrLanguage: string;
+  ocrTimeBudgetMs: number; // per file, across all pages
+  minTextLayerChars: number; // PDF pages with less text than this are treated as scanned
   downloadTimeout: number;
   supportedTypes: string[];
   storageMode: 'text-only' | 'blob-and-text' | 'blob-only';
@@ -56,6 +67,9 @@ export class FilesPipeline {
       maxFileSize: 50 * 1024 * 1024, // 50MB
       enablePdfExtraction: true,
       enableOcr: false, // Off by default as specified
+      ocrLanguage: 'eng',
+      ocrTimeBudgetMs: 60000,
+      minTextLayerChars: 20,
       downloadTimeout: 60000, // 1 minute
       supportedTypes: ['pdf', 'doc', 'docx', 'txt', 'jpg', 'png', 'gif', 'xlsx', 'pptx'],
       storageMode: 'text-only',
@@ -70,6 +84,8 @@ export class FilesPipeline {
     let processingTime = 0;
 
     try {
+      // Relative file links resolve against the page they were found on
+      fileUrl = hostContext.resolveUrl(fileUrl, sourceUrl);
       this.log(`[FilesPipeline] Starting file processing: ${fileUrl}`);
 
       // Step 1: Extract file metadata
@@ -110,7 +126,7 @@ export class FilesPipeline {
       processingTime = Date.now() - processStart;
 
       // Step 8: Store file data
-      await this.storeFileData(fileItem);
+      await this.storeFileData(fileItem, fileBlob);
 
       const totalTime = Date.now() - startTime;
       this.log(`[FilesPipeline] File processing completed: ${fileItem.fileName} (${totalTime}ms)`);
@@ -118,6 +134,7 @@ export class FilesPipeline {
       return {
         success: true,
         fileItem,
+        extractionError: fileItem.metadata?.extractionError?.message,
         timing: { download: downloadTime, processing: processingTime, total: totalTime }
       };
 
@@ -133,6 +150,49 @@ export class FilesPipeline {
     }
   }
 
+  // Record a file's name, type and link without downloading it ("metadata only" file extraction)
+  async recordFile(fileUrl: string, courseId: string, sourceUrl: string): Promise<FileProcessResult> {
+    const startTime = Date.now();
+
+    try {
+      fileUrl = hostContext.resolveUrl(fileUrl, sourceUrl);
+      const metadata = await this.extractFileMetadata(fileUrl, courseId, sourceUrl);
+      const storageKey = `file_${courseId}_${metadata.id}`;
+
+      // Keep a record that already has downloaded content
+      const existing = await storageManager.getStructuredData(storageKey);
+      if (existing?.data?.downloadedAt) {
+        return { success: true, fileItem: existing.data, timing: { download: 0, processing: 0, total: Date.now() - startTime } };
+      }
+
+      const fileItem: FileItem = {
+        ...(metadata as FileItem),
+        processedAt: Date.now(),
+        metadata: { metadataOnly: true }
+      };
+
+      await storageManager.saveStructuredData({
+        id: storageKey,
+        courseId,
+        collection: 'files',
+        itemId: CanvasIds.itemId(fileUrl, 'file') || fileItem.id,
+        data: fileItem,
+        timestamp: fileItem.processedAt!,
+        version: '1.0.0'
+      });
+
+      this.log(`[FilesPipeline] Recorded file metadata: ${fileItem.fileName}`);
+      return { success: true, fileItem, timing: { download: 0, processing: 0, total: Date.now() - startTime } };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timing: { download: 0, processing: 0, total: Date.now() - startTime }
+      };
+    }
+  }
+
   // Extract file metadata from URL or page
   private async extractFileMetadata(fileUrl: string, courseId: string, sourceUrl: string): Promise<Partial<FileItem>> {
     try {
@@ -178,7 +238,7 @@ export class FilesPipeline {
       
       // Additional fallback - if still unknown, default to pdf for Canvas files
       if (fileExtension === '' || fileExtension === 'unknown') {
-        if (fileUrl.includes('canvas.instructure.com') || fileUrl.includes('canvas-user-content.com')) {
+        if (hostContext.isCanvasUrl(fileUrl) || fileUrl.includes('canvas-user-content.com')) {
           fileExtension = 'pdf';
           fileName = `canvas_file_${this.generateFileId(fileUrl)}.pdf`;
           this.log(`[FilesPipeline] Defaulting to PDF for Canvas file: ${fileName}`);
@@ -193,7 +253,8 @@ export class FilesPipeline {
         mimeType: this.getMimeTypeFromExtension(fileExtension),
         downloadUrl: fileUrl,
         courseId,
-        sourceUrl
+        sourceUrl,
+        host: hostContext.getOrigin(sourceUrl || fileUrl)
       };
 
     } catch (error) {
@@ -220,50 +281,44 @@ export class FilesPipeline {
     return mimeTypes[extension.toLowerCase()] || 'application/octet-stream';
   }
 
-  // Download file using Chrome downloads API to avoid CORS
+  // Download file bytes with the user's Canvas session (host permissions cover the CORS check)
   private async downloadFile(fileUrl: string, fileName: string): Promise<Blob> {
     const requestId = this.generateFileId(fileUrl);
-    this.activeDownloads.set(requestId, new AbortController());
+    const lease = await rateLimiter.acquire(fileUrl);
+    const controller = new AbortController();
+    this.activeDownloads.set(requestId, controller);
+    const timer = setTimeout(() => controller.abort(), this.config.downloadTimeout);
 
     try {
-      this.log(`[FilesPipeline] Downloading via chrome.downloads: ${fileName}`);
+      this.log(`[FilesPipeline] Downloading: ${fileName}`);
 
-      const downloadId = await chrome.downloads.download({
-        url: fileUrl,
-        filename: fileName,
-        conflictAction: 'uniquify',
-        saveAs: false
+      const response = await fetch(fileUrl, {
+        credentials: 'include',
+        redirect: 'follow',
+        signal: controller.signal
       });
+      lease.release({ status: response.status, headers: response.headers });
 
-      // Wait for completion (with timeout)
-      await new Promise<void>((resolve, reject) => {
-        const startedAt = Date.now();
-        const onChanged = (delta: chrome.downloads.DownloadDelta) => {
-          if (delta.id !== downloadId) return;
-          if (delta.state?.current === 'complete') {
-            chrome.downloads.onChanged.removeListener(onChanged);
-            resolve();
-          } else if (delta.state?.current === 'interrupted') {
-            chrome.downloads.onChanged.removeListener(onChanged);
-            reject(new Error('Download interrupted'));
-          } else if (Date.now() - startedAt > this.config.downloadTimeout) {
-            chrome.downloads.onChanged.removeListener(onChanged);
-            reject(new Error('Download timeout'));
-          }
-        };
-        chrome.downloads.onChanged.addListener(onChanged);
-      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
 
-      // We cannot read cross-origin bytes directly; return a placeholder Blob.
-      // Processing stages that require bytes should operate on the saved file path (future work).
-      const placeholder = `Downloaded ${fileName} via chrome.downloads. Bytes not read due to CORS.`;
-      const blob = new Blob([placeholder], { type: 'text/plain' });
-      this.log(`[FilesPipeline] Download completed for ${fileName}`);
+      const blob = await response.blob();
+      if (blob.size > this.config.maxFileSize) {
+        throw new Error(`File too large: ${blob.size} bytes (max: ${this.config.maxFileSize})`);
+      }
+
+      this.log(`[FilesPipeline] Download completed for ${fileName} (${blob.size} bytes)`);
       return blob;
 
     } catch (error) {
+      lease.release({ networkError: !controller.signal.aborted });
+      if (controller.signal.aborted) {
+        throw new Error(`Download timeout or cancelled: ${fileName}`);
+      }
       throw error;
     } finally {
+      clearTimeout(timer);
       this.activeDownloads.delete(requestId);
     }
   }
@@ -279,25 +334,49 @@ export class FilesPipeline {
       downloadUrl: metadata.downloadUrl!,
       courseId: metadata.courseId!,
       sourceUrl: metadata.sourceUrl!,
+      host: metadata.host!,
       contentHash,
       downloadedAt: Date.now(),
       processedAt: Date.now(),
       metadata: {}
     };
 
+    fileItem.fileSize = fileBlob.size;
+
     try {
       // PDF text extraction
       if (this.config.enablePdfExtraction && this.isPdfFile(metadata.fileType!)) {
         this.log(`[FilesPipeline] Extracting text from PDF: ${metadata.fileName}`);
-        fileItem.extractedText = await this.extractPdfText(fileBlob);
-        this.log(`[FilesPipeline] Extracted ${fileItem.extractedText?.length || 0} characters from PDF`);
+        const pdfResult = await this.extractPdfText(fileBlob);
+
+        if (pdfResult.success) {
+          fileItem.extractedText = pdfResult.pages.map(page => page.text).join('\n\n');
+          fileItem.metadata!.pageCount = pdfResult.pageCount;
+          fileItem.metadata!.pdf = pdfResult.metadata;
+          await this.saveExtractedPdfText(fileItem, pdfResult);
+          this.log(`[FilesPipeline] Extracted ${fileItem.extractedText.length} characters from ${pdfResult.pageCount} PDF pages`);
+
+          // Scanned pages have no text layer; recognize them instead
+          const scannedPages = pdfResult.pages
+            .filter(page => page.text.length < this.config.minTextLayerChars)
+            .map(page => page.pageNumber);
+
+          if (this.config.enableOcr && scannedPages.length > 0) {
+            this.log(`[FilesPipeline] Performing OCR on ${scannedPages.length} scanned PDF pages: ${metadata.fileName}`);
+            const ocrResult = await offscreenClient.performPdfOcr(await fileBlob.arrayBuffer(), scannedPages, this.getOcrOptions());
+            await this.applyOcrResult(fileItem, ocrResult);
+          }
+        } else {
+          fileItem.metadata!.extractionError = { code: pdfResult.errorCode, message: pdfResult.error };
+          this.log(`[FilesPipeline] PDF extraction failed for ${metadata.fileName} (${pdfResult.errorCode}): ${pdfResult.error}`);
+        }
       }
 
       // OCR for images (if enabled)
       if (this.config.enableOcr && this.isImageFile(metadata.fileType!)) {
         this.log(`[FilesPipeline] Performing OCR on image: ${metadata.fileName}`);
-        fileItem.ocrText = await this.performOcr(fileBlob);
-        this.log(`[FilesPipeline] OCR extracted ${fileItem.ocrText?.length || 0} characters`);
+        const ocrResult = await this.performOcr(fileBlob, fileItem.mimeType);
+        await this.applyOcrResult(fileItem, ocrResult);
       }
 
       // Text file extraction
@@ -328,37 +407,70 @@ export class FilesPipeline {
     }
   }
 
-  // PDF text extraction using PDF.js (placeholder - would need actual PDF.js integration)
-  private async extractPdfText(pdfBlob: Blob): Promise<string> {
-    try {
-      // This is a placeholder implementation
-      // In a real implementation, you would use PDF.js:
-      // const pdfDoc = await pdfjsLib.getDocument(arrayBuffer).promise;
-      // Extract text from each page
-      
-      this.log(`[FilesPipeline] PDF text extraction not yet implemented`);
-      return `PDF text extraction placeholder - ${pdfBlob.size} bytes`;
-      
-    } catch (error) {
-      this.log(`[FilesPipeline] PDF extraction failed: ${error}`);
-      return '';
-    }
+  // PDF text extraction using PDF.js in the offscreen document
+  private async extractPdfText(pdfBlob: Blob): Promise<PdfExtractionResult> {
+    const data = await pdfBlob.arrayBuffer();
+    return offscreenClient.extractPdfText(data);
   }
 
-  // OCR using Tesseract.js (placeholder - would need actual Tesseract.js integration)
-  private async performOcr(imageBlob: Blob): Promise<string> {
-    try {
-      // This is a placeholder implementation
-      // In a real implementation, you would use Tesseract.js:
-      // const { data: { text } } = await Tesseract.recognize(imageBlob, 'eng');
-      
-      this.log(`[FilesPipeline] OCR not yet implemented`);
-      return `OCR placeholder - ${imageBlob.size} bytes image`;
-      
-    } catch (error) {
-      this.log(`[FilesPipeline] OCR failed: ${error}`);
-      return '';
+  // Write one ExtractedText record per PDF, keeping the per-page breakdown
+  private async saveExtractedPdfText(fileItem: FileItem, pdfResult: PdfExtractionResult): Promise<void> {
+    if (this.config.storageMode === 'blob-only') return;
+
+    const text = fileItem.extractedText || '';
+    await storageManager.saveExtractedText({
+      id: `pdf_${fileItem.courseId}_${fileItem.id}`,
+      sourceId: fileItem.id,
+      sourceType: 'pdf',
+      text,
+      timestamp: Date.now(),
+      hash: await ContentUtils.hashContent(text),
+      pageCount: pdfResult.pageCount,
+      pages: pdfResult.pages,
+      metadata: pdfResult.metadata
+    });
+  }
+
+  // OCR using Tesseract.js in the offscreen document
+  private async performOcr(imageBlob: Blob, mimeType: string): Promise<OcrResult> {
+    const data = await imageBlob.arrayBuffer();
+    return offscreenClient.performImageOcr(data, imageBlob.type || mimeType, this.getOcrOptions());
+  }
+
+  private getOcrOptions(): OcrOptions {
+    return {
+      language: this.config.ocrLanguage,
+      timeBudgetMs: this.config.ocrTimeBudgetMs
+    };
+  }
+
+  // Record OCR output on the file and as an ExtractedText record
+  private async applyOcrResult(fileItem: FileItem, ocrResult: OcrResult): Promise<void> {
+    if (!ocrResult.success) {
+      fileItem.metadata!.ocrError = ocrResult.error;
+      this.log(`[FilesPipeline] OCR failed for ${fileItem.fileName}: ${ocrResult.error}`);
+      return;
     }
+
+    fileItem.ocrText = ocrResult.text;
+    fileItem.ocrConfidence = ocrResult.confidence;
+    fileItem.metadata!.ocrTimedOut = ocrResult.timedOut;
+    this.log(`[FilesPipeline] OCR extracted ${ocrResult.text.length} characters (confidence ${ocrResult.confidence}%${ocrResult.timedOut ? ', time budget hit' : ''})`);
+
+    if (this.config.storageMode === 'blob-only') return;
+
+    await storageManager.saveExtractedText({
+      id: `ocr_${fileItem.courseId}_${fileItem.id}`,
+      sourceId: fileItem.id,
+      sourceType: 'image',
+      text: ocrResult.text,
+      timestamp: Date.now(),
+      hash: await ContentUtils.hashContent(ocrResult.text),
+      confidence: ocrResult.confidence,
+      pageCount: ocrResult.pages.length,
+      pages: ocrResult.pages,
+      metadata: { language: this.config.ocrLanguage, timedOut: ocrResult.timedOut }
+    });
   }
 
   // Extract text from text files
@@ -372,36 +484,41 @@ export class FilesPipeline {
   }
 
   // Store file data according to storage mode
-  private async storeFileData(fileItem: FileItem): Promise<void> {
+  private async storeFileData(fileItem: FileItem, fileBlob: Blob): Promise<void> {
     try {
       const storageKey = `file_${fileItem.courseId}_${fileItem.id}`;
+      let data: Partial<FileItem> = fileItem;
       
       switch (this.config.storageMode) {
         case 'text-only':
           // Store only extracted text and metadata
-          const textOnlyData = {
-            ...fileItem,
-            blob: undefined // Don't store the actual file
-          };
-          await storageManager.saveStructuredData(storageKey, textOnlyData);
           break;
           
         case 'blob-and-text':
           // Store both file and extracted text
-          await storageManager.saveStructuredData(storageKey, fileItem);
-          // Note: Blob storage would need additional implementation
+          await this.storeFileBlob(fileItem, fileBlob);
           break;
           
         case 'blob-only':
           // Store only file metadata and blob reference
-          const blobOnlyData = {
+          data = {
             ...fileItem,
             extractedText: undefined,
             ocrText: undefined
           };
-          await storageManager.saveStructuredData(storageKey, blobOnlyData);
+          await this.storeFileBlob(fileItem, fileBlob);
           break;
       }
+
+      await storageManager.saveStructuredData({
+        id: storageKey,
+        courseId: fileItem.courseId,
+        collection: 'files',
+        itemId: CanvasIds.itemId(fileItem.downloadUrl, 'file') || fileItem.id,
+        data,
+        timestamp: fileItem.processedAt || Date.now(),
+        version: '1.0.0'
+      });
       
       this.log(`[FilesPipeline] Stored file data: ${fileItem.fileName} (mode: ${this.config.storageMode})`);
       
@@ -411,6 +528,18 @@ export class FilesPipeline {
     }
   }
 
+  private async storeFileBlob(fileItem: FileItem, fileBlob: Blob): Promise<void> {
+    await storageManager.saveBlob({
+      id: `blob_${fileItem.courseId}_${fileItem.id}`,
+      sourceId: fileItem.id,
+      mimeType: fileBlob.type || fileItem.mimeType,
+      data: await fileBlob.arrayBuffer(),
+      hash: fileItem.contentHash || '',
+      timestamp: Date.now(),
+      size: fileBlob.size
+    });
+  }
+
   // Find existing file by content hash (deduplication)
   private async findExistingFileByHash(contentHash: string): Promise<FileItem | null> {
     try {
@@ -534,6 +663,16 @@ export class FilesPipeline {
     return ['txt', 'md', 'csv', 'json', 'xml', 'html', 'css', 'js', 'ts'].includes(fileType.toLowerCase());
   }
 
+  // Configuration
+  updateConfig(newConfig: Partial<FilesPipelineConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // Longest one file may take: its download plus, with OCR on, the OCR time budget
+  maxProcessingMs(): number {
+    return this.config.downloadTimeout + (this.config.enableOcr ? this.config.ocrTimeBudgetMs : 0);
+  }
+
   // Get pipeline statistics
   getStats(): {
     activeDownloads: number;
@@ -1,6 +1,8 @@
 // Ghost Tab Manager for Canvas Scraper
 // Creates and manages background tabs for JavaScript-heavy content extraction
 
+import { rateLimiter } from './rateLimiter';
+
 export interface GhostTabRequest {
   id: string;
   url: string;
@@ -11,7 +13,7 @@ export interface GhostTabRequest {
     timeout?: number;
   };
   actions?: Array<{
-    type: 'click' | 'scroll' | 'wait' | 'expand';
+    type: 'click' | 'scroll' | 'wait' | 'expand' | 'expandAll' | 'scrollToEnd';
     selector?: string;
     timeout?: number;
     value?: string | number;
@@ -29,6 +31,7 @@ export interface GhostTabResponse {
   success: boolean;
   html?: string;
   extractedData?: Record<string, any>;
+  scroll?: { rounds: number; exhausted: boolean }; // Set when the request included a scrollToEnd action
   error?: string;
   timing: {
     created: number;
@@ -93,10 +96,12 @@ export class GhostTabManager {
       throw new Error(`Maximum concurrent tabs (${this.config.maxConcurrentTabs}) reached`);
     }
 
+    // A tab load counts against the host's rate limit until the tab is done
+    const lease = await rateLimiter.acquire(request.url);
     const startTime = Date.now();
     const timeout = request.timeout || this.config.defaultTimeout;
 
-    return new Promise((resolve, reject) => {
+    return new Promise<GhostTabResponse>((resolve, reject) => {
       // Store the pending request
       this.pendingRequests.set(request.id, {
         request,
@@ -121,7 +126,7 @@ export class GhostTabManager {
         .catch(error => {
           this.handleError(request.id, error);
         });
-    });
+    }).finally(() => lease.release());
   }
 
   private async createBackgroundTab(url: string, requestId: string): Promise<chrome.tabs.Tab | null> {
@@ -264,6 +269,7 @@ export class GhostTabManager {
       success: true,
       html: data.html,
       extractedData: data.extractedData,
+      scroll: data.scroll || undefined,
       timing: {
         created: pending.startTime,
         loaded: data.loadTime || Date.now(),
@@ -0,0 +1,234 @@
+// Grades Parser for Canvas Scraper
+// Turns the student grades page (/courses/:id/grades) into per-assignment records and a course summary
+// Runs wherever a DOM exists (offscreen document), so it must not depend on service worker singletons
+
+import { CanvasIds } from './canvasIds';
+import { rubricParser } from './rubricParser';
+import type { Rubric } from './rubricParser';
+
+export type GradeStatus = 'late' | 'missing' | 'excused' | 'dropped';
+
+export interface GradeRecord {
+  assignmentId: string;
+  name: string;
+  url: string;
+  assignmentGroup: string | null;
+  assignmentGroupId: string | null;
+  dueAt: string | null;
+  score: number | null;
+  pointsPossible: number | null;
+  displayGrade: string | null; // Grade as Canvas shows it ("8", "A-", "Complete", "EX")
+  status: GradeStatus[];
+  hasComments: boolean;
+  commentCount: number; // Comments rendered on the page; 0 when Canvas only shows the toggle
+  rubric: Rubric | null; // Rubric with the student's assessed ratings, when Canvas shows rubric results
+}
+
+export interface AssignmentGroupWeight {
+  id: string | null;
+  name: string;
+  weight: number | null; // Percent of the final grade, null when groups are not weighted
+  score: number | null; // Percent scored in the group so far
+}
+
+export interface GradeSummary {
+  displayGrade: string | null;
+  percent: number | null;
+  letterGrade: string | null;
+  basis: 'current' | 'final'; // "current" when Canvas only counts graded assignments
+  weighted: boolean;
+  groups: AssignmentGroupWeight[];
+}
+
+export interface GradesPage {
+  records: GradeRecord[];
+  summary: GradeSummary | null;
+}
+
+// Tooltip and screen reader text Canvas nests inside score cells
+const SCORE_NOISE_SELECTOR = '.tooltip_wrap, .tooltip_text, .screenreader-only, .score_teaser';
+
+export class GradesParser {
+  // Parse the grades table; returns no records when the page is not a student grades page
+  parse(doc: Document, pageUrl: string): GradesPage {
+    const rows = Array.from(doc.querySelectorAll('tr.student_assignment'));
+    const groupRows = rows.filter(row => row.classList.contains('group_total'));
+    const records: GradeRecord[] = [];
+
+    for (const row of rows) {
+      if (row.classList.contains('hard_coded')) continue;
+
+      const record = this.parseAssignmentRow(doc, row, pageUrl, groupRows);
+      if (record) {
+        records.push(record);
+      }
+    }
+
+    return {
+      records,
+      summary: rows.length > 0 ? this.parseSummary(doc, groupRows) : null
+    };
+  }
+
+  private parseAssignmentRow(doc: Document, row: Element, pageUrl: string, groupRows: Element[]): GradeRecord | null {
+    const link = row.querySelector('th.title a, .title a');
+    const url = link?.getAttribute('href') ? this.resolveUrl(link.getAttribute('href')!, pageUrl) : pageUrl;
+
+    // Row IDs look like "submission_123"; fall back to the assignment link
+    const assignmentId = row.id.match(/^submission_(\d+)$/)?.[1] || CanvasIds.extractResourceId(url, 'assignment');
+    if (!assignmentId) return null;
+
+    const scoreCell = row.querySelector('td.assignment_score');
+    const displayGrade = this.readScore(scoreCell);
+    const score = this.parseNumber(row.querySelector('.original_points')?.textContent) ?? this.parseNumber(displayGrade);
+    const assignmentGroup = this.cleanText(row.querySelector('.context')?.textContent);
+
+    return {
+      assignmentId,
+      name: this.cleanText(link?.textContent) || this.cleanText(row.querySelector('.title')?.textContent) || `Assignment ${assignmentId}`,
+      url,
+      assignmentGroup,
+      assignmentGroupId: this.findGroupId(assignmentGroup, groupRows),
+      dueAt: this.cleanText(row.querySelector('td.due')?.textContent),
+      score,
+      pointsPossible: this.readPointsPossible(row, scoreCell),
+      displayGrade,
+      status: this.readStatus(row, displayGrade),
+      hasComments: this.hasComments(doc, row, assignmentId),
+      commentCount: doc.querySelectorAll(`#comments_thread_${assignmentId} .comment`).length,
+      rubric: this.readRubric(doc, assignmentId)
+    };
+  }
+
+  private parseSummary(doc: Document, groupRows: Element[]): GradeSummary {
+    const finalRow = doc.querySelector('tr.student_assignment.final_grade');
+    const displayGrade = this.readScore(finalRow?.querySelector('td.assignment_score') || null)
+      || this.cleanText(doc.querySelector('#student-grades-final')?.textContent)?.replace(/^Total:\s*/i, '')
+      || null;
+
+    const weights = this.readGroupWeights(doc);
+    const groups: AssignmentGroupWeight[] = groupRows.map(row => {
+      const name = this.cleanText(row.querySelector('th.title, .title')?.textContent) || '';
+      return {
+        id: row.id.match(/^submission_group-(\d+)$/)?.[1] || null,
+        name,
+        weight: weights.get(name.toLowerCase())?.weight ?? null,
+        score: this.parseNumber(this.readScore(row.querySelector('td.assignment_score')))
+      };
+    });
+
+    // Weighted groups can appear in the weights table without a total row (e.g. nothing graded yet)
+    for (const [key, { name, weight }] of weights) {
+      if (key !== 'total' && !groups.some(group => group.name.toLowerCase() === key)) {
+        groups.push({ id: null, name, weight, score: null });
+      }
+    }
+
+    const onlyGraded = doc.querySelector<HTMLInputElement>('#only_consider_graded_assignments');
+
+    return {
+      displayGrade,
+      percent: displayGrade?.includes('%') ? this.parseNumber(displayGrade) : null,
+      letterGrade: this.cleanText(finalRow?.querySelector('.letter_grade')?.textContent),
+      basis: onlyGraded && !onlyGraded.checked ? 'final' : 'current',
+      weighted: weights.size > 0,
+      groups
+    };
+  }
+
+  // Canvas renders group weights as a "summary" table: group name | "40%"; keyed by lowercased name
+  private readGroupWeights(doc: Document): Map<string, { name: string; weight: number }> {
+    const weights = new Map<string, { name: string; weight: number }>();
+
+    doc.querySelectorAll('table.summary tbody tr').forEach(row => {
+      const name = this.cleanText(row.querySelector('th')?.textContent);
+      const weight = this.parseNumber(row.querySelector('td')?.textContent);
+      if (name && weight !== null) {
+        weights.set(name.toLowerCase(), { name, weight });
+      }
+    });
+
+    return weights;
+  }
+
+  private findGroupId(groupName: string | null, groupRows: Element[]): string | null {
+    if (!groupName) return null;
+
+    const groupRow = groupRows.find(row =>
+      this.cleanText(row.querySelector('th.title, .title')?.textContent)?.toLowerCase() === groupName.toLowerCase()
+    );
+    return groupRow?.id.match(/^submission_group-(\d+)$/)?.[1] || null;
+  }
+
+  // Score text without the "Click to test a different score" tooltip and screen reader labels
+  private readScore(cell: Element | null): string | null {
+    const grade = cell?.querySelector('.grade') || cell;
+    if (!grade) return null;
+
+    const clone = grade.cloneNode(true) as Element;
+    clone.querySelectorAll(SCORE_NOISE_SELECTOR).forEach(node => node.remove());
+
+    const text = this.cleanText(clone.textContent);
+    return text && text !== '-' ? text : null;
+  }
+
+  // Points possible live in their own column on older layouts and as "/ 10" in the score cell on newer ones
+  private readPointsPossible(row: Element, scoreCell: Element | null): number | null {
+    const column = row.querySelector('td.points_possible');
+    if (column) {
+      return this.parseNumber(column.textContent);
+    }
+
+    const match = scoreCell?.textContent?.match(/\/\s*([\d.,]+)/);
+    return match ? this.parseNumber(match[1]) : null;
+  }
+
+  private readStatus(row: Element, displayGrade: string | null): GradeStatus[] {
+    const status = new Set<GradeStatus>();
+    const statusText = (row.querySelector('td.status')?.textContent || '').toLowerCase();
+
+    if (row.querySelector('.submission-late-pill') || /\blate\b/.test(statusText)) status.add('late');
+    if (row.querySelector('.submission-missing-pill') || /\bmissing\b/.test(statusText)) status.add('missing');
+    if (row.querySelector('.submission-excused-pill') || /\bexcused\b/.test(statusText) ||
+        /^(ex|excused)$/i.test(displayGrade || '')) status.add('excused');
+    if (row.classList.contains('dropped')) status.add('dropped');
+
+    return Array.from(status);
+  }
+
+  // "See rubric results" expands a hidden row holding the assessed rubric
+  private readRubric(doc: Document, assignmentId: string): Rubric | null {
+    const container = doc.querySelector(`#rubric_${assignmentId}, #assessments_${assignmentId}`);
+    return container ? rubricParser.parse(container) : null;
+  }
+
+  // Comments render in a hidden row below the assignment, with a toggle link in the details cell
+  private hasComments(doc: Document, row: Element, assignmentId: string): boolean {
+    if (doc.querySelector(`#comments_thread_${assignmentId} .comment`)) {
+      return true;
+    }
+
+    const toggle = row.querySelector<HTMLElement>('.toggle_comments_link');
+    return !!toggle && toggle.style.visibility !== 'hidden' && !toggle.hasAttribute('hidden');
+  }
+
+  private parseNumber(text: string | null | undefined): number | null {
+    const match = text?.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  }
+
+  private cleanText(text: string | null | undefined): string | null {
+    const cleaned = text?.replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+  }
+
+  private resolveUrl(href: string, pageUrl: string): string {
+    try {
+      return new URL(href, pageUrl).toString();
+    } catch {
+      return href;
+    }
+  }
+}
+
+export const gradesParser = new GradesParser();
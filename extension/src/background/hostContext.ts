@@ -0,0 +1,52 @@
+// Host Context for Canvas Scraper
+// Single source of truth for which Canvas host we crawl and how relative URLs resolve
+
+import { authManager } from './authManager';
+import { configManager } from './configManager';
+
+export class HostContext {
+  // Host to crawl: the authenticated host, falling back to the first configured one
+  getHost(): string {
+    const host = authManager.getAuthenticatedHost() || configManager.getHosts()[0] || '';
+    return HostContext.normalizeHost(host);
+  }
+
+  hasAuthenticatedHost(): boolean {
+    return authManager.getAuthenticatedHost() !== null;
+  }
+
+  // Resolve an href against the page it was found on (or the current host)
+  resolveUrl(href: string, pageUrl?: string): string {
+    try {
+      return new URL(href, pageUrl || this.getHost()).toString();
+    } catch {
+      return href;
+    }
+  }
+
+  // Origin (scheme + host) a URL was served from
+  getOrigin(url: string): string {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return this.getHost();
+    }
+  }
+
+  // Check whether a URL points at one of the configured or authenticated Canvas hosts
+  isCanvasUrl(url: string): boolean {
+    const origin = this.getOrigin(url);
+    const hosts = [this.getHost(), ...configManager.getHosts().map(host => HostContext.normalizeHost(host))];
+    return hosts.includes(origin);
+  }
+
+  static normalizeHost(host: string): string {
+    try {
+      return new URL(host).origin;
+    } catch {
+      return host.replace(/\/+$/, '');
+    }
+  }
+}
+
+export const hostContext = new HostContext();
@@ -1,6 +1,8 @@
 // HTML Parser for Canvas Scraper
 // Handles HTML parsing, sanitization, and content extraction
 
+import { hostContext } from './hostContext';
+
 export interface ParsedContent {
   title: string;
   text: string;
@@ -463,7 +465,7 @@ export class HtmlParser {
   }
 
   // Canvas-specific parsing helpers
-  parseDashboard(html: string): ParsedContent & { courses?: Array<{ id: string; name: string; url: string }> } {
+  parseDashboard(html: string, pageUrl?: string): ParsedContent & { courses?: Array<{ id: string; name: string; url: string }> } {
     const content = this.parseHtml(html);
     
     // Extract course list from dashboard
@@ -484,7 +486,7 @@ export class HtmlParser {
             courses.push({
               id: match[1],
               name: text,
-              url: href.startsWith('http') ? href : `https://canvas.instructure.com${href}`
+              url: hostContext.resolveUrl(href, pageUrl)
             });
           }
         }
@@ -503,7 +505,7 @@ export class HtmlParser {
           courses.push({
             id,
             name: text,
-            url: href.startsWith('http') ? href : `https://canvas.instructure.com${href}`
+            url: hostContext.resolveUrl(href, pageUrl)
           });
         }
       }
@@ -512,7 +514,7 @@ export class HtmlParser {
     return { ...content, courses };
   }
 
-  parseCourseList(html: string): ParsedContent & { courses: Array<{ id: string; name: string; url: string; code?: string }> } {
+  parseCourseList(html: string, pageUrl?: string): ParsedContent & { courses: Array<{ id: string; name: string; url: string; code?: string }> } {
     const content = this.parseHtml(html);
     const courses: Array<{ id: string; name: string; url: string; code?: string }> = [];
     
@@ -532,7 +534,7 @@ export class HtmlParser {
             courses.push({
               id: courseId,
               name: text,
-              url: href.startsWith('http') ? href : `https://canvas.instructure.com${href}`,
+              url: hostContext.resolveUrl(href, pageUrl),
               code: item.querySelector('.course-code')?.textContent?.trim()
             });
           }
@@ -552,7 +554,7 @@ export class HtmlParser {
           courses.push({
             id,
             name: text,
-            url: href.startsWith('http') ? href : `https://canvas.instructure.com${href}`
+            url: hostContext.resolveUrl(href, pageUrl)
           });
         }
       }
@@ -572,7 +574,7 @@ export class HtmlParser {
       
       doc.querySelectorAll('a[href]').forEach(link => {
         const href = link.getAttribute('href');
-        if (href && (href.includes('canvas.instructure.com') || href.includes('/courses/'))) {
+        if (href && (hostContext.isCanvasUrl(href) || href.includes('/courses/'))) {
           urls.push(href);
         }
       });
@@ -583,7 +585,7 @@ export class HtmlParser {
       
       while ((match = linkRegex.exec(html)) !== null) {
         const href = match[1];
-        if (href && (href.includes('canvas.instructure.com') || href.includes('/courses/'))) {
+        if (href && (hostContext.isCanvasUrl(href) || href.includes('/courses/'))) {
           urls.push(href);
         }
       }
@@ -3,6 +3,7 @@
 
 import { storageManager } from './storageManager';
 import { pageLoader } from './pageLoader';
+import { rateLimiter } from './rateLimiter';
 
 export interface CacheEntry {
   url: string;
@@ -53,6 +54,7 @@ export class IncrementalSync {
   private config: IncrementalSyncConfig;
   private cache = new Map<string, CacheEntry>();
   private changeSignals = new Map<string, ChangeSignal[]>();
+  private loaded: Promise<void>;
 
   constructor(config?: Partial<IncrementalSyncConfig>) {
     this.config = {
@@ -66,7 +68,7 @@ export class IncrementalSync {
       ...config
     };
 
-    this.loadCache();
+    this.loaded = this.loadCache();
   }
 
   // Main method for incremental sync of a URL
@@ -244,7 +246,7 @@ export class IncrementalSync {
 
       this.log(`[IncrementalSync] Fetching with headers: ${Object.keys(headers).join(', ')}`);
 
-      const response = await fetch(url, { headers });
+      const response = await rateLimiter.fetch(url, { headers });
 
       // Handle 304 Not Modified
       if (response.status === 304) {
@@ -497,6 +499,12 @@ export class IncrementalSync {
     await this.saveCache();
   }
 
+  // Time since the cached content of a URL last changed, or null if the URL is not cached
+  getCacheAge(url: string): number | null {
+    const entry = this.cache.get(url);
+    return entry ? Math.max(0, Date.now() - entry.lastUpdated) : null;
+  }
+
   // Get URLs that have changed recently
   getChangedUrls(since?: number): string[] {
     const sinceTime = since || (Date.now() - (24 * 60 * 60 * 1000)); // Last 24 hours
@@ -512,6 +520,18 @@ export class IncrementalSync {
     return changedUrls;
   }
 
+  // Change signals detected after `since`, oldest first; waits for signals saved before a restart
+  async getChangeSignals(since: number): Promise<ChangeSignal[]> {
+    await this.loaded;
+
+    const recent: ChangeSignal[] = [];
+    this.changeSignals.forEach(signals => {
+      recent.push(...signals.filter(signal => signal.detectedAt > since));
+    });
+
+    return recent.sort((a, b) => a.detectedAt - b.detectedAt);
+  }
+
   // Plan targeted recrawl based on change signals
   planTargetedRecrawl(): Array<{url: string, priority: number, reason: string}> {
     const recrawlPlan: Array<{url: string, priority: number, reason: string}> = [];
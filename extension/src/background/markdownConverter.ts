@@ -0,0 +1,281 @@
+// Markdown Converter for Canvas Scraper
+// Turns captured Canvas HTML into Markdown, keeping links absolute so the exporter can rewrite them
+// Runs wherever a DOM exists (offscreen document), so it must not depend on service worker singletons
+
+export interface MarkdownSource {
+  id: string;
+  html: string;
+  baseUrl: string;
+  type?: string; // Item type of a full page; fragments (e.g. reply bodies) are converted whole
+}
+
+export interface MarkdownDocument {
+  id: string;
+  title: string;
+  markdown: string;
+  links: string[]; // Absolute hrefs of every link and image, in order of appearance
+}
+
+// Where the user-authored content sits on each kind of Canvas page, most specific first
+const CONTENT_SELECTORS: Record<string, string[]> = {
+  page: ['.show-content.user_content', '.wiki-page-body', '.user_content'],
+  announcement: ['.discussion-section .message.user_content', '.discussion_topic .message', '[data-resource-type="announcement.body"]', '.user_content'],
+  discussion: ['.discussion-section .message.user_content', '.discussion_topic .message', '[data-resource-type="discussion_topic.body"]', '.user_content'],
+  assignment: ['.description.user_content', '.assignment_description', '[data-testid="assignment-description"]', '.show-content', '.user_content'],
+  quiz: ['.description.user_content', '.quiz_description', '.user_content'],
+  syllabus: ['#course_syllabus', '.syllabus', '.wiki-page-body', '.user_content']
+};
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGCAPTION', 'FIGURE',
+  'FOOTER', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY',
+  'TABLE', 'UL'
+]);
+
+// Page chrome and screen-reader duplicates that never belong in a note
+const SKIPPED_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'button', 'input', 'select', 'textarea', 'svg', 'nav',
+  '.screenreader-only', '[aria-hidden="true"]', '[hidden]'
+].join(', ');
+
+interface ConversionContext {
+  baseUrl: string;
+  links: string[];
+}
+
+export class MarkdownConverter {
+  // Convert a parsed document, narrowing full pages to their content area
+  convert(doc: Document, source: MarkdownSource): MarkdownDocument {
+    const root = (source.type && this.findContent(doc, source.type)) || doc.body;
+    const context: ConversionContext = { baseUrl: source.baseUrl, links: [] };
+    const markdown = root ? this.renderBlocks(root, context).join('\n\n') : '';
+
+    return {
+      id: source.id,
+      title: doc.querySelector('h1')?.textContent?.trim() || doc.title.trim(),
+      markdown: markdown.replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n').trim(),
+      links: context.links
+    };
+  }
+
+  private findContent(doc: Document, type: string): Element | null {
+    for (const selector of CONTENT_SELECTORS[type] || []) {
+      const element = doc.querySelector(selector);
+      if (element?.textContent?.trim() || element?.querySelector('img, iframe')) return element;
+    }
+    return null;
+  }
+
+  // Render a container's children, gathering runs of inline content into paragraphs
+  private renderBlocks(node: Node, context: ConversionContext): string[] {
+    const blocks: string[] = [];
+    let inline = '';
+
+    const flush = () => {
+      const paragraph = this.cleanInline(inline);
+      if (paragraph) blocks.push(paragraph);
+      inline = '';
+    };
+
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        inline += this.escape(child.textContent || '');
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const element = child as Element;
+        if (element.matches(SKIPPED_SELECTOR)) continue;
+
+        if (BLOCK_TAGS.has(element.tagName)) {
+          flush();
+          const block = this.renderBlock(element, context);
+          if (block) blocks.push(block);
+        } else {
+          inline += this.renderInline(element, context);
+        }
+      }
+    }
+
+    flush();
+    return blocks;
+  }
+
+  private renderBlock(element: Element, context: ConversionContext): string {
+    const tag = element.tagName;
+
+    switch (tag) {
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+        const text = this.cleanInline(this.renderInlineChildren(element, context)).replace(/\n/g, ' ');
+        return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : '';
+      }
+      case 'UL':
+      case 'OL':
+        return this.renderList(element, context);
+      case 'PRE':
+        return this.renderCode(element);
+      case 'BLOCKQUOTE':
+        return this.renderBlocks(element, context).join('\n\n')
+          .split('\n')
+          .map(line => (line ? `> ${line}` : '>'))
+          .join('\n');
+      case 'HR':
+        return '---';
+      case 'TABLE':
+        return this.renderTable(element as HTMLTableElement, context);
+      default:
+        return this.renderBlocks(element, context).join('\n\n');
+    }
+  }
+
+  private renderInline(element: Element, context: ConversionContext): string {
+    switch (element.tagName) {
+      case 'BR':
+        return '\n';
+      case 'A':
+        return this.renderLink(element, context);
+      case 'IMG': {
+        const src = this.resolve(element.getAttribute('src'), context);
+        if (!src) return '';
+        context.links.push(src);
+        return `![${this.escape(element.getAttribute('alt') || '')}](${this.formatUrl(src)})`;
+      }
+      case 'IFRAME': {
+        const src = this.resolve(element.getAttribute('src'), context);
+        if (!src) return '';
+        context.links.push(src);
+        return `[${this.escape(element.getAttribute('title') || 'Embedded content')}](${this.formatUrl(src)})`;
+      }
+      case 'STRONG':
+      case 'B':
+        return this.wrap(this.renderInlineChildren(element, context), '**');
+      case 'EM':
+      case 'I':
+        return this.wrap(this.renderInlineChildren(element, context), '*');
+      case 'DEL':
+      case 'S':
+      case 'STRIKE':
+        return this.wrap(this.renderInlineChildren(element, context), '~~');
+      case 'CODE': {
+        const code = (element.textContent || '').replace(/\s+/g, ' ');
+        const fence = code.includes('`') ? '``' : '`';
+        return code.trim() ? `${fence}${code}${fence}` : '';
+      }
+      default:
+        return this.renderInlineChildren(element, context);
+    }
+  }
+
+  private renderInlineChildren(element: Element, context: ConversionContext): string {
+    let text = '';
+
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        text += this.escape(child.textContent || '');
+      } else if (child.nodeType === Node.ELEMENT_NODE && !(child as Element).matches(SKIPPED_SELECTOR)) {
+        // Block elements nested in inline ones (common in editor output) are flattened
+        text += BLOCK_TAGS.has((child as Element).tagName)
+          ? ` ${this.renderInlineChildren(child as Element, context)} `
+          : this.renderInline(child as Element, context);
+      }
+    }
+
+    return text;
+  }
+
+  private renderLink(element: Element, context: ConversionContext): string {
+    const text = this.cleanInline(this.renderInlineChildren(element, context)).replace(/\n/g, ' ');
+    const raw = element.getAttribute('href');
+    if (!raw || raw.startsWith('#') || /^javascript:/i.test(raw)) return text;
+
+    const href = this.resolve(raw, context);
+    if (!href) return text;
+
+    context.links.push(href);
+    return `[${text || this.escape(href)}](${this.formatUrl(href)})`;
+  }
+
+  private renderList(list: Element, context: ConversionContext): string {
+    const ordered = list.tagName === 'OL';
+    let number = Number(list.getAttribute('start')) || 1;
+    const items: string[] = [];
+
+    for (const child of Array.from(list.children)) {
+      if (child.matches(SKIPPED_SELECTOR)) continue;
+
+      // Lists nested directly in a list (invalid, but editors produce it) belong to the previous item
+      if ((child.tagName === 'UL' || child.tagName === 'OL') && items.length > 0) {
+        items[items.length - 1] += `\n${this.indent(this.renderList(child, context), '  ')}`;
+        continue;
+      }
+
+      const marker = ordered ? `${number++}.` : '-';
+      const body = this.renderBlocks(child, context).join('\n');
+      items.push(`${marker} ${this.indent(body, ' '.repeat(marker.length + 1)).trimStart()}`);
+    }
+
+    return items.join('\n');
+  }
+
+  private renderCode(element: Element): string {
+    const code = (element.textContent || '').replace(/\n$/, '');
+    const language = (element.querySelector('code')?.className || element.className).match(/language-([\w+-]+)/)?.[1] || '';
+    const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+    return `${fence}${language}\n${code}\n${fence}`;
+  }
+
+  // GFM table; the first row is the header, as Markdown has no headerless tables
+  private renderTable(table: HTMLTableElement, context: ConversionContext): string {
+    const rows = Array.from(table.rows).map(row =>
+      Array.from(row.cells).map(cell =>
+        this.cleanInline(this.renderInlineChildren(cell, context)).replace(/\n/g, '<br>').replace(/\|/g, '\\|')
+      )
+    );
+    if (rows.length === 0) return '';
+
+    const width = Math.max(...rows.map(row => row.length));
+    const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`;
+
+    return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+  }
+
+  // Move surrounding whitespace outside emphasis markers, where Markdown requires it
+  private wrap(text: string, marker: string): string {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) return text;
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+  }
+
+  // Collapse whitespace in paragraph text, keeping explicit line breaks
+  private cleanInline(text: string): string {
+    return text
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private indent(text: string, prefix: string): string {
+    return text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+  }
+
+  private escape(text: string): string {
+    return text.replace(/([\\`*_[\]])/g, '\\$1');
+  }
+
+  private resolve(url: string | null, context: ConversionContext): string | null {
+    if (!url) return null;
+
+    try {
+      return new URL(url, context.baseUrl).href;
+    } catch {
+      return null;
+    }
+  }
+
+  private formatUrl(url: string): string {
+    return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+  }
+}
+
+export const markdownConverter = new MarkdownConverter();
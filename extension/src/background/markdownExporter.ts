@@ -0,0 +1,503 @@
+// Markdown Exporter for Canvas Scraper
+// Exports course content as an Obsidian-style vault: Markdown notes with front matter, wiki-links and attachments
+
+import { storageManager } from './storageManager';
+import type { HtmlSnapshot, StructuredData } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import type { Course } from './courseDiscovery';
+import type { DetailItem } from './detailCrawler';
+import type { DiscussionReply, DiscussionThread } from './discussionParser';
+import type { MarkdownSource, MarkdownDocument } from './markdownConverter';
+import { htmlParser } from './htmlParser';
+import { offscreenClient } from './offscreenClient';
+import { deadlineCalendar } from './deadlineCalendar';
+import { CanvasIds } from './canvasIds';
+import { STORED_MIME_PATTERN } from './archiveExporter';
+import { ZipWriter } from './zipWriter';
+
+export interface VaultExportResult {
+  success: boolean;
+  fileName: string;
+  courses: number;
+  notes: number;
+  attachments: number;
+  bytes: number;
+  downloadId?: number;
+  error?: string;
+}
+
+export interface MarkdownExporterConfig {
+  enableLogging: boolean;
+  folder: string; // Subfolder of the downloads directory
+  chunkSize: number; // Bytes sent to the offscreen document per message
+  maxAttachmentSize: number; // Larger files stay linked to Canvas instead of being copied
+}
+
+// Detail types exported as notes, and the folder each goes in
+const NOTE_FOLDERS: Record<string, string> = {
+  page: 'Pages',
+  announcement: 'Announcements',
+  assignment: 'Assignments',
+  discussion: 'Discussions'
+};
+
+// Section lists keep the Canvas URL that detail records lack
+const URL_COLLECTIONS = ['announcements', 'assignments', 'discussions', 'pages'];
+
+// Announcements share /discussion_topics/ URLs with discussions, so both are tried
+const LINK_TYPES = ['assignment', 'announcement', 'discussion', 'page'];
+
+const SYLLABUS_URL_PATTERN = /\/courses\/(\d+)\/(?:assignments\/)?syllabus\b/;
+const FILE_URL_PATTERN = /\/files\/(\d+)/;
+
+// Rendered Markdown links and images: [text](url) / ![alt](url)
+const MARKDOWN_LINK_PATTERN = /(!?)\[((?:\\.|[^\]\\])*)\]\(([^)\s]+)\)/g;
+
+interface VaultNote {
+  itemId: string;
+  type: string;
+  title: string;
+  path: string; // Vault path without the .md extension
+  url: string | null;
+  html: string;
+  fallbackText: string; // Plain text used when conversion fails
+  updatedAt: number;
+  due: string | null;
+  thread: DiscussionThread | null;
+  fileIds: Set<string>;
+}
+
+export class MarkdownExporter {
+  private config: MarkdownExporterConfig;
+  private running = false;
+
+  constructor(config?: Partial<MarkdownExporterConfig>) {
+    this.config = {
+      enableLogging: true,
+      folder: 'canvas-scraper',
+      chunkSize: 4 * 1024 * 1024,
+      maxAttachmentSize: 50 * 1024 * 1024,
+      ...config
+    };
+  }
+
+  // Build the vault as a zip in the offscreen document and hand it to chrome.downloads
+  async exportVault(): Promise<VaultExportResult> {
+    const startedAt = Date.now();
+    const vaultId = `vault_${startedAt}`;
+    const fileName = `${this.config.folder}/canvas-vault-${this.formatStamp(startedAt)}.zip`;
+    const result: VaultExportResult = { success: false, fileName, courses: 0, notes: 0, attachments: 0, bytes: 0 };
+
+    if (this.running) {
+      return { ...result, error: 'A vault export is already running' };
+    }
+    if (!storageManager.isReady()) {
+      return { ...result, error: 'Storage not ready' };
+    }
+
+    this.running = true;
+
+    try {
+      const begun = await offscreenClient.beginArchive(vaultId);
+      if (!begun.success) throw new Error(begun.error || 'Could not start vault archive');
+
+      const zip = new ZipWriter(async chunk => {
+        const appended = await offscreenClient.appendArchive(vaultId, chunk);
+        if (!appended.success) throw new Error(appended.error || 'Could not write vault chunk');
+      }, this.config.chunkSize);
+
+      const studentIndex = await studentIndexManager.loadStudentIndex();
+      const syllabi = await this.findSyllabi();
+      const usedPaths = new Set<string>();
+
+      for (const course of Object.values(studentIndex.courses)) {
+        const counts = await this.exportCourse(zip, course, syllabi.get(course.id) || null, usedPaths);
+        if (counts.notes === 0) continue;
+
+        result.courses++;
+        result.notes += counts.notes;
+        result.attachments += counts.attachments;
+      }
+
+      const { bytes } = await zip.finish();
+      const finished = await offscreenClient.finishArchive(vaultId, 'application/zip');
+      if (!finished.success || !finished.url) throw new Error(finished.error || 'Could not finish vault archive');
+
+      const downloadId = await chrome.downloads.download({ url: finished.url, filename: fileName, saveAs: false });
+      this.releaseAfterDownload(downloadId, vaultId);
+
+      this.log(`[MarkdownExporter] Exported ${result.notes} notes and ${result.attachments} attachments from ${result.courses} courses in ${Date.now() - startedAt}ms`);
+      return { ...result, success: true, bytes, downloadId };
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await offscreenClient.releaseArchive(vaultId);
+      this.log(`[MarkdownExporter] Vault export failed: ${message}`);
+      return { ...result, error: message };
+
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // One folder per course: notes by type, copied attachments, the syllabus and an index note
+  private async exportCourse(
+    zip: ZipWriter,
+    course: Course,
+    syllabus: HtmlSnapshot | null,
+    usedPaths: Set<string>
+  ): Promise<{ notes: number; attachments: number }> {
+    const records = await storageManager.getStructuredDataByCourse(course.id);
+    const folder = this.uniquePath(this.safeName(course.name || course.code || course.id), usedPaths);
+    const notes = this.planNotes(course, folder, records, syllabus, usedPaths);
+    if (notes.length === 0) return { notes: 0, attachments: 0 };
+
+    const notesById = new Map(notes.map(note => [note.itemId, note]));
+    const bodies = new Map<string, { body: string; replies: Map<string, string> }>();
+
+    for (const note of notes) {
+      bodies.set(note.itemId, await this.convertNote(note, course));
+    }
+
+    const attachments = await this.writeAttachments(zip, course, folder, notes, usedPaths);
+
+    for (const note of notes) {
+      const converted = bodies.get(note.itemId)!;
+      const rewrite = (markdown: string) => this.rewriteLinks(markdown, course.id, notesById, attachments);
+      const content = this.renderNote(course, note, rewrite(converted.body), this.mapValues(converted.replies, rewrite), attachments);
+
+      await zip.addEntry(`${note.path}.md`, content, { modifiedAt: note.updatedAt });
+    }
+
+    // Named after its folder, so Obsidian folder-note plugins pick it up
+    await zip.addEntry(`${folder}/${folder}.md`, this.renderIndex(course, notes));
+    return { notes: notes.length, attachments: new Set(attachments.values()).size };
+  }
+
+  // Decide every note's title and vault path up front, so links can point at notes not yet written
+  private planNotes(
+    course: Course,
+    folder: string,
+    records: StructuredData[],
+    syllabus: HtmlSnapshot | null,
+    usedPaths: Set<string>
+  ): VaultNote[] {
+    const urls = new Map<string, string>();
+    for (const record of records) {
+      if (URL_COLLECTIONS.includes(record.collection) && record.data?.url) {
+        urls.set(record.itemId, record.data.url);
+      }
+    }
+
+    const notes: VaultNote[] = [];
+
+    if (syllabus) {
+      const parsed = htmlParser.parseHtml(syllabus.html, { extractForms: false, extractImages: false, extractMetadata: false });
+      notes.push({
+        itemId: CanvasIds.syllabusId(course.id),
+        type: 'syllabus',
+        title: 'Syllabus',
+        path: this.uniquePath(`${folder}/Syllabus`, usedPaths),
+        url: syllabus.url,
+        html: syllabus.html,
+        fallbackText: parsed.text,
+        updatedAt: syllabus.timestamp,
+        due: null,
+        thread: null,
+        fileIds: this.fileIds(parsed.links.map(link => link.href))
+      });
+    }
+
+    for (const record of records) {
+      const item: DetailItem | undefined = record.collection === 'details' ? record.data : undefined;
+      if (!item || !NOTE_FOLDERS[item.type] || !(item.htmlContent || item.content)) continue;
+
+      // Page-level links catch attachments listed outside the content area
+      const parsed = item.htmlContent
+        ? htmlParser.parseHtml(item.htmlContent, { extractForms: false, extractImages: false, extractMetadata: false })
+        : null;
+      const title = item.title || parsed?.title || item.id;
+      const dueDate = item.metadata?.dueDate ? deadlineCalendar.parseCanvasDate(item.metadata.dueDate, record.timestamp) : null;
+
+      notes.push({
+        itemId: item.id,
+        type: item.type,
+        title,
+        path: this.uniquePath(`${folder}/${NOTE_FOLDERS[item.type]}/${this.safeName(title)}`, usedPaths),
+        url: urls.get(item.id) || null,
+        html: item.htmlContent || '',
+        fallbackText: item.content || parsed?.text || '',
+        updatedAt: item.updatedAt || record.timestamp,
+        due: dueDate ? this.formatDue(dueDate.date, dueDate.allDay) : null,
+        thread: item.metadata?.thread || null,
+        fileIds: this.fileIds([...(parsed?.links.map(link => link.href) || []), ...(item.attachments || [])])
+      });
+    }
+
+    return notes;
+  }
+
+  // Convert the note body and any discussion replies in one offscreen round trip
+  private async convertNote(note: VaultNote, course: Course): Promise<{ body: string; replies: Map<string, string> }> {
+    const baseUrl = note.url || course.url;
+    const sources: MarkdownSource[] = note.html ? [{ id: note.itemId, html: note.html, baseUrl, type: note.type }] : [];
+
+    for (const reply of this.flattenReplies(note.thread?.replies || [])) {
+      if (reply.messageHtml && !reply.deleted) {
+        sources.push({ id: reply.id, html: reply.messageHtml, baseUrl });
+      }
+    }
+
+    const converted = sources.length > 0 ? await offscreenClient.convertToMarkdown(sources) : null;
+    if (converted && !converted.success) {
+      this.log(`[MarkdownExporter] Could not convert ${note.itemId}, using plain text: ${converted.error}`);
+    }
+
+    const documents = new Map<string, MarkdownDocument>((converted?.documents || []).map(doc => [doc.id, doc]));
+    const replies = new Map<string, string>();
+
+    for (const document of documents.values()) {
+      if (document.id !== note.itemId) replies.set(document.id, document.markdown);
+      for (const id of this.fileIds(document.links)) note.fileIds.add(id);
+    }
+
+    return { body: documents.get(note.itemId)?.markdown || this.escape(note.fallbackText), replies };
+  }
+
+  // Copy each downloaded file once per course; files never downloaded stay Canvas links
+  private async writeAttachments(
+    zip: ZipWriter,
+    course: Course,
+    folder: string,
+    notes: VaultNote[],
+    usedPaths: Set<string>
+  ): Promise<Map<string, string>> {
+    const paths = new Map<string, string>();
+    const fileIds = new Set(notes.flatMap(note => Array.from(note.fileIds)));
+
+    for (const fileId of fileIds) {
+      const blob = await storageManager.getBlob(`blob_${course.id}_${fileId}`);
+      if (!blob || blob.size > this.config.maxAttachmentSize) continue;
+
+      const file = await storageManager.getStructuredData(`file_${course.id}_${fileId}`);
+      const path = this.uniquePath(`${folder}/Attachments/${this.safeName(file?.data?.fileName || `file-${fileId}`)}`, usedPaths);
+
+      await zip.addEntry(path, new Uint8Array(blob.data), {
+        compress: !STORED_MIME_PATTERN.test(blob.mimeType),
+        modifiedAt: blob.timestamp
+      });
+      paths.set(fileId, path);
+    }
+
+    return paths;
+  }
+
+  // Point links at exported notes and attachments; everything else keeps its Canvas URL
+  private rewriteLinks(markdown: string, courseId: string, notes: Map<string, VaultNote>, attachments: Map<string, string>): string {
+    return markdown.replace(MARKDOWN_LINK_PATTERN, (original, bang: string, text: string, url: string) => {
+      const fileId = url.match(FILE_URL_PATTERN)?.[1];
+      const attachment = fileId ? attachments.get(fileId) : undefined;
+      if (attachment) {
+        return bang ? `![[${attachment}]]` : `[[${attachment}|${this.wikiAlias(text, attachment)}]]`;
+      }
+
+      if (bang) return original;
+
+      const linkedCourse = url.match(/\/courses\/(\d+)/)?.[1];
+      if (linkedCourse && linkedCourse !== courseId) return original;
+
+      const note = this.findLinkedNote(url, courseId, notes);
+      return note ? `[[${note.path}|${this.wikiAlias(text, note.title)}]]` : original;
+    });
+  }
+
+  private findLinkedNote(url: string, courseId: string, notes: Map<string, VaultNote>): VaultNote | undefined {
+    if (SYLLABUS_URL_PATTERN.test(url)) return notes.get(CanvasIds.syllabusId(courseId));
+
+    for (const type of LINK_TYPES) {
+      const itemId = CanvasIds.itemId(url, type);
+      const note = itemId ? notes.get(itemId) : undefined;
+      if (note) return note;
+    }
+
+    return undefined;
+  }
+
+  private renderNote(
+    course: Course,
+    note: VaultNote,
+    body: string,
+    replies: Map<string, string>,
+    attachments: Map<string, string>
+  ): string {
+    const sections = [
+      this.frontMatter({
+        title: note.title,
+        course: course.name,
+        course_id: course.id,
+        type: note.type,
+        due: note.due,
+        canvas_url: note.url,
+        updated: new Date(note.updatedAt).toISOString(),
+        tags: ['canvas', note.type]
+      }),
+      `# ${note.title}`,
+      body
+    ];
+
+    if (note.thread && note.thread.replies.length > 0) {
+      sections.push('## Replies', note.thread.replies.map(reply => this.renderReply(reply, replies)).join('\n\n'));
+    }
+
+    const copied = Array.from(note.fileIds).map(id => attachments.get(id)).filter((path): path is string => !!path);
+    if (copied.length > 0) {
+      sections.push('## Attachments', copied.map(path => `- [[${path}|${path.split('/').pop()}]]`).join('\n'));
+    }
+
+    return `${sections.filter(Boolean).join('\n\n')}\n`;
+  }
+
+  // Replies nest as blockquotes, one level per reply depth
+  private renderReply(reply: DiscussionReply, bodies: Map<string, string>): string {
+    const byline = [`**${this.escape(reply.author || 'Unknown')}**`, reply.postedAt, reply.edited ? '(edited)' : null].filter(Boolean).join(' · ');
+    const body = reply.deleted ? '*This reply was deleted.*' : bodies.get(reply.id) || this.escape(reply.message);
+    const nested = reply.replies.map(child => this.renderReply(child, bodies));
+
+    return [byline, body, ...nested].join('\n\n')
+      .split('\n')
+      .map(line => (line ? `> ${line}` : '>'))
+      .join('\n');
+  }
+
+  // Course overview linking every note, assignments by due date and announcements newest first
+  private renderIndex(course: Course, notes: VaultNote[]): string {
+    const sections = [
+      this.frontMatter({ title: course.name, course: course.name, course_id: course.id, type: 'course', canvas_url: course.url, tags: ['canvas', 'course'] }),
+      `# ${course.name}`
+    ];
+
+    const syllabus = notes.find(note => note.type === 'syllabus');
+    if (syllabus) sections.push(`[[${syllabus.path}|Syllabus]]`);
+
+    for (const [type, heading] of Object.entries(NOTE_FOLDERS)) {
+      const ofType = notes.filter(note => note.type === type);
+      if (ofType.length === 0) continue;
+
+      if (type === 'assignment') {
+        ofType.sort((a, b) => (a.due || '\uffff').localeCompare(b.due || '\uffff') || a.title.localeCompare(b.title));
+      } else if (type === 'announcement') {
+        ofType.sort((a, b) => b.updatedAt - a.updatedAt);
+      } else {
+        ofType.sort((a, b) => a.title.localeCompare(b.title));
+      }
+
+      const lines = ofType.map(note => `- [[${note.path}|${this.wikiAlias(note.title, note.title)}]]${note.due ? ` — due ${note.due}` : ''}`);
+      sections.push(`## ${heading}`, lines.join('\n'));
+    }
+
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  // YAML front matter; JSON string literals are valid double-quoted YAML scalars
+  private frontMatter(fields: Record<string, string | string[] | null>): string {
+    const lines = Object.entries(fields)
+      .filter(([, value]) => value !== null && value !== '')
+      .map(([key, value]) => `${key}: ${Array.isArray(value) ? `[${value.map(v => JSON.stringify(v)).join(', ')}]` : JSON.stringify(value)}`);
+
+    return ['---', ...lines, '---'].join('\n');
+  }
+
+  // Latest captured syllabus page per course
+  private async findSyllabi(): Promise<Map<string, HtmlSnapshot>> {
+    const syllabi = new Map<string, HtmlSnapshot>();
+
+    for await (const snapshot of storageManager.iterateRecords<HtmlSnapshot>('htmlSnapshots')) {
+      const courseId = snapshot.url.match(SYLLABUS_URL_PATTERN)?.[1];
+      if (courseId && snapshot.timestamp > (syllabi.get(courseId)?.timestamp ?? -1)) {
+        syllabi.set(courseId, snapshot);
+      }
+    }
+
+    return syllabi;
+  }
+
+  private fileIds(urls: string[]): Set<string> {
+    const ids = new Set<string>();
+    for (const url of urls) {
+      const id = url.match(FILE_URL_PATTERN)?.[1];
+      if (id) ids.add(id);
+    }
+    return ids;
+  }
+
+  private flattenReplies(replies: DiscussionReply[]): DiscussionReply[] {
+    return replies.flatMap(reply => [reply, ...this.flattenReplies(reply.replies)]);
+  }
+
+  private mapValues(values: Map<string, string>, transform: (value: string) => string): Map<string, string> {
+    return new Map(Array.from(values, ([key, value]) => [key, transform(value)]));
+  }
+
+  // Link text as a wiki-link alias, where Markdown escapes and the separators would show literally
+  private wikiAlias(text: string, fallback: string): string {
+    const alias = text.replace(/\\(.)/g, '$1').replace(/[|[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+    return alias || fallback.replace(/[|[\]]/g, ' ');
+  }
+
+  private formatDue(date: Date, allDay: boolean): string {
+    if (!allDay) return date.toISOString();
+
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  // Keep chrome.downloads from holding the blob URL (and the offscreen copy) longer than needed
+  private releaseAfterDownload(downloadId: number, vaultId: string): void {
+    const listener = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id !== downloadId || !delta.state || delta.state.current === 'in_progress') return;
+
+      chrome.downloads.onChanged.removeListener(listener);
+      offscreenClient.releaseArchive(vaultId);
+    };
+
+    chrome.downloads.onChanged.addListener(listener);
+  }
+
+  private uniquePath(path: string, used: Set<string>): string {
+    let candidate = path;
+    const dot = path.lastIndexOf('.');
+    const hasExtension = dot > path.lastIndexOf('/');
+
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = hasExtension ? `${path.slice(0, dot)} ${n}${path.slice(dot)}` : `${path} ${n}`;
+    }
+
+    used.add(candidate.toLowerCase());
+    return candidate;
+  }
+
+  // Note names double as wiki-link targets, so characters Obsidian reserves for links are dropped too
+  private safeName(name: string): string {
+    const cleaned = name.replace(/[\\/:*?"<>|#^[\]\x00-\x1f]/g, ' ').replace(/\s+/g, ' ').replace(/^\.+/, '').trim().slice(0, 100);
+    return cleaned || 'Untitled';
+  }
+
+  private escape(text: string): string {
+    return text.replace(/([\\`*_[\]])/g, '\\$1');
+  }
+
+  private formatStamp(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const markdownExporter = new MarkdownExporter();
@@ -0,0 +1,103 @@
+// Module Parser for Canvas Scraper
+// Reads the modules page into ordered modules, items, prerequisites and completion requirements
+// Runs wherever a DOM exists (offscreen document), so it must not depend on service worker singletons
+
+import type { CourseModule, ModuleItem, ModuleRequirement } from './moduleResolver';
+
+const REQUIREMENT_TYPES: ModuleRequirement['type'][] = ['must_view', 'must_submit', 'must_contribute', 'min_score', 'must_mark_done'];
+
+export class ModuleParser {
+  // Parse the modules page into ordered modules and items
+  parse(doc: Document, pageUrl: string): CourseModule[] {
+    const modules: CourseModule[] = [];
+
+    doc.querySelectorAll('.context_module[id^="context_module_"], [data-module-id]').forEach(element => {
+      const id = element.getAttribute('data-module-id') || element.id.match(/context_module_(\d+)/)?.[1];
+      if (!id || modules.some(module => module.id === id)) return;
+
+      const name = this.cleanText(element.querySelector('.ig-header-title .name, .header .name, .name')?.textContent) || `Module ${modules.length + 1}`;
+      const unlockAt = this.cleanText(element.querySelector('.unlock_at')?.textContent)
+        || this.cleanText(element.querySelector('.displayed_unlock_at')?.textContent);
+      const requirementsText = (element.querySelector('.requirements_message')?.textContent || '').toLowerCase();
+
+      const module: CourseModule = {
+        id,
+        name,
+        position: modules.length + 1,
+        unlockAt,
+        locked: element.classList.contains('locked') || !!element.querySelector('.ig-header .locked_icon, .header .icon-lock'),
+        requireAll: !/one item|one requirement/.test(requirementsText),
+        sequential: this.cleanText(element.querySelector('.require_sequential_progress')?.textContent) === 'true',
+        prerequisites: Array.from(element.querySelectorAll('.prerequisites .prerequisite_criterion')).map(criterion => ({
+          moduleId: this.cleanText(criterion.querySelector('.id')?.textContent),
+          name: this.cleanText(criterion.querySelector('.name')?.textContent) || this.cleanText(criterion.textContent) || ''
+        })),
+        items: []
+      };
+
+      element.querySelectorAll('li.context_module_item').forEach(itemElement => {
+        const item = this.parseItem(itemElement, module, pageUrl);
+        if (item) {
+          module.items.push(item);
+        }
+      });
+
+      modules.push(module);
+    });
+
+    return modules;
+  }
+
+  private parseItem(element: Element, module: CourseModule, pageUrl: string): ModuleItem | null {
+    const id = element.id.match(/context_module_item_(\d+)/)?.[1] || element.getAttribute('data-module-item-id');
+    if (!id) return null;
+
+    const link = element.querySelector('a.ig-title, a.item_link, .item_name a, a.title');
+    const href = link?.getAttribute('href');
+    const contentType = this.cleanText(element.querySelector('.type')?.textContent)
+      || Array.from(element.classList).find(name => name !== 'context_module_item' && !name.startsWith('indent_') && name !== 'completed')
+      || 'unknown';
+
+    return {
+      id,
+      moduleId: module.id,
+      moduleName: module.name,
+      title: this.cleanText(link?.textContent) || this.cleanText(element.querySelector('.title, .ig-title')?.textContent) || `Item ${id}`,
+      position: module.items.length + 1,
+      indent: parseInt(element.className.match(/indent_(\d+)/)?.[1] || '0', 10),
+      contentType,
+      url: href && href !== '#' ? this.resolveUrl(href, pageUrl) : null,
+      requirement: this.parseRequirement(element),
+      locked: element.classList.contains('locked') || !!element.querySelector('.ig-row.locked'),
+      resource: null
+    };
+  }
+
+  // Legacy markup marks the requirement with a class such as "min_score_requirement"
+  private parseRequirement(element: Element): ModuleRequirement | null {
+    const type = REQUIREMENT_TYPES.find(requirement => element.querySelector(`.${requirement}_requirement`));
+    if (!type) return null;
+
+    const minScoreText = element.querySelector('.min_score_requirement .min_score, .min_score_requirement')?.textContent;
+    return {
+      type,
+      minScore: type === 'min_score' ? parseFloat(minScoreText?.match(/\d+(\.\d+)?/)?.[0] || '') || null : null,
+      fulfilled: element.classList.contains('completed') || !!element.querySelector('.ig-row.completed, .module-item-status-icon .icon-check')
+    };
+  }
+
+  private resolveUrl(href: string, pageUrl: string): string {
+    try {
+      return new URL(href, pageUrl).toString();
+    } catch {
+      return href;
+    }
+  }
+
+  private cleanText(text: string | null | undefined): string | null {
+    const cleaned = text?.replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+  }
+}
+
+export const moduleParser = new ModuleParser();
@@ -0,0 +1,185 @@
+// Module Resolver for Canvas Scraper
+// Resolves module items (parsed by ModuleParser or read from the API) to the resources they point at
+
+import { CanvasIds } from './canvasIds';
+import { hostContext } from './hostContext';
+import { storageManager } from './storageManager';
+
+export interface ModuleResource {
+  type: string; // assignment, quiz, discussion, page, file or external
+  url: string;
+  itemId: string | null; // Stable item ID shared with the section lists
+  collection: string | null; // Section collection the item is stored in
+  recordId: string | null;
+  resolvedAt: number;
+}
+
+export interface ModuleRequirement {
+  type: 'must_view' | 'must_submit' | 'must_contribute' | 'min_score' | 'must_mark_done';
+  minScore: number | null;
+  fulfilled: boolean;
+}
+
+export interface ModuleItem {
+  id: string; // Canvas module item ID
+  moduleId: string;
+  moduleName: string;
+  title: string;
+  position: number;
+  indent: number;
+  contentType: string; // Canvas content type, e.g. "assignment", "wiki_page", "external_url"
+  url: string | null; // /modules/items/:id link; sub-headers have none
+  requirement: ModuleRequirement | null;
+  locked: boolean;
+  resource: ModuleResource | null;
+}
+
+export interface CourseModule {
+  id: string;
+  name: string;
+  position: number;
+  unlockAt: string | null;
+  locked: boolean;
+  requireAll: boolean; // false when completing any one requirement is enough
+  sequential: boolean;
+  prerequisites: Array<{ moduleId: string | null; name: string }>;
+  items: ModuleItem[];
+}
+
+export interface ModuleResolverConfig {
+  enableLogging: boolean;
+  requestTimeout: number;
+}
+
+// Item types that live in a section list, mapped to their collection and URL prefix
+const RESOURCE_COLLECTIONS: Array<{ type: string; collection: string; pattern: RegExp }> = [
+  { type: 'assignment', collection: 'assignments', pattern: /\/assignments\/\d+/ },
+  { type: 'quiz', collection: 'quizzes', pattern: /\/quizzes\/\d+/ },
+  { type: 'discussion', collection: 'discussions', pattern: /\/discussion_topics\/\d+/ },
+  { type: 'page', collection: 'pages', pattern: /\/(pages|wiki)\/[^/?#]+/ },
+  { type: 'file', collection: 'files', pattern: /\/files\/\d+/ }
+];
+
+export class ModuleResolver {
+  private config: ModuleResolverConfig;
+
+  constructor(config?: Partial<ModuleResolverConfig>) {
+    this.config = {
+      enableLogging: true,
+      requestTimeout: 15000,
+      ...config
+    };
+  }
+
+  // Resolve module items to their canonical resources, reusing resolutions stored on earlier crawls
+  async resolveModules(courseId: string, modules: CourseModule[]): Promise<{ resolved: number; failed: number }> {
+    const known = await this.loadKnownResources(courseId);
+    let resolved = 0;
+    let failed = 0;
+
+    for (const module of modules) {
+      for (const item of module.items) {
+        // Items from the Canvas API arrive already resolved
+        if (!item.url || item.resource) continue;
+
+        const cached = known.get(item.id);
+        if (cached) {
+          item.resource = cached;
+          continue;
+        }
+
+        item.resource = await this.resolveItem(courseId, item);
+        if (item.resource) {
+          resolved++;
+        } else {
+          failed++;
+        }
+      }
+    }
+
+    this.log(`[ModuleResolver] Course ${courseId}: resolved ${resolved} module items, ${failed} unresolved, ${known.size} cached`);
+    return { resolved, failed };
+  }
+
+  // Map a resource URL onto the item ID and collection the section crawlers use
+  toResource(courseId: string, url: string): ModuleResource {
+    for (const { type, collection, pattern } of RESOURCE_COLLECTIONS) {
+      if (!pattern.test(url)) continue;
+
+      const itemId = CanvasIds.itemId(url, type);
+      if (itemId) {
+        return { type, url, itemId, collection, recordId: CanvasIds.recordId(courseId, collection, itemId), resolvedAt: Date.now() };
+      }
+    }
+
+    return { type: 'external', url, itemId: null, collection: null, recordId: null, resolvedAt: Date.now() };
+  }
+
+  // Follow the /modules/items/:id redirect to where Canvas actually sends the student
+  private async resolveItem(courseId: string, item: ModuleItem): Promise<ModuleResource | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.requestTimeout);
+
+    try {
+      const response = await fetch(item.url!, { credentials: 'include', redirect: 'follow', signal: controller.signal });
+      const finalUrl = response.url || item.url!;
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      // External links redirect off Canvas; Canvas-hosted items land on the resource page
+      if (!hostContext.isCanvasUrl(finalUrl) || !/\/modules\/items\/\d+/.test(finalUrl)) {
+        await response.body?.cancel();
+        return this.toResource(courseId, finalUrl);
+      }
+
+      // External URLs and tools render inside a module item page instead of redirecting
+      const html = await response.text();
+      const target = html.match(/<iframe[^>]+src=["']([^"']+)["']/i)?.[1]
+        || html.match(/<a[^>]+class=["'][^"']*external[^"']*["'][^>]+href=["']([^"']+)["']/i)?.[1];
+
+      return target ? this.toResource(courseId, hostContext.resolveUrl(target.replace(/&amp;/g, '&'), finalUrl)) : null;
+
+    } catch (error) {
+      this.log(`[ModuleResolver] Failed to resolve module item ${item.id}: ${error}`);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Resolutions from the stored module structure, keyed by module item ID
+  private async loadKnownResources(courseId: string): Promise<Map<string, ModuleResource>> {
+    const known = new Map<string, ModuleResource>();
+    if (!storageManager.isReady()) return known;
+
+    try {
+      const stored = await storageManager.getStructuredData(
+        CanvasIds.recordId(courseId, 'modules', CanvasIds.moduleStructureId(courseId))
+      );
+      const modules: CourseModule[] = stored?.data?.metadata?.modules || [];
+
+      for (const module of modules) {
+        for (const item of module.items) {
+          if (item.resource) {
+            known.set(item.id, item.resource);
+          }
+        }
+      }
+    } catch (error) {
+      this.log(`[ModuleResolver] Could not load stored modules for ${courseId}: ${error}`);
+    }
+
+    return known;
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const moduleResolver = new ModuleResolver();
@@ -0,0 +1,320 @@
+// Offline Library for Canvas Scraper
+// Serves the offline viewer: the course/section/item tree, stored pages by URL, link resolution and downloaded files
+
+import { storageManager } from './storageManager';
+import type { HtmlSnapshot, StructuredData } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import { hostContext } from './hostContext';
+import { CanvasIds } from './canvasIds';
+import { ContentUtils } from './contentUtils';
+
+export interface LibraryItem {
+  itemId: string;
+  title: string;
+  type: string;
+  url: string;
+  captured: boolean;
+}
+
+export interface LibrarySection {
+  name: string;
+  items: LibraryItem[];
+}
+
+export interface LibraryCourse {
+  id: string;
+  name: string;
+  code: string;
+  url: string;
+  captured: boolean; // Course home page is stored
+  sections: LibrarySection[];
+}
+
+export interface LibraryTreeResult {
+  success: boolean;
+  courses: LibraryCourse[];
+  error?: string;
+}
+
+export interface LibraryPageResult {
+  success: boolean;
+  url: string;
+  html?: string;
+  title?: string;
+  capturedAt?: number;
+  source?: 'snapshot' | 'detail';
+  error?: string;
+}
+
+// How a link found on a stored page can be followed offline
+export type LinkTarget =
+  | { kind: 'page'; url: string }
+  | { kind: 'file'; courseId: string; fileId: string }
+  | { kind: 'missing' }
+  | { kind: 'external' };
+
+export interface LinkResolutionResult {
+  success: boolean;
+  targets: Record<string, LinkTarget>;
+  error?: string;
+}
+
+export interface LibraryFileResult {
+  success: boolean;
+  fileName?: string;
+  mimeType?: string;
+  data?: string; // base64
+  size?: number;
+  error?: string;
+}
+
+export interface OfflineLibraryConfig {
+  enableLogging: boolean;
+  maxFileSize: number; // Largest file sent to the viewer in one message
+}
+
+// Sidebar order, matching the section crawl order
+const SECTION_ORDER = ['announcements', 'assignments', 'discussions', 'pages', 'files', 'quizzes', 'modules', 'grades', 'people', 'syllabus'];
+
+// Detail records hold the full page HTML for these types
+const DETAIL_TYPES = ['announcement', 'assignment', 'discussion', 'page', 'quiz'];
+
+const FILE_URL_PATTERN = /\/files\/(\d+)/;
+const COURSE_URL_PATTERN = /\/courses\/(\d+)/;
+
+export class OfflineLibrary {
+  private config: OfflineLibraryConfig;
+
+  constructor(config?: Partial<OfflineLibraryConfig>) {
+    this.config = {
+      enableLogging: true,
+      maxFileSize: 48 * 1024 * 1024,
+      ...config
+    };
+  }
+
+  // StudentIndex -> course -> section -> item, with whether each item can be opened offline
+  async getTree(): Promise<LibraryTreeResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, courses: [], error: 'Storage not ready' };
+    }
+
+    try {
+      const studentIndex = await studentIndexManager.loadStudentIndex();
+      const snapshotUrls = await this.snapshotUrlMap();
+      const courses: LibraryCourse[] = [];
+
+      for (const course of Object.values(studentIndex.courses)) {
+        const records = await storageManager.getStructuredDataByCourse(course.id);
+        const details = new Set(records.filter(record => record.collection === 'details' && record.data?.htmlContent).map(record => record.itemId));
+        const blobs = new Set(await this.courseBlobIds(course.id, records));
+
+        courses.push({
+          id: course.id,
+          name: course.name,
+          code: course.code,
+          url: course.url,
+          captured: snapshotUrls.has(this.normalizeUrl(course.url)),
+          sections: this.buildSections(records, snapshotUrls, details, blobs)
+        });
+      }
+
+      courses.sort((a, b) => a.name.localeCompare(b.name));
+      this.log(`[OfflineLibrary] Built tree for ${courses.length} courses`);
+      return { success: true, courses };
+
+    } catch (error) {
+      return { success: false, courses: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Newest stored HTML for a URL: a page snapshot or the page a detail crawl captured
+  async getPage(url: string): Promise<LibraryPageResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, url, error: 'Storage not ready' };
+    }
+
+    try {
+      const snapshot = await this.findSnapshot(url);
+      const detail = await this.findDetail(url);
+
+      if (detail && (!snapshot || detail.timestamp > snapshot.timestamp)) {
+        return { success: true, url, html: detail.data.htmlContent, title: detail.data.title, capturedAt: detail.timestamp, source: 'detail' };
+      }
+      if (snapshot) {
+        return { success: true, url: snapshot.url, html: snapshot.html, capturedAt: snapshot.timestamp, source: 'snapshot' };
+      }
+
+      return { success: false, url, error: 'Not captured' };
+
+    } catch (error) {
+      this.log(`[OfflineLibrary] Could not load ${url}: ${error}`);
+      return { success: false, url, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Classify the links of a stored page, so the viewer can point them at stored copies
+  async resolveLinks(pageUrl: string, urls: string[]): Promise<LinkResolutionResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, targets: {}, error: 'Storage not ready' };
+    }
+
+    try {
+      const snapshotUrls = await this.snapshotUrlMap();
+      const pageOrigin = hostContext.getOrigin(pageUrl);
+      const pageCourse = pageUrl.match(COURSE_URL_PATTERN)?.[1] || null;
+      const targets: Record<string, LinkTarget> = {};
+
+      for (const url of new Set(urls)) {
+        if (hostContext.getOrigin(url) !== pageOrigin && !hostContext.isCanvasUrl(url)) {
+          targets[url] = { kind: 'external' };
+          continue;
+        }
+
+        const fileId = url.match(FILE_URL_PATTERN)?.[1];
+        const courseId = url.match(COURSE_URL_PATTERN)?.[1] || pageCourse;
+        if (fileId && courseId && await storageManager.hasRecord('blobs', `blob_${courseId}_${fileId}`)) {
+          targets[url] = { kind: 'file', courseId, fileId };
+        } else if (snapshotUrls.has(this.normalizeUrl(url)) || await this.hasDetail(url)) {
+          targets[url] = { kind: 'page', url };
+        } else {
+          targets[url] = { kind: 'missing' };
+        }
+      }
+
+      return { success: true, targets };
+
+    } catch (error) {
+      return { success: false, targets: {}, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async getFile(courseId: string, fileId: string): Promise<LibraryFileResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, error: 'Storage not ready' };
+    }
+
+    try {
+      const blob = await storageManager.getBlob(`blob_${courseId}_${fileId}`);
+      if (!blob) return { success: false, error: 'File not downloaded' };
+      if (blob.size > this.config.maxFileSize) {
+        return { success: false, error: `File is too large to open offline (${Math.round(blob.size / (1024 * 1024))} MB)` };
+      }
+
+      const file = await storageManager.getStructuredData(`file_${courseId}_${fileId}`);
+      return {
+        success: true,
+        fileName: file?.data?.fileName || `file-${fileId}`,
+        mimeType: blob.mimeType,
+        data: ContentUtils.arrayBufferToBase64(blob.data),
+        size: blob.size
+      };
+
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private buildSections(
+    records: StructuredData[],
+    snapshotUrls: Map<string, string>,
+    details: Set<string>,
+    blobs: Set<string>
+  ): LibrarySection[] {
+    const sections = new Map<string, LibraryItem[]>();
+
+    for (const record of records) {
+      const data = record.data;
+      // Section items carry their URL; page-level records from the queue do not
+      if (!SECTION_ORDER.includes(record.collection) || typeof data?.url !== 'string' || !data.title) continue;
+
+      const fileId = data.url.match(FILE_URL_PATTERN)?.[1];
+      const captured = snapshotUrls.has(this.normalizeUrl(data.url))
+        || details.has(record.itemId)
+        || (!!fileId && blobs.has(fileId));
+
+      const items = sections.get(record.collection) || [];
+      items.push({ itemId: record.itemId, title: data.title, type: data.type || record.collection, url: data.url, captured });
+      sections.set(record.collection, items);
+    }
+
+    return SECTION_ORDER
+      .filter(name => sections.has(name))
+      .map(name => ({ name, items: sections.get(name)!.sort((a, b) => a.title.localeCompare(b.title)) }));
+  }
+
+  // Canvas file IDs with a stored blob, found through the course's file records
+  private async courseBlobIds(courseId: string, records: StructuredData[]): Promise<string[]> {
+    const fileIds = records
+      .filter(record => record.collection === 'files' && record.id.startsWith('file_'))
+      .map(record => record.id.slice(`file_${courseId}_`.length));
+
+    const stored: string[] = [];
+    for (const fileId of fileIds) {
+      if (await storageManager.hasRecord('blobs', `blob_${courseId}_${fileId}`)) stored.push(fileId);
+    }
+    return stored;
+  }
+
+  private async findSnapshot(url: string): Promise<HtmlSnapshot | null> {
+    const stored = (await this.snapshotUrlMap()).get(this.normalizeUrl(url));
+    if (!stored) return null;
+
+    const snapshots = await storageManager.getHtmlSnapshotsByUrl(stored);
+    return snapshots[snapshots.length - 1] || null;
+  }
+
+  private async findDetail(url: string): Promise<StructuredData | null> {
+    for (const id of this.detailRecordIds(url)) {
+      const record = await storageManager.getStructuredData(id);
+      if (record?.data?.htmlContent) return record;
+    }
+    return null;
+  }
+
+  private async hasDetail(url: string): Promise<boolean> {
+    for (const id of this.detailRecordIds(url)) {
+      if (await storageManager.hasRecord('structured', id)) return true;
+    }
+    return false;
+  }
+
+  // Detail record keys a URL could belong to (announcements and discussions share URL shapes)
+  private detailRecordIds(url: string): string[] {
+    const courseId = url.match(COURSE_URL_PATTERN)?.[1];
+    if (!courseId) return [];
+
+    return DETAIL_TYPES
+      .map(type => CanvasIds.itemId(url, type))
+      .filter((itemId): itemId is string => !!itemId)
+      .map(itemId => CanvasIds.recordId(courseId, 'details', itemId));
+  }
+
+  // Normalized URL -> stored URL, for every URL with a snapshot
+  private async snapshotUrlMap(): Promise<Map<string, string>> {
+    const urls = new Map<string, string>();
+    for (const url of await storageManager.getHtmlSnapshotUrls()) {
+      urls.set(this.normalizeUrl(url), url);
+    }
+    return urls;
+  }
+
+  // Links rarely match the crawled URL exactly: ignore fragments, query strings and trailing slashes
+  private normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch {
+      return url.toLowerCase();
+    }
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const offlineLibrary = new OfflineLibrary();
@@ -0,0 +1,305 @@
+// Offscreen Client for Canvas Scraper
+// Owns the offscreen document and forwards jobs that need DOM or worker APIs (PDF parsing, OCR, HTML parsing)
+
+import { ContentUtils } from './contentUtils';
+import type { DiscussionThread } from './discussionParser';
+import type { Rubric } from './rubricParser';
+import type { GradesPage } from './gradesParser';
+import type { CourseModule } from './moduleResolver';
+import type { MarkdownSource, MarkdownDocument } from './markdownConverter';
+
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface PdfDocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: string;
+  modificationDate?: string;
+}
+
+export interface PdfExtractionResult {
+  success: boolean;
+  pages: PdfPageText[];
+  pageCount: number;
+  metadata: PdfDocumentMetadata;
+  error?: string;
+  errorCode?: 'encrypted' | 'malformed' | 'unknown';
+}
+
+export interface OcrPageResult {
+  pageNumber: number;
+  text: string;
+  confidence: number;
+}
+
+export interface OcrResult {
+  success: boolean;
+  text: string;
+  confidence: number; // 0-100, averaged over recognized pages
+  pages: OcrPageResult[];
+  timedOut: boolean;
+  error?: string;
+}
+
+export interface OcrOptions {
+  language: string;
+  timeBudgetMs: number;
+}
+
+export interface DiscussionParseResult {
+  success: boolean;
+  thread?: DiscussionThread;
+  error?: string;
+}
+
+export interface RubricParseResult {
+  success: boolean;
+  rubric: Rubric | null;
+  error?: string;
+}
+
+export interface GradesParseResult {
+  success: boolean;
+  page?: GradesPage;
+  error?: string;
+}
+
+export interface ModulesParseResult {
+  success: boolean;
+  modules: CourseModule[];
+  error?: string;
+}
+
+export interface MarkdownConversionResult {
+  success: boolean;
+  documents: MarkdownDocument[];
+  error?: string;
+}
+
+export interface ArchiveResult {
+  success: boolean;
+  size: number; // Bytes held by the offscreen document for this archive
+  url?: string; // Blob URL, once the archive is finished
+  error?: string;
+}
+
+export type OffscreenRequest =
+  | { target: 'offscreen'; type: 'EXTRACT_PDF_TEXT'; data: string } // data is base64-encoded file bytes
+  | { target: 'offscreen'; type: 'OCR_IMAGE'; data: string; mimeType: string; options: OcrOptions }
+  | { target: 'offscreen'; type: 'OCR_PDF_PAGES'; data: string; pageNumbers: number[]; options: OcrOptions }
+  | { target: 'offscreen'; type: 'PARSE_DISCUSSION'; html: string }
+  | { target: 'offscreen'; type: 'PARSE_RUBRIC'; html: string }
+  | { target: 'offscreen'; type: 'PARSE_GRADES'; html: string; pageUrl: string }
+  | { target: 'offscreen'; type: 'PARSE_MODULES'; html: string; pageUrl: string }
+  | { target: 'offscreen'; type: 'CONVERT_MARKDOWN'; documents: MarkdownSource[] }
+  | { target: 'offscreen'; type: 'ARCHIVE_BEGIN'; archiveId: string }
+  | { target: 'offscreen'; type: 'ARCHIVE_APPEND'; archiveId: string; data: string } // data is a base64-encoded chunk
+  | { target: 'offscreen'; type: 'ARCHIVE_FINISH'; archiveId: string; mimeType: string }
+  | { target: 'offscreen'; type: 'ARCHIVE_RELEASE'; archiveId: string };
+
+export interface OffscreenClientConfig {
+  enableLogging: boolean;
+  documentPath: string;
+  requestTimeout: number;
+}
+
+export class OffscreenClient {
+  private config: OffscreenClientConfig;
+  private creatingDocument: Promise<void> | null = null;
+
+  constructor(config?: Partial<OffscreenClientConfig>) {
+    this.config = {
+      enableLogging: true,
+      documentPath: 'offscreen/offscreen.html',
+      requestTimeout: 120000,
+      ...config
+    };
+  }
+
+  // Extract per-page text and document metadata from PDF bytes
+  async extractPdfText(data: ArrayBuffer): Promise<PdfExtractionResult> {
+    try {
+      return await this.sendRequest<PdfExtractionResult>({
+        target: 'offscreen',
+        type: 'EXTRACT_PDF_TEXT',
+        data: ContentUtils.arrayBufferToBase64(data)
+      });
+    } catch (error) {
+      return {
+        success: false,
+        pages: [],
+        pageCount: 0,
+        metadata: {},
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: 'unknown'
+      };
+    }
+  }
+
+  // Recognize text in an image file
+  async performImageOcr(data: ArrayBuffer, mimeType: string, options: OcrOptions): Promise<OcrResult> {
+    try {
+      return await this.sendRequest<OcrResult>({
+        target: 'offscreen',
+        type: 'OCR_IMAGE',
+        data: ContentUtils.arrayBufferToBase64(data),
+        mimeType,
+        options
+      }, options.timeBudgetMs + this.config.requestTimeout);
+    } catch (error) {
+      return this.ocrFailure(error);
+    }
+  }
+
+  // Render the given PDF pages and recognize them (for pages without a text layer)
+  async performPdfOcr(data: ArrayBuffer, pageNumbers: number[], options: OcrOptions): Promise<OcrResult> {
+    try {
+      return await this.sendRequest<OcrResult>({
+        target: 'offscreen',
+        type: 'OCR_PDF_PAGES',
+        data: ContentUtils.arrayBufferToBase64(data),
+        pageNumbers,
+        options
+      }, options.timeBudgetMs + this.config.requestTimeout);
+    } catch (error) {
+      return this.ocrFailure(error);
+    }
+  }
+
+  // Build a discussion reply tree from captured page HTML (service workers have no DOMParser)
+  async parseDiscussion(html: string): Promise<DiscussionParseResult> {
+    try {
+      return await this.sendRequest<DiscussionParseResult>({ target: 'offscreen', type: 'PARSE_DISCUSSION', html });
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Read the rubric (and any assessment) from a captured assignment page
+  async parseRubric(html: string): Promise<RubricParseResult> {
+    try {
+      return await this.sendRequest<RubricParseResult>({ target: 'offscreen', type: 'PARSE_RUBRIC', html });
+    } catch (error) {
+      return { success: false, rubric: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Read grade records, assessed rubrics and the course summary from a grades page
+  async parseGrades(html: string, pageUrl: string): Promise<GradesParseResult> {
+    try {
+      return await this.sendRequest<GradesParseResult>({ target: 'offscreen', type: 'PARSE_GRADES', html, pageUrl });
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Read modules, their items, prerequisites and completion requirements from a modules page
+  async parseModules(html: string, pageUrl: string): Promise<ModulesParseResult> {
+    try {
+      return await this.sendRequest<ModulesParseResult>({ target: 'offscreen', type: 'PARSE_MODULES', html, pageUrl });
+    } catch (error) {
+      return { success: false, modules: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Convert captured pages and fragments to Markdown in one round trip
+  async convertToMarkdown(documents: MarkdownSource[]): Promise<MarkdownConversionResult> {
+    try {
+      return await this.sendRequest<MarkdownConversionResult>({ target: 'offscreen', type: 'CONVERT_MARKDOWN', documents });
+    } catch (error) {
+      return { success: false, documents: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Archives are assembled in the offscreen document, which can hold blobs and hand out blob URLs for download
+  async beginArchive(archiveId: string): Promise<ArchiveResult> {
+    return this.archiveRequest({ target: 'offscreen', type: 'ARCHIVE_BEGIN', archiveId });
+  }
+
+  async appendArchive(archiveId: string, chunk: Uint8Array): Promise<ArchiveResult> {
+    return this.archiveRequest({ target: 'offscreen', type: 'ARCHIVE_APPEND', archiveId, data: ContentUtils.arrayBufferToBase64(chunk) });
+  }
+
+  async finishArchive(archiveId: string, mimeType: string): Promise<ArchiveResult> {
+    return this.archiveRequest({ target: 'offscreen', type: 'ARCHIVE_FINISH', archiveId, mimeType });
+  }
+
+  // Drop the archive's blob and revoke its URL once the download no longer needs it
+  async releaseArchive(archiveId: string): Promise<ArchiveResult> {
+    return this.archiveRequest({ target: 'offscreen', type: 'ARCHIVE_RELEASE', archiveId });
+  }
+
+  private async archiveRequest(request: OffscreenRequest): Promise<ArchiveResult> {
+    try {
+      return await this.sendRequest<ArchiveResult>(request);
+    } catch (error) {
+      return { success: false, size: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private ocrFailure(error: unknown): OcrResult {
+    return {
+      success: false,
+      text: '',
+      confidence: 0,
+      pages: [],
+      timedOut: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  // Create the offscreen document once; concurrent callers share the same creation
+  private async ensureDocument(): Promise<void> {
+    if (await chrome.offscreen.hasDocument()) return;
+
+    if (!this.creatingDocument) {
+      this.log('[OffscreenClient] Creating offscreen document');
+      this.creatingDocument = chrome.offscreen.createDocument({
+        url: this.config.documentPath,
+        reasons: [chrome.offscreen.Reason.WORKERS, chrome.offscreen.Reason.DOM_PARSER, chrome.offscreen.Reason.BLOBS],
+        justification: 'Parse downloaded course files and captured pages, and assemble export archives, outside the service worker'
+      }).finally(() => {
+        this.creatingDocument = null;
+      });
+    }
+
+    await this.creatingDocument;
+  }
+
+  private async sendRequest<T>(request: OffscreenRequest, timeout = this.config.requestTimeout): Promise<T> {
+    await this.ensureDocument();
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Offscreen request ${request.type} timed out after ${timeout}ms`));
+      }, timeout);
+
+      chrome.runtime.sendMessage(request, (response) => {
+        clearTimeout(timer);
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+        } else if (!response) {
+          reject(new Error('No response from offscreen document'));
+        } else {
+          resolve(response as T);
+        }
+      });
+    });
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const offscreenClient = new OffscreenClient();
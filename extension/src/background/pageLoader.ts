@@ -3,6 +3,7 @@
 
 import { configManager } from './configManager';
 import { storageManager } from './storageManager';
+import { rateLimiter } from './rateLimiter';
 
 export interface FetchOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
@@ -93,6 +94,13 @@ export class PageLoader {
           };
         }
         
+        // Throttled: retry once the rate limiter lets the host through again
+        if ((result.status === 429 || result.status === 503) && attempt < fetchOptions.retries!) {
+          lastError = result.error;
+          console.warn(`[PageLoader] ${url} throttled (HTTP ${result.status}), retrying`);
+          continue;
+        }
+
         // Update cache on successful fetch
         if (result.success && result.text) {
           await this.updateCache(url, result);
@@ -125,6 +133,8 @@ export class PageLoader {
   }
 
   private async performFetch(url: string, options: FetchOptions): Promise<FetchResult> {
+    // Wait for the host's rate limit before the timeout starts
+    const lease = await rateLimiter.acquire(url);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), options.timeout);
 
@@ -143,6 +153,7 @@ export class PageLoader {
       response.headers.forEach((value, key) => {
         headers[key.toLowerCase()] = value;
       });
+      lease.release({ status: response.status, headers });
 
       const result: FetchResult = {
         success: response.ok,
@@ -172,6 +183,7 @@ export class PageLoader {
 
     } catch (error: unknown) {
       clearTimeout(timeoutId);
+      lease.release({ networkError: true });
       
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
@@ -0,0 +1,106 @@
+// Priority Policy for Canvas Scraper
+// Ranks crawl tasks when they are queued: section importance adjusted by course status,
+// how stale the cached page is and how soon the item is due
+
+import type { CrawlTask } from './queueManager';
+import type { Course } from './courseDiscovery';
+
+// What the queue knows about a task when ranking it
+export interface PriorityContext {
+  course: Course | null; // Null for discovery tasks and courses not in the student index yet
+  cacheAgeMs: number | null; // Time since IncrementalSync last saw the page change; null if it has no entry
+  now: number;
+}
+
+export interface PriorityPolicy {
+  name: string;
+  // Priority 1-10, higher runs first; values outside the range are clamped by the queue
+  rank(task: CrawlTask, context: PriorityContext): number;
+}
+
+export interface CourseAwarePolicyConfig {
+  completedCoursePenalty: number;
+  unpublishedCoursePenalty: number;
+  freshWithinMs: number; // Pages cached more recently than this are pushed back
+  freshPenalty: number;
+  staleAfterMs: number; // Pages cached longer ago than this are pulled forward
+  staleBonus: number;
+  dueSoonWithinMs: number; // Items due within this window are pulled forward
+  dueSoonBonus: number;
+  recentlyDueWithinMs: number; // Items that were due within this window still matter (late submissions)
+  recentlyDueBonus: number;
+}
+
+// Keeps the priority the task was queued with, as before policies existed
+export const fixedPriorityPolicy: PriorityPolicy = {
+  name: 'fixed',
+  rank: task => task.basePriority ?? task.priority
+};
+
+// Starts from the queued priority, which carries section importance (sections are queued by importance,
+// their items and files one below), then adjusts it once for the course, the cache and the due date
+export class CourseAwarePriorityPolicy implements PriorityPolicy {
+  readonly name = 'course-aware';
+  private config: CourseAwarePolicyConfig;
+
+  constructor(config?: Partial<CourseAwarePolicyConfig>) {
+    this.config = {
+      completedCoursePenalty: 3,
+      unpublishedCoursePenalty: 4,
+      freshWithinMs: 60 * 60 * 1000, // 1 hour
+      freshPenalty: 2,
+      staleAfterMs: 24 * 60 * 60 * 1000, // 24 hours, IncrementalSync's cache lifetime
+      staleBonus: 1,
+      dueSoonWithinMs: 7 * 24 * 60 * 60 * 1000, // 1 week
+      dueSoonBonus: 2,
+      recentlyDueWithinMs: 24 * 60 * 60 * 1000,
+      recentlyDueBonus: 1,
+      ...config
+    };
+  }
+
+  updateConfig(newConfig: Partial<CourseAwarePolicyConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  rank(task: CrawlTask, context: PriorityContext): number {
+    const base = task.basePriority ?? task.priority;
+    // Discovery pages are not tied to a course and always run first
+    if (!task.courseId) return base;
+
+    return base
+      + this.courseAdjustment(context.course)
+      + this.stalenessAdjustment(context.cacheAgeMs)
+      + this.dueDateAdjustment(task.metadata?.dueAt, context.now);
+  }
+
+  private courseAdjustment(course: Course | null): number {
+    switch (course?.status) {
+      case 'completed':
+        return -this.config.completedCoursePenalty;
+      case 'unpublished':
+        return -this.config.unpublishedCoursePenalty;
+      default:
+        return 0;
+    }
+  }
+
+  private stalenessAdjustment(cacheAgeMs: number | null): number {
+    if (cacheAgeMs === null) return 0;
+    if (cacheAgeMs < this.config.freshWithinMs) return -this.config.freshPenalty;
+    if (cacheAgeMs > this.config.staleAfterMs) return this.config.staleBonus;
+    return 0;
+  }
+
+  private dueDateAdjustment(dueAt: string | null | undefined, now: number): number {
+    const due = dueAt ? Date.parse(dueAt) : NaN;
+    if (isNaN(due)) return 0;
+
+    const untilDue = due - now;
+    if (untilDue >= 0 && untilDue <= this.config.dueSoonWithinMs) return this.config.dueSoonBonus;
+    if (untilDue < 0 && -untilDue <= this.config.recentlyDueWithinMs) return this.config.recentlyDueBonus;
+    return 0;
+  }
+}
+
+export const courseAwarePriorityPolicy = new CourseAwarePriorityPolicy();
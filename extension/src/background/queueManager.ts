@@ -1,18 +1,40 @@
 // Queue Manager for Canvas Scraper
-// Handles prioritized work queue, concurrency controls, retry logic, and persistence
+// Handles prioritized work queue, concurrency controls, retry logic, and persistence.
+// Tasks live in IndexedDB as a dependency graph: running tasks hold a lease that is reclaimed if the
+// service worker stops, so a crawl resumes where it left off.
 
-import { pageLoader, FetchResult } from './pageLoader';
+import { pageLoader } from './pageLoader';
 import { htmlParser, ParsedContent } from './htmlParser';
 import { storageManager } from './storageManager';
 import { courseDiscovery } from './courseDiscovery';
 import { studentIndexManager } from './studentIndex';
+import { detailCrawler } from './detailCrawler';
+import { filesPipeline } from './filesPipeline';
+import { sectionCrawler } from './sectionCrawler';
+import type { SectionItem } from './sectionCrawler';
+import type { Course } from './courseDiscovery';
+import { configManager } from './configManager';
+import { hostContext } from './hostContext';
+import { rateLimiter } from './rateLimiter';
+import { canvasApi } from './canvasApi';
+import { incrementalSync } from './incrementalSync';
+import { courseAwarePriorityPolicy } from './priorityPolicy';
+import type { PriorityPolicy } from './priorityPolicy';
+import { CanvasIds } from './canvasIds';
+
+export type TaskType = 'dashboard' | 'course-list' | 'announcements' | 'assignments' | 'discussions' | 'pages' | 'files' | 'quizzes' | 'modules' | 'grades' | 'people' | 'syllabus' | 'detail' | 'file';
+
+// blocked: waiting on dependencies; pending: ready once scheduledFor passes; running: leased by a worker;
+// skipped: dropped because the crawl's time budget ran out before it was worth running
+export type TaskState = 'blocked' | 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
 
 export interface CrawlTask {
   id: string;
-  type: 'dashboard' | 'course-list' | 'announcements' | 'assignments' | 'discussions' | 'pages' | 'files' | 'quizzes' | 'modules' | 'grades' | 'people' | 'syllabus';
+  type: TaskType;
   url: string;
   courseId?: string;
-  priority: number; // 1-10, higher is more important
+  priority: number; // 1-10, higher is more important; set by the priority policy
+  basePriority?: number; // Priority the task was queued with (section importance), which the policy ranks from
   retryCount: number;
   maxRetries: number;
   createdAt: number;
@@ -20,6 +42,32 @@ export interface CrawlTask {
   lastAttempt?: number;
   error?: string;
   metadata?: any;
+  state: TaskState;
+  rootId: string; // First task of the graph this task belongs to
+  parentId?: string; // Task that spawned this one
+  dependsOn: string[]; // Tasks that must complete first
+  leaseOwner?: string; // Worker instance running the task
+  leaseExpiresAt?: number;
+  completedAt?: number;
+}
+
+// What callers provide; graph fields default to a standalone task
+export type NewTask = Omit<CrawlTask, 'id' | 'retryCount' | 'createdAt' | 'state' | 'rootId' | 'dependsOn'> & {
+  rootId?: string;
+  parentId?: string;
+  dependsOn?: string[];
+};
+
+// Pipeline stages a crawl moves through: courses, then their section lists, then items, then files
+export type CrawlStage = 'discovery' | 'sections' | 'details' | 'files';
+
+export interface StageProgress {
+  total: number;
+  pending: number; // Includes tasks still blocked on dependencies
+  running: number;
+  completed: number;
+  failed: number;
+  skipped: number;
 }
 
 export interface QueueStats {
@@ -28,272 +76,754 @@ export interface QueueStats {
   running: number;
   completed: number;
   failed: number;
+  skipped: number;
   retries: number;
 }
 
 export interface ConcurrencyConfig {
   maxConcurrentTasks: number;
   maxConcurrentGhostTabs: number;
-  taskTimeoutMs: number;
+  taskTimeoutMs: number; // A running task is failed (and retried) after this long; file tasks also get their download and OCR time
   retryDelayMs: number;
   maxRetries: number;
+  leaseMs: number; // A running task whose lease is not renewed within this time is run again
+  finishedRetentionMs: number; // Finished graphs are pruned after this long
+}
+
+// Section items of these types each get a detail task
+const DETAIL_ITEM_TYPES = new Set(['announcement', 'assignment', 'discussion', 'page', 'quiz']);
+
+const FINISHED_STATES: TaskState[] = ['completed', 'failed', 'skipped'];
+
+export const CRAWL_STAGES: CrawlStage[] = ['discovery', 'sections', 'details', 'files'];
+
+export function stageOf(type: TaskType): CrawlStage {
+  switch (type) {
+    case 'dashboard':
+    case 'course-list':
+      return 'discovery';
+    case 'detail':
+      return 'details';
+    case 'file':
+      return 'files';
+    default:
+      return 'sections';
+  }
+}
+
+// Sections crawled for every course, with their list page and priority; the priority is the section's
+// importance, which the priority policy starts from
+const COURSE_SECTIONS: Array<{ type: TaskType; path: string; priority: number }> = [
+  { type: 'announcements', path: '/announcements', priority: 8 },
+  { type: 'assignments', path: '/assignments', priority: 8 },
+  { type: 'syllabus', path: '/syllabus', priority: 8 },
+  { type: 'discussions', path: '/discussion_topics', priority: 7 },
+  { type: 'grades', path: '/grades', priority: 7 },
+  { type: 'pages', path: '/wiki', priority: 6 },
+  { type: 'modules', path: '/modules', priority: 6 },
+  { type: 'files', path: '/files', priority: 5 },
+  { type: 'quizzes', path: '/quizzes', priority: 5 },
+  { type: 'people', path: '/users', priority: 4 }
+];
+
+export function emptyStageProgress(): Record<CrawlStage, StageProgress> {
+  return Object.fromEntries(CRAWL_STAGES.map(stage => [stage, { total: 0, pending: 0, running: 0, completed: 0, failed: 0, skipped: 0 }])) as Record<CrawlStage, StageProgress>;
+}
+
+// One task per section of a course
+export function courseSectionTasks(courseId: string, courseUrl: string): NewTask[] {
+  const baseUrl = courseUrl.replace(/\/$/, '');
+  return COURSE_SECTIONS.map(section => ({
+    type: section.type,
+    url: `${baseUrl}${section.path}`,
+    courseId,
+    priority: section.priority,
+    maxRetries: 3,
+    scheduledFor: Date.now()
+  }));
 }
 
 export class QueueManager {
-  private queue: CrawlTask[] = [];
-  private running: Set<string> = new Set();
-  private completed: Set<string> = new Set();
-  private failed: Set<string> = new Set();
+  private tasks = new Map<string, CrawlTask>();
   private config: ConcurrencyConfig;
   private isProcessing = false;
   private processingInterval: number | null = null;
+  private tickRunning = false; // One queue pass at a time, so concurrent passes cannot over-claim slots
+  private loaded: Promise<void>;
+  private priorityPolicy: PriorityPolicy = courseAwarePriorityPolicy;
+  // Graphs whose time budget ran out: pending work below the floor is skipped instead of run.
+  // Kept on the root task as metadata.priorityFloor, so the floor survives a service worker restart
+  private priorityFloors = new Map<string, number>();
+  // Identifies this service worker instance; leases held by any other instance are stale
+  private workerId = `worker_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
   constructor(config: ConcurrencyConfig) {
     this.config = config;
-    this.loadQueue();
+    this.loaded = this.loadQueue();
   }
 
   // Queue Management
-  async addTask(task: Omit<CrawlTask, 'id' | 'retryCount' | 'createdAt'>): Promise<string> {
+  async addTask(task: NewTask): Promise<string> {
+    await this.loaded;
     const id = this.generateTaskId(task.type, task.url);
-    const crawlTask: CrawlTask = {
-      ...task,
-      id,
-      retryCount: 0,
-      createdAt: Date.now()
-    };
-
-    // Check if task already exists
-    const existingIndex = this.queue.findIndex(t => t.id === id);
-    if (existingIndex >= 0) {
-      // Update existing task if it has higher priority
-      if (crawlTask.priority > this.queue[existingIndex].priority) {
-        this.queue[existingIndex] = crawlTask;
-        console.log(`[QueueManager] Updated task ${id} with higher priority`);
-      }
-    } else {
-      this.queue.push(crawlTask);
-      console.log(`[QueueManager] Added task ${id} to queue`);
-    }
+    const [crawlTask] = await this.insertTasks([this.createTask(id, task)]);
+    this.startProcessing();
+    return crawlTask.id;
+  }
 
-    await this.saveQueue();
+  // Add several tasks, typically one graph, in a single write
+  async addTasks(tasks: Array<NewTask & { id?: string }>): Promise<string[]> {
+    await this.loaded;
+    const created = await this.insertTasks(tasks.map(task => this.createTask(task.id || this.generateTaskId(task.type, task.url), task)));
     this.startProcessing();
-    return id;
+    return created.map(task => task.id);
   }
 
   async removeTask(taskId: string): Promise<boolean> {
-    const index = this.queue.findIndex(t => t.id === taskId);
-    if (index >= 0) {
-      this.queue.splice(index, 1);
-      await this.saveQueue();
-      console.log(`[QueueManager] Removed task ${taskId} from queue`);
-      return true;
-    }
-    return false;
+    await this.loaded;
+    if (!this.tasks.has(taskId)) return false;
+
+    await storageManager.deleteTasks([taskId]);
+    this.tasks.delete(taskId);
+    console.log(`[QueueManager] Removed task ${taskId} from queue`);
+    return true;
   }
 
   async getTask(taskId: string): Promise<CrawlTask | null> {
-    return this.queue.find(t => t.id === taskId) || null;
+    await this.loaded;
+    return this.tasks.get(taskId) || null;
   }
 
+  // Unfinished tasks, as before the queue kept finished ones
   async getAllTasks(): Promise<CrawlTask[]> {
-    return [...this.queue];
+    await this.loaded;
+    return Array.from(this.tasks.values()).filter(task => !FINISHED_STATES.includes(task.state));
+  }
+
+  // Every task of one graph, finished or not
+  async getTaskGraph(rootId: string): Promise<CrawlTask[]> {
+    await this.loaded;
+    return Array.from(this.tasks.values()).filter(task => task.rootId === rootId);
+  }
+
+  // Task counts of one graph per pipeline stage
+  async getStageProgress(rootId: string): Promise<Record<CrawlStage, StageProgress>> {
+    const progress = emptyStageProgress();
+
+    for (const task of await this.getTaskGraph(rootId)) {
+      const stage = progress[stageOf(task.type)];
+      stage.total++;
+      if (task.state === 'blocked' || task.state === 'pending') {
+        stage.pending++;
+      } else {
+        stage[task.state]++;
+      }
+    }
+    return progress;
+  }
+
+  // Priority Policy
+  // Ranks tasks as they are queued; tasks already in the queue keep their priority
+  setPriorityPolicy(policy: PriorityPolicy): void {
+    this.priorityPolicy = policy;
+    console.log(`[QueueManager] Using priority policy ${policy.name}`);
+  }
+
+  getPriorityPolicy(): PriorityPolicy {
+    return this.priorityPolicy;
+  }
+
+  // Stop low-value work of a graph: unfinished tasks below minPriority are skipped now, and tasks that
+  // become ready later (spawned children, retries) are skipped instead of run; returns the number skipped
+  async setPriorityFloor(rootId: string, minPriority: number): Promise<number> {
+    await this.loaded;
+    this.priorityFloors.set(rootId, minPriority);
+
+    const root = this.tasks.get(rootId);
+    if (root) {
+      const updated = await storageManager.transitionTask(rootId, ['blocked', 'pending', 'running', ...FINISHED_STATES], {
+        metadata: { ...root.metadata, priorityFloor: minPriority }
+      });
+      if (updated) this.tasks.set(rootId, updated);
+    }
+
+    const skipped = await this.skipBelowFloor(Array.from(this.tasks.values())
+      .filter(task => task.rootId === rootId && (task.state === 'pending' || task.state === 'blocked')));
+    console.log(`[QueueManager] Priority floor ${minPriority} for ${rootId}, skipped ${skipped} tasks`);
+    return skipped;
+  }
+
+  private rankTask(task: CrawlTask): number {
+    const priority = this.priorityPolicy.rank(task, {
+      course: task.courseId ? studentIndexManager.getCourse(task.courseId) : null,
+      cacheAgeMs: incrementalSync.getCacheAge(task.url),
+      now: Date.now()
+    });
+    return isNaN(priority) ? task.basePriority ?? task.priority : Math.min(10, Math.max(1, Math.round(priority)));
   }
 
   // Queue Processing
   private async startProcessing(): Promise<void> {
     if (this.isProcessing) return;
-    
+
     this.isProcessing = true;
     console.log('[QueueManager] Starting queue processing');
-    
+
     // Use the correct global object for setInterval in service worker context
-    const globalObj = (typeof globalThis !== 'undefined' ? globalThis : 
-                      typeof self !== 'undefined' ? self : 
-                      typeof window !== 'undefined' ? window : 
+    const globalObj = (typeof globalThis !== 'undefined' ? globalThis :
+                      typeof self !== 'undefined' ? self :
+                      typeof window !== 'undefined' ? window :
                       this) as any;
-    
+
     this.processingInterval = globalObj.setInterval(() => {
-      this.processQueue();
+      this.processTick();
     }, 1000); // Check every second
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.running.size >= this.config.maxConcurrentTasks) {
-      return; // At capacity
+  // A pass can outlast the interval (IndexedDB work across many tasks); ticks that arrive meanwhile are skipped
+  private async processTick(): Promise<void> {
+    if (this.tickRunning) return;
+
+    this.tickRunning = true;
+    try {
+      await this.processQueue();
+    } catch (error) {
+      console.error('[QueueManager] Queue pass failed:', error);
+    } finally {
+      this.tickRunning = false;
     }
+  }
 
-    // Sort queue by priority and scheduled time
-    this.queue.sort((a, b) => {
-      if (a.scheduledFor !== b.scheduledFor) {
+  private async processQueue(): Promise<void> {
+    await this.reclaimExpiredLeases();
+
+    const due = Array.from(this.tasks.values())
+      .filter(task => task.state === 'pending' && task.scheduledFor <= Date.now());
+    await this.skipBelowFloor(due);
+
+    const ready = due
+      .filter(task => this.tasks.get(task.id)?.state === 'pending')
+      // Sort queue by priority, then by how long the task has been waiting
+      .sort((a, b) => {
+        if (a.priority !== b.priority) {
+          return b.priority - a.priority; // Higher priority first
+        }
         return a.scheduledFor - b.scheduledFor;
-      }
-      return b.priority - a.priority; // Higher priority first
-    });
+      });
 
-    // Process ready tasks
-    for (const task of this.queue) {
-      if (this.running.size >= this.config.maxConcurrentTasks) break;
-      
-      if (task.scheduledFor <= Date.now() && !this.running.has(task.id)) {
-        await this.executeTask(task);
+    for (const task of ready) {
+      if (this.countState('running') >= this.config.maxConcurrentTasks) break;
+      // Detail pages may open ghost tabs, which are limited separately
+      if (task.type === 'detail' && this.countRunning('detail') >= this.config.maxConcurrentGhostTabs) continue;
+
+      const claimed = await this.claimTask(task);
+      if (claimed) {
+        this.executeTask(claimed).catch(error => console.error(`[QueueManager] Task ${claimed.id} crashed:`, error));
       }
     }
   }
 
+  // pending -> running, with a lease; fails if the task moved on in the meantime
+  private async claimTask(task: CrawlTask): Promise<CrawlTask | null> {
+    const claimed = await storageManager.transitionTask(task.id, ['pending'], {
+      state: 'running',
+      lastAttempt: Date.now(),
+      leaseOwner: this.workerId,
+      leaseExpiresAt: Date.now() + this.config.leaseMs
+    });
+    if (claimed) {
+      this.tasks.set(claimed.id, claimed);
+    }
+    return claimed;
+  }
+
   private async executeTask(task: CrawlTask): Promise<void> {
-    this.running.add(task.id);
-    task.lastAttempt = Date.now();
-    
     console.log(`[QueueManager] Executing task ${task.id} (${task.type})`);
-    
+    const heartbeat = setInterval(() => this.renewLease(task.id), this.config.leaseMs / 3);
+    // The heartbeat keeps the lease alive, so a hung task would hold its slot forever without a timeout
+    const timeoutMs = this.taskTimeout(task);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Task timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs);
+    });
+
     try {
-      // Fetch the page using pageLoader
-      const fetchResult = await pageLoader.fetchPage(task.url);
-      
-      if (!fetchResult.success) {
-        throw new Error(`HTTP ${fetchResult.status}: ${fetchResult.error || fetchResult.statusText}`);
-      }
-      
-      if (!fetchResult.text) {
-        throw new Error('No content received from page');
+      const children = await Promise.race([this.runTask(task), timedOut]);
+      await this.completeTask(task, children);
+
+    } catch (error: unknown) {
+      await this.failTask(task, error instanceof Error ? error.message : String(error));
+    } finally {
+      clearInterval(heartbeat);
+      clearTimeout(timer);
+    }
+  }
+
+  private taskTimeout(task: CrawlTask): number {
+    return this.config.taskTimeoutMs + (task.type === 'file' ? filesPipeline.maxProcessingMs() : 0);
+  }
+
+  // Do the work of one task; returns the tasks it spawns
+  private async runTask(task: CrawlTask): Promise<NewTask[]> {
+    if (task.type === 'detail') {
+      return this.runDetailTask(task);
+    }
+    if (task.type === 'file') {
+      return this.runFileTask(task);
+    }
+    if (stageOf(task.type) === 'sections') {
+      return this.runSectionTask(task);
+    }
+
+    // Fetch the page using pageLoader
+    const fetchResult = await pageLoader.fetchPage(task.url);
+
+    if (!fetchResult.success) {
+      throw new Error(`HTTP ${fetchResult.status}: ${fetchResult.error || fetchResult.statusText}`);
+    }
+
+    if (!fetchResult.text) {
+      throw new Error('No content received from page');
+    }
+
+    // Parse the HTML content
+    let parsedContent: ParsedContent;
+    let extractedData: any = {};
+    let children: NewTask[] = [];
+
+    switch (task.type) {
+      case 'dashboard':
+        parsedContent = htmlParser.parseDashboard(fetchResult.text, fetchResult.url);
+
+        // Course discovery processing, from the Canvas API when it is enabled and available
+        const dashboardCourses = await canvasApi.getCourses(hostContext.getOrigin(fetchResult.url))
+          ?? courseDiscovery.parseDashboard(fetchResult.text, fetchResult.url);
+        console.log(`[QueueManager] Discovered ${dashboardCourses.length} courses from dashboard`);
+
+        if (dashboardCourses.length > 0) {
+          await studentIndexManager.updateCourses(dashboardCourses);
+        }
+        children = this.discoveryChildren(dashboardCourses);
+
+        extractedData = {
+          courses: (parsedContent as any).courses || [],
+          discoveredCourses: dashboardCourses,
+          title: parsedContent.title,
+          links: parsedContent.links.filter(link => link.href.includes('/courses/'))
+        };
+        break;
+
+      case 'course-list':
+        parsedContent = htmlParser.parseCourseList(fetchResult.text, fetchResult.url);
+
+        // Course discovery processing, from the Canvas API when it is enabled and available
+        const courseListCourses = await canvasApi.getCourses(hostContext.getOrigin(fetchResult.url))
+          ?? courseDiscovery.parseCourseList(fetchResult.text, fetchResult.url);
+        console.log(`[QueueManager] Discovered ${courseListCourses.length} courses from course list`);
+
+        if (courseListCourses.length > 0) {
+          await studentIndexManager.updateCourses(courseListCourses);
+        }
+        children = this.discoveryChildren(courseListCourses);
+
+        extractedData = {
+          courses: (parsedContent as any).courses || [],
+          discoveredCourses: courseListCourses,
+          title: parsedContent.title
+        };
+        break;
+
+      default:
+        parsedContent = htmlParser.parseHtml(fetchResult.text);
+        extractedData = {
+          title: parsedContent.title,
+          links: parsedContent.links,
+          structure: parsedContent.structure
+        };
+        break;
+    }
+
+    // Save the raw HTML snapshot
+    await storageManager.saveHtmlSnapshot({
+      id: `${task.id}_snapshot`,
+      url: task.url,
+      html: fetchResult.text,
+      timestamp: Date.now(),
+      hash: await this.hashContent(fetchResult.text),
+      size: fetchResult.text.length
+    });
+
+    // Save the parsed structured data
+    await storageManager.saveStructuredData({
+      id: `${task.id}_data`,
+      courseId: task.courseId || 'dashboard',
+      collection: task.type,
+      itemId: task.id,
+      data: {
+        ...extractedData,
+        fetchResult: {
+          status: fetchResult.status,
+          etag: fetchResult.etag,
+          lastModified: fetchResult.lastModified,
+          size: fetchResult.size,
+          cached: fetchResult.cached
+        }
+      },
+      timestamp: Date.now(),
+      version: '1.0'
+    });
+
+    console.log(`[QueueManager] Task ${task.id} fetched ${fetchResult.text.length} bytes`);
+    return children;
+  }
+
+  // A detail page is stored by the detail crawler; its attachments become file tasks
+  private async runDetailTask(task: CrawlTask): Promise<NewTask[]> {
+    const itemType: string = task.metadata?.itemType;
+    const result = itemType === 'discussion'
+      ? await detailCrawler.refreshDiscussion(task.url, task.courseId!)
+      : await detailCrawler.crawlItemDetail(task.url, itemType, task.courseId!);
+
+    if (!result.success) throw new Error(result.error || 'Detail crawl failed');
+
+    return this.fileChildren(task, (result.item?.attachments || []).map(url => ({ url, sourceUrl: task.url })));
+  }
+
+  // A section list is crawled (and stored) by the section crawler; its items become detail and file tasks
+  private async runSectionTask(task: CrawlTask): Promise<NewTask[]> {
+    const result = await sectionCrawler.crawlSection(task.courseId!, task.type);
+    if (!result.success) throw new Error(result.error || 'Section crawl failed');
+
+    console.log(`[QueueManager] Task ${task.id} found ${result.items.length} ${task.type} items`);
+    return this.sectionChildren(task, result.items);
+  }
+
+  // Metadata only, full text extraction, or (on demand) nothing until the user asks for the file
+  private async runFileTask(task: CrawlTask): Promise<NewTask[]> {
+    const sourceUrl = task.metadata?.sourceUrl || task.url;
+    const result = configManager.getSettings().fileExtraction === 'text-extraction'
+      ? await filesPipeline.processFile(task.url, task.courseId!, sourceUrl)
+      : await filesPipeline.recordFile(task.url, task.courseId!, sourceUrl);
+
+    if (!result.success) throw new Error(result.error || 'File processing failed');
+    return [];
+  }
+
+  // Section tasks for every course a discovery page found; the priority policy ranks finished and
+  // unpublished courses below active ones
+  private discoveryChildren(courses: Course[]): NewTask[] {
+    return courses.flatMap(course => courseSectionTasks(course.id, course.url));
+  }
+
+  // Detail tasks for the items of a section, file tasks for its files; module entries follow their resolved resource
+  private sectionChildren(task: CrawlTask, items: SectionItem[]): NewTask[] {
+    const details = new Map<string, NewTask>();
+    const files: Array<{ url: string; sourceUrl: string }> = [];
+
+    for (const item of items) {
+      const target = item.type === 'module' ? item.metadata?.resource : item;
+      if (!target?.url || !target.type) continue;
+
+      if (target.type === 'file') {
+        files.push({ url: item.metadata?.downloadUrl || target.url, sourceUrl: item.url });
+        continue;
       }
-      
-      // Parse the HTML content
-      let parsedContent: ParsedContent;
-      let extractedData: any = {};
-      
-      switch (task.type) {
-        case 'dashboard':
-          parsedContent = htmlParser.parseDashboard(fetchResult.text);
-          
-          // Course discovery processing
-          const dashboardCourses = courseDiscovery.parseDashboard(fetchResult.text);
-          console.log(`[QueueManager] Discovered ${dashboardCourses.length} courses from dashboard`);
-          
-          if (dashboardCourses.length > 0) {
-            await studentIndexManager.updateCourses(dashboardCourses);
-          }
-          
-          extractedData = {
-            courses: (parsedContent as any).courses || [],
-            discoveredCourses: dashboardCourses,
-            title: parsedContent.title,
-            links: parsedContent.links.filter(link => link.href.includes('/courses/'))
-          };
-          break;
-          
-        case 'course-list':
-          parsedContent = htmlParser.parseCourseList(fetchResult.text);
-          
-          // Course discovery processing
-          const courseListCourses = courseDiscovery.parseCourseList(fetchResult.text);
-          console.log(`[QueueManager] Discovered ${courseListCourses.length} courses from course list`);
-          
-          if (courseListCourses.length > 0) {
-            await studentIndexManager.updateCourses(courseListCourses);
-          }
-          
-          extractedData = {
-            courses: (parsedContent as any).courses || [],
-            discoveredCourses: courseListCourses,
-            title: parsedContent.title
-          };
-          break;
-          
-        default:
-          parsedContent = htmlParser.parseHtml(fetchResult.text);
-          extractedData = {
-            title: parsedContent.title,
-            links: parsedContent.links,
-            structure: parsedContent.structure
-          };
-          break;
+      if (!DETAIL_ITEM_TYPES.has(target.type) || !target.url.includes(`/courses/${task.courseId}/`)) continue;
+
+      // Module links add ?module_item_id=; keep one task per resource
+      const url = target.url.split(/[?#]/)[0];
+      const itemId = CanvasIds.itemId(url, target.type);
+      if (!itemId || details.has(itemId)) continue;
+
+      details.set(itemId, {
+        type: 'detail',
+        url,
+        courseId: task.courseId,
+        priority: this.childPriority(task),
+        maxRetries: task.maxRetries,
+        scheduledFor: Date.now(),
+        metadata: { itemType: target.type, dueAt: item.metadata?.dueAt ?? target.metadata?.dueAt ?? null }
+      });
+    }
+
+    return [...details.values(), ...this.fileChildren(task, files)];
+  }
+
+  // One file task per referenced Canvas file, unless files are only processed on demand
+  private fileChildren(task: CrawlTask, references: Array<{ url: string; sourceUrl: string }>): NewTask[] {
+    if (configManager.getSettings().fileExtraction === 'on-demand') return [];
+
+    const files = new Map<string, { url: string; sourceUrl: string }>();
+    for (const reference of references) {
+      const resolved = hostContext.resolveUrl(reference.url, reference.sourceUrl).split('#')[0];
+      const path = resolved.split('?')[0].replace(/\/$/, '');
+      // A file page shows a preview; its download endpoint returns the bytes
+      const url = /\/files\/\d+$/.test(path) ? `${path}/download` : resolved;
+      const fileId = CanvasIds.itemId(url, 'file');
+      if (fileId && !files.has(fileId)) files.set(fileId, { url, sourceUrl: reference.sourceUrl });
+    }
+
+    return Array.from(files.values()).map(file => ({
+      type: 'file' as const,
+      url: file.url,
+      courseId: task.courseId,
+      priority: this.childPriority(task),
+      maxRetries: task.maxRetries,
+      scheduledFor: Date.now(),
+      metadata: { sourceUrl: file.sourceUrl }
+    }));
+  }
+
+  // Items and files of a section sit one below its importance; the parent's ranking is not inherited,
+  // the child is ranked on its own
+  private childPriority(task: CrawlTask): number {
+    return Math.max(1, (task.basePriority ?? task.priority) - 1);
+  }
+
+  // running -> completed, adding spawned children and releasing dependents in the same transaction
+  private async completeTask(task: CrawlTask, spawned: NewTask[]): Promise<void> {
+    const children = spawned
+      .map(child => this.createTask(this.childTaskId(task, child), { ...child, rootId: task.rootId, parentId: task.id }))
+      .filter(child => !this.tasks.has(child.id));
+
+    const completedIds = new Set([task.id, ...this.idsInState('completed')]);
+    const released = this.dependentsOf(task.id)
+      .filter(dependent => dependent.state === 'blocked' && dependent.dependsOn.every(id => completedIds.has(id)))
+      .map(dependent => ({ ...dependent, state: 'pending' as const }));
+
+    const related = [...children, ...released];
+    const updated = await storageManager.transitionTask(task.id, ['running'], {
+      state: 'completed',
+      completedAt: Date.now(),
+      error: undefined,
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined
+    }, related);
+
+    if (!updated) {
+      console.warn(`[QueueManager] Task ${task.id} was reclaimed before it finished; keeping the newer state`);
+      return;
+    }
+
+    this.tasks.set(updated.id, updated);
+    related.forEach(entry => this.tasks.set(entry.id, entry));
+    console.log(`[QueueManager] Task ${task.id} completed successfully${children.length ? `, spawned ${children.length} tasks` : ''}`);
+  }
+
+  private async failTask(task: CrawlTask, errorMessage: string): Promise<void> {
+    const retryCount = task.retryCount + 1;
+    console.error(`[QueueManager] Task ${task.id} failed:`, errorMessage);
+
+    if (retryCount < task.maxRetries) {
+      // Schedule retry with exponential backoff, and not before a throttled host accepts requests again
+      const delay = Math.max(this.calculateRetryDelay(retryCount), rateLimiter.retryDelay(task.url));
+      const updated = await storageManager.transitionTask(task.id, ['running'], {
+        state: 'pending',
+        retryCount,
+        error: errorMessage,
+        scheduledFor: Date.now() + delay,
+        leaseOwner: undefined,
+        leaseExpiresAt: undefined
+      });
+      if (updated) {
+        this.tasks.set(updated.id, updated);
+        console.log(`[QueueManager] Task ${task.id} scheduled for retry in ${delay}ms`);
       }
-      
-      // Save the raw HTML snapshot
-      await storageManager.saveHtmlSnapshot({
-        id: `${task.id}_snapshot`,
+      return;
+    }
+
+    // Task failed permanently, and so does everything waiting on it
+    const dependents = this.collectDependents(task.id)
+      .filter(dependent => dependent.state === 'blocked')
+      .map(dependent => ({ ...dependent, state: 'failed' as const, error: `Dependency ${task.id} failed`, completedAt: Date.now() }));
+
+    const updated = await storageManager.transitionTask(task.id, ['running'], {
+      state: 'failed',
+      retryCount,
+      error: errorMessage,
+      completedAt: Date.now(),
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined
+    }, dependents);
+    if (!updated) return;
+
+    this.tasks.set(updated.id, updated);
+    dependents.forEach(dependent => this.tasks.set(dependent.id, dependent));
+    console.log(`[QueueManager] Task ${task.id} failed permanently after ${retryCount} retries`);
+
+    // Record recent error for Status UI
+    try {
+      const key = 'recentErrors';
+      const result = await chrome.storage.local.get([key]);
+      const recent: Array<any> = Array.isArray(result[key]) ? result[key] : [];
+      recent.unshift({
+        id: task.id,
+        type: task.type,
         url: task.url,
-        html: fetchResult.text,
-        timestamp: Date.now(),
-        hash: await this.hashContent(fetchResult.text),
-        size: fetchResult.text.length
+        error: errorMessage,
+        when: Date.now()
       });
-      
-      // Save the parsed structured data
-      await storageManager.saveStructuredData({
-        id: `${task.id}_data`,
-        courseId: task.courseId || 'dashboard',
-        collection: task.type,
-        itemId: task.id,
-        data: {
-          ...extractedData,
-          fetchResult: {
-            status: fetchResult.status,
-            etag: fetchResult.etag,
-            lastModified: fetchResult.lastModified,
-            size: fetchResult.size,
-            cached: fetchResult.cached
-          }
-        },
-        timestamp: Date.now(),
-        version: '1.0'
+      // Cap to last 50
+      const trimmed = recent.slice(0, 50);
+      await chrome.storage.local.set({ [key]: trimmed });
+    } catch (e) {
+      console.warn('[QueueManager] Failed to record recent error');
+    }
+  }
+
+  // Tasks of graphs with a priority floor that fall below it -> skipped; returns the number skipped
+  private async skipBelowFloor(tasks: CrawlTask[]): Promise<number> {
+    let skipped = 0;
+    for (const task of tasks) {
+      const floor = this.priorityFloors.get(task.rootId);
+      if (floor === undefined || task.priority >= floor) continue;
+      if (await this.skipTask(task, 'Skipped: crawl time budget reached')) skipped++;
+    }
+    return skipped;
+  }
+
+  // pending/blocked -> skipped, and so is everything waiting on it
+  private async skipTask(task: CrawlTask, reason: string): Promise<boolean> {
+    const dependents = this.collectDependents(task.id)
+      .filter(dependent => dependent.state === 'blocked')
+      .map(dependent => ({ ...dependent, state: 'skipped' as const, error: `Dependency ${task.id} skipped`, completedAt: Date.now() }));
+
+    const updated = await storageManager.transitionTask(task.id, ['pending', 'blocked'], {
+      state: 'skipped',
+      error: reason,
+      completedAt: Date.now()
+    }, dependents);
+    if (!updated) return false;
+
+    this.tasks.set(updated.id, updated);
+    dependents.forEach(dependent => this.tasks.set(dependent.id, dependent));
+    return true;
+  }
+
+  private async renewLease(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.state !== 'running' || task.leaseOwner !== this.workerId) return;
+
+    try {
+      const updated = await storageManager.transitionTask(taskId, ['running'], { leaseExpiresAt: Date.now() + this.config.leaseMs });
+      if (updated) this.tasks.set(taskId, updated);
+    } catch (error) {
+      console.warn(`[QueueManager] Failed to renew lease for ${taskId}:`, error);
+    }
+  }
+
+  // Running tasks whose lease lapsed (or that belong to a worker that has since stopped) go back to pending
+  private async reclaimExpiredLeases(): Promise<void> {
+    const now = Date.now();
+    const stale = Array.from(this.tasks.values()).filter(task =>
+      task.state === 'running' && (task.leaseOwner !== this.workerId || (task.leaseExpiresAt || 0) < now));
+
+    for (const task of stale) {
+      const reclaimed = await storageManager.transitionTask(task.id, ['running'], {
+        state: 'pending',
+        scheduledFor: now,
+        leaseOwner: undefined,
+        leaseExpiresAt: undefined
       });
-      
-      // Task completed successfully
-      this.completed.add(task.id);
-      this.running.delete(task.id);
-      await this.removeTask(task.id);
-      
-      console.log(`[QueueManager] Task ${task.id} completed successfully (${fetchResult.text.length} bytes)`);
-      
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      task.error = errorMessage;
-      task.retryCount++;
-      
-      console.error(`[QueueManager] Task ${task.id} failed:`, errorMessage);
-      
-      if (task.retryCount >= this.config.maxRetries) {
-        // Task failed permanently
-        this.failed.add(task.id);
-        this.running.delete(task.id);
-        await this.removeTask(task.id);
-        console.log(`[QueueManager] Task ${task.id} failed permanently after ${task.retryCount} retries`);
-
-        // Record recent error for Status UI
-        try {
-          const key = 'recentErrors';
-          const result = await chrome.storage.local.get([key]);
-          const recent: Array<any> = Array.isArray(result[key]) ? result[key] : [];
-          recent.unshift({
-            id: task.id,
-            type: task.type,
-            url: task.url,
-            error: task.error,
-            when: Date.now()
-          });
-          // Cap to last 50
-          const trimmed = recent.slice(0, 50);
-          await chrome.storage.local.set({ [key]: trimmed });
-        } catch (e) {
-          console.warn('[QueueManager] Failed to record recent error');
+      if (reclaimed) {
+        this.tasks.set(task.id, reclaimed);
+        console.log(`[QueueManager] Reclaimed task ${task.id} from an expired lease`);
+      }
+    }
+  }
+
+  private createTask(id: string, task: NewTask): CrawlTask {
+    const dependsOn = task.dependsOn || [];
+    const created: CrawlTask = {
+      ...task,
+      basePriority: task.basePriority ?? task.priority,
+      id,
+      retryCount: 0,
+      createdAt: Date.now(),
+      rootId: task.rootId || id,
+      dependsOn,
+      state: dependsOn.length > 0 ? 'blocked' : 'pending'
+    };
+    return { ...created, priority: this.rankTask(created) };
+  }
+
+  // Dependencies that already finished are taken into account, so tasks can be added in any order
+  private async insertTasks(tasks: CrawlTask[]): Promise<CrawlTask[]> {
+    const inserted: CrawlTask[] = [];
+    const batch = new Map(tasks.map(task => [task.id, task]));
+
+    for (const task of tasks) {
+      const existing = this.tasks.get(task.id);
+      if (existing && !FINISHED_STATES.includes(existing.state)) {
+        // Update existing task if it has higher priority
+        if (task.priority > existing.priority) {
+          const updated = { ...existing, priority: task.priority, basePriority: task.basePriority };
+          this.tasks.set(updated.id, updated);
+          inserted.push(updated);
+          console.log(`[QueueManager] Updated task ${task.id} with higher priority`);
+        } else {
+          inserted.push(existing);
         }
-      } else {
-        // Schedule retry with exponential backoff
-        const delay = this.calculateRetryDelay(task.retryCount);
-        task.scheduledFor = Date.now() + delay;
-        this.running.delete(task.id);
-        
-        console.log(`[QueueManager] Task ${task.id} scheduled for retry in ${delay}ms`);
+        continue;
       }
+
+      const dependencyStates = task.dependsOn.map(id => (batch.get(id) || this.tasks.get(id))?.state);
+      if (dependencyStates.some(state => state === 'failed')) {
+        task.state = 'failed';
+        task.error = 'Dependency failed';
+      } else if (dependencyStates.some(state => state === 'skipped')) {
+        task.state = 'skipped';
+        task.error = 'Dependency skipped';
+      } else if (dependencyStates.every(state => state === 'completed')) {
+        task.state = 'pending';
+      }
+
+      this.tasks.set(task.id, task);
+      inserted.push(task);
+      console.log(`[QueueManager] Added task ${task.id} to queue`);
     }
-    
-    await this.saveQueue();
+
+    await storageManager.putTasks(inserted);
+    return inserted;
+  }
+
+  private dependentsOf(taskId: string): CrawlTask[] {
+    return Array.from(this.tasks.values()).filter(task => task.dependsOn.includes(taskId));
+  }
+
+  // Everything that depends on a task, directly or through other tasks
+  private collectDependents(taskId: string): CrawlTask[] {
+    const found = new Map<string, CrawlTask>();
+    const stack = [taskId];
+    while (stack.length > 0) {
+      for (const dependent of this.dependentsOf(stack.pop()!)) {
+        if (found.has(dependent.id)) continue;
+        found.set(dependent.id, dependent);
+        stack.push(dependent.id);
+      }
+    }
+    return Array.from(found.values());
+  }
+
+  private countState(state: TaskState): number {
+    let count = 0;
+    for (const task of this.tasks.values()) {
+      if (task.state === state) count++;
+    }
+    return count;
   }
 
+  private countRunning(type: TaskType): number {
+    let count = 0;
+    for (const task of this.tasks.values()) {
+      if (task.state === 'running' && task.type === type) count++;
+    }
+    return count;
+  }
 
+  private idsInState(state: TaskState): string[] {
+    return Array.from(this.tasks.values()).filter(task => task.state === state).map(task => task.id);
+  }
 
   private async hashContent(content: string): Promise<string> {
     const encoder = new TextEncoder();
@@ -313,63 +843,90 @@ export class QueueManager {
 
   // Queue Statistics
   getStats(): QueueStats {
+    const tasks = Array.from(this.tasks.values());
     return {
-      total: this.queue.length + this.running.size + this.completed.size + this.failed.size,
-      pending: this.queue.length,
-      running: this.running.size,
-      completed: this.completed.size,
-      failed: this.failed.size,
-      retries: this.queue.reduce((sum, task) => sum + task.retryCount, 0)
+      total: tasks.length,
+      pending: this.countState('pending') + this.countState('blocked'),
+      running: this.countState('running'),
+      completed: this.countState('completed'),
+      failed: this.countState('failed'),
+      skipped: this.countState('skipped'),
+      retries: tasks.reduce((sum, task) => sum + task.retryCount, 0)
     };
   }
 
   getRunningTasks(): string[] {
-    return Array.from(this.running);
+    return this.idsInState('running');
   }
 
   getCompletedTasks(): string[] {
-    return Array.from(this.completed);
+    return this.idsInState('completed');
   }
 
   getFailedTasks(): string[] {
-    return Array.from(this.failed);
+    return this.idsInState('failed');
   }
 
   // Persistence
-  private async saveQueue(): Promise<void> {
+  private async loadQueue(): Promise<void> {
     try {
-      await chrome.storage.local.set({
-        crawlQueue: this.queue,
-        queueStats: {
-          running: Array.from(this.running),
-          completed: Array.from(this.completed),
-          failed: Array.from(this.failed),
-          lastUpdated: Date.now()
+      while (!storageManager.isReady()) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+
+      await this.migrateLegacyQueue();
+      for (const task of await storageManager.getAllTasks()) {
+        this.tasks.set(task.id, task);
+      }
+      await this.pruneFinishedGraphs();
+      for (const task of this.tasks.values()) {
+        if (typeof task.metadata?.priorityFloor === 'number') {
+          this.priorityFloors.set(task.rootId, task.metadata.priorityFloor);
         }
-      });
+      }
+
+      const open = Array.from(this.tasks.values()).filter(task => !FINISHED_STATES.includes(task.state)).length;
+      console.log(`[QueueManager] Loaded ${this.tasks.size} tasks from storage (${open} unfinished)`);
+
+      // Resume an interrupted crawl; leases of the previous worker are reclaimed on the first pass
+      if (open > 0) {
+        this.startProcessing();
+      }
     } catch (error) {
-      console.error('[QueueManager] Failed to save queue:', error);
+      console.error('[QueueManager] Failed to load queue:', error);
     }
   }
 
-  private async loadQueue(): Promise<void> {
-    try {
-      const result = await chrome.storage.local.get(['crawlQueue', 'queueStats']);
-      
-      if (result.crawlQueue) {
-        this.queue = result.crawlQueue;
-        console.log(`[QueueManager] Loaded ${this.queue.length} tasks from storage`);
-      }
-      
-      if (result.queueStats) {
-        this.running = new Set(result.queueStats.running || []);
-        this.completed = new Set(result.queueStats.completed || []);
-        this.failed = new Set(result.queueStats.failed || []);
-        console.log(`[QueueManager] Loaded queue stats: ${this.running.size} running, ${this.completed.size} completed, ${this.failed.size} failed`);
+  // Earlier versions kept the queue in chrome.storage.local
+  private async migrateLegacyQueue(): Promise<void> {
+    const result = await chrome.storage.local.get(['crawlQueue']);
+    const legacy: Array<Omit<CrawlTask, 'state' | 'rootId' | 'dependsOn'>> = result.crawlQueue || [];
+
+    if (legacy.length > 0) {
+      await storageManager.putTasks(legacy.map(task => ({ ...task, state: 'pending', rootId: task.id, dependsOn: [] })));
+      console.log(`[QueueManager] Moved ${legacy.length} tasks from chrome.storage to IndexedDB`);
+    }
+    await chrome.storage.local.remove(['crawlQueue', 'queueStats']);
+  }
+
+  // Drop graphs whose tasks all finished a while ago
+  private async pruneFinishedGraphs(): Promise<void> {
+    const cutoff = Date.now() - this.config.finishedRetentionMs;
+    const graphs = new Map<string, CrawlTask[]>();
+    for (const task of this.tasks.values()) {
+      if (!graphs.has(task.rootId)) graphs.set(task.rootId, []);
+      graphs.get(task.rootId)!.push(task);
+    }
+
+    const stale: string[] = [];
+    for (const tasks of graphs.values()) {
+      if (tasks.every(task => FINISHED_STATES.includes(task.state) && (task.completedAt || 0) < cutoff)) {
+        stale.push(...tasks.map(task => task.id));
       }
-    } catch (error) {
-      console.error('[QueueManager] Failed to load queue:', error);
     }
+
+    await storageManager.deleteTasks(stale);
+    stale.forEach(id => this.tasks.delete(id));
   }
 
   // Utility Methods
@@ -379,6 +936,11 @@ export class QueueManager {
     return `${type}_${timestamp}_${urlHash}`;
   }
 
+  // Children are keyed by graph and URL, so a re-run section does not spawn the same item twice
+  private childTaskId(parent: CrawlTask, child: NewTask): string {
+    return `${parent.rootId}:${child.type}_${this.simpleHash(child.url)}`;
+  }
+
   private simpleHash(str: string): string {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
@@ -391,11 +953,9 @@ export class QueueManager {
 
   // Cleanup
   async clearQueue(): Promise<void> {
-    this.queue = [];
-    this.running.clear();
-    this.completed.clear();
-    this.failed.clear();
-    await this.saveQueue();
+    await this.loaded;
+    await storageManager.clearTasks();
+    this.tasks.clear();
     console.log('[QueueManager] Queue cleared');
   }
 
@@ -403,9 +963,9 @@ export class QueueManager {
     this.isProcessing = false;
     if (this.processingInterval) {
       // Use the correct global object for clearInterval
-      const globalObj = (typeof globalThis !== 'undefined' ? globalThis : 
-                        typeof self !== 'undefined' ? self : 
-                        typeof window !== 'undefined' ? window : 
+      const globalObj = (typeof globalThis !== 'undefined' ? globalThis :
+                        typeof self !== 'undefined' ? self :
+                        typeof window !== 'undefined' ? window :
                         this) as any;
       globalObj.clearInterval(this.processingInterval);
       this.processingInterval = null;
@@ -414,7 +974,7 @@ export class QueueManager {
   }
 
   // Task Scheduling
-  async scheduleTask(task: Omit<CrawlTask, 'id' | 'retryCount' | 'createdAt'>, delayMs: number = 0): Promise<string> {
+  async scheduleTask(task: NewTask, delayMs: number = 0): Promise<string> {
     const scheduledTask = {
       ...task,
       scheduledFor: Date.now() + delayMs
@@ -422,7 +982,7 @@ export class QueueManager {
     return this.addTask(scheduledTask);
   }
 
-  async scheduleRecurringTask(task: Omit<CrawlTask, 'id' | 'retryCount' | 'createdAt'>, intervalMs: number): Promise<string> {
+  async scheduleRecurringTask(task: NewTask, intervalMs: number): Promise<string> {
     // For now, just schedule once. In a full implementation, this would create recurring tasks
     return this.addTask(task);
   }
@@ -432,9 +992,11 @@ export class QueueManager {
 export const defaultConcurrencyConfig: ConcurrencyConfig = {
   maxConcurrentTasks: 4,
   maxConcurrentGhostTabs: 2,
-  taskTimeoutMs: 30000, // 30 seconds
+  taskTimeoutMs: 300000, // 5 minutes: a few page fetches with their retries, or a ghost tab capture
   retryDelayMs: 1000,   // 1 second base delay
-  maxRetries: 3
+  maxRetries: 3,
+  leaseMs: 60000, // 1 minute, renewed while the task runs
+  finishedRetentionMs: 24 * 60 * 60 * 1000 // 1 day
 };
 
 export const queueManager = new QueueManager(defaultConcurrencyConfig);
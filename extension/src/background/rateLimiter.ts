@@ -0,0 +1,293 @@
+// Rate Limiter for Canvas Scraper
+// Shared per-host token bucket with adaptive concurrency: honors Retry-After and Canvas rate limit headers,
+// backs off on 429/5xx bursts and speeds up again while responses stay healthy
+
+export interface RateLimiterConfig {
+  enableLogging: boolean;
+  requestsPerSecond: number; // Token refill rate per host
+  burst: number; // Bucket size
+  maxConcurrency: number; // Requests in flight per host when healthy
+  minConcurrency: number;
+  growAfter: number; // Consecutive healthy responses before concurrency grows by one
+  failureBurst: number; // 5xx/network failures within failureWindowMs that shrink concurrency
+  failureWindowMs: number;
+  defaultRetryAfterMs: number; // Pause after a 429 without Retry-After, doubled for each one in a row
+  maxRetryAfterMs: number;
+  lowRemaining: number; // Canvas X-Rate-Limit-Remaining below this drops to minimum concurrency
+}
+
+// What a finished request tells the limiter; an empty outcome (e.g. a ghost tab) leaves the host's health unchanged
+export interface RateLimitOutcome {
+  status?: number;
+  headers?: Headers | Record<string, string>;
+  networkError?: boolean;
+}
+
+export interface RateLimitLease {
+  host: string;
+  release(outcome?: RateLimitOutcome): void;
+}
+
+export interface HostLimitStats {
+  host: string;
+  concurrency: number;
+  inFlight: number;
+  queued: number;
+  tokens: number;
+  blockedUntil: number | null;
+  rateLimitRemaining: number | null;
+}
+
+interface HostState {
+  host: string;
+  tokens: number;
+  lastRefill: number;
+  concurrency: number;
+  inFlight: number;
+  waiters: Array<(lease: RateLimitLease) => void>;
+  blockedUntil: number;
+  throttledInARow: number;
+  failures: number[]; // Times of recent 5xx/network failures
+  healthyStreak: number;
+  rateLimitRemaining: number | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const THROTTLE_STATUSES = [429, 503];
+
+export class RateLimiter {
+  private config: RateLimiterConfig;
+  private hosts = new Map<string, HostState>();
+
+  constructor(config?: Partial<RateLimiterConfig>) {
+    this.config = {
+      enableLogging: true,
+      requestsPerSecond: 4,
+      burst: 6,
+      maxConcurrency: 6,
+      minConcurrency: 1,
+      growAfter: 20,
+      failureBurst: 3,
+      failureWindowMs: 30000,
+      defaultRetryAfterMs: 5000,
+      maxRetryAfterMs: 5 * 60 * 1000,
+      lowRemaining: 100,
+      ...config
+    };
+  }
+
+  updateConfig(newConfig: Partial<RateLimiterConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    for (const state of this.hosts.values()) {
+      state.concurrency = Math.min(Math.max(state.concurrency, this.config.minConcurrency), this.config.maxConcurrency);
+      this.pump(state);
+    }
+  }
+
+  // Wait for a slot on the URL's host; the lease must be released when the request finishes
+  acquire(url: string): Promise<RateLimitLease> {
+    const state = this.getState(this.hostOf(url));
+    return new Promise(resolve => {
+      state.waiters.push(resolve);
+      this.pump(state);
+    });
+  }
+
+  // fetch() through the limiter, feeding the response back into it
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    const lease = await this.acquire(url);
+    try {
+      const response = await fetch(url, init);
+      lease.release({ status: response.status, headers: response.headers });
+      return response;
+    } catch (error) {
+      // Aborts are the caller's timeouts or cancellations, not a sign of an unhealthy host
+      lease.release(error instanceof Error && error.name === 'AbortError' ? {} : { networkError: true });
+      throw error;
+    }
+  }
+
+  // How long a retry should wait for the host to accept requests again
+  retryDelay(url: string): number {
+    const state = this.hosts.get(this.hostOf(url));
+    return state ? Math.max(0, state.blockedUntil - Date.now()) : 0;
+  }
+
+  getStats(): HostLimitStats[] {
+    const now = Date.now();
+    return Array.from(this.hosts.values()).map(state => {
+      this.refill(state, now);
+      return {
+        host: state.host,
+        concurrency: state.concurrency,
+        inFlight: state.inFlight,
+        queued: state.waiters.length,
+        tokens: Math.floor(state.tokens),
+        blockedUntil: state.blockedUntil > now ? state.blockedUntil : null,
+        rateLimitRemaining: state.rateLimitRemaining
+      };
+    });
+  }
+
+  // Hand out slots while the host is not paused, has tokens and is under its concurrency
+  private pump(state: HostState): void {
+    while (state.waiters.length > 0) {
+      const now = Date.now();
+      this.refill(state, now);
+
+      if (state.blockedUntil > now) {
+        this.wakeLater(state, state.blockedUntil - now);
+        return;
+      }
+      if (state.inFlight >= state.concurrency) return; // A release pumps again
+      if (state.tokens < 1) {
+        this.wakeLater(state, ((1 - state.tokens) / this.config.requestsPerSecond) * 1000);
+        return;
+      }
+
+      state.tokens -= 1;
+      state.inFlight++;
+      state.waiters.shift()!(this.createLease(state));
+    }
+  }
+
+  private wakeLater(state: HostState, delayMs: number): void {
+    if (state.timer) return;
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      this.pump(state);
+    }, Math.max(10, Math.ceil(delayMs)));
+  }
+
+  private createLease(state: HostState): RateLimitLease {
+    let released = false;
+    return {
+      host: state.host,
+      release: (outcome: RateLimitOutcome = {}) => {
+        if (released) return;
+        released = true;
+        state.inFlight--;
+        this.record(state, outcome);
+        this.pump(state);
+      }
+    };
+  }
+
+  private record(state: HostState, outcome: RateLimitOutcome): void {
+    const now = Date.now();
+    const remaining = this.header(outcome.headers, 'x-rate-limit-remaining');
+    if (remaining !== null && !isNaN(parseFloat(remaining))) {
+      state.rateLimitRemaining = parseFloat(remaining);
+    } else if (outcome.status !== undefined) {
+      // A response without the header says nothing about the quota; a stale low reading must not pin the host
+      state.rateLimitRemaining = null;
+    }
+
+    if (outcome.status !== undefined && THROTTLE_STATUSES.includes(outcome.status)) {
+      state.throttledInARow++;
+      const retryAfter = this.parseRetryAfter(this.header(outcome.headers, 'retry-after'), now)
+        ?? this.config.defaultRetryAfterMs * Math.pow(2, state.throttledInARow - 1);
+      state.blockedUntil = Math.max(state.blockedUntil, now + Math.min(retryAfter, this.config.maxRetryAfterMs));
+      this.shrink(state, `HTTP ${outcome.status}, pausing ${Math.round(retryAfter / 1000)}s`);
+      return;
+    }
+
+    if (outcome.networkError || (outcome.status !== undefined && outcome.status >= 500)) {
+      state.failures = [...state.failures.filter(time => now - time < this.config.failureWindowMs), now];
+      state.healthyStreak = 0;
+      if (state.failures.length >= this.config.failureBurst) {
+        state.failures = [];
+        this.shrink(state, `${this.config.failureBurst} failures within ${this.config.failureWindowMs / 1000}s`);
+      }
+      return;
+    }
+
+    if (outcome.status === undefined) return;
+
+    state.throttledInARow = 0;
+    if (state.rateLimitRemaining !== null && state.rateLimitRemaining < this.config.lowRemaining) {
+      // Canvas is about to throttle: run one request at a time and let the bucket refill
+      state.tokens = 0;
+      if (state.concurrency > this.config.minConcurrency) {
+        state.concurrency = this.config.minConcurrency;
+        this.log(`[RateLimiter] ${state.host}: rate limit remaining ${state.rateLimitRemaining}, concurrency ${state.concurrency}`);
+      }
+      state.healthyStreak = 0;
+      return;
+    }
+
+    state.healthyStreak++;
+    if (state.healthyStreak >= this.config.growAfter && state.concurrency < this.config.maxConcurrency) {
+      state.concurrency++;
+      state.healthyStreak = 0;
+      this.log(`[RateLimiter] ${state.host}: healthy, concurrency ${state.concurrency}`);
+    }
+  }
+
+  private shrink(state: HostState, reason: string): void {
+    state.concurrency = Math.max(this.config.minConcurrency, Math.floor(state.concurrency / 2));
+    state.healthyStreak = 0;
+    this.log(`[RateLimiter] ${state.host}: ${reason}, concurrency ${state.concurrency}`);
+  }
+
+  private refill(state: HostState, now: number): void {
+    const elapsed = (now - state.lastRefill) / 1000;
+    state.tokens = Math.min(this.config.burst, state.tokens + elapsed * this.config.requestsPerSecond);
+    state.lastRefill = now;
+  }
+
+  // Retry-After is either seconds or an HTTP date
+  private parseRetryAfter(value: string | null, now: number): number | null {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - now);
+  }
+
+  private header(headers: RateLimitOutcome['headers'], name: string): string | null {
+    if (!headers) return null;
+    if (headers instanceof Headers) return headers.get(name);
+    return headers[name] ?? headers[name.toLowerCase()] ?? null;
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        host,
+        tokens: this.config.burst,
+        lastRefill: Date.now(),
+        concurrency: this.config.maxConcurrency,
+        inFlight: 0,
+        waiters: [],
+        blockedUntil: 0,
+        throttledInARow: 0,
+        failures: [],
+        healthyStreak: 0,
+        rateLimitRemaining: null,
+        timer: null
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).host.toLowerCase();
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter();
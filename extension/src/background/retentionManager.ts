@@ -0,0 +1,303 @@
+// Retention Manager for Canvas Scraper
+// Enforces retention rules on stored snapshots and files, evicting least recently used data, and warns when storage nears its quota
+
+import { storageManager } from './storageManager';
+import type { RecordSummary, SealedStore } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import type { RetentionSettings } from './configManager';
+
+export type RetentionReason = 'snapshot-limit' | 'completed-term' | 'size-limit';
+
+// Only snapshots and downloaded files are evicted; both can be fetched again by the next crawl
+export type EvictableStore = 'htmlSnapshots' | 'blobs';
+
+export interface RetentionDeletion {
+  store: EvictableStore;
+  id: string;
+  reason: RetentionReason;
+  label: string; // URL of a snapshot, or the record ID of a file
+  size: number;
+  lastAccessed: number;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  ratio: number;
+  warning: boolean; // Usage is at or above the warning threshold
+}
+
+export interface CompactionReport {
+  success: boolean;
+  dryRun: boolean;
+  generatedAt: number;
+  deletions: RetentionDeletion[];
+  counts: Record<RetentionReason, number>;
+  bytesFreed: number;
+  storedBytes: number; // Content records before compaction
+  limitReached: boolean; // False when the size limit could not be met without deleting the latest snapshots
+  usage: StorageUsage | null;
+  error?: string;
+}
+
+// What is kept of the last real run; the deletion list can be long
+export type CompactionSummary = Omit<CompactionReport, 'deletions'>;
+
+export interface CompactionOptions {
+  dryRun?: boolean;
+  settings?: RetentionSettings; // Preview rules before they are saved
+}
+
+export interface RetentionManagerConfig {
+  enableLogging: boolean;
+  settings: RetentionSettings;
+  warningRatio: number; // Share of the quota at which to warn
+  warningIntervalHours: number;
+  intervalMinutes: number; // Background compaction period
+  deleteBatchSize: number;
+  iconUrl: string;
+}
+
+export const RETENTION_ALARM = 'storage-compaction';
+
+const LAST_REPORT_KEY = 'retentionLastReport';
+const WARNED_AT_KEY = 'retentionQuotaWarnedAt';
+const QUOTA_NOTIFICATION_ID = 'canvas-storage-quota';
+
+const CONTENT_STORES: SealedStore[] = ['htmlSnapshots', 'structured', 'extractedText', 'blobs'];
+
+// Files are stored as blob_<courseId>_<fileId>
+const BLOB_COURSE_PATTERN = /^blob_([^_]+)_/;
+
+export class RetentionManager {
+  private config: RetentionManagerConfig;
+  private running: Promise<CompactionReport> | null = null;
+
+  constructor(config?: Partial<RetentionManagerConfig>) {
+    this.config = {
+      enableLogging: true,
+      settings: { snapshotsPerUrl: 10, dropCompletedTermBlobs: false, maxTotalMB: 0 },
+      warningRatio: 0.8,
+      warningIntervalHours: 24,
+      intervalMinutes: 360,
+      deleteBatchSize: 200,
+      iconUrl: 'icons/icon48.png',
+      ...config
+    };
+  }
+
+  updateConfig(newConfig: Partial<RetentionManagerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  async scheduleAlarm(): Promise<void> {
+    const existing = await chrome.alarms.get(RETENTION_ALARM);
+    if (existing && existing.periodInMinutes === this.config.intervalMinutes) return;
+
+    await chrome.alarms.create(RETENTION_ALARM, { delayInMinutes: 5, periodInMinutes: this.config.intervalMinutes });
+  }
+
+  // Apply the retention rules; a dry run only reports what would be deleted.
+  // Real runs are serialized, so the alarm and the end of a crawl never compact at the same time.
+  async compact(options: CompactionOptions = {}): Promise<CompactionReport> {
+    if (options.dryRun) {
+      return this.run(true, options.settings || this.config.settings);
+    }
+
+    if (!this.running) {
+      this.running = this.run(false, options.settings || this.config.settings).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async getLastReport(): Promise<CompactionSummary | null> {
+    const result = await chrome.storage.local.get([LAST_REPORT_KEY]);
+    return result[LAST_REPORT_KEY] || null;
+  }
+
+  // Browser usage against quota, with a desktop warning (at most once per interval) when it nears the limit
+  async checkQuota(): Promise<StorageUsage | null> {
+    const usage = await this.estimateUsage();
+    if (!usage?.warning) return usage;
+
+    const result = await chrome.storage.local.get([WARNED_AT_KEY]);
+    const warnedAt: number = result[WARNED_AT_KEY] || 0;
+    if (Date.now() - warnedAt < this.config.warningIntervalHours * 60 * 60 * 1000) return usage;
+
+    try {
+      await chrome.notifications.create(QUOTA_NOTIFICATION_ID, {
+        type: 'basic',
+        iconUrl: this.config.iconUrl,
+        title: 'Canvas Scraper storage almost full',
+        message: `Using ${this.formatBytes(usage.usage)} of ${this.formatBytes(usage.quota)} (${Math.round(usage.ratio * 100)}%). Lower the retention limits in Options to free space.`
+      });
+      await chrome.storage.local.set({ [WARNED_AT_KEY]: Date.now() });
+    } catch (error) {
+      this.log(`[RetentionManager] Could not show quota warning: ${error}`);
+    }
+    return usage;
+  }
+
+  // Open the options page for a clicked quota warning; returns false for other notifications
+  async handleClick(notificationId: string): Promise<boolean> {
+    if (notificationId !== QUOTA_NOTIFICATION_ID) return false;
+
+    await chrome.runtime.openOptionsPage();
+    await chrome.notifications.clear(notificationId);
+    return true;
+  }
+
+  private async run(dryRun: boolean, settings: RetentionSettings): Promise<CompactionReport> {
+    const report: CompactionReport = {
+      success: false,
+      dryRun,
+      generatedAt: Date.now(),
+      deletions: [],
+      counts: { 'snapshot-limit': 0, 'completed-term': 0, 'size-limit': 0 },
+      bytesFreed: 0,
+      storedBytes: 0,
+      limitReached: true,
+      usage: null
+    };
+
+    if (!storageManager.isReady()) {
+      return { ...report, error: 'Storage not ready' };
+    }
+
+    try {
+      const summaries = new Map<SealedStore, RecordSummary[]>();
+      for (const store of CONTENT_STORES) {
+        summaries.set(store, await storageManager.summarizeRecords(store));
+      }
+      report.storedBytes = Array.from(summaries.values()).flat().reduce((sum, record) => sum + record.size, 0);
+
+      const snapshots = summaries.get('htmlSnapshots')!;
+      const blobs = summaries.get('blobs')!;
+      const deleted = new Map<string, RetentionDeletion>();
+      const remove = (store: EvictableStore, record: RecordSummary, reason: RetentionReason) => {
+        const key = `${store}:${record.id}`;
+        if (deleted.has(key)) return;
+        deleted.set(key, { store, id: record.id, reason, label: record.url || record.id, size: record.size, lastAccessed: record.lastAccessed });
+      };
+
+      // Newest snapshot of every URL, which eviction by size never touches
+      const latestSnapshots = new Set<string>();
+      for (const versions of this.groupByUrl(snapshots).values()) {
+        versions.sort((a, b) => b.timestamp - a.timestamp);
+        latestSnapshots.add(versions[0].id);
+        if (settings.snapshotsPerUrl > 0) {
+          versions.slice(settings.snapshotsPerUrl).forEach(record => remove('htmlSnapshots', record, 'snapshot-limit'));
+        }
+      }
+
+      if (settings.dropCompletedTermBlobs) {
+        const completed = await this.completedCourseIds();
+        for (const record of blobs) {
+          const courseId = record.id.match(BLOB_COURSE_PATTERN)?.[1];
+          if (courseId && completed.has(courseId)) {
+            remove('blobs', record, 'completed-term');
+          }
+        }
+      }
+
+      if (settings.maxTotalMB > 0) {
+        const limit = settings.maxTotalMB * 1024 * 1024;
+        let remaining = report.storedBytes - this.sum(deleted.values());
+
+        const candidates = [
+          ...snapshots.filter(record => !latestSnapshots.has(record.id)).map(record => ({ store: 'htmlSnapshots' as const, record })),
+          ...blobs.map(record => ({ store: 'blobs' as const, record }))
+        ]
+          .filter(({ store, record }) => !deleted.has(`${store}:${record.id}`))
+          .sort((a, b) => a.record.lastAccessed - b.record.lastAccessed);
+
+        for (const { store, record } of candidates) {
+          if (remaining <= limit) break;
+          remove(store, record, 'size-limit');
+          remaining -= record.size;
+        }
+        report.limitReached = remaining <= limit;
+      }
+
+      report.deletions = Array.from(deleted.values());
+      report.bytesFreed = this.sum(report.deletions);
+      for (const deletion of report.deletions) {
+        report.counts[deletion.reason]++;
+      }
+
+      if (!dryRun) {
+        await this.deleteAll(report.deletions);
+        report.usage = await this.checkQuota();
+        const { deletions: _deletions, ...summary } = report;
+        await chrome.storage.local.set({ [LAST_REPORT_KEY]: { ...summary, success: true } });
+        this.log(`[RetentionManager] Deleted ${report.deletions.length} records, freed ${this.formatBytes(report.bytesFreed)}`);
+      } else {
+        report.usage = await this.estimateUsage();
+      }
+
+      return { ...report, success: true };
+
+    } catch (error) {
+      return { ...report, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async deleteAll(deletions: RetentionDeletion[]): Promise<void> {
+    for (const store of ['htmlSnapshots', 'blobs'] as EvictableStore[]) {
+      const ids = deletions.filter(deletion => deletion.store === store).map(deletion => deletion.id);
+      for (let i = 0; i < ids.length; i += this.config.deleteBatchSize) {
+        await storageManager.deleteRecords(store, ids.slice(i, i + this.config.deleteBatchSize));
+      }
+    }
+  }
+
+  private groupByUrl(snapshots: RecordSummary[]): Map<string, RecordSummary[]> {
+    const byUrl = new Map<string, RecordSummary[]>();
+    for (const snapshot of snapshots) {
+      const url = snapshot.url || snapshot.id;
+      if (!byUrl.has(url)) byUrl.set(url, []);
+      byUrl.get(url)!.push(snapshot);
+    }
+    return byUrl;
+  }
+
+  private async completedCourseIds(): Promise<Set<string>> {
+    const studentIndex = await studentIndexManager.loadStudentIndex();
+    return new Set(Object.values(studentIndex.courses)
+      .filter(course => course.status === 'completed')
+      .map(course => course.id));
+  }
+
+  private async estimateUsage(): Promise<StorageUsage | null> {
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      const ratio = quota > 0 ? usage / quota : 0;
+      return { usage, quota, ratio, warning: ratio >= this.config.warningRatio };
+    } catch (error) {
+      this.log(`[RetentionManager] Could not estimate storage usage: ${error}`);
+      return null;
+    }
+  }
+
+  private sum(records: Iterable<{ size: number }>): number {
+    let total = 0;
+    for (const record of records) total += record.size;
+    return total;
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const retentionManager = new RetentionManager();
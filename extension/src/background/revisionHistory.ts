@@ -0,0 +1,389 @@
+// Revision History for Canvas Scraper
+// Keeps a bounded history of text revisions for assignments, pages, quizzes and the syllabus, and diffs any two of them
+
+import { storageManager } from './storageManager';
+import type { HtmlSnapshot, StructuredData, ExtractedText, Revision, SearchableStore } from './storageManager';
+import { studentIndexManager } from './studentIndex';
+import { htmlParser } from './htmlParser';
+import { CanvasIds } from './canvasIds';
+import { ContentUtils } from './contentUtils';
+
+// A revision without its text, for listings
+export type RevisionInfo = Omit<Revision, 'text'> & { length: number };
+
+export interface RevisionItem {
+  itemKey: string;
+  courseId: string | null;
+  courseName: string | null;
+  itemType: string;
+  title: string;
+  url: string | null;
+  revisions: number;
+  latest: number;
+}
+
+export interface RevisionItemsResult {
+  success: boolean;
+  items: RevisionItem[];
+  error?: string;
+}
+
+export interface RevisionHistoryResult {
+  success: boolean;
+  itemKey: string;
+  revisions: RevisionInfo[]; // Oldest first
+  error?: string;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface RevisionDiffResult {
+  success: boolean;
+  from?: RevisionInfo;
+  to?: RevisionInfo;
+  segments: DiffSegment[];
+  stats: { inserted: number; deleted: number }; // Words
+  approximate: boolean; // Too many changes for a word diff; the changed span is shown as one replacement
+  error?: string;
+}
+
+export interface RevisionHistoryConfig {
+  enableLogging: boolean;
+  limit: number; // Revisions kept per item; 0 turns history off
+  maxDiffTokens: number;
+  maxEditDistance: number;
+}
+
+// Detail types whose text is worth comparing, and the section each one is listed in
+const TRACKED_DETAILS: Record<string, string> = {
+  assignment: 'assignments',
+  page: 'pages',
+  quiz: 'quizzes'
+};
+
+const SYLLABUS_URL_PATTERN = /\/courses\/(\d+)\/assignments\/syllabus|\/courses\/(\d+)\/syllabus/;
+
+export class RevisionHistory {
+  private config: RevisionHistoryConfig;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(config?: Partial<RevisionHistoryConfig>) {
+    this.config = {
+      enableLogging: true,
+      limit: 10,
+      maxDiffTokens: 40000,
+      maxEditDistance: 1000,
+      ...config
+    };
+  }
+
+  updateConfig(newConfig: Partial<RevisionHistoryConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // Record listener: saves run one at a time so two saves of an item cannot both look "new"
+  recordRevision(store: SearchableStore, record: HtmlSnapshot | StructuredData | ExtractedText): Promise<void> {
+    const next = this.queue.then(() => this.captureRevision(store, record));
+    this.queue = next.catch(error => this.log(`[RevisionHistory] Could not record revision: ${error}`));
+    return next;
+  }
+
+  async listItems(): Promise<RevisionItemsResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, items: [], error: 'Storage not ready' };
+    }
+
+    try {
+      const items = new Map<string, RevisionItem>();
+      await storageManager.forEachRecord<Revision>('revisions', async (revision) => {
+        const item = items.get(revision.itemKey);
+        if (!item) {
+          items.set(revision.itemKey, {
+            itemKey: revision.itemKey,
+            courseId: revision.courseId,
+            courseName: null,
+            itemType: revision.itemType,
+            title: revision.title,
+            url: revision.url,
+            revisions: 1,
+            latest: revision.timestamp
+          });
+        } else {
+          item.revisions++;
+          if (revision.timestamp > item.latest) {
+            item.latest = revision.timestamp;
+            item.title = revision.title;
+            item.url = revision.url || item.url;
+          }
+        }
+      });
+
+      const studentIndex = await studentIndexManager.loadStudentIndex();
+      for (const item of items.values()) {
+        item.courseName = item.courseId ? studentIndex.courses[item.courseId]?.name || null : null;
+      }
+
+      return { success: true, items: Array.from(items.values()).sort((a, b) => b.latest - a.latest) };
+
+    } catch (error) {
+      return { success: false, items: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async getHistory(itemKey: string): Promise<RevisionHistoryResult> {
+    if (!storageManager.isReady()) {
+      return { success: false, itemKey, revisions: [], error: 'Storage not ready' };
+    }
+
+    try {
+      const revisions = await storageManager.getRevisions(itemKey);
+      return { success: true, itemKey, revisions: revisions.map(revision => this.toInfo(revision)) };
+    } catch (error) {
+      return { success: false, itemKey, revisions: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async diff(fromId: string, toId: string): Promise<RevisionDiffResult> {
+    const empty = { segments: [], stats: { inserted: 0, deleted: 0 }, approximate: false };
+    if (!storageManager.isReady()) {
+      return { success: false, ...empty, error: 'Storage not ready' };
+    }
+
+    try {
+      const revisions = await storageManager.getRevisionsById([fromId, toId]);
+      const from = revisions.find(revision => revision.id === fromId);
+      const to = revisions.find(revision => revision.id === toId);
+      if (!from || !to) {
+        return { success: false, ...empty, error: 'Revision not found' };
+      }
+
+      const { segments, approximate } = this.diffText(from.text, to.text);
+      const stats = { inserted: 0, deleted: 0 };
+      for (const segment of segments) {
+        if (segment.type !== 'equal') stats[segment.type === 'insert' ? 'inserted' : 'deleted'] += this.countWords(segment.text);
+      }
+
+      return { success: true, from: this.toInfo(from), to: this.toInfo(to), segments, stats, approximate };
+
+    } catch (error) {
+      return { success: false, ...empty, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Word-level diff: common prefix and suffix are trimmed, the rest goes through Myers' algorithm
+  diffText(before: string, after: string): { segments: DiffSegment[]; approximate: boolean } {
+    const a = this.tokenize(before);
+    const b = this.tokenize(after);
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+      endA--;
+      endB--;
+    }
+
+    const middleA = a.slice(start, endA);
+    const middleB = b.slice(start, endB);
+    let middle = middleA.length + middleB.length <= this.config.maxDiffTokens
+      ? this.myers(middleA, middleB)
+      : null;
+    const approximate = !middle;
+    if (!middle) {
+      middle = [
+        { type: 'delete', text: middleA.join('') },
+        { type: 'insert', text: middleB.join('') }
+      ];
+    }
+
+    const segments: DiffSegment[] = [
+      { type: 'equal', text: a.slice(0, start).join('') },
+      ...middle,
+      { type: 'equal', text: a.slice(endA).join('') }
+    ];
+
+    return { segments: this.mergeSegments(segments), approximate };
+  }
+
+  private async captureRevision(store: SearchableStore, record: HtmlSnapshot | StructuredData | ExtractedText): Promise<void> {
+    if (this.config.limit <= 0) return;
+
+    const revision = store === 'structured'
+      ? await this.fromDetail(record as StructuredData)
+      : store === 'htmlSnapshots'
+        ? await this.fromSyllabusSnapshot(record as HtmlSnapshot)
+        : null;
+    if (!revision || !revision.text) return;
+
+    // Only changed text becomes a new revision
+    const revisions = await storageManager.getRevisions(revision.itemKey);
+    const latest = revisions[revisions.length - 1];
+    if (latest?.hash === revision.hash) return;
+
+    await storageManager.saveRevision(revision, this.config.limit);
+    this.log(`[RevisionHistory] Saved revision ${revisions.length + 1} of ${revision.itemKey}`);
+  }
+
+  private async fromDetail(record: StructuredData): Promise<Revision | null> {
+    const item = record.data;
+    const section = TRACKED_DETAILS[item?.type];
+    if (record.collection !== 'details' || !section) return null;
+
+    // Dates and points are part of what students care about, so they are compared with the text
+    const metadata = item.metadata || {};
+    const lines = [
+      metadata.dueDate && `Due: ${metadata.dueDate}`,
+      metadata.points && `Points: ${metadata.points}`,
+      metadata.availability && `Available: ${metadata.availability}`,
+      item.content || metadata.instructions
+    ].filter((line): line is string => typeof line === 'string' && line.trim().length > 0);
+
+    const listed = await storageManager.getStructuredData(CanvasIds.recordId(record.courseId, section, record.itemId));
+    return this.buildRevision(record.id, record.courseId, item.type, item.title || record.itemId, listed?.data?.url || null, record.timestamp, lines.join('\n'));
+  }
+
+  private async fromSyllabusSnapshot(snapshot: HtmlSnapshot): Promise<Revision | null> {
+    const match = snapshot.url.match(SYLLABUS_URL_PATTERN);
+    const courseId = match?.[1] || match?.[2];
+    if (!courseId) return null;
+
+    const text = htmlParser.parseHtml(this.syllabusRegion(snapshot.html), { extractLinks: false, extractImages: false, extractForms: false, extractMetadata: false }).text;
+    return this.buildRevision(CanvasIds.syllabusId(courseId), courseId, 'syllabus', 'Syllabus', snapshot.url, snapshot.timestamp, text);
+  }
+
+  private async buildRevision(
+    itemKey: string,
+    courseId: string | null,
+    itemType: string,
+    title: string,
+    url: string | null,
+    timestamp: number,
+    text: string
+  ): Promise<Revision> {
+    const normalized = text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+    const time = timestamp || Date.now();
+    return {
+      id: `${itemKey}@${time}`,
+      itemKey,
+      courseId,
+      itemType,
+      title,
+      url,
+      timestamp: time,
+      hash: await ContentUtils.hashContent(normalized),
+      text: normalized
+    };
+  }
+
+  // The syllabus body, without the course navigation around it; the whole page if the markup is unexpected
+  private syllabusRegion(html: string): string {
+    const start = html.search(/<[^>]+id=["']course_syllabus["']/);
+    if (start < 0) return html;
+
+    const end = html.indexOf('<footer', start);
+    return end > start ? html.slice(start, end) : html.slice(start);
+  }
+
+  // Myers' O((N+M)D) shortest edit script over tokens; null when the edit distance exceeds the limit
+  private myers(a: string[], b: string[]): DiffSegment[] | null {
+    const n = a.length;
+    const m = b.length;
+    const limit = Math.min(n + m, this.config.maxEditDistance);
+    const offset = limit + 1;
+    const v = new Int32Array(2 * limit + 3);
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= limit; d++) {
+      trace.push(v.slice());
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+        v[offset + k] = x;
+
+        if (x >= n && y >= m) {
+          return this.backtrack(trace, a, b, offset);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): DiffSegment[] {
+    const reversed: DiffSegment[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = trace.length - 1; d > 0; d--) {
+      const v = trace[d];
+      const k = x - y;
+      const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+      const prevX = v[offset + prevK];
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        reversed.push({ type: 'equal', text: a[--x] });
+        y--;
+      }
+      if (x === prevX) {
+        reversed.push({ type: 'insert', text: b[--y] });
+      } else {
+        reversed.push({ type: 'delete', text: a[--x] });
+      }
+    }
+
+    while (x > 0 && y > 0) {
+      reversed.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+
+    return reversed.reverse();
+  }
+
+  // Join neighbouring segments of the same type
+  private mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+    const merged: DiffSegment[] = [];
+    for (const segment of segments) {
+      if (!segment.text) continue;
+      const last = merged[merged.length - 1];
+      if (last?.type === segment.type) {
+        last.text += segment.text;
+      } else {
+        merged.push({ ...segment });
+      }
+    }
+    return merged;
+  }
+
+  private tokenize(text: string): string[] {
+    return text.match(/\s+|[^\s]+/g) || [];
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  private toInfo(revision: Revision): RevisionInfo {
+    const { text, ...info } = revision;
+    return { ...info, length: text.length };
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const revisionHistory = new RevisionHistory();
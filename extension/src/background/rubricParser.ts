@@ -0,0 +1,142 @@
+// Rubric Parser for Canvas Scraper
+// Reads Canvas rubric tables (criteria, ratings, points) and any assessment the student has received
+// Runs wherever a DOM exists (offscreen document, section parsing), so it must not depend on service worker singletons
+
+export interface RubricRating {
+  id: string | null;
+  description: string;
+  longDescription: string | null;
+  points: number | null;
+  minPoints: number | null; // Lower bound when the criterion uses point ranges
+}
+
+export interface RubricCriterion {
+  id: string;
+  description: string;
+  longDescription: string | null;
+  pointsPossible: number | null;
+  ratings: RubricRating[];
+  assessment: {
+    ratingId: string | null;
+    ratingDescription: string | null;
+    points: number | null;
+    comments: string | null;
+  } | null;
+}
+
+export interface Rubric {
+  title: string | null;
+  pointsPossible: number | null;
+  criteria: RubricCriterion[];
+  assessed: boolean;
+  score: number | null; // Sum of assessed points when graded
+}
+
+// Legacy rubric tables render a hidden template row for new criteria
+const CRITERION_SELECTOR = 'tr.criterion:not(.blank):not(#criterion_blank)';
+
+export class RubricParser {
+  // Parse the first rubric table inside a page or container, or null when there is none
+  parse(root: Document | Element): Rubric | null {
+    const table = root.querySelector('.rubric_container, .rubric, table.rubric_table');
+    if (!table) return null;
+
+    const criteria: RubricCriterion[] = [];
+    table.querySelectorAll(CRITERION_SELECTOR).forEach((row, index) => {
+      const criterion = this.parseCriterion(row, index);
+      if (criterion) {
+        criteria.push(criterion);
+      }
+    });
+
+    if (criteria.length === 0) return null;
+
+    const assessedCriteria = criteria.filter(criterion => criterion.assessment !== null && criterion.assessment.points !== null);
+    const summedPoints = criteria.reduce((sum, criterion) => sum + (criterion.pointsPossible || 0), 0);
+
+    return {
+      title: this.cleanText(table.querySelector('.rubric_title .title, .rubric_title')?.textContent),
+      pointsPossible: this.parseNumber(table.querySelector('.rubric_total, .total_points_holder .points_possible')?.textContent) ?? (summedPoints || null),
+      criteria,
+      assessed: assessedCriteria.length > 0,
+      score: assessedCriteria.length > 0
+        ? assessedCriteria.reduce((sum, criterion) => sum + (criterion.assessment!.points || 0), 0)
+        : null
+    };
+  }
+
+  private parseCriterion(row: Element, index: number): RubricCriterion | null {
+    const description = this.cleanText(row.querySelector('.description_title, .criterion_description .description')?.textContent);
+    if (!description) return null;
+
+    const id = this.cleanText(row.querySelector('.criterion_id')?.textContent)
+      || row.id.match(/^criterion_(.+)$/)?.[1]
+      || `criterion_${index + 1}`;
+
+    const ratings = Array.from(row.querySelectorAll('.ratings .rating, td.rating'))
+      .filter(rating => !rating.classList.contains('blank'))
+      .map(rating => this.parseRating(rating));
+
+    return {
+      id,
+      description,
+      longDescription: this.cleanText(row.querySelector('.criterion_description .long_description, .long_description')?.textContent),
+      pointsPossible: this.parseNumber(row.querySelector('.criterion_points .display_criterion_points, .points_form .display_criterion_points')?.textContent)
+        ?? this.maxPoints(ratings),
+      ratings,
+      assessment: this.parseAssessment(row, ratings)
+    };
+  }
+
+  private parseRating(rating: Element): RubricRating {
+    const pointsText = rating.querySelector('.points')?.textContent || '';
+    const rangeText = rating.querySelector('.range_rating')?.textContent || '';
+    // Range ratings read "5 to >3 pts": the upper bound is the rating's points
+    const range = rangeText.match(/(\d+(?:\.\d+)?)\s*to\s*>?\s*(\d+(?:\.\d+)?)/);
+
+    return {
+      id: this.cleanText(rating.querySelector('.rating_id')?.textContent) || rating.id.match(/^rating_(.+)$/)?.[1] || null,
+      description: this.cleanText(rating.querySelector('.rating_description_value, .description')?.textContent) || '',
+      longDescription: this.cleanText(rating.querySelector('.rating_long_description')?.textContent),
+      points: this.parseNumber(pointsText) ?? (range ? parseFloat(range[1]) : null),
+      minPoints: range ? parseFloat(range[2]) : null
+    };
+  }
+
+  // Graded rubrics mark the chosen rating as selected and fill the criterion's points and comments
+  private parseAssessment(row: Element, ratings: RubricRating[]): RubricCriterion['assessment'] {
+    const selected = row.querySelector('.rating.selected, td.rating.selected');
+    const pointsInput = row.querySelector<HTMLInputElement>('.criterion_points input.criterion_points');
+    const pointsText = row.querySelector('.criterion_points .criterion_points:not(input)')?.textContent;
+    const comments = this.cleanText(row.querySelector('.criterion_comments .custom_rating_comments, .assessment-comments')?.textContent);
+
+    const selectedRating = selected ? this.parseRating(selected) : null;
+    const points = this.parseNumber(pointsInput?.value) ?? this.parseNumber(pointsText) ?? selectedRating?.points ?? null;
+
+    if (!selectedRating && points === null && !comments) return null;
+
+    return {
+      ratingId: selectedRating?.id || ratings.find(rating => rating.points === points)?.id || null,
+      ratingDescription: selectedRating?.description || null,
+      points,
+      comments
+    };
+  }
+
+  private maxPoints(ratings: RubricRating[]): number | null {
+    const points = ratings.map(rating => rating.points).filter((value): value is number => value !== null);
+    return points.length > 0 ? Math.max(...points) : null;
+  }
+
+  private parseNumber(text: string | null | undefined): number | null {
+    const match = text?.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  }
+
+  private cleanText(text: string | null | undefined): string | null {
+    const cleaned = text?.replace(/\s+/g, ' ').trim();
+    return cleaned || null;
+  }
+}
+
+export const rubricParser = new RubricParser();
@@ -1,16 +1,20 @@
 // Scheduler for Canvas Scraper
 // Handles periodic crawling, alarm management, and crawl lifecycle
 
-import { queueManager, CrawlTask } from './queueManager';
+import { queueManager, courseSectionTasks, emptyStageProgress, CRAWL_STAGES } from './queueManager';
+import type { CrawlStage, StageProgress } from './queueManager';
 import { configManager } from './configManager';
 import { authManager } from './authManager';
 import { storageManager } from './storageManager';
+import { hostContext } from './hostContext';
 
 export interface SchedulerConfig {
   enabled: boolean;
   syncFrequency: 'startup-only' | 'hourly' | 'daily' | 'manual';
   crawlDelayMs: number;
-  maxCrawlDurationMs: number;
+  maxCrawlDurationMs: number; // Time budget: after this, tasks below budgetMinPriority are skipped
+  budgetMinPriority: number;
+  budgetOvertimeMs: number; // How long tasks at or above budgetMinPriority may run past the budget
   enableIncrementalSync: boolean;
 }
 
@@ -22,24 +26,38 @@ export interface CrawlSession {
   tasksScheduled: number;
   tasksCompleted: number;
   tasksFailed: number;
+  tasksSkipped: number;
+  budgetEndsAt: number; // After this only work at or above budgetMinPriority runs
+  timeoutAt: number; // After this the session is cancelled and its remaining work skipped
+  budgetReachedAt?: number; // When the time budget ran out and low-value work was dropped
+  rootId?: string; // Task graph of this session (the dashboard task)
+  coursesDiscovered: number;
+  stages: Record<CrawlStage, StageProgress>;
   error?: string;
 }
 
+export type SessionEndListener = (session: CrawlSession) => void | Promise<void>;
+
+// The running session, kept so it can be picked up again after a service worker restart
+const ACTIVE_SESSION_KEY = 'activeCrawlSession';
+
 export class Scheduler {
   private currentSession: CrawlSession | null = null;
   private config: SchedulerConfig;
   private isRunning = false;
+  private sessionEndListeners: SessionEndListener[] = [];
 
   constructor(config: SchedulerConfig) {
     this.config = config;
     this.initializeAlarms();
+    this.resumeSession();
   }
 
   // Alarm Management
   private async initializeAlarms(): Promise<void> {
     try {
-      // Clear existing alarms
-      await chrome.alarms.clearAll();
+      // Clear the existing crawl alarm; other alarms belong to other features
+      await chrome.alarms.clear('periodic-crawl');
       
       if (!this.config.enabled) {
         console.log('[Scheduler] Alarms disabled');
@@ -95,6 +113,7 @@ export class Scheduler {
       }
 
       const sessionId = `crawl_${Date.now()}`;
+      const budgetEndsAt = Date.now() + this.config.maxCrawlDurationMs;
     
       this.currentSession = {
         id: sessionId,
@@ -102,13 +121,19 @@ export class Scheduler {
         status: 'running',
         tasksScheduled: 0,
         tasksCompleted: 0,
-        tasksFailed: 0
+        tasksFailed: 0,
+        tasksSkipped: 0,
+        budgetEndsAt,
+        timeoutAt: budgetEndsAt + this.config.budgetOvertimeMs,
+        coursesDiscovered: 0,
+        stages: emptyStageProgress()
       };
 
       console.log(`[Scheduler] Starting crawl session ${sessionId}`);
       
       // Schedule initial tasks
       await this.scheduleInitialTasks();
+      await this.saveActiveSession();
       
       // Start queue processing
       await this.monitorCrawlProgress();
@@ -148,15 +173,36 @@ export class Scheduler {
     
     // Save session results
     await this.saveCrawlSession();
+    await chrome.storage.local.remove([ACTIVE_SESSION_KEY]);
     
     // Update student index
     await storageManager.updateStudentIndex({
       lastCrawl: Date.now()
     });
     
+    const endedSession = this.currentSession;
     this.currentSession = null;
+
+    await this.notifySessionEnd(endedSession);
+  }
+
+  // Register work to run after every crawl session (e.g. rebuilding derived data)
+  onSessionEnd(listener: SessionEndListener): void {
+    this.sessionEndListeners.push(listener);
   }
 
+  private async notifySessionEnd(session: CrawlSession): Promise<void> {
+    for (const listener of this.sessionEndListeners) {
+      try {
+        await listener({ ...session });
+      } catch (error) {
+        console.error('[Scheduler] Session end listener failed:', error);
+      }
+    }
+  }
+
+  // Seed the pipeline: both discovery pages in one graph, so courses found on both are crawled once.
+  // Discovery spawns section tasks per course, sections spawn detail and file tasks.
   private async scheduleInitialTasks(): Promise<void> {
     if (!this.currentSession) return;
 
@@ -165,54 +211,66 @@ export class Scheduler {
       throw new Error('No Canvas hosts configured');
     }
 
-    const primaryHost = hosts[0]; // Use first host for now
+    // Crawl the host we are authenticated on, not just the first configured one
+    const primaryHost = hostContext.getHost();
+    const rootId = this.currentSession.id;
     
-    // Schedule dashboard crawl (highest priority)
-    await queueManager.addTask({
-      type: 'dashboard',
-      url: `${primaryHost}/dashboard`,
-      priority: 10,
-      maxRetries: 3,
-      scheduledFor: Date.now()
-    });
-    this.currentSession.tasksScheduled++;
-
-    // Schedule course list crawl
-    await queueManager.addTask({
-      type: 'course-list',
-      url: `${primaryHost}/courses`,
-      priority: 9,
-      maxRetries: 3,
-      scheduledFor: Date.now() + 1000 // 1 second delay
-    });
-    this.currentSession.tasksScheduled++;
+    await queueManager.addTasks([
+      {
+        id: rootId,
+        type: 'dashboard',
+        url: `${primaryHost}/dashboard`,
+        priority: 10,
+        maxRetries: 3,
+        scheduledFor: Date.now()
+      },
+      {
+        id: `${rootId}:course-list`,
+        rootId,
+        type: 'course-list',
+        url: `${primaryHost}/courses`,
+        priority: 9,
+        maxRetries: 3,
+        scheduledFor: Date.now() + 1000 // 1 second delay
+      }
+    ]);
+    this.currentSession.rootId = rootId;
+    await this.updateProgress();
 
     console.log(`[Scheduler] Scheduled ${this.currentSession.tasksScheduled} initial tasks`);
   }
 
+  // Once the time budget is spent only high-value work goes on, until the session's timeout
   private async monitorCrawlProgress(): Promise<void> {
     if (!this.currentSession) return;
 
-    const maxDuration = this.config.maxCrawlDurationMs;
-    const startTime = Date.now();
-
-    while (this.isRunning && (Date.now() - startTime) < maxDuration) {
-      const stats = queueManager.getStats();
-      
+    while (this.isRunning && this.currentSession) {
       // Update session progress
-      this.currentSession.tasksCompleted = stats.completed;
-      this.currentSession.tasksFailed = stats.failed;
+      const open = await this.updateProgress();
       
       // Check if all tasks are complete
-      if (stats.pending === 0 && stats.running === 0) {
+      if (open === 0) {
         console.log('[Scheduler] All tasks completed');
         await this.endCrawlSession('completed');
         return;
       }
+
+      const session = this.currentSession;
+      if (session.rootId && !session.budgetReachedAt && Date.now() >= session.budgetEndsAt) {
+        session.budgetReachedAt = Date.now();
+        await this.saveActiveSession();
+        const skipped = await queueManager.setPriorityFloor(session.rootId, this.config.budgetMinPriority);
+        console.log(`[Scheduler] Time budget reached, skipped ${skipped} tasks below priority ${this.config.budgetMinPriority}`);
+        continue;
+      }
       
       // Check for timeout
-      if ((Date.now() - startTime) >= maxDuration) {
+      if (Date.now() >= session.timeoutAt) {
         console.log('[Scheduler] Crawl session timed out');
+        if (session.rootId) {
+          await queueManager.setPriorityFloor(session.rootId, Number.POSITIVE_INFINITY);
+          await this.updateProgress();
+        }
         await this.endCrawlSession('cancelled', 'Session timed out');
         return;
       }
@@ -222,97 +280,66 @@ export class Scheduler {
     }
   }
 
-  // Task Scheduling Helpers
-  async scheduleCourseTasks(courseId: string, courseUrl: string): Promise<void> {
-    const tasks: Array<Omit<CrawlTask, 'id' | 'retryCount' | 'createdAt'>> = [
-      {
-        type: 'announcements',
-        url: `${courseUrl}/announcements`,
-        courseId,
-        priority: 8,
-        maxRetries: 3,
-        scheduledFor: Date.now()
-      },
-      {
-        type: 'assignments',
-        url: `${courseUrl}/assignments`,
-        courseId,
-        priority: 8,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 1000
-      },
-      {
-        type: 'discussions',
-        url: `${courseUrl}/discussions`,
-        courseId,
-        priority: 7,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 2000
-      },
-      {
-        type: 'pages',
-        url: `${courseUrl}/pages`,
-        courseId,
-        priority: 6,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 3000
-      },
-      {
-        type: 'files',
-        url: `${courseUrl}/files`,
-        courseId,
-        priority: 5,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 4000
-      },
-      {
-        type: 'quizzes',
-        url: `${courseUrl}/quizzes`,
-        courseId,
-        priority: 5,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 5000
-      },
-      {
-        type: 'modules',
-        url: `${courseUrl}/modules`,
-        courseId,
-        priority: 6,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 6000
-      },
-      {
-        type: 'grades',
-        url: `${courseUrl}/grades`,
-        courseId,
-        priority: 7,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 7000
-      },
-      {
-        type: 'people',
-        url: `${courseUrl}/users`,
-        courseId,
-        priority: 4,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 8000
-      },
-      {
-        type: 'syllabus',
-        url: `${courseUrl}/syllabus`,
-        courseId,
-        priority: 8,
-        maxRetries: 3,
-        scheduledFor: Date.now() + 9000
-      }
-    ];
+  // A crawl interrupted by a service worker restart resumes in the queue; pick its session back up so the
+  // time budget still applies and the session end work runs once the graph finishes
+  private async resumeSession(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get([ACTIVE_SESSION_KEY]);
+      const session: CrawlSession | undefined = result[ACTIVE_SESSION_KEY];
+      if (!session || this.isRunning) return;
 
-    for (const task of tasks) {
-      await queueManager.addTask(task);
-      if (this.currentSession) {
-        this.currentSession.tasksScheduled++;
+      this.currentSession = session;
+      this.isRunning = true;
+      console.log(`[Scheduler] Resuming crawl session ${session.id}`);
+
+      const graph = session.rootId ? await queueManager.getTaskGraph(session.rootId) : [];
+      if (graph.length === 0) {
+        await this.endCrawlSession('failed', 'Task graph was lost while the extension restarted');
+        return;
       }
+
+      await this.monitorCrawlProgress();
+    } catch (error) {
+      console.error('[Scheduler] Failed to resume crawl session:', error);
+    }
+  }
+
+  private async saveActiveSession(): Promise<void> {
+    if (!this.currentSession) return;
+
+    try {
+      await chrome.storage.local.set({ [ACTIVE_SESSION_KEY]: this.currentSession });
+    } catch (error) {
+      console.error('[Scheduler] Failed to save active crawl session:', error);
     }
+  }
+
+  // Refresh the session's per-stage counts from its task graph; returns the number of unfinished tasks
+  private async updateProgress(): Promise<number> {
+    const session = this.currentSession;
+    if (!session?.rootId) return 0;
+
+    const stages = await queueManager.getStageProgress(session.rootId);
+    const graph = await queueManager.getTaskGraph(session.rootId);
+    const totals = CRAWL_STAGES.map(stage => stages[stage]);
+
+    session.stages = stages;
+    session.tasksScheduled = totals.reduce((sum, stage) => sum + stage.total, 0);
+    session.tasksCompleted = totals.reduce((sum, stage) => sum + stage.completed, 0);
+    session.tasksFailed = totals.reduce((sum, stage) => sum + stage.failed, 0);
+    session.tasksSkipped = totals.reduce((sum, stage) => sum + stage.skipped, 0);
+    session.coursesDiscovered = new Set(graph.filter(task => task.courseId).map(task => task.courseId)).size;
+
+    return totals.reduce((sum, stage) => sum + stage.pending + stage.running, 0);
+  }
+
+  // Task Scheduling Helpers
+  // Crawl one course's sections, as part of the running session's graph when there is one
+  async scheduleCourseTasks(courseId: string, courseUrl: string): Promise<void> {
+    const rootId = this.currentSession?.rootId;
+    const tasks = courseSectionTasks(courseId, courseUrl).map(task => ({ ...task, rootId }));
+    await queueManager.addTasks(tasks);
+    await this.updateProgress();
 
     console.log(`[Scheduler] Scheduled ${tasks.length} tasks for course ${courseId}`);
   }
@@ -369,7 +396,13 @@ export class Scheduler {
   }
 
   async cancelCrawl(): Promise<void> {
-    if (this.currentSession) {
+    const session = this.currentSession;
+    if (session) {
+      // Stop the graph too, or its detail crawls and downloads keep running after the session ends
+      if (session.rootId) {
+        await queueManager.setPriorityFloor(session.rootId, Number.POSITIVE_INFINITY);
+        await this.updateProgress();
+      }
       await this.endCrawlSession('cancelled', 'Cancelled by user');
     }
   }
@@ -386,6 +419,8 @@ export const defaultSchedulerConfig: SchedulerConfig = {
   syncFrequency: 'startup-only',
   crawlDelayMs: 1000,
   maxCrawlDurationMs: 300000, // 5 minutes
+  budgetMinPriority: 7, // With the course-aware policy: main sections of active courses, their announcements and assignments, anything due soon
+  budgetOvertimeMs: 120000, // 2 minutes
   enableIncrementalSync: true
 };
 
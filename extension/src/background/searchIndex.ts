@@ -0,0 +1,540 @@
+// Search Index for Canvas Scraper
+// Maintains an inverted index over stored pages, structured items and extracted text, and answers ranked queries
+
+import { storageManager } from './storageManager';
+import type { HtmlSnapshot, StructuredData, ExtractedText, SearchDocument, SearchableStore } from './storageManager';
+import { ContentUtils } from './contentUtils';
+import { discussionParser } from './discussionParser';
+import type { DiscussionThread } from './discussionParser';
+
+export interface SearchQuery {
+  query: string;
+  courseIds?: string[];
+  types?: string[];
+  from?: number; // Earliest document date (ms)
+  to?: number; // Latest document date (ms)
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchResult {
+  id: string;
+  store: SearchableStore;
+  recordId: string;
+  courseId: string | null;
+  type: string;
+  title: string;
+  url: string | null;
+  date: number;
+  score: number;
+  snippet: string;
+  highlights: Array<[number, number]>; // Match ranges within the snippet
+}
+
+// Counts over every document matching the query, before course/type/date filters are applied
+export interface SearchFacets {
+  courses: Record<string, number>;
+  types: Record<string, number>;
+  months: Record<string, number>; // "YYYY-MM"
+}
+
+export interface SearchResponse {
+  success: boolean;
+  query: string;
+  terms: string[];
+  results: SearchResult[];
+  total: number;
+  facets: SearchFacets;
+  tookMs: number;
+  error?: string;
+}
+
+export interface SearchIndexConfig {
+  enableLogging: boolean;
+  maxStoredText: number; // Characters kept per document for snippets
+  snippetLength: number;
+  defaultLimit: number;
+  maxLimit: number;
+  titleBoost: number;
+  skipTypes: string[];
+}
+
+// What gets indexed for one stored record
+interface IndexableText {
+  courseId: string | null;
+  type: string;
+  title: string;
+  url: string | null;
+  date: number;
+  text: string;
+}
+
+// Bump when tokenization or record mapping changes so existing indexes are rebuilt
+const SEARCH_INDEX_VERSION = 1;
+const STATE_KEY = 'searchIndexState';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+  'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'will', 'with', 'you', 'your'
+]);
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export class SearchIndex {
+  private config: SearchIndexConfig;
+  private pending: Promise<void> = Promise.resolve();
+  private buildPromise: Promise<void> | null = null;
+
+  constructor(config?: Partial<SearchIndexConfig>) {
+    this.config = {
+      enableLogging: true,
+      maxStoredText: 20000,
+      snippetLength: 200,
+      defaultLimit: 20,
+      maxLimit: 100,
+      titleBoost: 1.5,
+      skipTypes: ['module_structure'],
+      ...config
+    };
+  }
+
+  // Index a freshly saved record; updates are applied one at a time in save order
+  indexRecord(store: SearchableStore, record: HtmlSnapshot | StructuredData | ExtractedText): Promise<void> {
+    this.pending = this.pending
+      .then(() => this.applyRecord(store, record))
+      .catch(error => this.log(`[SearchIndex] Failed to index ${store} record ${record.id}: ${error}`));
+    return this.pending;
+  }
+
+  // Backfill the index from existing stores when it is missing or was built by an older version
+  ensureBuilt(): Promise<void> {
+    if (!this.buildPromise) {
+      this.buildPromise = this.buildIfNeeded().catch(error => {
+        this.log(`[SearchIndex] Index build failed: ${error}`);
+        this.buildPromise = null;
+      });
+    }
+    return this.buildPromise;
+  }
+
+  async rebuild(): Promise<{ documents: number; tookMs: number }> {
+    const start = Date.now();
+    await this.pending;
+    await storageManager.clearSearchIndex();
+
+    let records = 0;
+    for (const store of ['structured', 'extractedText', 'htmlSnapshots'] as SearchableStore[]) {
+      records += await storageManager.forEachRecord<HtmlSnapshot | StructuredData | ExtractedText>(store, record => this.applyRecord(store, record));
+    }
+
+    const documents = await storageManager.countSearchDocuments();
+    await chrome.storage.local.set({ [STATE_KEY]: { version: SEARCH_INDEX_VERSION, builtAt: Date.now(), documents } });
+
+    const tookMs = Date.now() - start;
+    this.log(`[SearchIndex] Rebuilt index: ${documents} documents from ${records} records in ${tookMs}ms`);
+    return { documents, tookMs };
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const start = Date.now();
+    const terms = Array.from(new Set(this.tokenize(query.query || '')));
+    const empty: SearchResponse = {
+      success: true,
+      query: query.query || '',
+      terms,
+      results: [],
+      total: 0,
+      facets: { courses: {}, types: {}, months: {} },
+      tookMs: 0
+    };
+
+    if (terms.length === 0) return empty;
+
+    try {
+      await this.ensureBuilt();
+
+      const [postings, documentCount] = await Promise.all([
+        storageManager.getSearchPostings(terms),
+        storageManager.countSearchDocuments()
+      ]);
+
+      const candidateIds = new Set<string>();
+      postings.forEach(docs => Object.keys(docs).forEach(id => candidateIds.add(id)));
+      if (candidateIds.size === 0) return { ...empty, tookMs: Date.now() - start };
+
+      const documents = await storageManager.getSearchDocuments(Array.from(candidateIds));
+      const facets = this.buildFacets(documents);
+      const matching = documents.filter(document => this.matchesFilters(document, query));
+      const averageLength = matching.reduce((sum, document) => sum + document.length, 0) / Math.max(matching.length, 1);
+
+      const ranked = matching
+        .map(document => ({ document, score: this.score(document, terms, postings, documentCount, averageLength) }))
+        .sort((a, b) => b.score - a.score || b.document.date - a.document.date);
+
+      const limit = Math.min(query.limit || this.config.defaultLimit, this.config.maxLimit);
+      const offset = Math.max(query.offset || 0, 0);
+      const page = ranked.slice(offset, offset + limit);
+
+      const contents = await storageManager.getSearchContents(page.map(({ document }) => document.id));
+      const textById = new Map(contents.map(content => [content.id, content.text]));
+
+      const results: SearchResult[] = page.map(({ document, score }) => {
+        const { snippet, highlights } = this.buildSnippet(textById.get(document.id) || '', new Set(terms));
+        return {
+          id: document.id,
+          store: document.store,
+          recordId: document.recordId,
+          courseId: document.courseId,
+          type: document.type,
+          title: document.title,
+          url: document.url,
+          date: document.date,
+          score: Math.round(score * 1000) / 1000,
+          snippet,
+          highlights
+        };
+      });
+
+      return { ...empty, results, total: ranked.length, facets, tookMs: Date.now() - start };
+
+    } catch (error) {
+      return { ...empty, success: false, error: error instanceof Error ? error.message : String(error), tookMs: Date.now() - start };
+    }
+  }
+
+  // Lowercased, accent-folded, stemmed tokens without stopwords
+  tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const folded = text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+    for (const match of folded.matchAll(WORD_PATTERN)) {
+      const token = this.normalizeToken(match[0]);
+      if (token) {
+        tokens.push(token);
+      }
+    }
+
+    return tokens;
+  }
+
+  private async buildIfNeeded(): Promise<void> {
+    while (!storageManager.isReady()) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const result = await chrome.storage.local.get([STATE_KEY]);
+    if (result[STATE_KEY]?.version === SEARCH_INDEX_VERSION) return;
+
+    await this.rebuild();
+  }
+
+  private async applyRecord(store: SearchableStore, record: HtmlSnapshot | StructuredData | ExtractedText): Promise<void> {
+    const id = `${store}:${record.id}`;
+    const indexable = await this.describe(store, record);
+    const tokens = indexable ? this.tokenize(`${indexable.title} ${indexable.text}`) : [];
+
+    if (!indexable || tokens.length === 0) {
+      await storageManager.deleteSearchDocument(id);
+      return;
+    }
+
+    const terms: Record<string, number> = {};
+    for (const token of tokens) {
+      terms[token] = (terms[token] || 0) + 1;
+    }
+
+    await storageManager.saveSearchDocument(
+      {
+        id,
+        store,
+        recordId: record.id,
+        courseId: indexable.courseId,
+        type: indexable.type,
+        title: indexable.title,
+        url: indexable.url,
+        date: indexable.date,
+        length: tokens.length
+      },
+      { id, terms, text: indexable.text.slice(0, this.config.maxStoredText) }
+    );
+  }
+
+  private async describe(store: SearchableStore, record: HtmlSnapshot | StructuredData | ExtractedText): Promise<IndexableText | null> {
+    switch (store) {
+      case 'structured':
+        return this.describeStructured(record as StructuredData);
+      case 'extractedText':
+        return this.describeExtractedText(record as ExtractedText);
+      case 'htmlSnapshots':
+        return this.describeSnapshot(record as HtmlSnapshot);
+    }
+  }
+
+  private describeStructured(record: StructuredData): IndexableText | null {
+    const data = record.data;
+    if (!data || typeof data !== 'object') return null;
+
+    const type = typeof data.type === 'string' ? data.type : record.collection;
+    if (this.config.skipTypes.includes(type)) return null;
+
+    // File text is indexed from its extractedText record instead
+    const parts = [data.content, data.description, ...this.metadataText(data.metadata)];
+
+    return {
+      courseId: record.courseId || null,
+      type,
+      title: this.firstString(data.title, data.name, data.fileName) || record.itemId,
+      url: this.firstString(data.url, data.downloadUrl, data.sourceUrl),
+      date: typeof data.updatedAt === 'number' ? data.updatedAt : record.timestamp,
+      text: this.joinText(parts)
+    };
+  }
+
+  private async describeExtractedText(record: ExtractedText): Promise<IndexableText | null> {
+    // Pipeline records are keyed "pdf_<courseId>_<fileId>" or "ocr_<courseId>_<fileId>"
+    const courseId = record.id.match(/^[a-z]+_([^_]+)_/)?.[1] || null;
+    const file = courseId ? await storageManager.getStructuredData(`file_${courseId}_${record.sourceId}`) : null;
+
+    return {
+      courseId,
+      type: record.sourceType === 'image' ? 'image_text' : record.sourceType,
+      title: this.firstString(file?.data?.fileName, record.metadata?.title) || record.sourceId,
+      url: this.firstString(file?.data?.downloadUrl, file?.data?.sourceUrl),
+      date: record.timestamp,
+      text: this.joinText([record.text])
+    };
+  }
+
+  private describeSnapshot(record: HtmlSnapshot): IndexableText | null {
+    const title = record.html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+    return {
+      courseId: record.url.match(/\/courses\/(\d+)/)?.[1] || null,
+      type: 'snapshot',
+      title: title ? ContentUtils.extractTextFromHtml(title) : record.url,
+      url: record.url,
+      date: record.timestamp,
+      text: ContentUtils.extractTextFromHtml(ContentUtils.normalizeHtml(record.html))
+    };
+  }
+
+  // Top-level string fields of item metadata, plus discussion replies; markup and URLs are left out
+  private metadataText(metadata: Record<string, any> | undefined): string[] {
+    if (!metadata || typeof metadata !== 'object') return [];
+
+    const parts = Object.entries(metadata)
+      .filter(([key, value]) => typeof value === 'string' && !/html|url/i.test(key))
+      .map(([, value]) => value as string);
+
+    const thread = metadata.thread as DiscussionThread | undefined;
+    if (thread?.replies) {
+      parts.push(thread.topic?.message || '');
+      parts.push(...discussionParser.flatten(thread.replies).map(reply => reply.message));
+    }
+
+    return parts;
+  }
+
+  private score(document: SearchDocument, terms: string[], postings: Map<string, Record<string, number>>, documentCount: number, averageLength: number): number {
+    const titleTokens = new Set(this.tokenize(document.title));
+    let score = 0;
+    let matched = 0;
+
+    for (const term of terms) {
+      const docs = postings.get(term);
+      const frequency = docs?.[document.id];
+      if (!docs || !frequency) continue;
+
+      const documentFrequency = Object.keys(docs).length;
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const norm = frequency + K1 * (1 - B + B * document.length / Math.max(averageLength, 1));
+
+      score += idf * (frequency * (K1 + 1)) / norm;
+      if (titleTokens.has(term)) {
+        score += idf * this.config.titleBoost;
+      }
+      matched++;
+    }
+
+    // Documents containing more of the query terms rank first
+    return score * matched / terms.length;
+  }
+
+  private matchesFilters(document: SearchDocument, query: SearchQuery): boolean {
+    if (query.courseIds?.length && !query.courseIds.includes(document.courseId || '')) return false;
+    if (query.types?.length && !query.types.includes(document.type)) return false;
+    if (query.from !== undefined && document.date < query.from) return false;
+    if (query.to !== undefined && document.date > query.to) return false;
+    return true;
+  }
+
+  private buildFacets(documents: SearchDocument[]): SearchFacets {
+    const facets: SearchFacets = { courses: {}, types: {}, months: {} };
+
+    for (const document of documents) {
+      const course = document.courseId || 'none';
+      const month = new Date(document.date).toISOString().slice(0, 7);
+      facets.courses[course] = (facets.courses[course] || 0) + 1;
+      facets.types[document.type] = (facets.types[document.type] || 0) + 1;
+      facets.months[month] = (facets.months[month] || 0) + 1;
+    }
+
+    return facets;
+  }
+
+  // Window of text around the first query match, with every match inside it marked
+  private buildSnippet(text: string, terms: Set<string>): { snippet: string; highlights: Array<[number, number]> } {
+    const matches: Array<[number, number]> = [];
+    const lowered = text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+    // Folding can change length, so only use it for matching when offsets still line up
+    const source = lowered.length === text.length ? lowered : text.toLowerCase();
+    for (const match of source.matchAll(WORD_PATTERN)) {
+      const token = this.normalizeToken(match[0]);
+      if (token && terms.has(token)) {
+        matches.push([match.index!, match.index! + match[0].length]);
+      }
+    }
+
+    const length = this.config.snippetLength;
+    let start = matches.length > 0 ? Math.max(matches[0][0] - Math.floor(length / 3), 0) : 0;
+    let end = Math.min(start + length, text.length);
+
+    // Snap to word boundaries
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space !== -1 && space < (matches[0]?.[0] ?? end) ? space + 1 : start;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      end = space > start && space >= (matches[0]?.[1] ?? start) ? space : end;
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+    const highlights = matches
+      .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+      .map(([matchStart, matchEnd]): [number, number] => [matchStart - start + prefix.length, matchEnd - start + prefix.length]);
+
+    return { snippet, highlights };
+  }
+
+  private normalizeToken(word: string): string | null {
+    if (word.length > 40 || STOPWORDS.has(word)) return null;
+    if (word.length < 2 && !/\d/.test(word)) return null;
+    return /^[a-z]+$/.test(word) ? stem(word) : word;
+  }
+
+  private joinText(parts: unknown[]): string {
+    return parts
+      .filter((part): part is string => typeof part === 'string' && part.trim().length > 0)
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private firstString(...values: unknown[]): string | null {
+    const value = values.find(candidate => typeof candidate === 'string' && candidate.trim().length > 0);
+    return (value as string | undefined)?.trim() || null;
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+// Porter stemmer (M.F. Porter, 1980) for lowercase ASCII words
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al', entli: 'ent',
+  eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful',
+  ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANT_SEQ = `${CONSONANT}[^aeiouy]*`;
+const VOWEL_SEQ = `${VOWEL}[aeiou]*`;
+
+const MEASURE_GT0 = new RegExp(`^(${CONSONANT_SEQ})?${VOWEL_SEQ}${CONSONANT_SEQ}`);
+const MEASURE_EQ1 = new RegExp(`^(${CONSONANT_SEQ})?${VOWEL_SEQ}${CONSONANT_SEQ}(${VOWEL_SEQ})?$`);
+const MEASURE_GT1 = new RegExp(`^(${CONSONANT_SEQ})?${VOWEL_SEQ}${CONSONANT_SEQ}${VOWEL_SEQ}${CONSONANT_SEQ}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANT_SEQ})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANT_SEQ}${VOWEL}[^aeiouwxy]$`);
+
+function stem(word: string): string {
+  if (word.length < 3) return word;
+
+  const initialY = word[0] === 'y';
+  let w = initialY ? `Y${word.slice(1)}` : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1] + match[2];
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2];
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) {
+      w += 'e';
+    } else if (/([^aeiouylsz])\1$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (ENDS_CVC.test(w)) {
+      w += 'e';
+    }
+  }
+
+  // Step 1c: terminal y
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = `${match[1]}i`;
+  }
+
+  // Steps 2 and 3: map double suffixes to single ones
+  if ((match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w))
+    && MEASURE_GT0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  if ((match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w)) && MEASURE_GT0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: drop remaining suffixes
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (MEASURE_GT1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    if (MEASURE_GT1.test(match[1] + match[2])) w = match[1] + match[2];
+  }
+
+  // Step 5: tidy up final -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1];
+    if (MEASURE_GT1.test(base) || (MEASURE_EQ1.test(base) && !ENDS_CVC.test(base))) {
+      w = base;
+    }
+  }
+  if (/ll$/.test(w) && MEASURE_GT1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return initialY ? `y${w.slice(1)}` : w;
+}
+
+export const searchIndex = new SearchIndex();
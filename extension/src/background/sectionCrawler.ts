@@ -3,6 +3,17 @@
 
 import { ghostTabManager } from './ghostTabManager';
 import { studentIndexManager } from './studentIndex';
+import { storageManager } from './storageManager';
+import { CanvasIds } from './canvasIds';
+import { hostContext } from './hostContext';
+import { gradesParser } from './gradesParser';
+import type { GradesPage } from './gradesParser';
+import { moduleParser } from './moduleParser';
+import { moduleResolver } from './moduleResolver';
+import { canvasApi } from './canvasApi';
+import { rateLimiter } from './rateLimiter';
+import { offscreenClient } from './offscreenClient';
+import type { CourseModule } from './moduleResolver';
 
 export interface SectionItem {
   id: string;
@@ -11,6 +22,7 @@ export interface SectionItem {
   type: string;
   courseId: string;
   section: string;
+  host: string;
   metadata?: Record<string, any>;
   discoveredAt: number;
   updatedAt: number;
@@ -21,6 +33,8 @@ export interface SectionCrawlResult {
   courseId: string;
   items: SectionItem[];
   success: boolean;
+  pagesVisited: number;
+  truncated: boolean; // More pages existed beyond maxPages
   error?: string;
   timing: {
     start: number;
@@ -34,6 +48,34 @@ export interface SectionCrawlerConfig {
   defaultTimeout: number;
   maxRetries: number;
   useGhostTabs: boolean;
+  maxPages: number;
+}
+
+// A link found on a section page
+interface LinkRef {
+  href: string | null;
+  text: string;
+}
+
+// Item type and link paths per section, for parsing without a DOM
+const SECTION_LINKS: Record<string, { type: string; title: string; paths: string[] }> = {
+  announcements: { type: 'announcement', title: 'Announcement', paths: ['/announcements/', '/discussion_topics/'] },
+  assignments: { type: 'assignment', title: 'Assignment', paths: ['/assignments/'] },
+  discussions: { type: 'discussion', title: 'Discussion', paths: ['/discussion_topics/', '/discussions/'] },
+  pages: { type: 'page', title: 'Page', paths: ['/pages/'] },
+  files: { type: 'file', title: 'File', paths: ['/files/'] },
+  quizzes: { type: 'quiz', title: 'Quiz', paths: ['/quizzes/'] },
+  modules: { type: 'module', title: 'Module', paths: ['/modules/'] },
+  grades: { type: 'grade', title: 'Grade', paths: ['/grades/', '/assignments/'] },
+  people: { type: 'person', title: 'Person', paths: ['/users/'] }
+};
+
+// One loaded list page: its items, where the list continues, and how many scroll loads it took
+interface SectionPage {
+  items: SectionItem[];
+  nextUrl: string | null;
+  loads: number;
+  exhausted: boolean;
 }
 
 export class SectionCrawler {
@@ -45,6 +87,7 @@ export class SectionCrawler {
       defaultTimeout: 30000,
       maxRetries: 3,
       useGhostTabs: false,
+      maxPages: 20,
       ...config
     };
   }
@@ -61,8 +104,14 @@ export class SectionCrawler {
         throw new Error(`Course ${courseId} not found`);
       }
 
+      // The Canvas API when enabled and open for this section, otherwise the HTML list pages
       const sectionUrl = this.buildSectionUrl(course.url, section);
-      const items = await this.crawlSectionContent(sectionUrl, section, courseId);
+      const { items, pagesVisited, truncated } = await canvasApi.getSectionItems(course, section)
+        ?? await this.crawlSectionContent(sectionUrl, section, courseId);
+      if (section === 'modules') {
+        await this.resolveModuleItems(courseId, items);
+      }
+      await this.storeSectionItems(courseId, section, items);
       
       const endTime = Date.now();
       const result: SectionCrawlResult = {
@@ -70,6 +119,8 @@ export class SectionCrawler {
         courseId,
         items,
         success: true,
+        pagesVisited,
+        truncated,
         timing: {
           start: startTime,
           end: endTime,
@@ -77,7 +128,7 @@ export class SectionCrawler {
         }
       };
 
-      this.log(`[SectionCrawler] Completed ${section} crawl for course ${courseId}: ${items.length} items`);
+      this.log(`[SectionCrawler] Completed ${section} crawl for course ${courseId}: ${items.length} items from ${pagesVisited} pages${truncated ? ' (truncated)' : ''}`);
       return result;
 
     } catch (error) {
@@ -87,6 +138,8 @@ export class SectionCrawler {
         courseId,
         items: [],
         success: false,
+        pagesVisited: 0,
+        truncated: false,
         error: error instanceof Error ? error.message : String(error),
         timing: {
           start: startTime,
@@ -128,6 +181,8 @@ export class SectionCrawler {
           courseId,
           items: [],
           success: false,
+          pagesVisited: 0,
+          truncated: false,
           error: error instanceof Error ? error.message : String(error),
           timing: { start: Date.now(), end: Date.now(), duration: 0 }
         });
@@ -143,6 +198,53 @@ export class SectionCrawler {
     return studentIndex.courses[courseId];
   }
 
+  // Persist crawled items under their stable IDs and record them in the course index
+  private async storeSectionItems(courseId: string, section: string, items: SectionItem[]): Promise<void> {
+    if (!storageManager.isReady()) {
+      this.log(`[SectionCrawler] Storage not ready, skipping persistence for ${section}`);
+      return;
+    }
+
+    try {
+      for (const item of items) {
+        const existing = await storageManager.getStructuredData(CanvasIds.recordId(courseId, section, item.id));
+        if (existing?.data?.discoveredAt) {
+          item.discoveredAt = existing.data.discoveredAt;
+        }
+
+        await storageManager.saveStructuredData({
+          id: CanvasIds.recordId(courseId, section, item.id),
+          courseId,
+          collection: section,
+          itemId: item.id,
+          data: item,
+          timestamp: item.updatedAt,
+          version: '1.0.0'
+        });
+      }
+
+      const courseIndex = await storageManager.getCourseIndex(courseId);
+      const collections = courseIndex?.collections || {};
+      collections[section] = {
+        ...(collections[section] || { etag: null, lastModified: null, lastHash: null }),
+        itemIds: items.map(item => item.id)
+      };
+      await storageManager.updateCourseIndex(courseId, { collections, lastUpdated: Date.now() });
+
+    } catch (error) {
+      this.log(`[SectionCrawler] Failed to store ${section} items for course ${courseId}: ${error}`);
+    }
+  }
+
+  // Point module items at the assignments, pages, files, etc. they link to
+  private async resolveModuleItems(courseId: string, items: SectionItem[]): Promise<void> {
+    const structure = items.find(item => item.type === 'module_structure');
+    if (!structure) return;
+
+    // Item metadata shares ModuleItem objects with the structure, so one pass updates both
+    await moduleResolver.resolveModules(courseId, structure.metadata?.modules || []);
+  }
+
   // Build URL for a specific section
   private buildSectionUrl(courseUrl: string, section: string): string {
     const baseUrl = courseUrl.replace(/\/$/, '');
@@ -168,17 +270,48 @@ export class SectionCrawler {
     return `${baseUrl}${path}`;
   }
 
-  // Crawl the actual content of a section
-  private async crawlSectionContent(url: string, section: string, courseId: string): Promise<SectionItem[]> {
-    if (this.config.useGhostTabs) {
-      return this.crawlWithGhostTab(url, section, courseId);
-    } else {
-      return this.crawlWithFetch(url, section, courseId);
+  // Crawl a section list, following "next" links until the list ends or maxPages is reached
+  private async crawlSectionContent(
+    url: string,
+    section: string,
+    courseId: string
+  ): Promise<{ items: SectionItem[]; pagesVisited: number; truncated: boolean }> {
+    const itemsById = new Map<string, SectionItem>();
+    const visited = new Set<string>();
+    let pageUrl: string | null = url;
+    let pagesVisited = 0;
+    let exhausted = true;
+
+    while (pageUrl && pagesVisited < this.config.maxPages) {
+      visited.add(pageUrl);
+
+      const page: SectionPage = this.config.useGhostTabs
+        ? await this.crawlWithGhostTab(pageUrl, section, courseId, this.config.maxPages - pagesVisited)
+        : await this.crawlWithFetch(pageUrl, section, courseId);
+
+      pagesVisited += page.loads;
+      exhausted = page.exhausted;
+
+      const sizeBefore = itemsById.size;
+      for (const item of page.items) {
+        if (!itemsById.has(item.id)) {
+          itemsById.set(item.id, item);
+        }
+      }
+
+      // Stop on loops and on pages that add nothing (some lists link "next" back to themselves)
+      pageUrl = page.nextUrl && !visited.has(page.nextUrl) && itemsById.size > sizeBefore ? page.nextUrl : null;
     }
+
+    return {
+      items: Array.from(itemsById.values()),
+      pagesVisited,
+      truncated: pageUrl !== null || !exhausted
+    };
   }
 
-  // Crawl using ghost tab (for JavaScript-heavy content)
-  private async crawlWithGhostTab(url: string, section: string, courseId: string): Promise<SectionItem[]> {
+  // Crawl using ghost tab (for JavaScript-heavy content and infinite-scroll lists)
+  private async crawlWithGhostTab(url: string, section: string, courseId: string, maxScrolls: number): Promise<SectionPage> {
     this.log(`[SectionCrawler] Ghost tab method called for ${section} - this should not be reached when useGhostTabs=false`);
     
     const requestId = `section_${section}_${courseId}_${Date.now()}`;
@@ -186,14 +319,15 @@ export class SectionCrawler {
     const ghostTabRequest = {
       id: requestId,
       url: url,
-      timeout: this.config.defaultTimeout,
+      // Each scroll round waits for the next batch, so allow for the whole budget
+      timeout: this.config.defaultTimeout + maxScrolls * 2000,
       waitFor: {
         selector: 'body',
         timeout: 10000
       },
       actions: [
         { type: 'wait' as const, value: 2000 },
-        { type: 'scroll' as const, value: 0 }
+        { type: 'scrollToEnd' as const, value: maxScrolls }
       ],
       extractors: this.getExtractorsForSection(section)
     };
@@ -208,7 +342,13 @@ export class SectionCrawler {
         throw new Error(`Ghost tab failed: ${response.error}`);
       }
 
-      return this.parseSectionItems(response.html || '', section, courseId, url);
+      const html = response.html || '';
+      return {
+        items: await this.parseSectionItems(html, section, courseId, url),
+        nextUrl: this.findNextPageUrl(html, url),
+        loads: Math.max(1, response.scroll?.rounds || 1),
+        exhausted: response.scroll?.exhausted ?? true
+      };
 
     } catch (error) {
       this.log(`[SectionCrawler] Ghost tab crawl failed for ${section}: ${error}`);
@@ -217,11 +357,11 @@ export class SectionCrawler {
   }
 
   // Crawl using fetch (for simple content)
-  private async crawlWithFetch(url: string, section: string, courseId: string): Promise<SectionItem[]> {
+  private async crawlWithFetch(url: string, section: string, courseId: string): Promise<SectionPage> {
     try {
       this.log(`[SectionCrawler] Using fetch method for ${section} at ${url}`);
       
-      const response = await fetch(url);
+      const response = await rateLimiter.fetch(url, { credentials: 'include' });
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
@@ -229,10 +369,17 @@ export class SectionCrawler {
       const html = await response.text();
       this.log(`[SectionCrawler] Fetched ${html.length} bytes for ${section}`);
       
-      const items = this.parseSectionItems(html, section, courseId, url);
+      // Resolve links against where Canvas actually served the page from (after redirects)
+      const pageUrl = response.url || url;
+      const items = await this.parseSectionItems(html, section, courseId, pageUrl);
       this.log(`[SectionCrawler] Parsed ${items.length} items for ${section}`);
       
-      return items;
+      return {
+        items,
+        nextUrl: this.findNextPageUrl(html, pageUrl, response.headers.get('Link')),
+        loads: 1,
+        exhausted: true
+      };
 
     } catch (error) {
       this.log(`[SectionCrawler] Fetch crawl failed for ${section}: ${error}`);
@@ -240,6 +387,32 @@ export class SectionCrawler {
     }
   }
 
+  // Find where a paginated list continues: Link header, rel="next", or a "next" pagination link
+  private findNextPageUrl(html: string, pageUrl: string, linkHeader?: string | null): string | null {
+    const headerMatch = linkHeader?.match(/<([^>]+)>\s*;\s*rel="?next"?/i);
+    if (headerMatch) {
+      return hostContext.resolveUrl(headerMatch[1], pageUrl);
+    }
+
+    // Regex rather than DOM so this also works where DOMParser is unavailable
+    const tags = html.match(/<(?:a|link)\b[^>]*>/gi) || [];
+    for (const tag of tags) {
+      const href = tag.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1];
+      if (!href || href.startsWith('#') || href.startsWith('javascript:')) continue;
+
+      const rel = tag.match(/\brel\s*=\s*["']([^"']+)["']/i)?.[1] || '';
+      const className = tag.match(/\bclass\s*=\s*["']([^"']+)["']/i)?.[1] || '';
+      const isNext = /(^|\s)next(\s|$)/i.test(rel) ||
+        (/(^|[\s_-])next([\s_-]|$)/i.test(className) && /[?&]page=/.test(href));
+
+      if (isNext) {
+        return hostContext.resolveUrl(href.replace(/&amp;/g, '&'), pageUrl);
+      }
+    }
+
+    return null;
+  }
+
   // Get extractors for a specific section
   private getExtractorsForSection(section: string) {
     const extractors: Array<{ name: string; selector: string; attribute?: string; multiple?: boolean }> = [];
@@ -297,6 +470,7 @@ export class SectionCrawler {
       case 'grades':
         extractors.push(
           { name: 'gradeLinks', selector: 'a[href*="/grades/"]', attribute: 'href', multiple: true },
+          { name: 'gradeRows', selector: 'tr.student_assignment', attribute: 'id', multiple: true },
           { name: 'gradeTitles', selector: '.grade-title, .assignment_name', multiple: true }
         );
         break;
@@ -319,10 +493,23 @@ export class SectionCrawler {
   }
 
   // Parse section items from HTML
-  private parseSectionItems(html: string, section: string, courseId: string, baseUrl: string): SectionItem[] {
+  private async parseSectionItems(html: string, section: string, courseId: string, baseUrl: string): Promise<SectionItem[]> {
     const items: SectionItem[] = [];
     const now = Date.now();
 
+    // The service worker has no DOMParser; structured pages are parsed in the offscreen document,
+    // the other sections only need their links
+    if (typeof DOMParser === 'undefined') {
+      switch (section) {
+        case 'grades':
+          return this.parseGradesOffscreen(html, courseId, baseUrl, now);
+        case 'modules':
+          return this.parseModulesOffscreen(html, courseId, baseUrl, now);
+        default:
+          return this.parseSectionLinks(html, section, courseId, baseUrl, now);
+      }
+    }
+
     try {
       // Create a DOM parser
       const parser = new DOMParser();
@@ -371,215 +558,143 @@ export class SectionCrawler {
 
   // Parse announcements
   private parseAnnouncements(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
-    const links = doc.querySelectorAll('a[href*="/announcements/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `Announcement ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
-        items.push({
-          id: `announcement_${index}`,
-          title,
-          url,
-          type: 'announcement',
-          courseId,
-          section: 'announcements',
-          discoveredAt: timestamp,
-          updatedAt: timestamp
-        });
-      }
-    });
-
-    return items;
+    const links = doc.querySelectorAll('a[href*="/announcements/"], a[href*="/discussion_topics/"]');
+    return this.parseLinkItems(this.linkRefs(links), 'announcement', 'announcements', 'Announcement', courseId, baseUrl, timestamp);
   }
 
   // Parse assignments
   private parseAssignments(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
     const links = doc.querySelectorAll('a[href*="/assignments/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `Assignment ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
-        items.push({
-          id: `assignment_${index}`,
-          title,
-          url,
-          type: 'assignment',
-          courseId,
-          section: 'assignments',
-          discoveredAt: timestamp,
-          updatedAt: timestamp
-        });
-      }
-    });
-
-    return items;
+    return this.parseLinkItems(this.linkRefs(links), 'assignment', 'assignments', 'Assignment', courseId, baseUrl, timestamp);
   }
 
   // Parse discussions
   private parseDiscussions(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
-    const links = doc.querySelectorAll('a[href*="/discussions/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `Discussion ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
-        items.push({
-          id: `discussion_${index}`,
-          title,
-          url,
-          type: 'discussion',
-          courseId,
-          section: 'discussions',
-          discoveredAt: timestamp,
-          updatedAt: timestamp
-        });
-      }
-    });
-
-    return items;
+    const links = doc.querySelectorAll('a[href*="/discussion_topics/"], a[href*="/discussions/"]');
+    return this.parseLinkItems(this.linkRefs(links), 'discussion', 'discussions', 'Discussion', courseId, baseUrl, timestamp);
   }
 
   // Parse pages
   private parsePages(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
     const links = doc.querySelectorAll('a[href*="/pages/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `Page ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
-        items.push({
-          id: `page_${index}`,
-          title,
-          url,
-          type: 'page',
-          courseId,
-          section: 'pages',
-          discoveredAt: timestamp,
-          updatedAt: timestamp
-        });
-      }
-    });
-
-    return items;
+    return this.parseLinkItems(this.linkRefs(links), 'page', 'pages', 'Page', courseId, baseUrl, timestamp);
   }
 
   // Parse files
   private parseFiles(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
     const links = doc.querySelectorAll('a[href*="/files/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `File ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
-        items.push({
-          id: `file_${index}`,
-          title,
-          url,
-          type: 'file',
-          courseId,
-          section: 'files',
-          discoveredAt: timestamp,
-          updatedAt: timestamp
-        });
-      }
-    });
-
-    return items;
+    return this.parseLinkItems(this.linkRefs(links), 'file', 'files', 'File', courseId, baseUrl, timestamp);
   }
 
   // Parse quizzes
   private parseQuizzes(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
     const links = doc.querySelectorAll('a[href*="/quizzes/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `Quiz ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
-        items.push({
-          id: `quiz_${index}`,
-          title,
-          url,
-          type: 'quiz',
-          courseId,
-          section: 'quizzes',
-          discoveredAt: timestamp,
-          updatedAt: timestamp
-        });
-      }
-    });
-
-    return items;
+    return this.parseLinkItems(this.linkRefs(links), 'quiz', 'quizzes', 'Quiz', courseId, baseUrl, timestamp);
   }
 
-  // Parse modules
+  // Parse modules: the course's module structure plus one item per module entry
   private parseModules(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
     const links = doc.querySelectorAll('a[href*="/modules/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `Module ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
+    return this.moduleItems(moduleParser.parse(doc, baseUrl), courseId, baseUrl, timestamp)
+      ?? this.parseLinkItems(this.linkRefs(links), 'module', 'modules', 'Module', courseId, baseUrl, timestamp);
+  }
+
+  private async parseModulesOffscreen(html: string, courseId: string, baseUrl: string, timestamp: number): Promise<SectionItem[]> {
+    const result = await offscreenClient.parseModules(html, baseUrl);
+    if (!result.success) {
+      throw new Error(`Module parsing failed: ${result.error}`);
+    }
+    return this.moduleItems(result.modules, courseId, baseUrl, timestamp)
+      ?? this.parseSectionLinks(html, 'modules', courseId, baseUrl, timestamp);
+  }
+
+  // Structure record plus one item per linked module entry; null when the page showed no modules
+  private moduleItems(modules: CourseModule[], courseId: string, baseUrl: string, timestamp: number): SectionItem[] | null {
+    if (modules.length === 0) return null;
+
+    const host = hostContext.getOrigin(baseUrl);
+    const items: SectionItem[] = [{
+      id: CanvasIds.moduleStructureId(courseId),
+      title: 'Course Modules',
+      url: baseUrl,
+      type: 'module_structure',
+      courseId,
+      section: 'modules',
+      host,
+      metadata: { modules },
+      discoveredAt: timestamp,
+      updatedAt: timestamp
+    }];
+
+    for (const module of modules) {
+      for (const moduleItem of module.items) {
+        // Sub-headers are layout only and have no link of their own
+        if (!moduleItem.url) continue;
+
         items.push({
-          id: `module_${index}`,
-          title,
-          url,
+          id: CanvasIds.itemId(moduleItem.url, 'module') || `module_${moduleItem.id}`,
+          title: moduleItem.title,
+          url: moduleItem.url,
           type: 'module',
           courseId,
           section: 'modules',
+          host,
+          metadata: moduleItem,
           discoveredAt: timestamp,
           updatedAt: timestamp
         });
       }
-    });
+    }
 
     return items;
   }
 
-  // Parse grades
+  // Parse grades: one record per assignment row plus the course total and group weights.
+  // Pages without the student grades table (e.g. an observer or teacher view) keep the linked assignments
   private parseGrades(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
-    const links = doc.querySelectorAll('a[href*="/grades/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `Grade ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
-        items.push({
-          id: `grade_${index}`,
-          title,
-          url,
-          type: 'grade',
-          courseId,
-          section: 'grades',
-          discoveredAt: timestamp,
-          updatedAt: timestamp
-        });
-      }
+    const links = doc.querySelectorAll('a[href*="/grades/"], a[href*="/assignments/"]');
+    return this.gradeItems(gradesParser.parse(doc, baseUrl), courseId, baseUrl, timestamp)
+      ?? this.parseLinkItems(this.linkRefs(links), 'grade', 'grades', 'Grade', courseId, baseUrl, timestamp);
+  }
+
+  private async parseGradesOffscreen(html: string, courseId: string, baseUrl: string, timestamp: number): Promise<SectionItem[]> {
+    const result = await offscreenClient.parseGrades(html, baseUrl);
+    if (!result.success || !result.page) {
+      throw new Error(`Grades parsing failed: ${result.error}`);
+    }
+    return this.gradeItems(result.page, courseId, baseUrl, timestamp)
+      ?? this.parseSectionLinks(html, 'grades', courseId, baseUrl, timestamp);
+  }
+
+  // Grade records (with any assessed rubric) and the course summary; null when the page had no grades table
+  private gradeItems({ records, summary }: GradesPage, courseId: string, baseUrl: string, timestamp: number): SectionItem[] | null {
+    if (!summary) return null;
+
+    const host = hostContext.getOrigin(baseUrl);
+    const items: SectionItem[] = records.map(record => ({
+      id: `grade_${record.assignmentId}`,
+      title: record.name,
+      url: record.url,
+      type: 'grade',
+      courseId,
+      section: 'grades',
+      host,
+      metadata: record,
+      discoveredAt: timestamp,
+      updatedAt: timestamp
+    }));
+
+    items.push({
+      id: CanvasIds.gradeSummaryId(courseId),
+      title: 'Course Grade',
+      url: baseUrl,
+      type: 'grade_summary',
+      courseId,
+      section: 'grades',
+      host,
+      metadata: summary,
+      discoveredAt: timestamp,
+      updatedAt: timestamp
     });
 
     return items;
@@ -587,43 +702,97 @@ export class SectionCrawler {
 
   // Parse people
   private parsePeople(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
-    const items: SectionItem[] = [];
     const links = doc.querySelectorAll('a[href*="/users/"]');
-    
-    links.forEach((link, index) => {
-      const href = link.getAttribute('href');
-      const title = link.textContent?.trim() || `Person ${index + 1}`;
-      
-      if (href) {
-        const url = href.startsWith('http') ? href : `https://canvas.instructure.com${href}`;
-        items.push({
-          id: `person_${index}`,
-          title,
-          url,
-          type: 'person',
-          courseId,
-          section: 'people',
-          discoveredAt: timestamp,
-          updatedAt: timestamp
-        });
+    return this.parseLinkItems(this.linkRefs(links), 'person', 'people', 'Person', courseId, baseUrl, timestamp);
+  }
+
+  private linkRefs(links: NodeListOf<Element>): LinkRef[] {
+    return Array.from(links, link => ({ href: link.getAttribute('href'), text: link.textContent?.trim() || '' }));
+  }
+
+  // Links of a section page found by regex, for contexts without DOMParser (the service worker)
+  private parseSectionLinks(html: string, section: string, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
+    if (section === 'syllabus') {
+      return this.parseSyllabus(null, courseId, baseUrl, timestamp);
+    }
+
+    const spec = SECTION_LINKS[section];
+    if (!spec) return [];
+
+    const links: LinkRef[] = [];
+    for (const match of html.matchAll(/<a\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+      const href = match[1].replace(/&amp;/g, '&');
+      if (spec.paths.some(path => href.includes(path))) {
+        links.push({ href, text: match[2].replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() });
       }
+    }
+
+    return this.parseLinkItems(links, spec.type, section, spec.title, courseId, baseUrl, timestamp);
+  }
+
+  // Turn resource links into items keyed by their Canvas ID, skipping duplicates and non-resource links
+  private parseLinkItems(
+    links: LinkRef[],
+    type: string,
+    section: string,
+    fallbackTitle: string,
+    courseId: string,
+    pageUrl: string,
+    timestamp: number
+  ): SectionItem[] {
+    const itemsById = new Map<string, SectionItem>();
+    const placeholders = new Set<string>(); // Items titled from fallbackTitle because their first link had no text
+    const host = hostContext.getOrigin(pageUrl);
+
+    links.forEach(({ href, text: title }) => {
+      if (!href) return;
+
+      const url = hostContext.resolveUrl(href, pageUrl);
+      const id = CanvasIds.itemId(url, type);
+      if (!id) return;
+
+      const existing = itemsById.get(id);
+
+      if (existing) {
+        // Canvas often links the same resource from an icon and a title; keep the readable one
+        if (title && (placeholders.has(id) || title.length > existing.title.length)) {
+          existing.title = title;
+          placeholders.delete(id);
+        }
+        return;
+      }
+
+      if (!title) placeholders.add(id);
+
+      itemsById.set(id, {
+        id,
+        title: title || `${fallbackTitle} ${itemsById.size + 1}`,
+        url,
+        type,
+        courseId,
+        section,
+        host,
+        discoveredAt: timestamp,
+        updatedAt: timestamp
+      });
     });
 
-    return items;
+    return Array.from(itemsById.values());
   }
 
   // Parse syllabus
-  private parseSyllabus(doc: Document, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
+  private parseSyllabus(doc: Document | null, courseId: string, baseUrl: string, timestamp: number): SectionItem[] {
     const items: SectionItem[] = [];
     
     // Syllabus is typically a single page
     items.push({
-      id: 'syllabus_0',
+      id: CanvasIds.syllabusId(courseId),
       title: 'Course Syllabus',
       url: baseUrl,
       type: 'syllabus',
       courseId,
       section: 'syllabus',
+      host: hostContext.getOrigin(baseUrl),
       discoveredAt: timestamp,
       updatedAt: timestamp
     });
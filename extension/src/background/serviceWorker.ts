@@ -17,6 +17,21 @@ import { sectionCrawler, SectionCrawler } from './sectionCrawler';
 import { detailCrawler } from './detailCrawler';
 import { filesPipeline } from './filesPipeline';
 import { incrementalSync } from './incrementalSync';
+import { hostContext } from './hostContext';
+import { deadlineCalendar } from './deadlineCalendar';
+import { searchIndex } from './searchIndex';
+import { archiveExporter } from './archiveExporter';
+import { markdownExporter } from './markdownExporter';
+import { offlineLibrary } from './offlineLibrary';
+import { revisionHistory } from './revisionHistory';
+import { changeNotifier } from './changeNotifier';
+import { dailyDigest, DIGEST_ALARM } from './dailyDigest';
+import { archiveImporter } from './archiveImporter';
+import { storageCrypto } from './storageCrypto';
+import { retentionManager, RETENTION_ALARM } from './retentionManager';
+import { rateLimiter } from './rateLimiter';
+import { canvasApi } from './canvasApi';
+import type { EncryptionStatus } from './storageCrypto';
 
 interface CrawlState {
   isAuthenticated: boolean;
@@ -77,6 +92,7 @@ class CanvasServiceWorker {
     (globalThis as any).detailCrawler = detailCrawler;
     (globalThis as any).filesPipeline = filesPipeline;
     (globalThis as any).incrementalSync = incrementalSync;
+    (globalThis as any).searchIndex = searchIndex;
     
     // Debug: Verify sectionCrawler import
     console.log('[ServiceWorker] SectionCrawler import check:', typeof sectionCrawler, sectionCrawler ? 'OK' : 'FAILED');
@@ -99,6 +115,7 @@ class CanvasServiceWorker {
     console.log('- detailCrawler');
     console.log('- filesPipeline');
     console.log('- incrementalSync');
+    console.log('- searchIndex');
   }
 
   private async handleStartup(): Promise<void> {
@@ -155,6 +172,13 @@ class CanvasServiceWorker {
   private async startCrawl(): Promise<void> {
     console.log('[ServiceWorker] Starting crawl...');
     
+    // Encrypted storage cannot be written until the user unlocks it
+    await storageCrypto.ready();
+    if (storageCrypto.isLocked()) {
+      console.log('[ServiceWorker] Storage is locked, skipping crawl until it is unlocked');
+      return;
+    }
+    
     // Check if crawl is already running
     if (scheduler.isCrawlRunning()) {
       console.log('[ServiceWorker] Crawl session already running, skipping...');
@@ -276,6 +300,7 @@ class CanvasServiceWorker {
         case 'CONFIG_UPDATED':
           console.log('[ServiceWorker] Configuration updated, reloading config...');
           await configManager.loadConfig();
+          await applyStoredSettings();
           sendResponse({ success: true });
           break;
         
@@ -345,7 +370,19 @@ class CanvasServiceWorker {
           const tasks = await queueManager.getAllTasks();
           sendResponse({ success: true, tasks });
           break;
-        
+
+        case 'GET_TASK_GRAPH':
+          sendResponse({ success: true, tasks: await queueManager.getTaskGraph(message.rootId) });
+          break;
+
+        case 'GET_CANVAS_API_STATUS':
+          sendResponse({ success: true, enabled: canvasApi.isEnabled(), blockedEndpoints: canvasApi.getBlockedEndpoints() });
+          break;
+
+        case 'GET_RATE_LIMITS':
+          sendResponse({ success: true, hosts: rateLimiter.getStats() });
+          break;
+
         case 'CLEAR_QUEUE':
           await queueManager.clearQueue();
           sendResponse({ success: true });
@@ -375,17 +412,18 @@ class CanvasServiceWorker {
         case 'MANUAL_RESCAN':
           try {
             const delay = typeof message.delayMs === 'number' ? message.delayMs : 0;
+            const host = hostContext.getHost();
             // Seed initial tasks again
             await queueManager.addTask({
               type: 'dashboard',
-              url: 'https://canvas.instructure.com/dashboard',
+              url: `${host}/dashboard`,
               priority: 10,
               maxRetries: 3,
               scheduledFor: Date.now() + delay
             });
             await queueManager.addTask({
               type: 'course-list',
-              url: 'https://canvas.instructure.com/courses',
+              url: `${host}/courses`,
               priority: 9,
               maxRetries: 3,
               scheduledFor: Date.now() + delay
@@ -1400,6 +1438,161 @@ class CanvasServiceWorker {
           }
           break;
         
+        case 'GET_DEADLINES':
+          if (storageManager.isReady()) {
+            const deadlines = message.cached
+              ? await deadlineCalendar.getCachedEvents()
+              : { events: await deadlineCalendar.collectEvents(), generatedAt: Date.now() };
+            sendResponse({ success: true, ...deadlines });
+          } else {
+            sendResponse({ success: false, error: 'Storage not ready' });
+          }
+          break;
+        
+        case 'EXPORT_DEADLINES_ICS':
+          if (storageManager.isReady()) {
+            sendResponse(await deadlineCalendar.exportIcs());
+          } else {
+            sendResponse({ success: false, error: 'Storage not ready' });
+          }
+          break;
+        
+        case 'SEARCH':
+          if (storageManager.isReady()) {
+            sendResponse(await searchIndex.search({
+              query: message.query,
+              courseIds: message.courseIds,
+              types: message.types,
+              from: message.from,
+              to: message.to,
+              limit: message.limit,
+              offset: message.offset
+            }));
+          } else {
+            sendResponse({ success: false, error: 'Storage not ready' });
+          }
+          break;
+        
+        case 'REBUILD_SEARCH_INDEX':
+          if (storageManager.isReady()) {
+            sendResponse({ success: true, ...(await searchIndex.rebuild()) });
+          } else {
+            sendResponse({ success: false, error: 'Storage not ready' });
+          }
+          break;
+        
+        case 'EXPORT_ARCHIVE':
+          sendResponse(await archiveExporter.exportArchive());
+          break;
+        
+        case 'EXPORT_MARKDOWN_VAULT':
+          sendResponse(await markdownExporter.exportVault());
+          break;
+        
+        case 'LIBRARY_GET_TREE':
+          sendResponse(await offlineLibrary.getTree());
+          break;
+        
+        case 'LIBRARY_GET_PAGE':
+          sendResponse(await offlineLibrary.getPage(message.url));
+          break;
+        
+        case 'LIBRARY_RESOLVE_LINKS':
+          sendResponse(await offlineLibrary.resolveLinks(message.pageUrl, message.urls || []));
+          break;
+        
+        case 'LIBRARY_GET_FILE':
+          sendResponse(await offlineLibrary.getFile(message.courseId, message.fileId));
+          break;
+        
+        case 'GET_DIGESTS':
+          sendResponse(await dailyDigest.listDigests());
+          break;
+        
+        case 'GET_DIGEST':
+          sendResponse(await dailyDigest.getDigest(message.id || undefined));
+          break;
+        
+        case 'GENERATE_DIGEST':
+          sendResponse(await dailyDigest.generate());
+          break;
+        
+        case 'GET_REVISION_ITEMS':
+          sendResponse(await revisionHistory.listItems());
+          break;
+        
+        case 'GET_REVISION_HISTORY':
+          sendResponse(await revisionHistory.getHistory(message.itemKey));
+          break;
+        
+        case 'GET_REVISION_DIFF':
+          sendResponse(await revisionHistory.diff(message.fromId, message.toId));
+          break;
+        
+        case 'ENCRYPTION_STATUS':
+          sendResponse({ ...(await storageCrypto.getStatus()), progress: storageManager.getEncryptionProgress() || undefined });
+          break;
+        
+        case 'ENCRYPTION_ENABLE':
+          sendResponse(await withEncryptionTask(storageCrypto.enable(message.pin)));
+          break;
+        
+        case 'ENCRYPTION_UNLOCK':
+          sendResponse(await withEncryptionTask(storageCrypto.unlock(message.pin)));
+          break;
+        
+        case 'ENCRYPTION_LOCK':
+          sendResponse(await storageCrypto.lock());
+          break;
+        
+        case 'ENCRYPTION_CHANGE_PIN':
+          sendResponse(await withEncryptionTask(storageCrypto.changePin(message.currentPin, message.newPin)));
+          break;
+        
+        case 'ENCRYPTION_DISABLE':
+          sendResponse(await withEncryptionTask(storageCrypto.disable(message.pin)));
+          break;
+        
+        case 'RETENTION_PREVIEW':
+          sendResponse(await retentionManager.compact({ dryRun: true, settings: message.settings || undefined }));
+          break;
+        
+        case 'RETENTION_COMPACT':
+          sendResponse(await retentionManager.compact());
+          break;
+        
+        case 'GET_RETENTION_STATUS':
+          sendResponse({
+            success: true,
+            usage: await retentionManager.checkQuota(),
+            lastReport: await retentionManager.getLastReport()
+          });
+          break;
+        
+        case 'GET_ARCHIVE_EXPORT_STATUS':
+          sendResponse({ success: true, progress: archiveExporter.getProgress() });
+          break;
+        
+        case 'IMPORT_ARCHIVE_BEGIN':
+          sendResponse(await archiveImporter.begin(message.manifest));
+          break;
+        
+        case 'IMPORT_ARCHIVE_RECORDS':
+          sendResponse(await archiveImporter.importRecords(message.importId, message.store, message.records || []));
+          break;
+        
+        case 'IMPORT_ARCHIVE_BLOB_PART':
+          sendResponse(archiveImporter.stageBlobPart(message.importId, message.blobId, message.data));
+          break;
+        
+        case 'IMPORT_ARCHIVE_FINISH':
+          sendResponse(await archiveImporter.finish(message.importId, message.studentIndex || null, message.storageSchema || null));
+          break;
+        
+        case 'IMPORT_ARCHIVE_ABORT':
+          sendResponse(archiveImporter.abort(message.importId));
+          break;
+        
         case 'GET_STUDENT_INDEX':
           const studentIndex = await studentIndexManager.exportIndex();
           sendResponse({ success: true, index: studentIndex });
@@ -1432,6 +1625,19 @@ class CanvasServiceWorker {
       } else {
         console.log('[ServiceWorker] Crawl already running, skipping alarm trigger');
       }
+    } else if (alarm.name === DIGEST_ALARM) {
+      console.log('[ServiceWorker] Daily digest alarm triggered');
+      // The alarm may wake the worker before storage has opened
+      while (!storageManager.isReady()) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      await dailyDigest.generate();
+    } else if (alarm.name === RETENTION_ALARM) {
+      console.log('[ServiceWorker] Storage compaction alarm triggered');
+      while (!storageManager.isReady()) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+      await retentionManager.compact();
     }
   }
 
@@ -1494,7 +1700,7 @@ class CanvasServiceWorker {
     try {
       // Test 1: Fetch dashboard
       console.log('[PageLoaderTest] Test 1: Fetching dashboard');
-      const dashboardResult = await pageLoader.fetchDashboard('https://canvas.instructure.com');
+      const dashboardResult = await pageLoader.fetchDashboard(hostContext.getHost());
       console.log('[PageLoaderTest] Dashboard fetch result:', {
         success: dashboardResult.success,
         status: dashboardResult.status,
@@ -1505,7 +1711,7 @@ class CanvasServiceWorker {
       if (dashboardResult.success && dashboardResult.text) {
         // Test 2: Parse dashboard HTML
         console.log('[PageLoaderTest] Test 2: Parsing dashboard HTML');
-        const parsedDashboard = htmlParser.parseDashboard(dashboardResult.text);
+        const parsedDashboard = htmlParser.parseDashboard(dashboardResult.text, dashboardResult.url);
         console.log('[PageLoaderTest] Dashboard parsed:', {
           title: parsedDashboard.title,
           coursesFound: (parsedDashboard as any).courses?.length || 0,
@@ -1624,21 +1830,21 @@ class CanvasServiceWorker {
 
       // Test 2: Fetch and parse dashboard
       console.log('[CourseDiscoveryTest] Test 2: Fetching dashboard for course discovery');
-      const dashboardResult = await pageLoader.fetchPage('https://canvas.instructure.com/dashboard');
+      const dashboardResult = await pageLoader.fetchPage(`${hostContext.getHost()}/dashboard`);
       
       if (!dashboardResult.success || !dashboardResult.text) {
         throw new Error('Failed to fetch dashboard');
       }
 
-      const dashboardCourses = courseDiscovery.parseDashboard(dashboardResult.text);
+      const dashboardCourses = courseDiscovery.parseDashboard(dashboardResult.text, dashboardResult.url);
       console.log('[CourseDiscoveryTest] Dashboard courses found:', dashboardCourses.length);
 
       // Test 3: Fetch and parse course list
       console.log('[CourseDiscoveryTest] Test 3: Fetching course list for course discovery');
-      const courseListResult = await pageLoader.fetchPage('https://canvas.instructure.com/courses');
+      const courseListResult = await pageLoader.fetchPage(`${hostContext.getHost()}/courses`);
       
       if (courseListResult.success && courseListResult.text) {
-        const courseListCourses = courseDiscovery.parseCourseList(courseListResult.text);
+        const courseListCourses = courseDiscovery.parseCourseList(courseListResult.text, courseListResult.url);
         console.log('[CourseDiscoveryTest] Course list courses found:', courseListCourses.length);
         
         // Combine all discovered courses
@@ -1790,8 +1996,8 @@ const setupAlarms = async () => {
   
   const settings = configManager.getSettings();
   
-  // Clear existing alarms
-  await chrome.alarms.clearAll();
+  // Clear the existing sync alarm; other alarms belong to other features
+  await chrome.alarms.clear('periodic-sync');
   
   // Set up alarm based on sync frequency
   if (settings.syncFrequency === 'hourly') {
@@ -1808,6 +2014,79 @@ const setupAlarms = async () => {
   // For 'startup-only' and 'manual', no alarms needed
 };
 
+// Apply fetch concurrency, data source, file processing (OCR), revision history, notification, digest, calendar export, auto-lock and retention options from config
+const applyStoredSettings = async () => {
+  while (!configManager.isConfigLoaded()) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  const settings = configManager.getSettings();
+  rateLimiter.updateConfig({ maxConcurrency: settings.maxConcurrentFetches });
+  canvasApi.updateConfig({ enabled: settings.useCanvasApi });
+  filesPipeline.updateConfig({
+    enableOcr: settings.enableOcr,
+    ocrLanguage: settings.ocrLanguage,
+    ocrTimeBudgetMs: settings.ocrTimeBudgetSeconds * 1000
+  });
+  revisionHistory.updateConfig({ limit: settings.revisionHistoryLimit });
+  changeNotifier.updateConfig({ settings: settings.notifications });
+  dailyDigest.updateConfig({ settings: settings.digest });
+  deadlineCalendar.updateConfig({ autoExport: settings.autoExportCalendar });
+  await dailyDigest.scheduleAlarm();
+  storageCrypto.updateConfig({ autoLockMinutes: settings.autoLockMinutes });
+  // chrome.idle does not accept intervals under 15 seconds
+  chrome.idle.setDetectionInterval(Math.max(15, settings.autoLockMinutes * 60));
+  retentionManager.updateConfig({ settings: settings.retention });
+  await retentionManager.scheduleAlarm();
+};
+
+// Rewrite stored records in the background once an encryption change is pending and the key is available
+const runEncryptionTask = async () => {
+  if (!storageCrypto.pendingTask() || storageCrypto.isLocked()) return;
+
+  while (!storageManager.isReady()) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  try {
+    await storageManager.runEncryptionTask();
+  } catch (error) {
+    console.error('[ServiceWorker] Encryption task failed:', error);
+  }
+};
+
+const withEncryptionTask = async (result: Promise<EncryptionStatus>): Promise<EncryptionStatus> => {
+  const status = await result;
+  if (status.success) {
+    runEncryptionTask();
+  }
+  return status;
+};
+
 setupAlarms();
+applyStoredSettings();
+
+// Keep the deadline calendar in step with freshly crawled data, notify about what changed, then apply retention rules
+scheduler.onSessionEnd(async () => {
+  const deadlines = await deadlineCalendar.regenerate();
+  await changeNotifier.checkForChanges(deadlines);
+  await retentionManager.compact();
+});
+
+chrome.notifications.onClicked.addListener(async (notificationId) => {
+  if (!await changeNotifier.handleClick(notificationId) && !await dailyDigest.handleClick(notificationId)) {
+    await retentionManager.handleClick(notificationId);
+  }
+});
+
+// Lock encrypted storage when the computer goes idle or its screen locks
+chrome.idle.onStateChanged.addListener((state) => storageCrypto.handleIdleState(state));
+
+// Finish encrypting, re-encrypting or decrypting stored records if the worker stopped halfway
+storageCrypto.ready().then(() => runEncryptionTask());
+
+// Index records as they are saved, and backfill anything stored before the index existed
+storageManager.onRecordSaved((store, record) => searchIndex.indexRecord(store, record));
+storageManager.onRecordSaved((store, record) => revisionHistory.recordRevision(store, record));
+searchIndex.ensureBuilt();
 
 export {};
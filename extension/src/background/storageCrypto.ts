@@ -0,0 +1,366 @@
+// Storage Crypto for Canvas Scraper
+// Optional encryption at rest: AES-GCM payloads under a key derived from the user's PIN, with lock/unlock and PIN changes
+
+import { ContentUtils } from './contentUtils';
+
+// Key derivation parameters, stored so the key can be derived again on unlock
+export interface KdfParams {
+  algorithm: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string; // base64
+}
+
+// What replaces the sensitive fields of a stored record
+export interface EncryptedPayload {
+  keyId: string;
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+// Stored records are rewritten in the background after these changes
+export type EncryptionTask = 'encrypt' | 'rekey' | 'decrypt';
+
+export interface EncryptionStatus {
+  success: boolean;
+  enabled: boolean;
+  unlocked: boolean;
+  pending: EncryptionTask | null;
+  progress?: { processed: number; total: number };
+  error?: string;
+}
+
+export interface StorageCryptoConfig {
+  enableLogging: boolean;
+  iterations: number;
+  minPinLength: number;
+  autoLockMinutes: number; // Lock after the computer has been idle this long; 0 never locks
+}
+
+// Raised when encrypted data is read or written while no key is loaded
+export class StorageLockedError extends Error {
+  constructor() {
+    super('Storage is locked. Unlock it with your PIN from the extension popup.');
+    this.name = 'StorageLockedError';
+  }
+}
+
+interface StoredKey {
+  keyId: string;
+  kdf: KdfParams;
+  verifier: { iv: string; data: string }; // A known value encrypted with the key, to check PINs
+}
+
+interface EncryptionState {
+  enabled: boolean;
+  key: StoredKey;
+  pending: EncryptionTask | null;
+  previousKey?: { keyId: string; wrapped: { iv: string; data: string } }; // Old key encrypted with the current one while a rekey runs
+}
+
+const STATE_KEY = 'encryptionState';
+// chrome.storage.session lives in memory only, so unlocked keys survive worker restarts but not a browser restart
+const SESSION_KEY = 'encryptionKeys';
+const VERIFIER_TEXT = 'canvas-scraper-storage-key';
+
+export class StorageCrypto {
+  private config: StorageCryptoConfig;
+  private state: EncryptionState | null = null;
+  private keys = new Map<string, CryptoKey>();
+  private loaded: Promise<void>;
+
+  constructor(config?: Partial<StorageCryptoConfig>) {
+    this.config = {
+      enableLogging: true,
+      iterations: 600000,
+      minPinLength: 4,
+      autoLockMinutes: 15,
+      ...config
+    };
+
+    this.loaded = this.load();
+  }
+
+  updateConfig(newConfig: Partial<StorageCryptoConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  async getStatus(): Promise<EncryptionStatus> {
+    await this.loaded;
+    return {
+      success: true,
+      enabled: this.isEnabled(),
+      unlocked: this.isEnabled() && !this.isLocked(),
+      pending: this.state?.pending || null
+    };
+  }
+
+  isEnabled(): boolean {
+    return !!this.state?.enabled;
+  }
+
+  isLocked(): boolean {
+    return this.isEnabled() && !this.keys.has(this.state!.key.keyId);
+  }
+
+  // New writes are encrypted, unless encryption is being turned off
+  isActive(): boolean {
+    return this.isEnabled() && this.state!.pending !== 'decrypt';
+  }
+
+  pendingTask(): EncryptionTask | null {
+    return this.state?.pending || null;
+  }
+
+  currentKeyId(): string | null {
+    return this.state?.key.keyId || null;
+  }
+
+  async encrypt(data: BufferSource): Promise<EncryptedPayload> {
+    const keyId = this.state?.key.keyId;
+    const key = keyId ? this.keys.get(keyId) : undefined;
+    if (!keyId || !key) throw new StorageLockedError();
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+    return { keyId, iv, data: encrypted };
+  }
+
+  async decrypt(payload: EncryptedPayload): Promise<ArrayBuffer> {
+    const key = this.keys.get(payload.keyId);
+    if (!key) throw new StorageLockedError();
+
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data);
+  }
+
+  // Turn encryption on; existing records are encrypted by the pending 'encrypt' task
+  async enable(pin: string): Promise<EncryptionStatus> {
+    await this.loaded;
+    if (this.isEnabled()) return this.failure('Encryption is already on');
+    const pinError = this.validatePin(pin);
+    if (pinError) return this.failure(pinError);
+
+    const { stored, key } = await this.createKey(pin);
+    this.state = { enabled: true, key: stored, pending: 'encrypt' };
+    this.keys = new Map([[stored.keyId, key]]);
+
+    await this.saveState();
+    await this.saveSessionKeys();
+    this.log('[StorageCrypto] Encryption enabled');
+    return this.getStatus();
+  }
+
+  async unlock(pin: string): Promise<EncryptionStatus> {
+    await this.loaded;
+    if (!this.state?.enabled) return this.failure('Encryption is off');
+
+    const key = await this.openKey(this.state.key, pin);
+    if (!key) return this.failure('Wrong PIN');
+
+    this.keys = new Map([[this.state.key.keyId, key]]);
+    // A PIN change that was interrupted still needs the old key to finish
+    if (this.state.previousKey) {
+      const raw = await this.decryptWith(key, this.state.previousKey.wrapped);
+      this.keys.set(this.state.previousKey.keyId, await this.importKey(raw));
+    }
+
+    await this.saveSessionKeys();
+    this.log('[StorageCrypto] Unlocked');
+    return this.getStatus();
+  }
+
+  async lock(): Promise<EncryptionStatus> {
+    await this.loaded;
+    this.keys.clear();
+    await chrome.storage.session.remove(SESSION_KEY);
+    if (this.isEnabled()) this.log('[StorageCrypto] Locked');
+    return this.getStatus();
+  }
+
+  // Derive a key from the new PIN; records are re-encrypted by the pending 'rekey' task
+  async changePin(currentPin: string, newPin: string): Promise<EncryptionStatus> {
+    await this.loaded;
+    if (!this.state?.enabled) return this.failure('Encryption is off');
+    if (this.state.pending) return this.failure('Wait for the current encryption task to finish');
+    const pinError = this.validatePin(newPin);
+    if (pinError) return this.failure(pinError);
+
+    const oldKey = await this.openKey(this.state.key, currentPin);
+    if (!oldKey) return this.failure('Wrong PIN');
+
+    const { stored, key } = await this.createKey(newPin);
+    const oldRaw = await crypto.subtle.exportKey('raw', oldKey);
+    this.state = {
+      enabled: true,
+      key: stored,
+      pending: 'rekey',
+      previousKey: { keyId: this.state.key.keyId, wrapped: await this.encryptWith(key, oldRaw) }
+    };
+    this.keys = new Map([[stored.keyId, key], [this.state.previousKey!.keyId, oldKey]]);
+
+    await this.saveState();
+    await this.saveSessionKeys();
+    this.log('[StorageCrypto] PIN changed, re-encrypting stored data');
+    return this.getStatus();
+  }
+
+  // Turn encryption off; records are decrypted by the pending 'decrypt' task before the key is dropped
+  async disable(pin: string): Promise<EncryptionStatus> {
+    await this.loaded;
+    if (!this.state?.enabled) return this.failure('Encryption is off');
+    if (this.state.pending && this.state.pending !== 'encrypt') return this.failure('Wait for the current encryption task to finish');
+
+    const key = await this.openKey(this.state.key, pin);
+    if (!key) return this.failure('Wrong PIN');
+
+    this.keys = new Map([[this.state.key.keyId, key]]);
+    this.state.pending = 'decrypt';
+
+    await this.saveState();
+    await this.saveSessionKeys();
+    this.log('[StorageCrypto] Decrypting stored data');
+    return this.getStatus();
+  }
+
+  // Called once every stored record has been rewritten for the pending task
+  async completePendingTask(): Promise<void> {
+    if (!this.state) return;
+
+    if (this.state.pending === 'decrypt') {
+      this.state = null;
+      this.keys.clear();
+      await chrome.storage.local.remove(STATE_KEY);
+      await chrome.storage.session.remove(SESSION_KEY);
+      this.log('[StorageCrypto] Encryption disabled');
+      return;
+    }
+
+    if (this.state.previousKey) {
+      this.keys.delete(this.state.previousKey.keyId);
+      delete this.state.previousKey;
+    }
+    this.state.pending = null;
+    await this.saveState();
+    await this.saveSessionKeys();
+  }
+
+  // Forget the key and state, once the data it protected has been deleted
+  async reset(): Promise<void> {
+    this.state = null;
+    this.keys.clear();
+    await chrome.storage.local.remove(STATE_KEY);
+    await chrome.storage.session.remove(SESSION_KEY);
+  }
+
+  // chrome.idle reports 'idle' or 'locked' after the detection interval
+  async handleIdleState(state: chrome.idle.IdleState): Promise<void> {
+    if (state !== 'active' && this.config.autoLockMinutes > 0 && this.isEnabled() && !this.isLocked()) {
+      await this.lock();
+    }
+  }
+
+  private async createKey(pin: string): Promise<{ stored: StoredKey; key: CryptoKey }> {
+    const kdf: KdfParams = {
+      algorithm: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: this.config.iterations,
+      salt: ContentUtils.arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(16)))
+    };
+    const key = await this.deriveKey(pin, kdf);
+    const verifier = await this.encryptWith(key, new TextEncoder().encode(VERIFIER_TEXT));
+
+    return { stored: { keyId: crypto.randomUUID(), kdf, verifier }, key };
+  }
+
+  // Derive the key for a PIN and check it against the stored verifier
+  private async openKey(stored: StoredKey, pin: string): Promise<CryptoKey | null> {
+    const key = await this.deriveKey(pin, stored.kdf);
+    try {
+      const verifier = await this.decryptWith(key, stored.verifier);
+      return new TextDecoder().decode(verifier) === VERIFIER_TEXT ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async deriveKey(pin: string, kdf: KdfParams): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: ContentUtils.base64ToArrayBuffer(kdf.salt) },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      true, // Exported to session storage and wrapped during PIN changes
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private importKey(raw: ArrayBuffer): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  private async encryptWith(key: CryptoKey, data: BufferSource): Promise<{ iv: string; data: string }> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+    return { iv: ContentUtils.arrayBufferToBase64(iv), data: ContentUtils.arrayBufferToBase64(encrypted) };
+  }
+
+  private decryptWith(key: CryptoKey, payload: { iv: string; data: string }): Promise<ArrayBuffer> {
+    return crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: ContentUtils.base64ToArrayBuffer(payload.iv) },
+      key,
+      ContentUtils.base64ToArrayBuffer(payload.data)
+    );
+  }
+
+  private validatePin(pin: string): string | null {
+    if (typeof pin !== 'string' || pin.length < this.config.minPinLength) {
+      return `PIN must be at least ${this.config.minPinLength} characters`;
+    }
+    return null;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await chrome.storage.local.get([STATE_KEY]);
+      this.state = stored[STATE_KEY] || null;
+      if (!this.state?.enabled) return;
+
+      const session = await chrome.storage.session.get([SESSION_KEY]);
+      const rawKeys: Record<string, string> = session[SESSION_KEY] || {};
+      for (const [keyId, raw] of Object.entries(rawKeys)) {
+        this.keys.set(keyId, await this.importKey(ContentUtils.base64ToArrayBuffer(raw)));
+      }
+    } catch (error) {
+      this.log(`[StorageCrypto] Could not load encryption state: ${error}`);
+    }
+  }
+
+  private async saveState(): Promise<void> {
+    await chrome.storage.local.set({ [STATE_KEY]: this.state });
+  }
+
+  private async saveSessionKeys(): Promise<void> {
+    const rawKeys: Record<string, string> = {};
+    for (const [keyId, key] of this.keys) {
+      rawKeys[keyId] = ContentUtils.arrayBufferToBase64(await crypto.subtle.exportKey('raw', key));
+    }
+    await chrome.storage.session.set({ [SESSION_KEY]: rawKeys });
+  }
+
+  private async failure(error: string): Promise<EncryptionStatus> {
+    return { ...(await this.getStatus()), success: false, error };
+  }
+
+  // Utility method for logging
+  private log(message: string): void {
+    if (this.config.enableLogging) {
+      console.log(message);
+    }
+  }
+}
+
+export const storageCrypto = new StorageCrypto();
@@ -1,6 +1,11 @@
 // Storage Manager for Canvas Scraper
 // Handles IndexedDB, chrome.storage.local, schema versioning, and migrations
 
+import { CanvasIds } from './canvasIds';
+import { storageCrypto } from './storageCrypto';
+import type { EncryptedPayload } from './storageCrypto';
+import type { CrawlTask, TaskState } from './queueManager';
+
 export interface StorageSchema {
   version: number;
   studentIndex: {
@@ -45,6 +50,10 @@ export interface ExtractedText {
   text: string;
   timestamp: number;
   hash: string;
+  confidence?: number; // OCR confidence, 0-100
+  pageCount?: number;
+  pages?: Array<{ pageNumber: number; text: string; confidence?: number }>;
+  metadata?: Record<string, any>;
 }
 
 export interface BlobData {
@@ -57,13 +66,95 @@ export interface BlobData {
   size: number;
 }
 
-const CURRENT_SCHEMA_VERSION = 1;
+// Search index entry for one stored record; the heavy parts live in SearchContent
+export interface SearchDocument {
+  id: string; // `${store}:${recordId}`
+  store: SearchableStore;
+  recordId: string;
+  courseId: string | null;
+  type: string;
+  title: string;
+  url: string | null;
+  date: number;
+  length: number; // Indexed token count
+}
+
+export interface SearchContent {
+  id: string;
+  terms: Record<string, number>; // Stemmed term -> frequency
+  text: string; // Leading text kept for snippets
+}
+
+export interface SearchPosting {
+  term: string;
+  docs: Record<string, number>; // Search document ID -> term frequency
+}
+
+// One stored version of an item's text; items keep a bounded number of these
+export interface Revision {
+  id: string; // `${itemKey}@${timestamp}`
+  itemKey: string;
+  courseId: string | null;
+  itemType: string;
+  title: string;
+  url: string | null;
+  timestamp: number;
+  hash: string;
+  text: string;
+}
+
+// Keyed state that holds course content (grades, change logs, digests), kept here rather than in chrome.storage so it is sealed
+export interface StoredValue {
+  id: string;
+  value: any;
+  timestamp: number;
+}
+
+// Size and age of one stored record, read without decrypting it; used by retention rules
+export interface RecordSummary {
+  store: string;
+  id: string;
+  url: string | null;
+  sourceId: string | null;
+  timestamp: number;
+  lastAccessed: number; // Falls back to the save time for records never read
+  size: number; // Bytes; estimated for records that do not track their size
+}
+
+export type SearchableStore = 'htmlSnapshots' | 'structured' | 'extractedText';
+
+export type RecordSavedListener = (store: SearchableStore, record: HtmlSnapshot | StructuredData | ExtractedText) => void | Promise<void>;
+
+// Stores whose payloads are encrypted when encryption at rest is on, and the fields that hold them
+export type SealedStore = 'htmlSnapshots' | 'structured' | 'extractedText' | 'blobs' | 'searchDocuments' | 'searchContent' | 'revisions' | 'values';
+
+// Search term postings cannot be sealed (they are looked up by term), so they are not kept while encryption is on
+const SEALED_FIELDS: Record<SealedStore, string[]> = {
+  htmlSnapshots: ['html'],
+  structured: ['data'],
+  extractedText: ['text', 'pages', 'metadata'],
+  blobs: ['data'],
+  searchDocuments: ['title'],
+  searchContent: ['terms', 'text'],
+  revisions: ['title', 'text'],
+  values: ['value']
+};
+
+export const CURRENT_SCHEMA_VERSION = 2;
 const DB_NAME = 'CanvasScraperDB';
-const DB_VERSION = 1;
+const DB_VERSION = 6;
+
+// Reads are batched before their access times are written
+const ACCESS_FLUSH_DELAY = 2000;
 
 export class StorageManager {
   private db: IDBDatabase | null = null;
   private isInitialized = false;
+  private recordSavedListeners: RecordSavedListener[] = [];
+  private encryptionTask: Promise<void> | null = null;
+  private encryptionProgress: { processed: number; total: number } | null = null;
+  private pendingAccess = new Map<string, number>();
+  private accessFlushTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     this.initialize();
@@ -130,6 +221,47 @@ export class StorageManager {
           blobStore.createIndex('hash', 'hash', { unique: false });
           blobStore.createIndex('mimeType', 'mimeType', { unique: false });
         }
+
+        // v2: full-text search index
+        if (!db.objectStoreNames.contains('searchDocuments')) {
+          const documentStore = db.createObjectStore('searchDocuments', { keyPath: 'id' });
+          documentStore.createIndex('courseId', 'courseId', { unique: false });
+          documentStore.createIndex('type', 'type', { unique: false });
+          documentStore.createIndex('date', 'date', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains('searchContent')) {
+          db.createObjectStore('searchContent', { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains('searchTerms')) {
+          db.createObjectStore('searchTerms', { keyPath: 'term' });
+        }
+
+        // v3: revision history
+        if (!db.objectStoreNames.contains('revisions')) {
+          const revisionStore = db.createObjectStore('revisions', { keyPath: 'id' });
+          revisionStore.createIndex('itemKey', 'itemKey', { unique: false });
+          revisionStore.createIndex('timestamp', 'timestamp', { unique: false });
+        }
+
+        // v4: last access times, for least-recently-used eviction
+        if (!db.objectStoreNames.contains('accessTimes')) {
+          db.createObjectStore('accessTimes', { keyPath: 'id' });
+        }
+
+        // v5: crawl task queue
+        if (!db.objectStoreNames.contains('tasks')) {
+          const taskStore = db.createObjectStore('tasks', { keyPath: 'id' });
+          taskStore.createIndex('state', 'state', { unique: false });
+          taskStore.createIndex('parentId', 'parentId', { unique: false });
+          taskStore.createIndex('rootId', 'rootId', { unique: false });
+        }
+
+        // v6: keyed state values
+        if (!db.objectStoreNames.contains('values')) {
+          db.createObjectStore('values', { keyPath: 'id' });
+        }
       };
     });
   }
@@ -176,6 +308,10 @@ export class StorageManager {
           courseIndex: currentSchema?.courseIndex || {}
         };
 
+        if (currentSchema) {
+          await this.runMigrations(currentSchema.version, migratedSchema.courseIndex);
+        }
+
         await chrome.storage.local.set({ canvasStorageSchema: migratedSchema });
         console.log('[StorageManager] Schema migration completed');
       }
@@ -185,16 +321,116 @@ export class StorageManager {
     }
   }
 
+  // Data migrations from an older schema version, applied in order
+  private async runMigrations(fromVersion: number, courseIndex: StorageSchema['courseIndex']): Promise<void> {
+    // v2: item IDs come from Canvas resource IDs instead of list position
+    if (fromVersion < 2) {
+      await this.rekeyStructuredItems(courseIndex);
+    }
+  }
+
+  // Bring records imported from an archive written under an older schema up to date
+  async migrateImportedData(fromVersion: number): Promise<void> {
+    if (fromVersion >= CURRENT_SCHEMA_VERSION) return;
+
+    const result = await chrome.storage.local.get(['canvasStorageSchema']);
+    const schema = result.canvasStorageSchema as StorageSchema;
+
+    await this.runMigrations(fromVersion, schema.courseIndex);
+    await chrome.storage.local.set({ canvasStorageSchema: schema });
+    console.log(`[StorageManager] Migrated imported data from schema v${fromVersion}`);
+  }
+
+  // Rekey structured records that still use index-based item IDs
+  private async rekeyStructuredItems(courseIndex: StorageSchema['courseIndex']): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const records = await this.getAllRecords<StructuredData>('structured');
+    const byId = new Map(records.map(record => [record.id, record]));
+    const staleIds = new Set<string>();
+    const rekeyed = new Map<string, StructuredData>();
+    const renames = new Map<string, string>();
+
+    for (const record of records) {
+      if (!CanvasIds.isLegacyId(record.itemId)) continue;
+
+      const type = CanvasIds.typeFromId(record.itemId);
+      const url = record.data?.url;
+      const newItemId = type === 'syllabus'
+        ? CanvasIds.syllabusId(record.courseId)
+        : (type && typeof url === 'string' ? CanvasIds.itemId(url, type) : null);
+
+      if (!newItemId || newItemId === record.itemId) continue;
+
+      const newId = CanvasIds.recordId(record.courseId, record.collection, newItemId);
+      renames.set(`${record.courseId}|${record.collection}|${record.itemId}`, newItemId);
+      staleIds.add(record.id);
+
+      // Several positional records can collapse into one resource; keep the newest
+      const current = rekeyed.get(newId) || byId.get(newId);
+      if (current && current.timestamp >= record.timestamp) continue;
+
+      rekeyed.set(newId, {
+        ...record,
+        id: newId,
+        itemId: newItemId,
+        data: record.data && typeof record.data === 'object' ? { ...record.data, id: newItemId } : record.data
+      });
+    }
+
+    if (staleIds.size === 0) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction(['structured'], 'readwrite');
+      const store = transaction.objectStore('structured');
+
+      staleIds.forEach(id => {
+        if (!rekeyed.has(id)) store.delete(id);
+      });
+      rekeyed.forEach(record => store.put(record));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    // Point course index collections at the new IDs
+    for (const [courseId, entry] of Object.entries(courseIndex)) {
+      for (const [collection, info] of Object.entries(entry.collections)) {
+        const itemIds = info.itemIds.map(itemId => renames.get(`${courseId}|${collection}|${itemId}`) || itemId);
+        info.itemIds = Array.from(new Set(itemIds));
+      }
+    }
+
+    console.log(`[StorageManager] Rekeyed ${staleIds.size} structured records into ${rekeyed.size} Canvas item IDs`);
+  }
+
+  private async getAllRecords<T>(storeName: string): Promise<T[]> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+      const request = store.getAll();
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // IndexedDB Operations
   async saveHtmlSnapshot(snapshot: HtmlSnapshot): Promise<void> {
     if (!this.db) throw new Error('IndexedDB not initialized');
+    const sealed = await this.sealRecord('htmlSnapshots', snapshot);
     
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['htmlSnapshots'], 'readwrite');
       const store = transaction.objectStore('htmlSnapshots');
-      const request = store.put(snapshot);
+      const request = store.put(sealed);
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        resolve();
+        this.notifyRecordSaved('htmlSnapshots', snapshot);
+      };
       request.onerror = () => reject(request.error);
     });
   }
@@ -202,7 +438,7 @@ export class StorageManager {
   async getHtmlSnapshot(id: string): Promise<HtmlSnapshot | null> {
     if (!this.db) throw new Error('IndexedDB not initialized');
     
-    return new Promise((resolve, reject) => {
+    const snapshot = await new Promise<HtmlSnapshot | null>((resolve, reject) => {
       const transaction = this.db!.transaction(['htmlSnapshots'], 'readonly');
       const store = transaction.objectStore('htmlSnapshots');
       const request = store.get(id);
@@ -210,17 +446,64 @@ export class StorageManager {
       request.onsuccess = () => resolve(request.result || null);
       request.onerror = () => reject(request.error);
     });
+
+    return this.openRecord('htmlSnapshots', snapshot);
+  }
+
+  // Every snapshot of one URL, oldest first
+  async getHtmlSnapshotsByUrl(url: string): Promise<HtmlSnapshot[]> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const snapshots = await new Promise<HtmlSnapshot[]>((resolve, reject) => {
+      const transaction = this.db!.transaction(['htmlSnapshots'], 'readonly');
+      const request = transaction.objectStore('htmlSnapshots').index('url').getAll(url);
+
+      request.onsuccess = () => {
+        const snapshots: HtmlSnapshot[] = request.result || [];
+        resolve(snapshots.sort((a, b) => a.timestamp - b.timestamp));
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    this.touchRecords('htmlSnapshots', snapshots.map(snapshot => snapshot.id));
+    return this.openRecords('htmlSnapshots', snapshots);
+  }
+
+  // Distinct snapshot URLs, read from the index without loading any HTML
+  async getHtmlSnapshotUrls(): Promise<string[]> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['htmlSnapshots'], 'readonly');
+      const request = transaction.objectStore('htmlSnapshots').index('url').openKeyCursor(null, 'nextunique');
+      const urls: string[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          urls.push(cursor.key as string);
+          cursor.continue();
+        } else {
+          resolve(urls);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
   }
 
   async saveStructuredData(data: StructuredData): Promise<void> {
     if (!this.db) throw new Error('IndexedDB not initialized');
+    const sealed = await this.sealRecord('structured', data);
     
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['structured'], 'readwrite');
       const store = transaction.objectStore('structured');
-      const request = store.put(data);
+      const request = store.put(sealed);
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        resolve();
+        this.notifyRecordSaved('structured', data);
+      };
       request.onerror = () => reject(request.error);
     });
   }
@@ -228,7 +511,7 @@ export class StorageManager {
   async getStructuredData(id: string): Promise<StructuredData | null> {
     if (!this.db) throw new Error('IndexedDB not initialized');
     
-    return new Promise((resolve, reject) => {
+    const data = await new Promise<StructuredData | null>((resolve, reject) => {
       const transaction = this.db!.transaction(['structured'], 'readonly');
       const store = transaction.objectStore('structured');
       const request = store.get(id);
@@ -236,34 +519,741 @@ export class StorageManager {
       request.onsuccess = () => resolve(request.result || null);
       request.onerror = () => reject(request.error);
     });
+
+    return this.openRecord('structured', data);
+  }
+
+  // All structured records for a course, optionally limited to one collection
+  async getStructuredDataByCourse(courseId: string, collection?: string): Promise<StructuredData[]> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const records = await new Promise<StructuredData[]>((resolve, reject) => {
+      const transaction = this.db!.transaction(['structured'], 'readonly');
+      const store = transaction.objectStore('structured');
+      const request = store.index('courseId').getAll(courseId);
+
+      request.onsuccess = () => {
+        const records: StructuredData[] = request.result || [];
+        resolve(collection ? records.filter(record => record.collection === collection) : records);
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    return this.openRecords('structured', records);
+  }
+
+  async getExtractedText(id: string): Promise<ExtractedText | null> {
+    const [text] = await this.getRecordsById<ExtractedText>('extractedText', [id]);
+    return text || null;
+  }
+
+  async getBlob(id: string): Promise<BlobData | null> {
+    const [blob] = await this.getRecordsById<BlobData>('blobs', [id]);
+    if (blob) this.touchRecords('blobs', [id]);
+    return blob || null;
   }
 
   async saveExtractedText(text: ExtractedText): Promise<void> {
     if (!this.db) throw new Error('IndexedDB not initialized');
+    const sealed = await this.sealRecord('extractedText', text);
     
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['extractedText'], 'readwrite');
       const store = transaction.objectStore('extractedText');
-      const request = store.put(text);
+      const request = store.put(sealed);
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        resolve();
+        this.notifyRecordSaved('extractedText', text);
+      };
       request.onerror = () => reject(request.error);
     });
   }
 
   async saveBlob(blob: BlobData): Promise<void> {
     if (!this.db) throw new Error('IndexedDB not initialized');
+    const sealed = await this.sealRecord('blobs', blob);
     
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction(['blobs'], 'readwrite');
       const store = transaction.objectStore('blobs');
-      const request = store.put(blob);
+      const request = store.put(sealed);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Search Index Operations
+  // Replace a document's index entry, updating only the postings whose frequencies changed
+  async saveSearchDocument(document: SearchDocument, content: SearchContent): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const keepPostings = this.keepsPostings();
+    const sealedDocument = await this.sealRecord('searchDocuments', document);
+    const sealedContent = await this.sealRecord('searchContent', content);
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['searchDocuments', 'searchContent', 'searchTerms'], 'readwrite');
+      const contentStore = transaction.objectStore('searchContent');
+      const previousRequest = contentStore.get(document.id);
+
+      previousRequest.onsuccess = () => {
+        if (keepPostings) {
+          const previous: SearchContent | undefined = previousRequest.result;
+          this.updatePostings(transaction, document.id, previous?.terms || {}, content.terms);
+        }
+        transaction.objectStore('searchDocuments').put(sealedDocument);
+        contentStore.put(sealedContent);
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deleteSearchDocument(id: string): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const keepPostings = this.keepsPostings();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['searchDocuments', 'searchContent', 'searchTerms'], 'readwrite');
+      const contentStore = transaction.objectStore('searchContent');
+      const previousRequest = contentStore.get(id);
+
+      previousRequest.onsuccess = () => {
+        if (keepPostings) {
+          const previous: SearchContent | undefined = previousRequest.result;
+          this.updatePostings(transaction, id, previous?.terms || {}, {});
+        }
+        transaction.objectStore('searchDocuments').delete(id);
+        contentStore.delete(id);
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getSearchPostings(terms: string[]): Promise<Map<string, Record<string, number>>> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+    if (!this.keepsPostings()) return this.scanSearchPostings(terms);
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['searchTerms'], 'readonly');
+      const store = transaction.objectStore('searchTerms');
+      const postings = new Map<string, Record<string, number>>();
+
+      for (const term of terms) {
+        const request = store.get(term);
+        request.onsuccess = () => {
+          if (request.result) {
+            postings.set(term, (request.result as SearchPosting).docs);
+          }
+        };
+      }
+
+      transaction.oncomplete = () => resolve(postings);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getSearchDocuments(ids: string[]): Promise<SearchDocument[]> {
+    return this.getRecordsById<SearchDocument>('searchDocuments', ids);
+  }
+
+  async getSearchContents(ids: string[]): Promise<SearchContent[]> {
+    return this.getRecordsById<SearchContent>('searchContent', ids);
+  }
+
+  async countSearchDocuments(): Promise<number> {
+    return this.countRecords('searchDocuments');
+  }
+
+  async clearSearchIndex(): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['searchDocuments', 'searchContent', 'searchTerms'], 'readwrite');
+      transaction.objectStore('searchDocuments').clear();
+      transaction.objectStore('searchContent').clear();
+      transaction.objectStore('searchTerms').clear();
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Add a revision and drop the oldest ones beyond `limit`, in one transaction
+  async saveRevision(revision: Revision, limit: number): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const sealed = await this.sealRecord('revisions', revision);
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['revisions'], 'readwrite');
+      const store = transaction.objectStore('revisions');
+      store.put(sealed);
+
+      const request = store.index('itemKey').getAllKeys(revision.itemKey);
+      request.onsuccess = () => {
+        // Keys end in the timestamp, so they sort oldest first for the same item
+        const keys = (request.result as string[]).sort((a, b) => this.revisionTime(a) - this.revisionTime(b));
+        keys.slice(0, Math.max(0, keys.length - limit)).forEach(key => store.delete(key));
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // All kept revisions of an item, oldest first
+  async getRevisions(itemKey: string): Promise<Revision[]> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const revisions = await new Promise<Revision[]>((resolve, reject) => {
+      const transaction = this.db!.transaction(['revisions'], 'readonly');
+      const request = transaction.objectStore('revisions').index('itemKey').getAll(itemKey);
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+
+    const opened = await this.openRecords('revisions', revisions);
+    return opened.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getRevisionsById(ids: string[]): Promise<Revision[]> {
+    return this.getRecordsById<Revision>('revisions', ids);
+  }
+
+  // State Value Operations
+  async saveValue<T>(id: string, value: T): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const sealed = await this.sealRecord<StoredValue>('values', { id, value, timestamp: Date.now() });
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['values'], 'readwrite');
+      const request = transaction.objectStore('values').put(sealed);
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
 
+  // Values older versions kept in chrome.storage.local are moved here on first read
+  async getValue<T>(id: string): Promise<T | null> {
+    const [record] = await this.getRecordsById<StoredValue>('values', [id]);
+    if (record) return record.value;
+
+    const legacy = (await chrome.storage.local.get([id]))[id];
+    if (legacy === undefined) return null;
+
+    await this.saveValue(id, legacy);
+    await chrome.storage.local.remove(id);
+    return legacy;
+  }
+
+  // Visit every record in a store one at a time, so large stores are never loaded whole
+  async forEachRecord<T>(storeName: string, visit: (record: T) => Promise<void>): Promise<number> {
+    let visited = 0;
+    for await (const record of this.iterateRecords<T>(storeName)) {
+      await visit(record);
+      visited++;
+    }
+
+    return visited;
+  }
+
+  // Records in key order, read one per transaction (IndexedDB cursors cannot span awaits)
+  async *iterateRecords<T>(storeName: string): AsyncGenerator<T> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const keys = await this.getAllKeys(storeName);
+
+    for (const key of keys) {
+      const [record] = await this.getRecordsById<T>(storeName, [key]);
+      if (record) {
+        yield record;
+      }
+    }
+  }
+
+  // Crawl task queue
+  async getAllTasks(): Promise<CrawlTask[]> {
+    return this.getAllRecords<CrawlTask>('tasks');
+  }
+
+  async putTasks(tasks: CrawlTask[]): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+    if (tasks.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['tasks'], 'readwrite');
+      const store = transaction.objectStore('tasks');
+      tasks.forEach(task => store.put(task));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Change one task only if it is still in an expected state, writing related tasks (spawned children,
+  // unblocked dependents) in the same transaction. Resolves to the updated task, or null when the state had moved on.
+  async transitionTask(id: string, expected: TaskState[], changes: Partial<CrawlTask>, related: CrawlTask[] = []): Promise<CrawlTask | null> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['tasks'], 'readwrite');
+      const store = transaction.objectStore('tasks');
+      const request = store.get(id);
+      let updated: CrawlTask | null = null;
+
+      request.onsuccess = () => {
+        const task: CrawlTask | undefined = request.result;
+        if (!task || !expected.includes(task.state)) return;
+
+        updated = { ...task, ...changes };
+        store.put(updated);
+        related.forEach(entry => store.put(entry));
+      };
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deleteTasks(ids: string[]): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+    if (ids.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['tasks'], 'readwrite');
+      const store = transaction.objectStore('tasks');
+      ids.forEach(id => store.delete(id));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async clearTasks(): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['tasks'], 'readwrite');
+      const request = transaction.objectStore('tasks').clear();
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // One summary per record, read with a cursor so payloads are never kept or decrypted
+  async summarizeRecords(storeName: SealedStore): Promise<RecordSummary[]> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    const accessTimes = new Map((await this.getAllRecords<{ id: string; lastAccessed: number }>('accessTimes'))
+      .map(entry => [entry.id, entry.lastAccessed]));
+
+    return new Promise((resolve, reject) => {
+      const summaries: RecordSummary[] = [];
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const request = transaction.objectStore(storeName).openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(summaries);
+          return;
+        }
+
+        const record = cursor.value;
+        const timestamp = record.timestamp || 0;
+        const lastAccessed = Math.max(timestamp, this.pendingAccess.get(`${storeName}:${record.id}`) || accessTimes.get(`${storeName}:${record.id}`) || 0);
+        summaries.push({
+          store: storeName,
+          id: record.id,
+          url: typeof record.url === 'string' ? record.url : null,
+          sourceId: typeof record.sourceId === 'string' ? record.sourceId : null,
+          timestamp,
+          lastAccessed,
+          size: typeof record.size === 'number' ? record.size : this.estimateSize(storeName, record)
+        });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Delete records along with their access times and search index entries
+  async deleteRecords(storeName: SealedStore, ids: string[]): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+    if (ids.length === 0) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName, 'accessTimes'], 'readwrite');
+      const store = transaction.objectStore(storeName);
+      const accessStore = transaction.objectStore('accessTimes');
+
+      for (const id of ids) {
+        store.delete(id);
+        accessStore.delete(`${storeName}:${id}`);
+        this.pendingAccess.delete(`${storeName}:${id}`);
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    if (storeName !== 'blobs') {
+      for (const id of ids) {
+        await this.deleteSearchDocument(`${storeName}:${id}`);
+      }
+    }
+  }
+
+  // Payload size of records without a size field, from what is actually stored
+  private estimateSize(storeName: SealedStore, record: any): number {
+    const payload: EncryptedPayload | undefined = record.encrypted;
+    if (payload) return payload.data.byteLength;
+
+    let size = 0;
+    for (const field of SEALED_FIELDS[storeName]) {
+      const value = record[field];
+      if (value instanceof ArrayBuffer) {
+        size += value.byteLength;
+      } else if (typeof value === 'string') {
+        size += value.length;
+      } else if (value !== undefined) {
+        size += JSON.stringify(value).length;
+      }
+    }
+    return size;
+  }
+
+  // Remember reads for least-recently-used eviction; written in batches
+  private touchRecords(storeName: SealedStore, ids: string[]): void {
+    const now = Date.now();
+    for (const id of ids) {
+      this.pendingAccess.set(`${storeName}:${id}`, now);
+    }
+
+    if (!this.accessFlushTimer) {
+      this.accessFlushTimer = setTimeout(() => {
+        this.accessFlushTimer = null;
+        this.flushAccessTimes().catch(error => console.error('[StorageManager] Failed to save access times:', error));
+      }, ACCESS_FLUSH_DELAY);
+    }
+  }
+
+  private async flushAccessTimes(): Promise<void> {
+    if (!this.db || this.pendingAccess.size === 0) return;
+
+    const entries = Array.from(this.pendingAccess.entries());
+    this.pendingAccess.clear();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction(['accessTimes'], 'readwrite');
+      const store = transaction.objectStore('accessTimes');
+      for (const [id, lastAccessed] of entries) {
+        store.put({ id, lastAccessed });
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Check for a record by key without reading its value
+  async hasRecord(storeName: string, id: string): Promise<boolean> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const request = transaction.objectStore(storeName).count(id);
+
+      request.onsuccess = () => resolve(request.result > 0);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async countRecords(storeName: string): Promise<number> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const request = transaction.objectStore(storeName).count();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Listeners run after a searchable record is written; failures never affect the save
+  onRecordSaved(listener: RecordSavedListener): void {
+    this.recordSavedListeners.push(listener);
+  }
+
+  private notifyRecordSaved(store: SearchableStore, record: HtmlSnapshot | StructuredData | ExtractedText): void {
+    for (const listener of this.recordSavedListeners) {
+      Promise.resolve()
+        .then(() => listener(store, record))
+        .catch(error => console.error(`[StorageManager] Record listener failed for ${store}:`, error));
+    }
+  }
+
+  private updatePostings(transaction: IDBTransaction, documentId: string, previous: Record<string, number>, next: Record<string, number>): void {
+    const store = transaction.objectStore('searchTerms');
+    const terms = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+    for (const term of terms) {
+      if (previous[term] === next[term]) continue;
+
+      const request = store.get(term);
+      request.onsuccess = () => {
+        const posting: SearchPosting = request.result || { term, docs: {} };
+        if (next[term]) {
+          posting.docs[documentId] = next[term];
+        } else {
+          delete posting.docs[documentId];
+        }
+
+        if (Object.keys(posting.docs).length > 0) {
+          store.put(posting);
+        } else {
+          store.delete(term);
+        }
+      };
+    }
+  }
+
+  // Postings are only kept while encryption is off and no encryption change is pending
+  private keepsPostings(): boolean {
+    return !storageCrypto.isEnabled();
+  }
+
+  // Postings for the given terms, read from the (decrypted) stored term frequencies
+  private async scanSearchPostings(terms: string[]): Promise<Map<string, Record<string, number>>> {
+    const postings = new Map<string, Record<string, number>>();
+    for await (const content of this.iterateRecords<SearchContent>('searchContent')) {
+      for (const term of terms) {
+        const frequency = content.terms?.[term];
+        if (frequency) {
+          postings.set(term, { ...postings.get(term), [content.id]: frequency });
+        }
+      }
+    }
+    return postings;
+  }
+
+  private async clearSearchPostings(): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['searchTerms'], 'readwrite');
+      const request = transaction.objectStore('searchTerms').clear();
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Rebuild every posting from stored term frequencies, in one transaction so concurrent index updates stay consistent
+  private async rebuildSearchPostings(): Promise<void> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['searchContent', 'searchTerms'], 'readwrite');
+      const termStore = transaction.objectStore('searchTerms');
+      const postings = new Map<string, Record<string, number>>();
+      termStore.clear();
+
+      const request = transaction.objectStore('searchContent').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          postings.forEach((docs, term) => termStore.put({ term, docs }));
+          return;
+        }
+
+        const content: SearchContent = cursor.value;
+        for (const [term, frequency] of Object.entries(content.terms || {})) {
+          const docs = postings.get(term) || {};
+          docs[content.id] = frequency;
+          postings.set(term, docs);
+        }
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private revisionTime(id: string): number {
+    return Number(id.slice(id.lastIndexOf('@') + 1)) || 0;
+  }
+
+  private async getRecordsById<T>(storeName: string, ids: IDBValidKey[]): Promise<T[]> {
+    const records = await this.getRawRecordsById<T>(storeName, ids);
+    return storeName in SEALED_FIELDS ? this.openRecords(storeName as SealedStore, records) : records;
+  }
+
+  // Records as stored, still encrypted when encryption is on
+  private async getRawRecordsById<T>(storeName: string, ids: IDBValidKey[]): Promise<T[]> {
+    if (!this.db) throw new Error('IndexedDB not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+      const records: Array<T | undefined> = new Array(ids.length);
+
+      ids.forEach((id, index) => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          records[index] = request.result;
+        };
+      });
+
+      transaction.oncomplete = () => resolve(records.filter((record): record is T => record !== undefined));
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Encryption at rest
+  // Rewrite every sealed record for the pending encryption task (encrypt, re-encrypt under a new PIN, or decrypt).
+  // Resumable: records already in the target form are skipped, so an interrupted task just runs again.
+  runEncryptionTask(): Promise<void> {
+    if (!this.encryptionTask) {
+      this.encryptionTask = this.rewriteSealedStores().finally(() => {
+        this.encryptionTask = null;
+        this.encryptionProgress = null;
+      });
+    }
+    return this.encryptionTask;
+  }
+
+  getEncryptionProgress(): { processed: number; total: number } | null {
+    return this.encryptionProgress ? { ...this.encryptionProgress } : null;
+  }
+
+  private async rewriteSealedStores(): Promise<void> {
+    await storageCrypto.ready();
+    const task = storageCrypto.pendingTask();
+    if (!task || !this.db || storageCrypto.isLocked()) return;
+
+    const stores = Object.keys(SEALED_FIELDS) as SealedStore[];
+    const keysByStore = new Map<SealedStore, IDBValidKey[]>();
+    for (const storeName of stores) {
+      keysByStore.set(storeName, await this.getAllKeys(storeName));
+    }
+
+    const total = Array.from(keysByStore.values()).reduce((sum, keys) => sum + keys.length, 0);
+    this.encryptionProgress = { processed: 0, total };
+    console.log(`[StorageManager] Running encryption task '${task}' over ${total} records`);
+
+    const targetKeyId = storageCrypto.isActive() ? storageCrypto.currentKeyId() : null;
+    if (targetKeyId) {
+      await this.clearSearchPostings();
+    }
+
+    for (const storeName of stores) {
+      for (const key of keysByStore.get(storeName)!) {
+        const [record] = await this.getRawRecordsById<any>(storeName, [key]);
+        const payload: EncryptedPayload | undefined = record?.encrypted;
+
+        if (record && (payload?.keyId || null) !== targetKeyId) {
+          const opened = await this.openRecord(storeName, record);
+          await this.replaceUnchanged(storeName, key, record, await this.sealRecord(storeName, opened));
+        }
+        this.encryptionProgress.processed++;
+      }
+    }
+
+    // Every term frequency is plaintext again; restore the postings before search stops scanning for them
+    if (!targetKeyId) {
+      await this.rebuildSearchPostings();
+    }
+
+    await storageCrypto.completePendingTask();
+    console.log(`[StorageManager] Encryption task '${task}' finished`);
+  }
+
+  // Replace a record's sensitive fields with one encrypted payload
+  private async sealRecord<T>(storeName: SealedStore, record: T): Promise<T> {
+    if (!storageCrypto.isActive()) return record;
+
+    const source = record as any;
+    if (storeName === 'blobs') {
+      return { ...source, data: new ArrayBuffer(0), encrypted: await storageCrypto.encrypt(source.data) };
+    }
+
+    const fields: Record<string, unknown> = {};
+    const sealed: any = { ...source };
+    for (const field of SEALED_FIELDS[storeName]) {
+      fields[field] = source[field];
+      delete sealed[field];
+    }
+    sealed.encrypted = await storageCrypto.encrypt(new TextEncoder().encode(JSON.stringify(fields)));
+    return sealed;
+  }
+
+  // Plaintext records pass through untouched, so partly encrypted stores stay readable
+  private async openRecord<T>(storeName: SealedStore, record: T | null): Promise<T | null> {
+    const payload: EncryptedPayload | undefined = (record as any)?.encrypted;
+    if (!payload) return record;
+
+    const { encrypted: _encrypted, ...rest } = record as any;
+    const plain = await storageCrypto.decrypt(payload);
+    if (storeName === 'blobs') {
+      return { ...rest, data: plain };
+    }
+    return { ...rest, ...JSON.parse(new TextDecoder().decode(plain)) };
+  }
+
+  private async openRecords<T>(storeName: SealedStore, records: T[]): Promise<T[]> {
+    const opened: T[] = [];
+    for (const record of records) {
+      opened.push((await this.openRecord(storeName, record))!);
+    }
+    return opened;
+  }
+
+  private async getAllKeys(storeName: string): Promise<IDBValidKey[]> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const request = transaction.objectStore(storeName).getAllKeys();
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Write a rewritten record only if the stored one is still what was read; records saved or deleted
+  // while the rewrite awaited the cipher are already in their target form and must not be overwritten
+  private async replaceUnchanged(storeName: string, key: IDBValidKey, read: any, record: unknown): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readwrite');
+      const store = transaction.objectStore(storeName);
+      const request = store.get(key);
+
+      request.onsuccess = () => {
+        if (request.result && this.sameSealing(request.result.encrypted, read.encrypted)) {
+          store.put(record);
+        }
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Every encryption uses a fresh IV, so equal IVs mean the same stored payload
+  private sameSealing(a: EncryptedPayload | undefined, b: EncryptedPayload | undefined): boolean {
+    if (!a || !b) return !a && !b;
+    return a.keyId === b.keyId && a.iv.length === b.iv.length && a.iv.every((byte, index) => byte === b.iv[index]);
+  }
+
   // Chrome Storage Operations
   async getStudentIndex(): Promise<StorageSchema['studentIndex']> {
     const result = await chrome.storage.local.get(['canvasStorageSchema']);
@@ -302,6 +1292,30 @@ export class StorageManager {
     await chrome.storage.local.set({ canvasStorageSchema: schema });
   }
 
+  // Merge course index entries from another installation; local sync state (ETags, hashes) wins where both exist
+  async mergeCourseIndex(imported: StorageSchema['courseIndex']): Promise<void> {
+    const result = await chrome.storage.local.get(['canvasStorageSchema']);
+    const schema = result.canvasStorageSchema as StorageSchema;
+
+    for (const [courseId, entry] of Object.entries(imported)) {
+      const local = schema.courseIndex[courseId];
+      if (!local) {
+        schema.courseIndex[courseId] = entry;
+        continue;
+      }
+
+      for (const [collection, info] of Object.entries(entry.collections)) {
+        const existing = local.collections[collection];
+        local.collections[collection] = existing
+          ? { ...existing, itemIds: Array.from(new Set([...existing.itemIds, ...info.itemIds])) }
+          : info;
+      }
+      local.lastUpdated = Math.max(local.lastUpdated, entry.lastUpdated);
+    }
+
+    await chrome.storage.local.set({ canvasStorageSchema: schema });
+  }
+
   // Utility Methods
   isReady(): boolean {
     return this.isInitialized && this.db !== null;
@@ -310,7 +1324,7 @@ export class StorageManager {
   async clearAllData(): Promise<void> {
     // Clear IndexedDB
     if (this.db) {
-      const stores = ['htmlSnapshots', 'structured', 'extractedText', 'blobs'];
+      const stores = ['htmlSnapshots', 'structured', 'extractedText', 'blobs', 'searchDocuments', 'searchContent', 'searchTerms', 'revisions', 'values', 'accessTimes', 'tasks'];
       for (const storeName of stores) {
         const transaction = this.db.transaction([storeName], 'readwrite');
         const store = transaction.objectStore(storeName);
@@ -322,8 +1336,9 @@ export class StorageManager {
       }
     }
 
-    // Clear Chrome storage
+    // Clear Chrome storage; the encryption key goes with the data it protected
     await chrome.storage.local.clear();
+    await storageCrypto.reset();
     
     // Reinitialize
     await this.initialize();
@@ -362,6 +1377,10 @@ export class StorageManager {
       });
     }
 
+    // Everything the extension stores, as the browser counts it
+    const estimate = await navigator.storage.estimate();
+    stats.totalSize = estimate.usage || 0;
+
     return stats;
   }
 }
@@ -3,6 +3,7 @@
 
 import { storageManager } from './storageManager';
 import { Course, StudentIndex } from './courseDiscovery';
+import { hostContext, HostContext } from './hostContext';
 
 export interface CourseIndexEntry {
   course: Course;
@@ -27,11 +28,11 @@ export interface CourseIndexEntry {
 }
 
 export class StudentIndexManager {
-  private canvasHost: string;
+  private canvasHost: string | null;
   private currentIndex: StudentIndex | null = null;
 
-  constructor(canvasHost = 'https://canvas.instructure.com') {
-    this.canvasHost = canvasHost;
+  constructor(canvasHost?: string) {
+    this.canvasHost = canvasHost ? HostContext.normalizeHost(canvasHost) : null;
   }
 
   // Load or create student index
@@ -40,7 +41,9 @@ export class StudentIndexManager {
       const result = await chrome.storage.local.get(['studentIndex']);
       const stored = result.studentIndex;
       
-      if (stored && stored.canvasHost === this.canvasHost) {
+      // Until auth confirms a host, keep whatever index we already have
+      const hostConfirmed = this.canvasHost !== null || hostContext.hasAuthenticatedHost();
+      if (stored && (stored.canvasHost === this.getCanvasHost() || !hostConfirmed)) {
         this.currentIndex = stored;
         console.log(`[StudentIndex] Loaded existing index with ${Object.keys(stored.courses).length} courses`);
         return stored;
@@ -90,11 +93,7 @@ export class StudentIndexManager {
 
     // Update index metadata
     this.currentIndex!.lastSync = Date.now();
-    this.currentIndex!.totalCourses = Object.keys(this.currentIndex!.courses).length;
-    this.currentIndex!.activeCourses = Object.values(this.currentIndex!.courses)
-      .filter(c => c.status === 'active').length;
-    this.currentIndex!.completedCourses = Object.values(this.currentIndex!.courses)
-      .filter(c => c.status === 'completed').length;
+    this.refreshCounts();
 
     await this.saveStudentIndex();
 
@@ -277,7 +276,7 @@ export class StudentIndexManager {
   async importIndex(index: StudentIndex): Promise<void> {
     this.currentIndex = {
       ...index,
-      canvasHost: this.canvasHost, // Ensure host matches
+      canvasHost: this.getCanvasHost(), // Ensure host matches
       lastSync: Date.now()
     };
     
@@ -285,11 +284,61 @@ export class StudentIndexManager {
     console.log(`[StudentIndex] Imported index with ${Object.keys(index.courses).length} courses`);
   }
 
+  // Merge courses from another installation's index; the more recently updated copy of each course wins
+  async mergeIndex(index: StudentIndex): Promise<{ added: number; updated: number }> {
+    if (!this.currentIndex) {
+      await this.loadStudentIndex();
+    }
+
+    let added = 0;
+    let updated = 0;
+
+    for (const course of Object.values(index.courses)) {
+      const existing = this.currentIndex!.courses[course.id];
+
+      if (!existing) {
+        this.currentIndex!.courses[course.id] = course;
+        added++;
+      } else if (course.updatedAt > existing.updatedAt) {
+        this.currentIndex!.courses[course.id] = {
+          ...existing,
+          ...course,
+          discoveredAt: Math.min(existing.discoveredAt, course.discoveredAt)
+        };
+        updated++;
+      }
+    }
+
+    if (this.currentIndex!.userId === 'unknown' && index.userId !== 'unknown') {
+      this.currentIndex!.userId = index.userId;
+      this.currentIndex!.userName = index.userName;
+    }
+
+    this.refreshCounts();
+    await this.saveStudentIndex();
+
+    console.log(`[StudentIndex] Merged index: ${added} courses added, ${updated} updated`);
+    return { added, updated };
+  }
+
   // Private methods
+  private refreshCounts(): void {
+    if (!this.currentIndex) return;
+
+    const courses = Object.values(this.currentIndex.courses);
+    this.currentIndex.totalCourses = courses.length;
+    this.currentIndex.activeCourses = courses.filter(c => c.status === 'active').length;
+    this.currentIndex.completedCourses = courses.filter(c => c.status === 'completed').length;
+  }
+
+  private getCanvasHost(): string {
+    return this.canvasHost || hostContext.getHost();
+  }
+
   private createEmptyIndex(): StudentIndex {
     return {
       userId: 'unknown', // Will be populated when we can detect user
-      canvasHost: this.canvasHost,
+      canvasHost: this.getCanvasHost(),
       courses: {},
       lastSync: Date.now(),
       totalCourses: 0,
@@ -0,0 +1,129 @@
+// Zip Reader for Canvas Scraper
+// Random-access reader for ZIP archives held in a Blob; entries are decompressed as streams
+
+export interface ZipReaderEntry {
+  name: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number; // Local header position
+}
+
+const END_OF_DIRECTORY = 0x06054b50;
+const CENTRAL_HEADER = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+export class ZipReader {
+  private blob: Blob;
+  private entries: Map<string, ZipReaderEntry>;
+
+  private constructor(blob: Blob, entries: Map<string, ZipReaderEntry>) {
+    this.blob = blob;
+    this.entries = entries;
+  }
+
+  // Locate the central directory from the end of the archive and list its entries
+  static async open(blob: Blob): Promise<ZipReader> {
+    const tailSize = Math.min(blob.size, 22 + 0xffff); // End record plus the longest possible comment
+    const tail = new DataView(await blob.slice(blob.size - tailSize).arrayBuffer());
+
+    let end = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+      if (tail.getUint32(i, true) === END_OF_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) throw new Error('Not a zip archive');
+
+    const count = tail.getUint16(end + 10, true);
+    const directorySize = tail.getUint32(end + 12, true);
+    const directoryOffset = tail.getUint32(end + 16, true);
+    if (count === 0xffff || directoryOffset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+    const directory = new DataView(await blob.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+    const decoder = new TextDecoder();
+    const entries = new Map<string, ZipReaderEntry>();
+    let position = 0;
+
+    for (let i = 0; i < count; i++) {
+      if (directory.getUint32(position, true) !== CENTRAL_HEADER) throw new Error('Corrupt zip central directory');
+
+      const nameLength = directory.getUint16(position + 28, true);
+      const extraLength = directory.getUint16(position + 30, true);
+      const commentLength = directory.getUint16(position + 32, true);
+      const name = decoder.decode(new Uint8Array(directory.buffer, position + 46, nameLength));
+
+      entries.set(name, {
+        name,
+        method: directory.getUint16(position + 10, true),
+        crc: directory.getUint32(position + 16, true),
+        compressedSize: directory.getUint32(position + 20, true),
+        size: directory.getUint32(position + 24, true),
+        offset: directory.getUint32(position + 42, true)
+      });
+
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return new ZipReader(blob, entries);
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  async stream(name: string): Promise<ReadableStream<Uint8Array<ArrayBuffer>>> {
+    const entry = this.entries.get(name);
+    if (!entry) throw new Error(`Archive has no entry ${name}`);
+
+    // The local header's name and extra fields can differ in length from the central directory's
+    const header = new DataView(await this.blob.slice(entry.offset, entry.offset + 30).arrayBuffer());
+    if (header.getUint32(0, true) !== LOCAL_HEADER) throw new Error(`Corrupt zip entry ${name}`);
+
+    const start = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = this.blob.slice(start, start + entry.compressedSize).stream();
+
+    switch (entry.method) {
+      case 0:
+        return data;
+      case 8:
+        return data.pipeThrough(new DecompressionStream('deflate-raw'));
+      default:
+        throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+    }
+  }
+
+  async bytes(name: string): Promise<ArrayBuffer> {
+    return new Response(await this.stream(name)).arrayBuffer();
+  }
+
+  async text(name: string): Promise<string> {
+    return new Response(await this.stream(name)).text();
+  }
+
+  // Decoded text of an entry, one line at a time
+  async *lines(name: string): AsyncGenerator<string> {
+    const reader = (await this.stream(name)).pipeThrough(new TextDecoderStream()).getReader();
+    let pending = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      pending += value;
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      yield* lines;
+    }
+
+    if (pending) {
+      yield pending;
+    }
+  }
+}
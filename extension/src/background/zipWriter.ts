@@ -0,0 +1,271 @@
+// Zip Writer for Canvas Scraper
+// Writes ZIP archives entry by entry into a chunked sink, so archives never have to fit in memory
+
+export type ZipSink = (chunk: Uint8Array) => Promise<void>;
+
+export type ZipContent = string | Uint8Array | AsyncIterable<string | Uint8Array>;
+
+export interface ZipEntryOptions {
+  compress?: boolean; // Deflate the entry; in-memory content may be stored as-is instead
+  modifiedAt?: number;
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  method: number;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+}
+
+// Without ZIP64 records, sizes, offsets and the entry count are limited
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export class ZipWriter {
+  private encoder = new TextEncoder();
+  private entries: CentralEntry[] = [];
+  private buffer: Uint8Array[] = [];
+  private buffered = 0;
+  private offset = 0;
+  private finished = false;
+  private sink: ZipSink;
+  private chunkSize: number;
+
+  constructor(sink: ZipSink, chunkSize = 4 * 1024 * 1024) {
+    this.sink = sink;
+    this.chunkSize = chunkSize;
+  }
+
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  get entryCount(): number {
+    return this.entries.length;
+  }
+
+  async addEntry(path: string, content: ZipContent, options: ZipEntryOptions = {}): Promise<void> {
+    if (this.finished) throw new Error('Archive already finished');
+    if (this.entries.length >= MAX_ENTRIES) throw new Error(`Archive exceeds ${MAX_ENTRIES} entries`);
+
+    const compress = options.compress ?? true;
+    const streamed = typeof content !== 'string' && !(content instanceof Uint8Array);
+    if (!compress && streamed) throw new Error('Streamed entries must be compressed');
+
+    const { dosTime, dosDate } = this.toDosDateTime(options.modifiedAt ?? Date.now());
+    const entry: CentralEntry = {
+      name: this.encoder.encode(path.replace(/^\/+/, '')),
+      method: compress ? METHOD_DEFLATE : METHOD_STORE,
+      flags: FLAG_UTF8 | (compress ? FLAG_DATA_DESCRIPTOR : 0),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+      dosTime,
+      dosDate
+    };
+
+    if (compress) {
+      // Sizes and CRC are unknown until the data has streamed through, so they follow in a data descriptor
+      await this.write(this.localHeader(entry));
+      await this.writeDeflated(entry, streamed ? content as AsyncIterable<string | Uint8Array> : this.single(content as string | Uint8Array));
+      await this.write(this.dataDescriptor(entry));
+    } else {
+      const data = typeof content === 'string' ? this.encoder.encode(content) : content as Uint8Array;
+      entry.crc = this.crc32(0, data);
+      entry.size = data.length;
+      entry.compressedSize = data.length;
+      await this.write(this.localHeader(entry));
+      await this.write(data);
+    }
+
+    if (this.offset > MAX_OFFSET) throw new Error('Archive exceeds 4 GB');
+    this.entries.push(entry);
+  }
+
+  // Write the central directory and flush everything to the sink
+  async finish(): Promise<{ entries: number; bytes: number }> {
+    if (this.finished) throw new Error('Archive already finished');
+    this.finished = true;
+
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      await this.write(this.centralHeader(entry));
+    }
+
+    const directorySize = this.offset - directoryOffset;
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryOffset, true);
+    await this.write(new Uint8Array(end.buffer));
+
+    await this.flush();
+    return { entries: this.entries.length, bytes: this.offset };
+  }
+
+  private async writeDeflated(entry: CentralEntry, content: AsyncIterable<string | Uint8Array>): Promise<void> {
+    const stream = new CompressionStream('deflate-raw');
+    const writer = stream.writable.getWriter();
+    const reader = stream.readable.getReader();
+
+    // Drain compressed output while input is still being written, or backpressure stalls both sides
+    const draining = (async () => {
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          entry.compressedSize += value.length;
+          await this.write(value);
+        }
+      } catch (error) {
+        // A failing sink must also fail pending writes on the input side
+        await reader.cancel(error).catch(() => undefined);
+        throw error;
+      }
+    })();
+    draining.catch(() => undefined);
+
+    try {
+      for await (const part of content) {
+        const data = typeof part === 'string' ? this.encoder.encode(part) : part;
+        if (data.length === 0) continue;
+
+        entry.crc = this.crc32(entry.crc, data);
+        entry.size += data.length;
+        await writer.write(data as BufferSource);
+      }
+      await writer.close();
+    } catch (error) {
+      await writer.abort(error).catch(() => undefined);
+      throw error;
+    } finally {
+      await draining;
+    }
+  }
+
+  private localHeader(entry: CentralEntry): Uint8Array {
+    const header = new DataView(new ArrayBuffer(30 + entry.name.length));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // Version needed: 2.0
+    header.setUint16(6, entry.flags, true);
+    header.setUint16(8, entry.method, true);
+    header.setUint16(10, entry.dosTime, true);
+    header.setUint16(12, entry.dosDate, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.compressedSize, true);
+    header.setUint32(22, entry.size, true);
+    header.setUint16(26, entry.name.length, true);
+
+    const bytes = new Uint8Array(header.buffer);
+    bytes.set(entry.name, 30);
+    return bytes;
+  }
+
+  private dataDescriptor(entry: CentralEntry): Uint8Array {
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, 0x08074b50, true);
+    descriptor.setUint32(4, entry.crc, true);
+    descriptor.setUint32(8, entry.compressedSize, true);
+    descriptor.setUint32(12, entry.size, true);
+    return new Uint8Array(descriptor.buffer);
+  }
+
+  private centralHeader(entry: CentralEntry): Uint8Array {
+    const header = new DataView(new ArrayBuffer(46 + entry.name.length));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true); // Version made by
+    header.setUint16(6, 20, true); // Version needed
+    header.setUint16(8, entry.flags, true);
+    header.setUint16(10, entry.method, true);
+    header.setUint16(12, entry.dosTime, true);
+    header.setUint16(14, entry.dosDate, true);
+    header.setUint32(16, entry.crc, true);
+    header.setUint32(20, entry.compressedSize, true);
+    header.setUint32(24, entry.size, true);
+    header.setUint16(28, entry.name.length, true);
+    header.setUint32(42, entry.offset, true);
+
+    const bytes = new Uint8Array(header.buffer);
+    bytes.set(entry.name, 46);
+    return bytes;
+  }
+
+  // Buffer small writes and hand the sink chunks of at most chunkSize bytes; large entries are split across chunks
+  private async write(data: Uint8Array): Promise<void> {
+    this.offset += data.length;
+
+    let position = 0;
+    while (position < data.length) {
+      const piece = data.subarray(position, position + this.chunkSize - this.buffered);
+      this.buffer.push(piece);
+      this.buffered += piece.length;
+      position += piece.length;
+
+      if (this.buffered >= this.chunkSize) {
+        await this.flush();
+      }
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.buffered === 0) return;
+
+    const chunk = new Uint8Array(this.buffered);
+    let position = 0;
+    for (const part of this.buffer) {
+      chunk.set(part, position);
+      position += part.length;
+    }
+
+    this.buffer = [];
+    this.buffered = 0;
+    await this.sink(chunk);
+  }
+
+  private crc32(crc: number, data: Uint8Array): number {
+    let c = crc ^ 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+    }
+    return (c ^ 0xffffffff) >>> 0;
+  }
+
+  private toDosDateTime(timestamp: number): { dosTime: number; dosDate: number } {
+    const date = new Date(timestamp);
+    const year = Math.max(date.getFullYear(), 1980);
+
+    return {
+      dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+      dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+  }
+
+  private async *single(content: string | Uint8Array): AsyncIterable<string | Uint8Array> {
+    yield content;
+  }
+}
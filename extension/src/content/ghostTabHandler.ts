@@ -8,7 +8,7 @@ export interface PageReadyOptions {
 }
 
 export interface AutomationAction {
-  type: 'click' | 'scroll' | 'wait' | 'expand';
+  type: 'click' | 'scroll' | 'wait' | 'expand' | 'expandAll' | 'scrollToEnd';
   selector?: string;
   timeout?: number;
   value?: string | number;
@@ -24,6 +24,7 @@ export interface ContentExtractor {
 export class GhostTabHandler {
   private isGhostTab = false;
   private requestId: string | null = null;
+  private scrollResult: { rounds: number; exhausted: boolean } | null = null;
 
   constructor() {
     this.initializeGhostTabHandling();
@@ -77,6 +78,7 @@ export class GhostTabHandler {
 
   private async handleExecutionRequest(request: any): Promise<void> {
     this.requestId = request.id;
+    this.scrollResult = null;
     console.log('[GhostTabHandler] Received execution request:', request.id);
 
     try {
@@ -109,6 +111,7 @@ export class GhostTabHandler {
       this.sendMessage('GHOST_TAB_COMPLETE', {
         html,
         extractedData,
+        scroll: this.scrollResult,
         url: window.location.href,
         title: document.title
       });
@@ -202,6 +205,12 @@ export class GhostTabHandler {
       case 'expand':
         await this.expandContent(action.selector);
         break;
+      case 'scrollToEnd':
+        await this.scrollToEnd(action.value as number || 10, action.selector);
+        break;
+      case 'expandAll':
+        await this.expandRepeatedly(action.selector!, action.value as number || 10);
+        break;
       default:
         console.warn(`Unknown action type: ${action.type}`);
     }
@@ -255,6 +264,48 @@ export class GhostTabHandler {
     }
   }
 
+  // Scroll an infinite list (the page or a container) until it stops growing or the round limit is hit
+  private async scrollToEnd(maxRounds: number, selector?: string): Promise<void> {
+    const container = selector ? document.querySelector(selector) as HTMLElement | null : null;
+    const target = container || document.scrollingElement as HTMLElement || document.body;
+    let lastHeight = -1;
+    let rounds = 0;
+
+    while (rounds < maxRounds) {
+      const height = target.scrollHeight;
+      if (height === lastHeight) {
+        this.scrollResult = { rounds, exhausted: true };
+        return;
+      }
+
+      lastHeight = height;
+      rounds++;
+      target.scrollTo({ top: height });
+      await this.wait(1500); // Wait for the next batch to render
+    }
+
+    this.scrollResult = { rounds, exhausted: target.scrollHeight === lastHeight };
+  }
+
+  // Keep clicking "load more"/"show replies" controls until none are left or the round limit is hit
+  private async expandRepeatedly(selector: string, maxRounds: number): Promise<void> {
+    for (let round = 0; round < maxRounds; round++) {
+      const controls = Array.from(document.querySelectorAll(selector)).filter(element =>
+        element instanceof HTMLElement &&
+        element.offsetParent !== null &&
+        element.getAttribute('aria-expanded') !== 'true' &&
+        !element.hasAttribute('disabled')
+      ) as HTMLElement[];
+
+      if (controls.length === 0) return;
+
+      for (const control of controls) {
+        control.click();
+        await this.wait(1000); // Wait for replies to load
+      }
+    }
+  }
+
   private extractContent(extractor: ContentExtractor): any {
     const elements = extractor.multiple 
       ? document.querySelectorAll(extractor.selector)
@@ -0,0 +1,114 @@
+// Daily Digest page script
+// Lists stored digests, shows the selected one and exports it as HTML or Markdown
+
+import { digestRenderer } from '../background/digestRenderer';
+import type { Digest, DigestListResult, DigestResult, DigestSummary } from '../background/dailyDigest';
+
+let current: Digest | null = null;
+
+function selectedId(): string | null {
+  return location.hash.length > 1 ? decodeURIComponent(location.hash.slice(1)) : null;
+}
+
+async function loadHistory() {
+  const el = document.getElementById('history');
+  if (!el) return;
+
+  const result: DigestListResult = await chrome.runtime.sendMessage({ type: 'GET_DIGESTS' });
+  if (!result?.success) {
+    el.innerHTML = '<span class="red"></span>';
+    el.querySelector('span')!.textContent = `Could not load digests: ${result?.error || 'unknown error'}`;
+    return;
+  }
+  if (!result.digests.length) {
+    el.textContent = 'No digests yet';
+    return;
+  }
+
+  const list = document.createElement('ul');
+  list.className = 'digests';
+  list.append(...result.digests.map(renderSummary));
+  el.replaceChildren(list);
+}
+
+function renderSummary(summary: DigestSummary): HTMLElement {
+  const li = document.createElement('li');
+  li.dataset.id = summary.id;
+  li.classList.toggle('active', summary.id === (selectedId() || current?.id));
+
+  const a = document.createElement('a');
+  a.href = `#${encodeURIComponent(summary.id)}`;
+  a.textContent = new Date(summary.generatedAt).toLocaleString();
+
+  const meta = document.createElement('div');
+  meta.className = 'muted';
+  const { newItems, updatedItems, grades, files, deadlines } = summary.totals;
+  meta.textContent = `${newItems} new · ${updatedItems} updated · ${grades} grades · ${files} files · ${deadlines} due`;
+
+  li.append(a, meta);
+  return li;
+}
+
+async function showDigest(id: string | null) {
+  const el = document.getElementById('digest')!;
+  const result: DigestResult = await chrome.runtime.sendMessage({ type: 'GET_DIGEST', id });
+
+  current = result?.success ? result.digest || null : null;
+  (document.getElementById('exportHtmlBtn') as HTMLButtonElement).disabled = !current;
+  (document.getElementById('exportMarkdownBtn') as HTMLButtonElement).disabled = !current;
+  document.querySelectorAll<HTMLElement>('.digests li')
+    .forEach(li => li.classList.toggle('active', li.dataset.id === current?.id));
+
+  if (!current) {
+    el.className = 'muted';
+    el.textContent = id ? 'This digest is no longer stored.' : 'No digest yet. Digests are built daily, or use "Build digest now".';
+    return;
+  }
+
+  el.className = '';
+  el.innerHTML = digestRenderer.toHtmlBody(current);
+}
+
+async function generate() {
+  const btn = document.getElementById('generateBtn') as HTMLButtonElement;
+  const status = document.getElementById('status')!;
+  btn.disabled = true;
+  status.textContent = 'Building…';
+  try {
+    const result: DigestResult = await chrome.runtime.sendMessage({ type: 'GENERATE_DIGEST' });
+    if (result?.success && result.digest) {
+      status.textContent = '';
+      await loadHistory();
+      location.hash = encodeURIComponent(result.digest.id);
+    } else {
+      status.innerHTML = '<span class="red"></span>';
+      status.querySelector('span')!.textContent = `Could not build digest: ${result?.error || 'unknown error'}`;
+    }
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+function exportDigest(format: 'html' | 'md') {
+  if (!current) return;
+
+  const content = format === 'html' ? digestRenderer.toHtml(current) : digestRenderer.toMarkdown(current);
+  const type = format === 'html' ? 'text/html' : 'text/markdown';
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `canvas-digest-${new Date(current.generatedAt).toISOString().slice(0, 10)}.${format}`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
+window.addEventListener('hashchange', () => showDigest(selectedId()));
+
+document.addEventListener('DOMContentLoaded', async () => {
+  document.getElementById('generateBtn')?.addEventListener('click', generate);
+  document.getElementById('exportHtmlBtn')?.addEventListener('click', () => exportDigest('html'));
+  document.getElementById('exportMarkdownBtn')?.addEventListener('click', () => exportDigest('md'));
+  await loadHistory();
+  await showDigest(selectedId());
+});
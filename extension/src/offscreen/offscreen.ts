@@ -0,0 +1,400 @@
+// Offscreen Document for Canvas Scraper
+// Runs file parsing jobs for the service worker where DOM and worker APIs exist
+
+import { getDocument, GlobalWorkerOptions, PDFDateString } from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { createWorker } from 'tesseract.js';
+import type { Worker as OcrWorker } from 'tesseract.js';
+import type {
+  ArchiveResult,
+  DiscussionParseResult,
+  GradesParseResult,
+  MarkdownConversionResult,
+  ModulesParseResult,
+  OcrOptions,
+  OcrPageResult,
+  OcrResult,
+  OffscreenRequest,
+  PdfDocumentMetadata,
+  PdfExtractionResult,
+  PdfPageText,
+  RubricParseResult
+} from '../background/offscreenClient';
+import { ContentUtils } from '../background/contentUtils';
+import { discussionParser } from '../background/discussionParser';
+import { rubricParser } from '../background/rubricParser';
+import { gradesParser } from '../background/gradesParser';
+import { moduleParser } from '../background/moduleParser';
+import { markdownConverter } from '../background/markdownConverter';
+import type { MarkdownSource } from '../background/markdownConverter';
+
+GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('offscreen/pdf.worker.mjs');
+
+// Resolution used when rasterizing scanned PDF pages for OCR
+const OCR_RENDER_SCALE = 2;
+
+class OcrTimeoutError extends Error {
+  constructor() {
+    super('OCR time budget exceeded');
+    this.name = 'OcrTimeoutError';
+  }
+}
+
+class OffscreenHandler {
+  // Tesseract workers are expensive to start, so keep one per language
+  private ocrWorkers = new Map<string, Promise<OcrWorker>>();
+  // Export archives being assembled, as blob parts, and the URLs of finished ones
+  private archiveParts = new Map<string, Blob[]>();
+  private archiveUrls = new Map<string, string>();
+
+  constructor() {
+    chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+      if (message?.target !== 'offscreen') return false;
+
+      this.handleRequest(message as OffscreenRequest).then(sendResponse);
+      return true; // Keep the message channel open for the async response
+    });
+  }
+
+  private async handleRequest(request: OffscreenRequest): Promise<unknown> {
+    switch (request.type) {
+      case 'EXTRACT_PDF_TEXT':
+        return this.extractPdfText(request.data);
+      case 'OCR_IMAGE':
+        return this.ocrImage(request.data, request.mimeType, request.options);
+      case 'OCR_PDF_PAGES':
+        return this.ocrPdfPages(request.data, request.pageNumbers, request.options);
+      case 'PARSE_DISCUSSION':
+        return this.parseDiscussion(request.html);
+      case 'PARSE_RUBRIC':
+        return this.parseRubric(request.html);
+      case 'PARSE_GRADES':
+        return this.parseGrades(request.html, request.pageUrl);
+      case 'PARSE_MODULES':
+        return this.parseModules(request.html, request.pageUrl);
+      case 'CONVERT_MARKDOWN':
+        return this.convertToMarkdown(request.documents);
+      case 'ARCHIVE_BEGIN':
+        return this.beginArchive(request.archiveId);
+      case 'ARCHIVE_APPEND':
+        return this.appendArchive(request.archiveId, request.data);
+      case 'ARCHIVE_FINISH':
+        return this.finishArchive(request.archiveId, request.mimeType);
+      case 'ARCHIVE_RELEASE':
+        return this.releaseArchive(request.archiveId);
+      default:
+        return { success: false, error: `Unknown offscreen request: ${(request as any).type}` };
+    }
+  }
+
+  // Read every page's text layer plus the document info dictionary
+  private async extractPdfText(base64: string): Promise<PdfExtractionResult> {
+    let pdf: PDFDocumentProxy;
+
+    try {
+      const data = new Uint8Array(ContentUtils.base64ToArrayBuffer(base64));
+      pdf = await getDocument({ data, isEvalSupported: false, useSystemFonts: true }).promise;
+    } catch (error) {
+      return this.failure(error);
+    }
+
+    try {
+      const pages: PdfPageText[] = [];
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const text = content.items
+          .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+          .join('')
+          .trim();
+
+        pages.push({ pageNumber, text });
+        page.cleanup();
+      }
+
+      return {
+        success: true,
+        pages,
+        pageCount: pdf.numPages,
+        metadata: await this.readMetadata(pdf)
+      };
+
+    } catch (error) {
+      return this.failure(error);
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private parseDiscussion(html: string): DiscussionParseResult {
+    try {
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      return { success: true, thread: discussionParser.parse(doc) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private parseRubric(html: string): RubricParseResult {
+    try {
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      return { success: true, rubric: rubricParser.parse(doc) };
+    } catch (error) {
+      return { success: false, rubric: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private parseGrades(html: string, pageUrl: string): GradesParseResult {
+    try {
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      return { success: true, page: gradesParser.parse(doc, pageUrl) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private parseModules(html: string, pageUrl: string): ModulesParseResult {
+    try {
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      return { success: true, modules: moduleParser.parse(doc, pageUrl) };
+    } catch (error) {
+      return { success: false, modules: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private convertToMarkdown(sources: MarkdownSource[]): MarkdownConversionResult {
+    try {
+      const parser = new DOMParser();
+      const documents = sources.map(source => markdownConverter.convert(parser.parseFromString(source.html, 'text/html'), source));
+      return { success: true, documents };
+    } catch (error) {
+      return { success: false, documents: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private beginArchive(archiveId: string): ArchiveResult {
+    this.releaseArchive(archiveId);
+    this.archiveParts.set(archiveId, []);
+    return { success: true, size: 0 };
+  }
+
+  // Each chunk becomes its own blob so the decoded bytes can leave the JS heap
+  private appendArchive(archiveId: string, base64: string): ArchiveResult {
+    const parts = this.archiveParts.get(archiveId);
+    if (!parts) return { success: false, size: 0, error: `Unknown archive ${archiveId}` };
+
+    parts.push(new Blob([ContentUtils.base64ToArrayBuffer(base64)]));
+    return { success: true, size: this.archiveSize(parts) };
+  }
+
+  private finishArchive(archiveId: string, mimeType: string): ArchiveResult {
+    const parts = this.archiveParts.get(archiveId);
+    if (!parts) return { success: false, size: 0, error: `Unknown archive ${archiveId}` };
+
+    const archive = new Blob(parts, { type: mimeType });
+    const url = URL.createObjectURL(archive);
+    this.archiveParts.delete(archiveId);
+    this.archiveUrls.set(archiveId, url);
+
+    return { success: true, size: archive.size, url };
+  }
+
+  private releaseArchive(archiveId: string): ArchiveResult {
+    const url = this.archiveUrls.get(archiveId);
+    if (url) {
+      URL.revokeObjectURL(url);
+    }
+
+    this.archiveUrls.delete(archiveId);
+    this.archiveParts.delete(archiveId);
+    return { success: true, size: 0 };
+  }
+
+  private archiveSize(parts: Blob[]): number {
+    return parts.reduce((sum, part) => sum + part.size, 0);
+  }
+
+  // Recognize a single image file
+  private async ocrImage(base64: string, mimeType: string, options: OcrOptions): Promise<OcrResult> {
+    const deadline = Date.now() + options.timeBudgetMs;
+    const image = new Blob([ContentUtils.base64ToArrayBuffer(base64)], { type: mimeType });
+
+    try {
+      const page = await this.recognize(image, 1, options.language, deadline);
+      return this.ocrSuccess([page], false);
+    } catch (error) {
+      return this.ocrFailure(error, [], options.language);
+    }
+  }
+
+  // Rasterize and recognize PDF pages until the time budget runs out
+  private async ocrPdfPages(base64: string, pageNumbers: number[], options: OcrOptions): Promise<OcrResult> {
+    const deadline = Date.now() + options.timeBudgetMs;
+    const pages: OcrPageResult[] = [];
+    let pdf: PDFDocumentProxy;
+
+    try {
+      const data = new Uint8Array(ContentUtils.base64ToArrayBuffer(base64));
+      pdf = await getDocument({ data, isEvalSupported: false, useSystemFonts: true }).promise;
+    } catch (error) {
+      return this.ocrFailure(error, pages, options.language);
+    }
+
+    try {
+      for (const pageNumber of pageNumbers) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+
+        await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+        page.cleanup();
+
+        pages.push(await this.recognize(canvas, pageNumber, options.language, deadline));
+      }
+
+      return this.ocrSuccess(pages, false);
+
+    } catch (error) {
+      return this.ocrFailure(error, pages, options.language);
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private async recognize(
+    image: Blob | HTMLCanvasElement,
+    pageNumber: number,
+    language: string,
+    deadline: number
+  ): Promise<OcrPageResult> {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) throw new OcrTimeoutError();
+
+    const worker = await this.getOcrWorker(language);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const result = await Promise.race([
+        worker.recognize(image),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new OcrTimeoutError()), remaining);
+        })
+      ]);
+
+      return { pageNumber, text: result.data.text.trim(), confidence: result.data.confidence };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getOcrWorker(language: string): Promise<OcrWorker> {
+    let worker = this.ocrWorkers.get(language);
+
+    if (!worker) {
+      // Bundled worker, core and language data: extension pages may not load remote code or blob workers,
+      // and OCR has to work offline. The data is already local, so it is not copied into IndexedDB as well
+      worker = createWorker(language, 1, {
+        workerPath: chrome.runtime.getURL('offscreen/tesseract/worker.min.js'),
+        corePath: chrome.runtime.getURL('offscreen/tesseract/'),
+        langPath: chrome.runtime.getURL('offscreen/tesseract/lang/'),
+        cacheMethod: 'none',
+        workerBlobURL: false
+      });
+      worker.catch(() => this.ocrWorkers.delete(language));
+      this.ocrWorkers.set(language, worker);
+    }
+
+    return worker;
+  }
+
+  // A timed-out job leaves the worker busy, so terminate it rather than queue behind it
+  private async discardOcrWorker(language: string): Promise<void> {
+    const worker = this.ocrWorkers.get(language);
+    this.ocrWorkers.delete(language);
+
+    try {
+      await (await worker)?.terminate();
+    } catch {
+      // Worker already gone
+    }
+  }
+
+  private ocrSuccess(pages: OcrPageResult[], timedOut: boolean): OcrResult {
+    const recognized = pages.filter(page => page.text.length > 0);
+    const confidence = recognized.length > 0
+      ? recognized.reduce((sum, page) => sum + page.confidence, 0) / recognized.length
+      : 0;
+
+    return {
+      success: true,
+      text: pages.map(page => page.text).join('\n\n'),
+      confidence: Math.round(confidence * 10) / 10,
+      pages,
+      timedOut
+    };
+  }
+
+  // Timeouts keep whatever pages finished; other errors fail the file
+  private async ocrFailure(error: unknown, pages: OcrPageResult[], language: string): Promise<OcrResult> {
+    if (error instanceof OcrTimeoutError) {
+      await this.discardOcrWorker(language);
+      if (pages.length > 0) {
+        return this.ocrSuccess(pages, true);
+      }
+    }
+
+    return {
+      success: false,
+      text: '',
+      confidence: 0,
+      pages,
+      timedOut: error instanceof OcrTimeoutError,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  private async readMetadata(pdf: PDFDocumentProxy): Promise<PdfDocumentMetadata> {
+    try {
+      const { info } = await pdf.getMetadata();
+      const fields = (info || {}) as Record<string, any>;
+
+      return {
+        title: fields.Title || undefined,
+        author: fields.Author || undefined,
+        subject: fields.Subject || undefined,
+        keywords: fields.Keywords || undefined,
+        creator: fields.Creator || undefined,
+        producer: fields.Producer || undefined,
+        creationDate: this.toIsoDate(fields.CreationDate),
+        modificationDate: this.toIsoDate(fields.ModDate)
+      };
+    } catch {
+      return {};
+    }
+  }
+
+  private toIsoDate(pdfDate: unknown): string | undefined {
+    if (typeof pdfDate !== 'string') return undefined;
+    return PDFDateString.toDateObject(pdfDate)?.toISOString();
+  }
+
+  // Map pdf.js exceptions onto the failure codes FilesPipeline reports
+  private failure(error: unknown): PdfExtractionResult {
+    const name = error instanceof Error ? error.name : '';
+    const message = error instanceof Error ? error.message : String(error);
+
+    let errorCode: PdfExtractionResult['errorCode'] = 'unknown';
+    if (name === 'PasswordException') {
+      errorCode = 'encrypted';
+    } else if (name === 'InvalidPDFException' || name === 'FormatError') {
+      errorCode = 'malformed';
+    }
+
+    return { success: false, pages: [], pageCount: 0, metadata: {}, error: message, errorCode };
+  }
+}
+
+new OffscreenHandler();
@@ -1,28 +1,81 @@
 // Canvas Scraper Options Page
 // Handles configuration form and settings persistence
 
+type NotificationType = 'announcements' | 'grades' | 'comments' | 'dueDates';
+
 interface ExtensionOptions {
   hosts: string[];
   settings: {
     syncFrequency: 'startup-only' | 'hourly' | 'daily' | 'manual';
     maxConcurrentFetches: number;
     maxConcurrentGhostTabs: number;
+    useCanvasApi: boolean;
     fileExtraction: 'metadata-only' | 'text-extraction' | 'on-demand';
+    enableOcr: boolean;
+    ocrLanguage: string;
+    ocrTimeBudgetSeconds: number;
+    revisionHistoryLimit: number;
+    notifications: {
+      enabled: boolean;
+      types: Record<NotificationType, boolean>;
+      mutedCourses: string[];
+    };
+    digest: {
+      enabled: boolean;
+      hour: number;
+    };
+    autoExportCalendar: boolean;
+    autoLockMinutes: number;
+    retention: {
+      snapshotsPerUrl: number;
+      dropCompletedTermBlobs: boolean;
+      maxTotalMB: number;
+    };
   };
 }
 
+// Checkbox IDs on the options page for each notification type
+const NOTIFICATION_TYPE_INPUTS: Record<NotificationType, string> = {
+  announcements: 'notify-announcements',
+  grades: 'notify-grades',
+  comments: 'notify-comments',
+  dueDates: 'notify-due-dates'
+};
+
 const DEFAULT_OPTIONS: ExtensionOptions = {
   hosts: ['https://youruniversity.instructure.com'],
   settings: {
     syncFrequency: 'startup-only',
     maxConcurrentFetches: 6,
     maxConcurrentGhostTabs: 2,
-    fileExtraction: 'metadata-only'
+    useCanvasApi: false,
+    fileExtraction: 'metadata-only',
+    enableOcr: false,
+    ocrLanguage: 'eng',
+    ocrTimeBudgetSeconds: 60,
+    revisionHistoryLimit: 10,
+    notifications: {
+      enabled: true,
+      types: { announcements: true, grades: true, comments: true, dueDates: true },
+      mutedCourses: []
+    },
+    digest: {
+      enabled: true,
+      hour: 7
+    },
+    autoExportCalendar: false,
+    autoLockMinutes: 15,
+    retention: {
+      snapshotsPerUrl: 10,
+      dropCompletedTermBlobs: false,
+      maxTotalMB: 0
+    }
   }
 };
 
 class OptionsController {
   private options: ExtensionOptions = { ...DEFAULT_OPTIONS };
+  private courses: Array<{ id: string; name: string }> = [];
 
   constructor() {
     this.initialize();
@@ -32,19 +85,31 @@ class OptionsController {
     // Set up event listeners
     document.getElementById('save-options')?.addEventListener('click', () => this.saveOptions());
     document.getElementById('reset-defaults')?.addEventListener('click', () => this.resetToDefaults());
+    document.getElementById('encryption-enable-btn')?.addEventListener('click', () => this.enableEncryption());
+    document.getElementById('encryption-change-btn')?.addEventListener('click', () => this.changePin());
+    document.getElementById('encryption-disable-btn')?.addEventListener('click', () => this.disableEncryption());
+    document.getElementById('retention-preview')?.addEventListener('click', () => this.runRetention(true));
+    document.getElementById('retention-run')?.addEventListener('click', () => this.runRetention(false));
 
-    // Load current options
+    // Load current options and the courses notifications can be muted for
     await this.loadOptions();
+    await this.loadCourses();
     
     // Populate form
     this.populateForm();
+    await this.loadEncryptionStatus();
+    await this.loadRetentionStatus();
   }
 
   private async loadOptions(): Promise<void> {
     try {
       const result = await chrome.storage.sync.get(['canvasOptions']);
       if (result.canvasOptions) {
-        this.options = { ...DEFAULT_OPTIONS, ...result.canvasOptions };
+        this.options = {
+          ...DEFAULT_OPTIONS,
+          ...result.canvasOptions,
+          settings: { ...DEFAULT_OPTIONS.settings, ...result.canvasOptions.settings }
+        };
       }
     } catch (error) {
       console.error('[Options] Failed to load options:', error);
@@ -52,6 +117,18 @@ class OptionsController {
     }
   }
 
+  private async loadCourses(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_STUDENT_INDEX' });
+      const courses: Array<{ id: string; name: string }> = Object.values(response?.index?.courses || {});
+      this.courses = courses
+        .map(course => ({ id: course.id, name: course.name }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('[Options] Failed to load courses:', error);
+    }
+  }
+
   private populateForm(): void {
     // Canvas hosts
     const hostsTextarea = document.getElementById('canvas-hosts') as HTMLTextAreaElement;
@@ -77,11 +154,110 @@ class OptionsController {
       maxGhostTabsInput.value = this.options.settings.maxConcurrentGhostTabs.toString();
     }
 
+    // Data source
+    const dataSourceSelect = document.getElementById('data-source') as HTMLSelectElement;
+    if (dataSourceSelect) {
+      dataSourceSelect.value = this.options.settings.useCanvasApi ? 'api' : 'html';
+    }
+
     // File extraction mode
     const fileExtractionSelect = document.getElementById('file-extraction') as HTMLSelectElement;
     if (fileExtractionSelect) {
       fileExtractionSelect.value = this.options.settings.fileExtraction;
     }
+
+    // OCR settings
+    const ocrEnabledSelect = document.getElementById('ocr-enabled') as HTMLSelectElement;
+    if (ocrEnabledSelect) {
+      ocrEnabledSelect.value = this.options.settings.enableOcr ? 'on' : 'off';
+    }
+
+    const ocrLanguageSelect = document.getElementById('ocr-language') as HTMLSelectElement;
+    if (ocrLanguageSelect) {
+      ocrLanguageSelect.value = this.options.settings.ocrLanguage;
+    }
+
+    const ocrBudgetInput = document.getElementById('ocr-time-budget') as HTMLInputElement;
+    if (ocrBudgetInput) {
+      ocrBudgetInput.value = this.options.settings.ocrTimeBudgetSeconds.toString();
+    }
+
+    // Revision history
+    const revisionLimitInput = document.getElementById('revision-limit') as HTMLInputElement;
+    if (revisionLimitInput) {
+      revisionLimitInput.value = this.options.settings.revisionHistoryLimit.toString();
+    }
+
+    // Notifications
+    const notifications = this.options.settings.notifications;
+    const notificationsSelect = document.getElementById('notifications-enabled') as HTMLSelectElement;
+    if (notificationsSelect) {
+      notificationsSelect.value = notifications.enabled ? 'on' : 'off';
+    }
+
+    for (const [type, inputId] of Object.entries(NOTIFICATION_TYPE_INPUTS)) {
+      const checkbox = document.getElementById(inputId) as HTMLInputElement;
+      if (checkbox) {
+        checkbox.checked = notifications.types[type as NotificationType] !== false;
+      }
+    }
+
+    // Daily digest
+    const digestSelect = document.getElementById('digest-enabled') as HTMLSelectElement;
+    if (digestSelect) {
+      digestSelect.value = this.options.settings.digest.enabled ? 'on' : 'off';
+    }
+
+    const digestHourInput = document.getElementById('digest-hour') as HTMLInputElement;
+    if (digestHourInput) {
+      digestHourInput.value = this.options.settings.digest.hour.toString();
+    }
+
+    // Deadline calendar
+    const calendarExportSelect = document.getElementById('calendar-auto-export') as HTMLSelectElement;
+    if (calendarExportSelect) {
+      calendarExportSelect.value = this.options.settings.autoExportCalendar ? 'on' : 'off';
+    }
+
+    // Auto-lock
+    const autoLockInput = document.getElementById('auto-lock-minutes') as HTMLInputElement;
+    if (autoLockInput) {
+      autoLockInput.value = this.options.settings.autoLockMinutes.toString();
+    }
+
+    // Storage retention
+    const retention = this.options.settings.retention;
+    const retentionSnapshotsInput = document.getElementById('retention-snapshots') as HTMLInputElement;
+    if (retentionSnapshotsInput) {
+      retentionSnapshotsInput.value = retention.snapshotsPerUrl.toString();
+    }
+
+    const retentionDropSelect = document.getElementById('retention-drop-completed') as HTMLSelectElement;
+    if (retentionDropSelect) {
+      retentionDropSelect.value = retention.dropCompletedTermBlobs ? 'on' : 'off';
+    }
+
+    const retentionMaxInput = document.getElementById('retention-max-mb') as HTMLInputElement;
+    if (retentionMaxInput) {
+      retentionMaxInput.value = retention.maxTotalMB.toString();
+    }
+
+    const coursesList = document.getElementById('notify-courses');
+    if (coursesList) {
+      if (this.courses.length === 0) {
+        coursesList.textContent = 'Courses appear here after the first crawl.';
+      } else {
+        coursesList.replaceChildren(...this.courses.map(course => {
+          const label = document.createElement('label');
+          const checkbox = document.createElement('input');
+          checkbox.type = 'checkbox';
+          checkbox.dataset.courseId = course.id;
+          checkbox.checked = !notifications.mutedCourses.includes(course.id);
+          label.append(checkbox, ` ${course.name}`);
+          return label;
+        }));
+      }
+    }
   }
 
   private getFormData(): ExtensionOptions {
@@ -89,7 +265,17 @@ class OptionsController {
     const syncFrequencySelect = document.getElementById('sync-frequency') as HTMLSelectElement;
     const maxFetchesInput = document.getElementById('max-fetches') as HTMLInputElement;
     const maxGhostTabsInput = document.getElementById('max-ghost-tabs') as HTMLInputElement;
+    const dataSourceSelect = document.getElementById('data-source') as HTMLSelectElement;
     const fileExtractionSelect = document.getElementById('file-extraction') as HTMLSelectElement;
+    const ocrEnabledSelect = document.getElementById('ocr-enabled') as HTMLSelectElement;
+    const ocrLanguageSelect = document.getElementById('ocr-language') as HTMLSelectElement;
+    const ocrBudgetInput = document.getElementById('ocr-time-budget') as HTMLInputElement;
+    const revisionLimitInput = document.getElementById('revision-limit') as HTMLInputElement;
+    const notificationsSelect = document.getElementById('notifications-enabled') as HTMLSelectElement;
+    const digestSelect = document.getElementById('digest-enabled') as HTMLSelectElement;
+    const digestHourInput = document.getElementById('digest-hour') as HTMLInputElement;
+    const calendarExportSelect = document.getElementById('calendar-auto-export') as HTMLSelectElement;
+    const autoLockInput = document.getElementById('auto-lock-minutes') as HTMLInputElement;
 
     // Parse hosts from textarea
     const hosts = hostsTextarea?.value
@@ -97,13 +283,46 @@ class OptionsController {
       .map(url => url.trim())
       .filter(url => url.length > 0) || [];
 
+    // Notification types left unchecked are turned off
+    const types = { ...DEFAULT_OPTIONS.settings.notifications.types };
+    for (const [type, inputId] of Object.entries(NOTIFICATION_TYPE_INPUTS)) {
+      const checkbox = document.getElementById(inputId) as HTMLInputElement;
+      types[type as NotificationType] = checkbox ? checkbox.checked : true;
+    }
+
+    // Courses not listed on the page keep whatever they were set to
+    const listedCourses = new Set(this.courses.map(course => course.id));
+    const mutedCourses = [
+      ...this.options.settings.notifications.mutedCourses.filter(id => !listedCourses.has(id)),
+      ...Array.from(document.querySelectorAll<HTMLInputElement>('#notify-courses input[data-course-id]'))
+        .filter(checkbox => !checkbox.checked)
+        .map(checkbox => checkbox.dataset.courseId!)
+    ];
+
     return {
       hosts,
       settings: {
         syncFrequency: (syncFrequencySelect?.value as ExtensionOptions['settings']['syncFrequency']) || 'startup-only',
         maxConcurrentFetches: parseInt(maxFetchesInput?.value || '6', 10),
         maxConcurrentGhostTabs: parseInt(maxGhostTabsInput?.value || '2', 10),
-        fileExtraction: (fileExtractionSelect?.value as ExtensionOptions['settings']['fileExtraction']) || 'metadata-only'
+        useCanvasApi: dataSourceSelect?.value === 'api',
+        fileExtraction: (fileExtractionSelect?.value as ExtensionOptions['settings']['fileExtraction']) || 'metadata-only',
+        enableOcr: ocrEnabledSelect?.value === 'on',
+        ocrLanguage: ocrLanguageSelect?.value || 'eng',
+        ocrTimeBudgetSeconds: parseInt(ocrBudgetInput?.value || '60', 10),
+        revisionHistoryLimit: parseInt(revisionLimitInput?.value || '10', 10),
+        notifications: {
+          enabled: notificationsSelect?.value !== 'off',
+          types,
+          mutedCourses
+        },
+        digest: {
+          enabled: digestSelect?.value !== 'off',
+          hour: parseInt(digestHourInput?.value || '7', 10)
+        },
+        autoExportCalendar: calendarExportSelect?.value === 'on',
+        autoLockMinutes: parseInt(autoLockInput?.value || '15', 10),
+        retention: this.getRetentionFormData()
       }
     };
   }
@@ -129,13 +348,51 @@ class OptionsController {
         return;
       }
 
+      if (isNaN(formData.settings.ocrTimeBudgetSeconds) || formData.settings.ocrTimeBudgetSeconds < 5 || formData.settings.ocrTimeBudgetSeconds > 600) {
+        this.showStatus('OCR time budget must be between 5 and 600 seconds', 'error');
+        return;
+      }
+
+      if (isNaN(formData.settings.revisionHistoryLimit) || formData.settings.revisionHistoryLimit < 0 || formData.settings.revisionHistoryLimit > 100) {
+        this.showStatus('Revisions kept per item must be between 0 and 100', 'error');
+        return;
+      }
+
+      if (isNaN(formData.settings.digest.hour) || formData.settings.digest.hour < 0 || formData.settings.digest.hour > 23) {
+        this.showStatus('Digest hour must be between 0 and 23', 'error');
+        return;
+      }
+
+      if (isNaN(formData.settings.autoLockMinutes) || formData.settings.autoLockMinutes < 0 || formData.settings.autoLockMinutes > 240) {
+        this.showStatus('Auto-lock must be between 0 and 240 minutes', 'error');
+        return;
+      }
+
+      const retention = formData.settings.retention;
+      if (isNaN(retention.snapshotsPerUrl) || retention.snapshotsPerUrl < 0 || retention.snapshotsPerUrl > 100) {
+        this.showStatus('Snapshots kept per page must be between 0 and 100', 'error');
+        return;
+      }
+
+      if (isNaN(retention.maxTotalMB) || retention.maxTotalMB < 0 || retention.maxTotalMB > 100000) {
+        this.showStatus('Maximum stored content must be between 0 and 100000 MB', 'error');
+        return;
+      }
+
+      // Ask for access to the configured hosts while the click still counts as a user gesture
+      const missingHosts = await this.requestHostPermissions(formData.hosts);
+
       // Save to storage
       await chrome.storage.sync.set({ canvasOptions: formData });
       
       // Update local options
       this.options = formData;
       
-      this.showStatus('Options saved successfully!', 'success');
+      if (missingHosts.length > 0) {
+        this.showStatus(`Options saved, but access to ${missingHosts.join(', ')} was not granted; those hosts cannot be crawled`, 'error');
+      } else {
+        this.showStatus('Options saved successfully!', 'success');
+      }
       
       // Notify service worker of config change
       chrome.runtime.sendMessage({ type: 'CONFIG_UPDATED', options: formData });
@@ -164,6 +421,189 @@ class OptionsController {
     }
   }
 
+  // Custom Canvas domains are only covered by the optional host permission; returns the hosts left without access
+  private async requestHostPermissions(hosts: string[]): Promise<string[]> {
+    const origins = new Map<string, string>();
+    for (const host of hosts) {
+      try {
+        origins.set(`${new URL(host).origin}/*`, host);
+      } catch {
+        // Not a URL, so there is no origin to ask for
+      }
+    }
+    if (origins.size === 0) return [];
+
+    try {
+      const granted = await chrome.permissions.request({ origins: Array.from(origins.keys()) });
+      if (granted) return [];
+    } catch (error) {
+      console.warn('[Options] Host permission request failed:', error);
+    }
+
+    const missing: string[] = [];
+    for (const [origin, host] of origins) {
+      if (!(await chrome.permissions.contains({ origins: [origin] }))) missing.push(host);
+    }
+    return missing;
+  }
+
+  private getRetentionFormData(): ExtensionOptions['settings']['retention'] {
+    const snapshotsInput = document.getElementById('retention-snapshots') as HTMLInputElement;
+    const dropSelect = document.getElementById('retention-drop-completed') as HTMLSelectElement;
+    const maxInput = document.getElementById('retention-max-mb') as HTMLInputElement;
+
+    return {
+      snapshotsPerUrl: parseInt(snapshotsInput?.value || '10', 10),
+      dropCompletedTermBlobs: dropSelect?.value === 'on',
+      maxTotalMB: parseInt(maxInput?.value || '0', 10)
+    };
+  }
+
+  private async loadRetentionStatus(): Promise<void> {
+    try {
+      const status = await chrome.runtime.sendMessage({ type: 'GET_RETENTION_STATUS' });
+      const usageElement = document.getElementById('storage-usage');
+      if (usageElement) {
+        const usage = status?.usage;
+        const lastRun = status?.lastReport
+          ? ` Last cleanup ${new Date(status.lastReport.generatedAt).toLocaleString()} freed ${this.formatMB(status.lastReport.bytesFreed)}.`
+          : '';
+        usageElement.textContent = usage
+          ? `${this.formatMB(usage.usage)} of ${this.formatMB(usage.quota)} available to the browser (${Math.round(usage.ratio * 100)}%)${usage.warning ? ' - nearly full' : ''}.${lastRun}`
+          : `Usage unavailable.${lastRun}`;
+      }
+    } catch (error) {
+      console.error('[Options] Failed to load storage usage:', error);
+    }
+  }
+
+  // Preview uses the rules as entered; a real cleanup uses the saved rules
+  private async runRetention(dryRun: boolean): Promise<void> {
+    const reportElement = document.getElementById('retention-report');
+    if (!dryRun && !confirm('Delete the stored snapshots and files selected by the saved retention rules?')) return;
+
+    try {
+      const report = dryRun
+        ? await chrome.runtime.sendMessage({ type: 'RETENTION_PREVIEW', settings: this.getRetentionFormData() })
+        : await chrome.runtime.sendMessage({ type: 'RETENTION_COMPACT' });
+
+      if (!report?.success) {
+        this.showStatus(report?.error || 'Cleanup failed', 'error');
+        return;
+      }
+
+      if (reportElement) {
+        const counts = report.counts;
+        const lines = [
+          `${dryRun ? 'Would delete' : 'Deleted'} ${report.deletions.length} records (${this.formatMB(report.bytesFreed)} of ${this.formatMB(report.storedBytes)} stored): `
+            + `${counts['snapshot-limit']} old snapshots, ${counts['completed-term']} files of completed courses, ${counts['size-limit']} over the size limit.`
+        ];
+        if (!report.limitReached) {
+          lines.push('The size limit cannot be met without deleting the latest snapshots or course data.');
+        }
+        lines.push(...report.deletions.slice(0, 20).map((deletion: { label: string; size: number }) => `${deletion.label} (${this.formatMB(deletion.size)})`));
+        if (report.deletions.length > 20) {
+          lines.push(`...and ${report.deletions.length - 20} more`);
+        }
+        reportElement.replaceChildren(...lines.map(line => {
+          const div = document.createElement('div');
+          div.textContent = line;
+          return div;
+        }));
+      }
+
+      if (!dryRun) {
+        await this.loadRetentionStatus();
+      }
+    } catch (error) {
+      console.error('[Options] Cleanup failed:', error);
+      this.showStatus('Cleanup failed: ' + (error instanceof Error ? error.message : String(error)), 'error');
+    }
+  }
+
+  private formatMB(bytes: number): string {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  // Encryption is not a saved option: it is switched on and off through the service worker, which owns the key
+  private async loadEncryptionStatus(): Promise<void> {
+    try {
+      const status = await chrome.runtime.sendMessage({ type: 'ENCRYPTION_STATUS' });
+      const statusElement = document.getElementById('encryption-status');
+      const enableSection = document.getElementById('encryption-enable');
+      const manageSection = document.getElementById('encryption-manage');
+
+      if (statusElement) {
+        const progress = status.progress ? ` (${status.progress.processed}/${status.progress.total} records)` : '';
+        if (!status.enabled) {
+          statusElement.textContent = 'Off. Stored data is kept unencrypted.';
+        } else if (status.pending) {
+          statusElement.textContent = status.unlocked
+            ? `Updating stored data${progress}...`
+            : 'On and locked. Unlock from the popup to finish updating stored data.';
+        } else {
+          statusElement.textContent = status.unlocked ? 'On and unlocked.' : 'On and locked. Unlock from the popup.';
+        }
+      }
+      if (enableSection) enableSection.style.display = status.enabled ? 'none' : 'block';
+      if (manageSection) manageSection.style.display = status.enabled ? 'block' : 'none';
+
+      // Follow background re-encryption until it finishes
+      if (status.pending && status.unlocked) {
+        setTimeout(() => this.loadEncryptionStatus(), 1000);
+      }
+    } catch (error) {
+      console.error('[Options] Failed to load encryption status:', error);
+    }
+  }
+
+  private async enableEncryption(): Promise<void> {
+    const pin = (document.getElementById('encryption-new-pin') as HTMLInputElement)?.value || '';
+    const confirmPin = (document.getElementById('encryption-confirm-pin') as HTMLInputElement)?.value || '';
+    if (pin !== confirmPin) {
+      this.showStatus('PINs do not match', 'error');
+      return;
+    }
+
+    await this.runEncryptionAction({ type: 'ENCRYPTION_ENABLE', pin }, 'Encryption enabled');
+  }
+
+  private async changePin(): Promise<void> {
+    const currentPin = (document.getElementById('encryption-current-pin') as HTMLInputElement)?.value || '';
+    const newPin = (document.getElementById('encryption-change-pin') as HTMLInputElement)?.value || '';
+    const confirmPin = (document.getElementById('encryption-change-confirm') as HTMLInputElement)?.value || '';
+    if (newPin !== confirmPin) {
+      this.showStatus('New PINs do not match', 'error');
+      return;
+    }
+
+    await this.runEncryptionAction({ type: 'ENCRYPTION_CHANGE_PIN', currentPin, newPin }, 'PIN changed');
+  }
+
+  private async disableEncryption(): Promise<void> {
+    const pin = (document.getElementById('encryption-current-pin') as HTMLInputElement)?.value || '';
+    if (!confirm('Decrypt all stored data and turn encryption off?')) return;
+
+    await this.runEncryptionAction({ type: 'ENCRYPTION_DISABLE', pin }, 'Encryption disabled');
+  }
+
+  private async runEncryptionAction(message: Record<string, string>, successMessage: string): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage(message);
+      if (!response?.success) {
+        this.showStatus(response?.error || 'Encryption change failed', 'error');
+        return;
+      }
+
+      document.querySelectorAll<HTMLInputElement>('input[id^="encryption-"]').forEach(input => { input.value = ''; });
+      this.showStatus(successMessage, 'success');
+      await this.loadEncryptionStatus();
+    } catch (error) {
+      console.error('[Options] Encryption change failed:', error);
+      this.showStatus('Encryption change failed: ' + (error instanceof Error ? error.message : String(error)), 'error');
+    }
+  }
+
   private showStatus(message: string, type: 'success' | 'error'): void {
     const statusElement = document.getElementById('status') as HTMLDivElement;
     if (statusElement) {
@@ -28,6 +28,16 @@ interface ExtensionState {
     tasksScheduled: number;
     tasksCompleted: number;
     tasksFailed: number;
+    tasksSkipped?: number;
+    budgetReachedAt?: number;
+    coursesDiscovered?: number;
+    stages?: Record<string, { total: number; completed: number; failed: number; skipped?: number }>;
+  };
+  encryption?: {
+    enabled: boolean;
+    unlocked: boolean;
+    pending: 'encrypt' | 'rekey' | 'decrypt' | null;
+    progress?: { processed: number; total: number };
   };
 }
 
@@ -71,6 +81,12 @@ class PopupManager {
       if (sessionResponse.success && sessionResponse.session) {
         this.state.currentSession = sessionResponse.session;
       }
+
+      // Load encryption status
+      const encryptionResponse = await chrome.runtime.sendMessage({ type: 'ENCRYPTION_STATUS' });
+      if (encryptionResponse.success) {
+        this.state.encryption = encryptionResponse;
+      }
     } catch (error) {
       console.error('Failed to load state:', error);
     }
@@ -209,6 +225,24 @@ class PopupManager {
       runAllTestsBtn.addEventListener('click', () => this.runAllTests());
     }
 
+    // Unlock and lock encrypted storage
+    const unlockStorageBtn = document.getElementById('unlockStorage') as HTMLButtonElement;
+    if (unlockStorageBtn) {
+      unlockStorageBtn.addEventListener('click', () => this.unlockStorage());
+    }
+
+    const unlockPinInput = document.getElementById('unlockPin') as HTMLInputElement;
+    if (unlockPinInput) {
+      unlockPinInput.addEventListener('keydown', (event) => {
+        if (event.key === 'Enter') this.unlockStorage();
+      });
+    }
+
+    const lockStorageBtn = document.getElementById('lockStorage') as HTMLButtonElement;
+    if (lockStorageBtn) {
+      lockStorageBtn.addEventListener('click', () => this.lockStorage());
+    }
+
     // Options button
     const optionsBtn = document.getElementById('options') as HTMLButtonElement;
     if (optionsBtn) {
@@ -220,6 +254,18 @@ class PopupManager {
     if (openStatusBtn) {
       openStatusBtn.addEventListener('click', () => this.openStatus());
     }
+
+    // Open offline viewer
+    const openViewerBtn = document.getElementById('openViewer') as HTMLButtonElement;
+    if (openViewerBtn) {
+      openViewerBtn.addEventListener('click', () => chrome.tabs.create({ url: chrome.runtime.getURL('viewer/viewer.html') }));
+    }
+
+    // Open daily digest
+    const openDigestBtn = document.getElementById('openDigest') as HTMLButtonElement;
+    if (openDigestBtn) {
+      openDigestBtn.addEventListener('click', () => chrome.tabs.create({ url: chrome.runtime.getURL('digest/digest.html') }));
+    }
   }
 
   private updateUI(): void {
@@ -254,6 +300,26 @@ class PopupManager {
       currentTaskElement.textContent = `Current Task: ${this.state.currentTask || 'Idle'}`;
     }
 
+    // Update encrypted storage lock
+    const lockSection = document.getElementById('lockSection');
+    if (lockSection) {
+      const encryption = this.state.encryption;
+      lockSection.style.display = encryption?.enabled ? 'block' : 'none';
+
+      const unlockForm = document.getElementById('unlockForm');
+      const lockInfo = document.getElementById('lockInfo');
+      const lockStorageBtn = document.getElementById('lockStorage');
+      if (unlockForm) unlockForm.style.display = encryption?.unlocked ? 'none' : 'flex';
+      if (lockStorageBtn) lockStorageBtn.style.display = encryption?.unlocked ? 'block' : 'none';
+      if (lockInfo) {
+        const progress = encryption?.progress;
+        lockInfo.textContent = !encryption?.unlocked
+          ? 'Stored course data is locked. Enter your PIN to view it or to crawl.'
+          : progress ? `Updating stored data: ${progress.processed}/${progress.total}` : 'Unlocked';
+        lockInfo.style.marginBottom = encryption?.unlocked ? '8px' : '0';
+      }
+    }
+
     // Update storage stats
     const storageStatsElement = document.getElementById('storageStats');
     if (storageStatsElement && this.state.storageStats) {
@@ -334,6 +400,11 @@ class PopupManager {
             <div>Started: ${startTime}</div>
             <div>Progress: ${session.tasksCompleted}/${session.tasksScheduled} completed</div>
             <div>Failed: ${session.tasksFailed}</div>
+            ${session.budgetReachedAt ? `<div>Time budget reached, ${session.tasksSkipped || 0} low-priority tasks skipped</div>` : ''}
+            ${session.coursesDiscovered ? `<div>Courses: ${session.coursesDiscovered}</div>` : ''}
+            ${Object.entries(session.stages || {}).map(([stage, progress]) =>
+              `<div class="session-stage">${stage}: ${progress.completed}/${progress.total}${progress.failed ? `, ${progress.failed} failed` : ''}${progress.skipped ? `, ${progress.skipped} skipped` : ''}</div>`
+            ).join('')}
           </div>
         </div>
       `;
@@ -358,7 +429,8 @@ class PopupManager {
     }
 
     if (startCrawlBtn) {
-      startCrawlBtn.disabled = !this.state.isAuthenticated || this.state.currentTask !== null || (this.state.currentSession?.status === 'running');
+      startCrawlBtn.disabled = !this.state.isAuthenticated || this.state.currentTask !== null || (this.state.currentSession?.status === 'running')
+        || (!!this.state.encryption?.enabled && !this.state.encryption.unlocked);
     }
 
     if (clearStorageBtn) {
@@ -399,6 +471,34 @@ class PopupManager {
     }
   }
 
+  private async unlockStorage(): Promise<void> {
+    const pinInput = document.getElementById('unlockPin') as HTMLInputElement;
+    const errorElement = document.getElementById('unlockError');
+    if (!pinInput) return;
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'ENCRYPTION_UNLOCK', pin: pinInput.value });
+      pinInput.value = '';
+      if (errorElement) errorElement.textContent = response.success ? '' : response.error || 'Unlock failed';
+      if (response.success) {
+        await this.loadState();
+        this.updateUI();
+      }
+    } catch (error) {
+      console.error('Unlock failed:', error);
+    }
+  }
+
+  private async lockStorage(): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'ENCRYPTION_LOCK' });
+      this.state.encryption = response;
+      this.updateUI();
+    } catch (error) {
+      console.error('Lock failed:', error);
+    }
+  }
+
   private async clearStorage(): Promise<void> {
     if (confirm('Are you sure you want to clear all stored data? This action cannot be undone.')) {
       try {
@@ -0,0 +1,139 @@
+// Archive Uploader for Canvas Scraper
+// Reads an exported archive in the page and streams its records to the service worker for merging
+
+import { ZipReader } from '../background/zipReader';
+import { ContentUtils } from '../background/contentUtils';
+import type { ArchiveManifest, ArchivedBlob, ArchivedSnapshot } from '../background/archiveExporter';
+import type { ArchiveImportResult, ArchiveImportSummary, ImportableStore } from '../background/archiveImporter';
+
+export type ImportProgressListener = (store: ImportableStore, processed: number, total: number) => void;
+
+// Keep each runtime message well under Chrome's 64 MB limit
+const MAX_BATCH_BYTES = 8 * 1024 * 1024;
+const MAX_BATCH_RECORDS = 200;
+// Files larger than this go ahead of their record in parts; base64 makes each part MAX_BATCH_BYTES
+const MAX_BLOB_PART_BYTES = MAX_BATCH_BYTES / 4 * 3;
+
+export async function importArchiveFile(file: File, onProgress: ImportProgressListener): Promise<ArchiveImportSummary> {
+  const reader = await ZipReader.open(file);
+  if (!reader.has('manifest.json')) throw new Error('Archive has no manifest.json');
+
+  const manifest = JSON.parse(await reader.text('manifest.json')) as ArchiveManifest;
+  const begun: ArchiveImportResult = await chrome.runtime.sendMessage({ type: 'IMPORT_ARCHIVE_BEGIN', manifest });
+  if (!begun.success || !begun.importId) throw new Error(begun.error || 'Import was rejected');
+
+  const importId = begun.importId;
+
+  try {
+    // Structured items first, so extracted text can be matched to its files as it is indexed
+    await sendRecords(importId, 'structured', readJsonArray(reader, manifest.stores.structured.path), manifest.stores.structured.count, onProgress);
+    await sendRecords(importId, 'extractedText', readJsonArray(reader, manifest.stores.extractedText.path), manifest.stores.extractedText.count, onProgress);
+    await sendRecords(importId, 'htmlSnapshots', readSnapshots(reader, manifest.stores.htmlSnapshots.path), manifest.stores.htmlSnapshots.count, onProgress);
+    await sendRecords(importId, 'blobs', readBlobs(reader, manifest.stores.blobs.path, importId), manifest.stores.blobs.count, onProgress);
+
+    const studentIndex = reader.has(manifest.studentIndexPath) ? JSON.parse(await reader.text(manifest.studentIndexPath)) : null;
+    const storageSchema = reader.has(manifest.storageSchemaPath) ? JSON.parse(await reader.text(manifest.storageSchemaPath)) : null;
+
+    const finished: ArchiveImportResult = await chrome.runtime.sendMessage({ type: 'IMPORT_ARCHIVE_FINISH', importId, studentIndex, storageSchema });
+    if (!finished.success || !finished.summary) throw new Error(finished.error || 'Import could not be completed');
+
+    return finished.summary;
+
+  } catch (error) {
+    await chrome.runtime.sendMessage({ type: 'IMPORT_ARCHIVE_ABORT', importId });
+    throw error;
+  }
+}
+
+async function sendRecords(
+  importId: string,
+  store: ImportableStore,
+  records: AsyncIterable<{ record: unknown; bytes: number }>,
+  total: number,
+  onProgress: ImportProgressListener
+): Promise<void> {
+  let batch: unknown[] = [];
+  let batchBytes = 0;
+  let processed = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+
+    const result: ArchiveImportResult = await chrome.runtime.sendMessage({ type: 'IMPORT_ARCHIVE_RECORDS', importId, store, records: batch });
+    if (!result.success) throw new Error(result.error || `Import of ${store} failed`);
+
+    processed += batch.length;
+    batch = [];
+    batchBytes = 0;
+    onProgress(store, processed, total);
+  };
+
+  onProgress(store, 0, total);
+  for await (const { record, bytes } of records) {
+    if (batch.length > 0 && (batchBytes + bytes > MAX_BATCH_BYTES || batch.length >= MAX_BATCH_RECORDS)) {
+      await flush();
+    }
+    batch.push(record);
+    batchBytes += bytes;
+  }
+  await flush();
+}
+
+// Exports write one record per line; anything else is parsed as a whole
+async function* readJsonArray(reader: ZipReader, path: string): AsyncGenerator<{ record: unknown; bytes: number }> {
+  if (!reader.has(path)) return;
+
+  const lines = reader.lines(path);
+  const first = await lines.next();
+
+  if (first.done || first.value.trim() !== '[') {
+    await lines.return(undefined);
+    const records: unknown[] = JSON.parse(await reader.text(path));
+    for (const record of records) {
+      yield { record, bytes: JSON.stringify(record).length };
+    }
+    return;
+  }
+
+  for await (const line of lines) {
+    const trimmed = line.trim().replace(/,$/, '');
+    if (!trimmed || trimmed === ']') continue;
+    yield { record: JSON.parse(trimmed), bytes: trimmed.length };
+  }
+}
+
+async function* readSnapshots(reader: ZipReader, path: string): AsyncGenerator<{ record: unknown; bytes: number }> {
+  if (!reader.has(path)) return;
+
+  const listed: ArchivedSnapshot[] = JSON.parse(await reader.text(path));
+  for (const { path: htmlPath, ...snapshot } of listed) {
+    if (!reader.has(htmlPath)) continue;
+
+    const html = await reader.text(htmlPath);
+    yield { record: { ...snapshot, html }, bytes: html.length };
+  }
+}
+
+async function* readBlobs(reader: ZipReader, path: string, importId: string): AsyncGenerator<{ record: unknown; bytes: number }> {
+  if (!reader.has(path)) return;
+
+  const listed: ArchivedBlob[] = JSON.parse(await reader.text(path));
+  for (const { path: filePath, ...blob } of listed) {
+    if (!reader.has(filePath)) continue;
+
+    const bytes = new Uint8Array(await reader.bytes(filePath));
+    if (bytes.length <= MAX_BLOB_PART_BYTES) {
+      const data = ContentUtils.arrayBufferToBase64(bytes);
+      yield { record: { ...blob, data }, bytes: data.length };
+      continue;
+    }
+
+    // Too large for one message: stage the file in parts, then send its record without the data
+    for (let start = 0; start < bytes.length; start += MAX_BLOB_PART_BYTES) {
+      const data = ContentUtils.arrayBufferToBase64(bytes.subarray(start, start + MAX_BLOB_PART_BYTES));
+      const result: ArchiveImportResult = await chrome.runtime.sendMessage({ type: 'IMPORT_ARCHIVE_BLOB_PART', importId, blobId: blob.id, data });
+      if (!result.success) throw new Error(result.error || `Import of file ${blob.id} failed`);
+    }
+    yield { record: { ...blob, data: '', staged: true }, bytes: 0 };
+  }
+}
@@ -1,5 +1,7 @@
 // Status UI script
 
+import { importArchiveFile } from './archiveUploader';
+
 interface QueueStats {
   total: number;
   pending: number;
@@ -55,7 +57,10 @@ function renderSession(session?: any) {
     <div><b>ID</b>: ${session.id}</div>
     <div><b>Status</b>: ${session.status}</div>
     <div><b>Started</b>: ${new Date(session.startTime).toLocaleString()}</div>
-    <div><b>Progress</b>: ${session.tasksCompleted}/${session.tasksScheduled}, failed: ${session.tasksFailed}</div>
+    <div><b>Progress</b>: ${session.tasksCompleted}/${session.tasksScheduled}, failed: ${session.tasksFailed}${session.tasksSkipped ? `, skipped: ${session.tasksSkipped}` : ''}</div>
+    ${session.stages ? `<div class="grid">${Object.entries(session.stages).map(([stage, progress]: [string, any]) =>
+      `<div><b>${stage}</b><div>${progress.completed}/${progress.total}${progress.failed ? ` (${progress.failed} failed)` : ''}${progress.skipped ? ` (${progress.skipped} skipped)` : ''}</div></div>`
+    ).join('')}</div>` : ''}
   `;
 }
 
@@ -137,8 +142,96 @@ async function manualRescan() {
   }
 }
 
+function renderExportProgress(progress?: any) {
+  const el = document.getElementById('exportStatus');
+  if (!el || !progress) return;
+  if (progress.phase === 'failed') {
+    el.innerHTML = '<span class="red"></span>';
+    el.querySelector('span')!.textContent = `Export failed: ${progress.error}`;
+    return;
+  }
+  const counter = progress.total ? ` ${progress.processed}/${progress.total}` : '';
+  el.textContent = `Export: ${progress.phase}${counter} — ${(progress.bytesWritten / (1024*1024)).toFixed(2)} MB written`;
+}
+
+async function exportArchive() {
+  const btn = document.getElementById('exportBtn') as HTMLButtonElement;
+  btn.disabled = true;
+  try {
+    const result = await chrome.runtime.sendMessage({ type: 'EXPORT_ARCHIVE' });
+    const el = document.getElementById('exportStatus');
+    if (el && result?.success) {
+      el.textContent = `Exported ${result.entries} entries (${(result.bytes / (1024*1024)).toFixed(2)} MB) to ${result.fileName}`;
+    } else if (el) {
+      el.innerHTML = '<span class="red"></span>';
+      el.querySelector('span')!.textContent = `Export failed: ${result?.error || 'unknown error'}`;
+    }
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+async function exportVault() {
+  const btn = document.getElementById('vaultBtn') as HTMLButtonElement;
+  const el = document.getElementById('exportStatus');
+  btn.disabled = true;
+  if (el) el.textContent = 'Exporting notes…';
+  try {
+    const result = await chrome.runtime.sendMessage({ type: 'EXPORT_MARKDOWN_VAULT' });
+    if (el && result?.success) {
+      el.textContent = `Exported ${result.notes} notes and ${result.attachments} attachments from ${result.courses} courses to ${result.fileName}`;
+    } else if (el) {
+      el.innerHTML = '<span class="red"></span>';
+      el.querySelector('span')!.textContent = `Notes export failed: ${result?.error || 'unknown error'}`;
+    }
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+async function importArchive(file: File) {
+  const btn = document.getElementById('importBtn') as HTMLButtonElement;
+  const el = document.getElementById('exportStatus');
+  btn.disabled = true;
+  try {
+    const summary = await importArchiveFile(file, (store, processed, total) => {
+      if (el) el.textContent = `Import: ${store} ${processed}/${total}`;
+    });
+    if (el) {
+      const stores = Object.entries(summary.stores)
+        .map(([store, stats]) => `${store}: ${stats.inserted} new, ${stats.updated} updated, ${stats.unchanged + stats.kept} kept`)
+        .join('; ');
+      el.textContent = `Imported archive from ${new Date(summary.exportedAt).toLocaleString()} — ${stores}; courses: ${summary.courses.added} new`;
+    }
+    await load();
+  } catch (e) {
+    if (el) {
+      el.innerHTML = '<span class="red"></span>';
+      el.querySelector('span')!.textContent = `Import failed: ${e instanceof Error ? e.message : e}`;
+    }
+  } finally {
+    btn.disabled = false;
+  }
+}
+
+// Progress is broadcast by the service worker while an export runs
+chrome.runtime.onMessage.addListener((message) => {
+  if (message?.type === 'ARCHIVE_EXPORT_PROGRESS') {
+    renderExportProgress(message.progress);
+  }
+});
+
 document.addEventListener('DOMContentLoaded', () => {
   document.getElementById('rescanBtn')?.addEventListener('click', manualRescan);
+  document.getElementById('exportBtn')?.addEventListener('click', exportArchive);
+  document.getElementById('vaultBtn')?.addEventListener('click', exportVault);
+  const importFile = document.getElementById('importFile') as HTMLInputElement;
+  document.getElementById('importBtn')?.addEventListener('click', () => importFile.click());
+  importFile.addEventListener('change', () => {
+    const file = importFile.files?.[0];
+    importFile.value = '';
+    if (file) importArchive(file);
+  });
   load();
 });
 
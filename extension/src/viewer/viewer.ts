@@ -0,0 +1,454 @@
+// Offline Viewer script
+// Browses stored courses and renders captured pages with their links pointed at stored copies
+
+import { ContentUtils } from '../background/contentUtils';
+import type {
+  LibraryCourse,
+  LibraryFileResult,
+  LibraryItem,
+  LibraryPageResult,
+  LibraryTreeResult,
+  LinkResolutionResult,
+  LinkTarget
+} from '../background/offlineLibrary';
+import type {
+  RevisionDiffResult,
+  RevisionHistoryResult,
+  RevisionInfo,
+  RevisionItem,
+  RevisionItemsResult
+} from '../background/revisionHistory';
+
+// Blob URLs of files already fetched from the service worker
+const fileUrls = new Map<string, Promise<string | null>>();
+
+// Types the browser can show in a tab; anything else is downloaded
+const VIEWABLE_MIME_PATTERN = /^(image|text|video|audio)\/|^application\/pdf$/;
+
+// Applied inside rendered pages, whose Canvas stylesheets are not available offline
+const PAGE_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.5; max-width: 960px; margin: 0 auto; padding: 16px 24px; color: #212529; }
+  img { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; }
+  td, th { border: 1px solid #dee2e6; padding: 4px 8px; }
+  .screenreader-only, [hidden] { display: none !important; }
+  a.offline-missing { color: #adb5bd; text-decoration: line-through dotted; cursor: help; }
+  img.offline-missing { display: inline-block; min-width: 120px; min-height: 60px; background: #f1f3f5; border: 1px dashed #ced4da; }
+`;
+
+function pageHash(url: string): string {
+  return `#url=${encodeURIComponent(url)}`;
+}
+
+function historyHash(itemKey: string): string {
+  return `#history=${encodeURIComponent(itemKey)}`;
+}
+
+function currentUrl(): string | null {
+  const match = location.hash.match(/^#url=(.+)$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+async function loadTree() {
+  const el = document.getElementById('tree');
+  if (!el) return;
+
+  const result: LibraryTreeResult = await chrome.runtime.sendMessage({ type: 'LIBRARY_GET_TREE' });
+  if (!result?.success) {
+    el.innerHTML = '<span class="red"></span>';
+    el.querySelector('span')!.textContent = `Could not load courses: ${result?.error || 'unknown error'}`;
+    return;
+  }
+  if (!result.courses.length) {
+    el.textContent = 'No courses discovered yet';
+    return;
+  }
+
+  el.replaceChildren(...result.courses.map(renderCourse));
+}
+
+function renderCourse(course: LibraryCourse): HTMLElement {
+  const details = document.createElement('details');
+  details.className = 'course';
+
+  const summary = document.createElement('summary');
+  summary.textContent = course.name;
+  details.append(summary);
+
+  const home = document.createElement('ul');
+  home.className = 'items';
+  home.append(itemLink({ itemId: course.id, title: 'Course home', type: 'course', url: course.url, captured: course.captured }, course.id));
+  details.append(home);
+
+  for (const section of course.sections) {
+    const sectionDetails = document.createElement('details');
+    sectionDetails.className = 'section';
+
+    const sectionSummary = document.createElement('summary');
+    const captured = section.items.filter(item => item.captured).length;
+    sectionSummary.textContent = `${section.name} (${captured}/${section.items.length})`;
+
+    const list = document.createElement('ul');
+    list.className = 'items';
+    list.append(...section.items.map(item => itemLink(item, course.id)));
+
+    sectionDetails.append(sectionSummary, list);
+    details.append(sectionDetails);
+  }
+
+  return details;
+}
+
+function itemLink(item: LibraryItem, courseId: string): HTMLElement {
+  const li = document.createElement('li');
+  const a = document.createElement('a');
+  a.textContent = item.title;
+  a.title = item.url;
+
+  const fileId = item.url.match(/\/files\/(\d+)/)?.[1];
+  if (fileId && item.captured) {
+    a.href = item.url;
+    a.addEventListener('click', (e) => {
+      e.preventDefault();
+      openFile(courseId, fileId);
+    });
+  } else {
+    a.href = pageHash(item.url);
+  }
+
+  li.append(a);
+  if (!item.captured) {
+    a.className = 'missing';
+    const tag = document.createElement('span');
+    tag.className = 'tag';
+    tag.textContent = 'not captured';
+    li.append(tag);
+  }
+
+  return li;
+}
+
+async function showPage(url: string) {
+  const result: LibraryPageResult = await chrome.runtime.sendMessage({ type: 'LIBRARY_GET_PAGE', url });
+  if (!result?.success || !result.html) {
+    showPlaceholder(url, result?.error || 'Not captured');
+    return;
+  }
+
+  const doc = new DOMParser().parseFromString(result.html, 'text/html');
+  await rewritePage(doc, result.url);
+
+  setPageBar(result.title || doc.title || url, url, `Captured ${new Date(result.capturedAt || 0).toLocaleString()} (${result.source})`);
+
+  const frame = document.getElementById('frame') as HTMLIFrameElement;
+  document.getElementById('placeholder')!.hidden = true;
+  document.getElementById('history')!.hidden = true;
+  frame.hidden = false;
+  frame.onload = () => frame.contentDocument?.addEventListener('click', onFrameClick);
+  frame.srcdoc = `<!DOCTYPE html>${doc.documentElement.outerHTML}`;
+}
+
+function showPlaceholder(url: string, reason: string) {
+  setPageBar(url, url, '');
+
+  const frame = document.getElementById('frame') as HTMLIFrameElement;
+  frame.hidden = true;
+  frame.removeAttribute('srcdoc');
+
+  document.getElementById('history')!.hidden = true;
+  const el = document.getElementById('placeholder')!;
+  el.hidden = false;
+  el.innerHTML = '<h2>Not captured</h2><p></p><p class="mono"></p>';
+  el.querySelector('p')!.textContent = reason === 'Not captured'
+    ? 'This page has not been stored yet. It will be available offline after the next crawl that reaches it.'
+    : reason;
+  el.querySelector('.mono')!.textContent = url;
+}
+
+function setPageBar(title: string, url: string, meta: string) {
+  document.getElementById('pageTitle')!.textContent = title;
+  document.getElementById('pageMeta')!.textContent = meta;
+
+  const original = document.getElementById('pageOriginal') as HTMLAnchorElement;
+  original.href = url;
+  original.hidden = !/^https?:/.test(url);
+}
+
+// Strip anything that would reach the network, then point links and images at stored copies
+async function rewritePage(doc: Document, pageUrl: string) {
+  doc.querySelectorAll('script, noscript, base, meta[http-equiv], link[rel="stylesheet"], link[rel="preload"], link[rel="prefetch"]')
+    .forEach(el => el.remove());
+
+  const style = doc.createElement('style');
+  style.textContent = PAGE_STYLE;
+  doc.head.append(style);
+
+  const resolve = (value: string | null) => {
+    try {
+      return value ? new URL(value, pageUrl).href : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const anchors = Array.from(doc.querySelectorAll('a[href]'))
+    .map(a => ({ a, url: resolve(a.getAttribute('href')) }))
+    .filter((entry): entry is { a: Element; url: string } => !!entry.url && /^https?:/.test(entry.url));
+  const images = Array.from(doc.querySelectorAll('img[src]'))
+    .map(img => ({ img, url: resolve(img.getAttribute('src')) }))
+    .filter((entry): entry is { img: Element; url: string } => !!entry.url && /^https?:/.test(entry.url));
+
+  const resolution: LinkResolutionResult = await chrome.runtime.sendMessage({
+    type: 'LIBRARY_RESOLVE_LINKS',
+    pageUrl,
+    urls: [...anchors.map(entry => entry.url), ...images.map(entry => entry.url)]
+  });
+  const targets = resolution?.targets || {};
+
+  for (const { a, url } of anchors) {
+    rewriteAnchor(a, url, targets[url]);
+  }
+
+  await Promise.all(images.map(async ({ img, url }) => {
+    const target = targets[url];
+    img.removeAttribute('srcset');
+    if (target?.kind === 'file') {
+      const blobUrl = await fileUrl(target.courseId, target.fileId);
+      if (blobUrl) {
+        img.setAttribute('src', blobUrl);
+        return;
+      }
+    }
+    if (target?.kind !== 'external') {
+      img.removeAttribute('src');
+      img.classList.add('offline-missing');
+      img.setAttribute('title', `Not captured: ${url}`);
+    }
+  }));
+}
+
+function rewriteAnchor(a: Element, url: string, target: LinkTarget | undefined) {
+  a.removeAttribute('target');
+  a.setAttribute('data-offline-url', url);
+  a.setAttribute('data-offline-kind', target?.kind || 'missing');
+
+  switch (target?.kind) {
+    case 'page':
+      a.setAttribute('href', chrome.runtime.getURL(`viewer/viewer.html${pageHash(url)}`));
+      break;
+    case 'file':
+      a.setAttribute('data-offline-course', target.courseId);
+      a.setAttribute('data-offline-file', target.fileId);
+      break;
+    case 'external':
+      break;
+    default:
+      a.classList.add('offline-missing');
+      a.setAttribute('title', `Not captured: ${url}`);
+  }
+}
+
+// Pages render without scripts, so their links are followed from here
+function onFrameClick(e: MouseEvent) {
+  const a = (e.target as Element | null)?.closest?.('a[data-offline-kind]');
+  if (!a) return;
+
+  e.preventDefault();
+  const url = a.getAttribute('data-offline-url')!;
+
+  switch (a.getAttribute('data-offline-kind')) {
+    case 'file':
+      openFile(a.getAttribute('data-offline-course')!, a.getAttribute('data-offline-file')!);
+      break;
+    case 'external':
+      window.open(url, '_blank', 'noopener');
+      break;
+    default:
+      // Missing targets open to their placeholder
+      location.hash = pageHash(url);
+  }
+}
+
+// Swap the page frame for the revision history panel
+function showHistoryPanel(title: string, url: string | null, meta: string): HTMLElement {
+  setPageBar(title, url || '', meta);
+
+  const frame = document.getElementById('frame') as HTMLIFrameElement;
+  frame.hidden = true;
+  frame.removeAttribute('srcdoc');
+  document.getElementById('placeholder')!.hidden = true;
+
+  const el = document.getElementById('history')!;
+  el.hidden = false;
+  el.textContent = 'Loading…';
+  return el;
+}
+
+async function showRevisionItems() {
+  const el = showHistoryPanel('Revision history', null, '');
+  const result: RevisionItemsResult = await chrome.runtime.sendMessage({ type: 'GET_REVISION_ITEMS' });
+  if (!result?.success) {
+    el.innerHTML = '<span class="red"></span>';
+    el.querySelector('span')!.textContent = `Could not load revision history: ${result?.error || 'unknown error'}`;
+    return;
+  }
+
+  const changed = result.items.filter(item => item.revisions > 1).length;
+  document.getElementById('pageMeta')!.textContent = `${result.items.length} items tracked, ${changed} changed`;
+
+  const heading = document.createElement('h2');
+  heading.textContent = 'Changed items';
+  if (!result.items.length) {
+    el.replaceChildren(heading, 'No revisions stored yet. Assignments, pages, quizzes and syllabi are tracked as they are crawled.');
+    return;
+  }
+
+  const list = document.createElement('ul');
+  list.className = 'revision-list';
+  list.append(...result.items.map(renderRevisionItem));
+  el.replaceChildren(heading, list);
+}
+
+function renderRevisionItem(item: RevisionItem): HTMLElement {
+  const li = document.createElement('li');
+  const a = document.createElement('a');
+  a.href = historyHash(item.itemKey);
+  a.textContent = item.title;
+
+  const meta = document.createElement('div');
+  meta.className = 'meta';
+  const revisions = item.revisions === 1 ? '1 revision' : `${item.revisions} revisions`;
+  meta.textContent = `${item.courseName || item.courseId || 'Unknown course'} · ${item.itemType} · ${revisions} · last changed ${new Date(item.latest).toLocaleString()}`;
+
+  li.append(a, meta);
+  return li;
+}
+
+async function showRevisions(itemKey: string) {
+  const el = showHistoryPanel('Revision history', null, '');
+  const result: RevisionHistoryResult = await chrome.runtime.sendMessage({ type: 'GET_REVISION_HISTORY', itemKey });
+  if (!result?.success || !result.revisions.length) {
+    el.innerHTML = '<span class="red"></span>';
+    el.querySelector('span')!.textContent = `No revisions stored: ${result?.error || itemKey}`;
+    return;
+  }
+
+  const revisions = result.revisions;
+  const latest = revisions[revisions.length - 1];
+  setPageBar(latest.title, latest.url || '', `${revisions.length} revisions of ${latest.itemType}`);
+
+  const back = document.createElement('a');
+  back.href = '#history';
+  back.textContent = '← All changed items';
+
+  const controls = document.createElement('div');
+  controls.className = 'diff-controls';
+  const from = revisionSelect(revisions, Math.max(0, revisions.length - 2));
+  const to = revisionSelect(revisions, revisions.length - 1);
+  controls.append('Compare', from, 'with', to);
+
+  const output = document.createElement('div');
+  const update = () => renderDiff(output, from.value, to.value);
+  from.addEventListener('change', update);
+  to.addEventListener('change', update);
+
+  el.replaceChildren(back, controls, output);
+  await update();
+}
+
+function revisionSelect(revisions: RevisionInfo[], selected: number): HTMLSelectElement {
+  const select = document.createElement('select');
+  revisions.forEach((revision, index) => {
+    const option = document.createElement('option');
+    option.value = revision.id;
+    option.textContent = `#${index + 1} — ${new Date(revision.timestamp).toLocaleString()}`;
+    option.selected = index === selected;
+    select.append(option);
+  });
+  return select;
+}
+
+async function renderDiff(el: HTMLElement, fromId: string, toId: string) {
+  const result: RevisionDiffResult = await chrome.runtime.sendMessage({ type: 'GET_REVISION_DIFF', fromId, toId });
+  if (!result?.success) {
+    el.innerHTML = '<span class="red"></span>';
+    el.querySelector('span')!.textContent = `Could not compare revisions: ${result?.error || 'unknown error'}`;
+    return;
+  }
+
+  const stats = document.createElement('div');
+  stats.className = 'diff-stats';
+  stats.textContent = fromId === toId
+    ? 'Only one revision stored so far; its text is shown below.'
+    : `${result.stats.inserted} words added, ${result.stats.deleted} words removed`
+      + (result.approximate ? ' (too many changes to compare word by word; the changed part is shown as replaced)' : '');
+
+  const diff = document.createElement('div');
+  diff.className = 'diff';
+  diff.append(...result.segments.map(segment => {
+    if (segment.type === 'equal') return document.createTextNode(segment.text);
+    const mark = document.createElement(segment.type === 'insert' ? 'ins' : 'del');
+    mark.textContent = segment.text;
+    return mark;
+  }));
+
+  el.replaceChildren(stats, diff);
+}
+
+function fileUrl(courseId: string, fileId: string): Promise<string | null> {
+  const key = `${courseId}_${fileId}`;
+  if (!fileUrls.has(key)) {
+    fileUrls.set(key, fetchFile(courseId, fileId).then(file => file ? URL.createObjectURL(file.blob) : null));
+  }
+  return fileUrls.get(key)!;
+}
+
+async function fetchFile(courseId: string, fileId: string): Promise<{ blob: Blob; fileName: string } | null> {
+  const result: LibraryFileResult = await chrome.runtime.sendMessage({ type: 'LIBRARY_GET_FILE', courseId, fileId });
+  if (!result?.success || !result.data) return null;
+
+  const blob = new Blob([ContentUtils.base64ToArrayBuffer(result.data)], { type: result.mimeType || 'application/octet-stream' });
+  return { blob, fileName: result.fileName || `file-${fileId}` };
+}
+
+async function openFile(courseId: string, fileId: string) {
+  const file = await fetchFile(courseId, fileId);
+  if (!file) {
+    alert('This file has not been downloaded.');
+    return;
+  }
+
+  const url = URL.createObjectURL(file.blob);
+  if (VIEWABLE_MIME_PATTERN.test(file.blob.type)) {
+    window.open(url, '_blank');
+  } else {
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.fileName;
+    a.click();
+  }
+  // Give the new tab or download time to read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
+function route() {
+  const historyMatch = location.hash.match(/^#history(?:=(.+))?$/);
+  if (historyMatch) {
+    if (historyMatch[1]) {
+      showRevisions(decodeURIComponent(historyMatch[1]));
+    } else {
+      showRevisionItems();
+    }
+    return;
+  }
+
+  const url = currentUrl();
+  if (url) showPage(url);
+}
+
+window.addEventListener('hashchange', route);
+
+document.addEventListener('DOMContentLoaded', () => {
+  loadTree();
+  route();
+});
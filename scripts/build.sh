@@ -14,6 +14,21 @@ cp extension/src/popup/popup.html extension/dist/popup/
 cp extension/src/options/options.html extension/dist/options/
 mkdir -p extension/dist/status
 cp extension/src/status/status.html extension/dist/status/
+mkdir -p extension/dist/viewer
+cp extension/src/viewer/viewer.html extension/dist/viewer/
+mkdir -p extension/dist/digest
+cp extension/src/digest/digest.html extension/dist/digest/
+mkdir -p extension/dist/offscreen
+cp extension/src/offscreen/offscreen.html extension/dist/offscreen/
+cp node_modules/pdfjs-dist/build/pdf.worker.min.mjs extension/dist/offscreen/pdf.worker.mjs
+mkdir -p extension/dist/offscreen/tesseract
+cp node_modules/tesseract.js/dist/worker.min.js extension/dist/offscreen/tesseract/
+cp node_modules/tesseract.js-core/tesseract-core*.wasm.js extension/dist/offscreen/tesseract/
+# OCR language data for the languages offered in options, so recognition never downloads anything
+mkdir -p extension/dist/offscreen/tesseract/lang
+for lang in eng spa fra deu por ita nld chi_sim jpn kor ara; do
+  cp node_modules/@tesseract.js-data/$lang/4.0.0_best_int/$lang.traineddata.gz extension/dist/offscreen/tesseract/lang/
+done
 cp extension/manifest.json extension/dist/
 
 # Create icons directory and PNG icons
@@ -19,7 +19,13 @@ export default defineConfig({
         // Options
         'options/options': resolve(__dirname, 'extension/src/options/options.ts'),
         // Status UI
-        'status/status': resolve(__dirname, 'extension/src/status/status.ts')
+        'status/status': resolve(__dirname, 'extension/src/status/status.ts'),
+        // Offline viewer
+        'viewer/viewer': resolve(__dirname, 'extension/src/viewer/viewer.ts'),
+        // Daily digest
+        'digest/digest': resolve(__dirname, 'extension/src/digest/digest.ts'),
+        // Offscreen document (PDF parsing)
+        'offscreen/offscreen': resolve(__dirname, 'extension/src/offscreen/offscreen.ts')
       },
       output: {
         entryFileNames: '[name].js',